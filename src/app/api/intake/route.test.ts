@@ -0,0 +1,246 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { POST as intakePOST } from "@/app/api/intake/route";
+import { POST as pdfPOST } from "@/app/api/pdf/route";
+import { designDifferences } from "@/lib/climate";
+import { getJob } from "@/lib/jobStore";
+import { mockVisionProvider } from "@/lib/mockVision";
+import { runLoadCalc } from "@/lib/loadCalc";
+import type { LoadCalcInput, SidingType, WindowAmount } from "@/lib/loadCalc";
+import type { JobReportData } from "@/lib/jobReport";
+import { computeSizingVerdict } from "@/lib/sizingVerdict";
+
+// 1x1 transparent PNG, so the saved photos embed in the report.
+const PNG_BYTES = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+function photo(name: string): File {
+  return new File([PNG_BYTES], name, { type: "image/png" });
+}
+
+describe("intake → load calc → PDF with the mock vision provider", () => {
+  const env = { ...process.env };
+  let storeDir: string;
+
+  beforeAll(async () => {
+    storeDir = await mkdtemp(path.join(os.tmpdir(), "dr-hvac-jobs-"));
+    process.env.JOB_STORE_DIR = storeDir;
+    process.env.VISION_PROVIDER = "mock";
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("saves the job, sizes the house and renders the summary", async () => {
+    // ---------- INTAKE ----------
+    const form = new FormData();
+    form.append("address", "1200 Pine St, Seattle, WA 98101");
+    form.append("exteriorPhotos", photo("front.png"));
+    form.append("exteriorPhotos", photo("back.png"));
+    form.append("equipmentPhotos", photo("goodman-95-label.png"));
+    form.append("frontFacing", "north");
+    form.append("warrantyRegistered", "yes");
+
+    const intakeRes = await intakePOST(
+      new NextRequest("http://localhost/api/intake", {
+        method: "POST",
+        body: form,
+      })
+    );
+    expect(intakeRes.status).toBe(200);
+    const { data: intake } = await intakeRes.json();
+
+    expect(intake.visionProvider).toBe("mock");
+    expect(intake.jobId).toEqual(expect.any(String));
+    expect(intake.climate?.matchedBy).toBe("zip");
+    expect(intake.exteriorAnalysis.stories).toBe(2);
+    expect(intake.exteriorAnalysis.siding).toBe("vinyl");
+    expect(intake.equipmentAnalysis.manufacturer).toMatch(/goodman/i);
+    expect(intake.parseErrors.exterior).toEqual([]);
+    expect(intake.parseErrors.equipment).toEqual([]);
+
+    const saved = await getJob(intake.jobId);
+    expect(saved.address).toBe(intake.address);
+    expect(saved.photos.map((p) => p.kind)).toEqual([
+      "exterior",
+      "exterior",
+      "equipment",
+    ]);
+
+    // ---------- LOAD CALC ----------
+    const indoorRH = 50;
+    const climate = designDifferences(intake.climate.conditions, indoorRH);
+    const input: LoadCalcInput = {
+      sqft: 2200,
+      stories: intake.exteriorAnalysis.stories,
+      windows: intake.exteriorAnalysis.windows as WindowAmount,
+      orientation: intake.exteriorAnalysis.orientation ?? "unknown",
+      windowsByFacing: intake.exteriorAnalysis.windowsByFacing,
+      insulation: "average",
+      siding: intake.exteriorAnalysis.siding as SidingType,
+      designDeltaT: climate.coolingDeltaT,
+      indoorRH,
+      grainsDifference: climate.grainsDifference,
+      elevationFt: intake.climate.conditions.elevationFt,
+      heating: {
+        outdoorDesignTempF: intake.climate.conditions.heating99DB,
+        indoorSetpointF: 70,
+      },
+    };
+    const loadCalc = runLoadCalc(input);
+
+    expect(loadCalc.totalBTUH).toBeGreaterThan(0);
+    expect(loadCalc.sensibleBTUH + loadCalc.latentBTUH).toBe(
+      loadCalc.totalBTUH
+    );
+    expect(loadCalc.recommendedTonnage).toBeGreaterThan(0);
+    expect(loadCalc.heating?.requiredBTUH).toBeGreaterThan(0);
+
+    // ---------- PDF ----------
+    const summary: JobReportData = {
+      jobId: intake.jobId,
+      address: intake.address,
+      exterior: intake.exteriorAnalysis,
+      equipment: intake.equipmentAnalysis,
+      warranty: intake.warranty,
+      equipmentFlags: intake.equipmentFlags,
+      loadCalc,
+      sizingVerdict: computeSizingVerdict(intake.equipmentAnalysis, loadCalc),
+    };
+    const pdfRes = await pdfPOST(
+      new NextRequest("http://localhost/api/pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(summary),
+      })
+    );
+    expect(pdfRes.status).toBe(200);
+    expect(pdfRes.headers.get("Content-Type")).toBe("application/pdf");
+    const pdfBytes = Buffer.from(await pdfRes.arrayBuffer());
+    expect(pdfBytes.subarray(0, 5).toString("latin1")).toBe("%PDF-");
+
+    const withPdf = await getJob(intake.jobId);
+    expect(withPdf.pdfs).toHaveLength(1);
+    expect(withPdf.pdfs[0].label).toBe("job-summary");
+
+    // The proposal picks its own options; posted ones (here not even
+    // well-formed) are ignored.
+    const proposalRes = await pdfPOST(
+      new NextRequest("http://localhost/api/pdf?document=proposal", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...summary,
+          proposalOptions: [{ tier: "best", match: { withinManualS: true } }],
+        }),
+      })
+    );
+    expect(proposalRes.status).toBe(200);
+    const withProposal = await getJob(intake.jobId);
+    expect(withProposal.pdfs.map((p) => p.label)).toEqual([
+      "job-summary",
+      "proposal",
+    ]);
+  });
+
+  it("ignores an install year in the future", async () => {
+    const form = new FormData();
+    form.append("address", "1200 Pine St, Seattle, WA 98101");
+    form.append("exteriorPhotos", photo("front.png"));
+    form.append("installYear", String(new Date().getFullYear() + 1));
+
+    const res = await intakePOST(
+      new NextRequest("http://localhost/api/intake", {
+        method: "POST",
+        body: form,
+      })
+    );
+    const { data } = await res.json();
+    expect(data.warrantyContext.installYear).toBeNull();
+  });
+
+  it("keeps the other photos when one vision call fails", async () => {
+    const analyzeExterior = mockVisionProvider.analyzeExterior;
+    const spy = vi
+      .spyOn(mockVisionProvider, "analyzeExterior")
+      .mockImplementation(async (input) => {
+        if (input.image.fileName === "back.png") {
+          throw new Error("429 Rate limit reached");
+        }
+        return analyzeExterior(input);
+      });
+
+    try {
+      const form = new FormData();
+      form.append("address", "1200 Pine St, Seattle, WA 98101");
+      form.append("exteriorPhotos", photo("front.png"));
+      form.append("exteriorPhotos", photo("back.png"));
+
+      const res = await intakePOST(
+        new NextRequest("http://localhost/api/intake", {
+          method: "POST",
+          body: form,
+        })
+      );
+      expect(res.status).toBe(200);
+      const { data } = await res.json();
+
+      expect(data.jobId).toEqual(expect.any(String));
+      expect(data.exteriorAnalysis.stories).toBe(2);
+      expect(data.parseErrors.exterior).toEqual([
+        {
+          field: "back.png: $",
+          message: "Vision provider error: 429 Rate limit reached",
+        },
+      ]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("retries a label answer that fails the schema with a repair prompt", async () => {
+    const analyzeEquipmentLabel = mockVisionProvider.analyzeEquipmentLabel;
+    const repairPrompts: (string | undefined)[] = [];
+    const spy = vi
+      .spyOn(mockVisionProvider, "analyzeEquipmentLabel")
+      .mockImplementation(async (input) => {
+        repairPrompts.push(input.repairPrompt);
+        if (!input.repairPrompt) {
+          return '```json\n{"equipmentType": "toaster", "afue": "lots"}\n```';
+        }
+        return analyzeEquipmentLabel(input);
+      });
+
+    try {
+      const form = new FormData();
+      form.append("address", "1200 Pine St, Seattle, WA 98101");
+      form.append("exteriorPhotos", photo("front.png"));
+      form.append("equipmentPhotos", photo("goodman-95-label.png"));
+
+      const res = await intakePOST(
+        new NextRequest("http://localhost/api/intake", {
+          method: "POST",
+          body: form,
+        })
+      );
+      const { data } = await res.json();
+
+      expect(repairPrompts).toHaveLength(2);
+      expect(repairPrompts[1]).toContain(
+        '- equipmentType: Expected one of: furnace, air_handler, heat_pump, ac_condenser, package_unit, other. (got "toaster")'
+      );
+      expect(repairPrompts[1]).toContain('- afue: Expected a number. (got "lots")');
+      expect(data.equipmentAnalysis.manufacturer).toMatch(/goodman/i);
+      expect(data.parseErrors.equipment).toEqual([]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
@@ -1,7 +1,33 @@
 // src/app/api/intake/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { Buffer } from "buffer";
-import { openai } from "@/lib/openai";
+import {
+  getVisionProvider,
+  VisionImage,
+  VisionProvider,
+} from "@/lib/visionProvider";
+import {
+  EquipmentAnalysis,
+  ExteriorAnalysis,
+  ExteriorPhotoAnalysis,
+  ExteriorValidation,
+  FieldError,
+  IntakeData,
+  SchemaResult,
+  buildRepairPrompt,
+  parseEquipmentAnalysis,
+  parseExteriorAnalysis,
+} from "@/lib/intakeSchemas";
+import { resolveClimateFromAddress } from "@/lib/climate";
+import { processEquipment } from "@/lib/equipmentPipeline";
+import { NewJobPhoto, createJob } from "@/lib/jobStore";
+import { FACINGS } from "@/lib/envelope";
+import { mergeExteriorAnalyses } from "@/lib/exteriorMerge";
+import {
+  WEAK_CONFIDENCE,
+  isBlankValue,
+  weakFields,
+} from "@/lib/provenance";
 
 async function fileToBase64(file: File): Promise<string> {
   const arrayBuffer = await file.arrayBuffer();
@@ -9,25 +35,100 @@ async function fileToBase64(file: File): Promise<string> {
   return buffer.toString("base64");
 }
 
-// --------- EXTERIOR TYPES & VALIDATION ----------
+async function toVisionImage(file: File): Promise<VisionImage> {
+  return {
+    fileName: file.name,
+    mimeType: file.type,
+    base64: await fileToBase64(file),
+  };
+}
+
+function toJobPhoto(kind: NewJobPhoto["kind"], image: VisionImage): NewJobPhoto {
+  return {
+    kind,
+    fileName: image.fileName,
+    mimeType: image.mimeType,
+    data: Buffer.from(image.base64, "base64"),
+  };
+}
 
-export interface ExteriorAnalysis {
-  stories: number | string;
-  siding: string;
-  windows: string;
-  gutters: string;
-  condition: string;
-  confidence?: number;
+export type { EquipmentAnalysis, ExteriorAnalysis };
+
+// Vision calls in flight at once for the exterior photos; each one is a
+// high-detail read and may be followed by a repair retry.
+const MAX_CONCURRENT_VISION_CALLS = 3;
+
+// Runs `task` over `items` with at most `limit` running at once, keeping
+// the results in input order.
+async function mapWithLimit<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await task(items[i]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+function providerError(err: unknown): FieldError {
+  return {
+    field: "$",
+    message: `Vision provider error: ${
+      err instanceof Error ? err.message : String(err)
+    }`,
+  };
 }
 
-interface ValidationResult {
-  issues: string[];
-  needsClarification: boolean;
+// Parse the provider's answer; on any schema error ask once more with a
+// repair prompt and keep whichever answer has fewer problems. A failed
+// call (rate limit, network) becomes a field error instead of throwing.
+async function analyzeWithRepair<T>(
+  call: (repairPrompt?: string) => Promise<string | null>,
+  parse: (text: string) => SchemaResult<T>
+): Promise<SchemaResult<T>> {
+  let firstText: string | null;
+  try {
+    firstText = await call();
+  } catch (err) {
+    return { value: null, errors: [providerError(err)] };
+  }
+  if (firstText === null) {
+    return {
+      value: null,
+      errors: [{ field: "$", message: "No text returned by the vision provider." }],
+    };
+  }
+
+  const first = parse(firstText);
+  if (first.errors.length === 0) return first;
+
+  let retryText: string | null;
+  try {
+    retryText = await call(buildRepairPrompt(firstText, first.errors));
+  } catch (err) {
+    return { ...first, errors: [...first.errors, providerError(err)] };
+  }
+  if (retryText === null) return first;
+
+  const retry = parse(retryText);
+  if (retry.value && retry.errors.length < first.errors.length) return retry;
+  return first.value ? first : retry;
 }
 
+// --------- EXTERIOR VALIDATION ----------
+
 function validateExteriorAnalysis(
   analysis: ExteriorAnalysis | null
-): ValidationResult {
+): ExteriorValidation {
   const issues: string[] = [];
 
   if (!analysis) {
@@ -37,12 +138,27 @@ function validateExteriorAnalysis(
     return {
       issues,
       needsClarification: true,
+      weakFields: ["stories", "siding", "windows"],
     };
   }
 
-  const confidence = analysis.confidence ?? 0;
+  const weak = weakFields(analysis.provenance);
+  const lowConfidence = weak.filter(
+    (field) => !isBlankValue(analysis.provenance?.[field]?.value)
+  );
 
-  if (confidence < 0.75) {
+  if (lowConfidence.length > 0) {
+    issues.push(
+      `Low confidence in ${lowConfidence
+        .map(
+          (field) =>
+            `${field} (${Math.round(
+              (analysis.provenance?.[field]?.confidence ?? 0) * 100
+            )}%)`
+        )
+        .join(", ")}. Please confirm ${lowConfidence.length > 1 ? "these" : "it"}.`
+    );
+  } else if (!analysis.provenance && (analysis.confidence ?? 0) < WEAK_CONFIDENCE) {
     issues.push(
       "Overall confidence is low. Please confirm a few key details (stories, siding type, and approximate window amount)."
     );
@@ -77,157 +193,10 @@ function validateExteriorAnalysis(
   return {
     issues,
     needsClarification: issues.length > 0,
+    weakFields: weak,
   };
 }
 
-// --------- EQUIPMENT TYPES, WARRANTY & FLAGS ----------
-
-export interface EquipmentAnalysis {
-  equipmentType: string; // furnace, air_handler, heat_pump, ac_condenser, package_unit, other
-  manufacturer: string;
-  modelNumber: string;
-  serialNumber: string;
-  nominalTonnage?: number | null;
-  inputBTUH?: number | null;
-  outputBTUH?: number | null;
-  seer?: number | null;
-  seer2?: number | null;
-  hspf?: number | null;
-  hspf2?: number | null;
-  afue?: number | null;
-  refrigerant?: string | null;
-  heatStripKW?: number | null;
-  manufactureYear?: number | null;
-  stages?: string; // single, two-stage, variable, unknown
-
-  // sanity-check helpers
-  ventType?: string | null; // "metal_flue", "pvc", "mixed", "unknown"
-  afueSource?: string | null; // "label", "inferred", "model_lookup", "unknown"
-}
-
-interface WarrantyInfo {
-  manufactureYear: number | null;
-  approxAgeYears: number | null;
-  likelyWarrantyStatus:
-    | "likely_in_parts_warranty"
-    | "likely_out_of_warranty"
-    | "unknown";
-}
-
-interface EquipmentFlags {
-  afueVentMismatch: boolean;
-  notes: string[];
-}
-
-// 🔎 Small model → AFUE lookup (extend over time)
-const AFUE_MODEL_TABLE: Record<string, number> = {
-  // Trane / American Standard example (your current test)
-  AUD2B080A9V3VBA: 80,
-
-  // Example Goodman 95% you saw earlier:
-  GMH950703BX: 95,
-};
-
-function applyAfueFromModelTable(
-  equipment: EquipmentAnalysis | null
-): EquipmentAnalysis | null {
-  if (!equipment) return equipment;
-
-  // If AFUE already set by AI, don't override
-  if (equipment.afue !== null && equipment.afue !== undefined) {
-    return equipment;
-  }
-
-  const rawModel = equipment.modelNumber ?? "";
-  if (!rawModel) return equipment;
-
-  const key = rawModel.trim().toUpperCase();
-
-  if (AFUE_MODEL_TABLE[key] !== undefined) {
-    return {
-      ...equipment,
-      afue: AFUE_MODEL_TABLE[key],
-      afueSource: equipment.afueSource && equipment.afueSource !== "unknown"
-        ? equipment.afueSource
-        : "model_lookup",
-    };
-  }
-
-  return equipment;
-}
-
-function computeWarrantyInfo(
-  equipment: EquipmentAnalysis | null
-): WarrantyInfo {
-  if (!equipment || !equipment.manufactureYear) {
-    return {
-      manufactureYear: null,
-      approxAgeYears: null,
-      likelyWarrantyStatus: "unknown",
-    };
-  }
-
-  const currentYear = new Date().getFullYear();
-  const age = currentYear - equipment.manufactureYear;
-
-  if (age <= 10) {
-    return {
-      manufactureYear: equipment.manufactureYear,
-      approxAgeYears: age,
-      likelyWarrantyStatus: "likely_in_parts_warranty",
-    };
-  }
-
-  return {
-    manufactureYear: equipment.manufactureYear,
-    approxAgeYears: age,
-    likelyWarrantyStatus: "likely_out_of_warranty",
-  };
-}
-
-function analyzeEquipmentFlags(
-  equipment: EquipmentAnalysis | null
-): EquipmentFlags | null {
-  if (!equipment) return null;
-
-  const notes: string[] = [];
-  let afueVentMismatch = false;
-
-  const afue = equipment.afue ?? null;
-  const ventType = equipment.ventType ?? "unknown";
-
-  if (afue !== null && afue >= 90 && ventType === "metal_flue") {
-    afueVentMismatch = true;
-    notes.push(
-      "AI/model lookup says 90%+ AFUE, but venting appears to be metal/B-vent only. This often indicates an 80% furnace. Please confirm AFUE manually."
-    );
-  }
-
-  if (afue === null && ventType === "pvc") {
-    notes.push(
-      "Venting appears to be PVC, which often indicates a 90%+ condensing furnace. Confirm AFUE from the rating plate."
-    );
-  }
-
-  if (!afueVentMismatch && notes.length === 0) {
-    return { afueVentMismatch: false, notes: [] };
-  }
-
-  return { afueVentMismatch, notes };
-}
-
-// --------- OPENAI RESPONSE TYPES ----------
-
-interface OutputTextContent {
-  type: "output_text";
-  text: string;
-}
-
-interface OutputItem {
-  role?: string;
-  content?: OutputTextContent[];
-}
-
 // --------- MAIN HANDLER ----------
 
 export async function POST(request: NextRequest) {
@@ -236,6 +205,20 @@ export async function POST(request: NextRequest) {
   const address = formData.get("address");
   const exteriorRaw = formData.getAll("exteriorPhotos");
   const equipmentRaw = formData.getAll("equipmentPhotos");
+  const frontFacingRaw = formData.get("frontFacing");
+  const registeredRaw = formData.get("warrantyRegistered");
+  const installYearRaw = Number(formData.get("installYear"));
+
+  const registered =
+    registeredRaw === "yes" ? true : registeredRaw === "no" ? false : null;
+  const frontFacing = FACINGS.find((f) => f === frontFacingRaw) ?? null;
+  // A future year would start the warranty clock after today.
+  const installYear =
+    Number.isInteger(installYearRaw) &&
+    installYearRaw > 1950 &&
+    installYearRaw <= new Date().getFullYear()
+      ? installYearRaw
+      : null;
 
   const exteriorPhotos = exteriorRaw.filter(
     (entry): entry is File => entry instanceof File
@@ -257,230 +240,132 @@ export async function POST(request: NextRequest) {
     });
   }
 
-  // ---------- EXTERIOR ANALYSIS ----------
-
-  const firstExterior = exteriorPhotos[0];
-  const base64Exterior = await fileToBase64(firstExterior);
-  const exteriorDataUrl = `data:${firstExterior.type};base64,${base64Exterior}`;
-
-  const exteriorPrompt = `
-You are helping an HVAC load calculation tool.
-
-Given this exterior house photo and the address, estimate:
+  // ---------- CLIMATE DESIGN CONDITIONS ----------
 
-- number of stories (1, 1.5, 2, 3). If unsure, use "unknown".
-- siding type (vinyl, wood, fiber cement, stucco, brick, mixed, unknown).
-- rough window count on the visible sides (few, average, many, or "unknown").
-- presence of gutters (yes, no, unclear).
-- general exterior condition (good, average, poor).
-- a confidence score from 0 to 1.
+  const climate = resolveClimateFromAddress(String(address));
 
-Return ONLY valid JSON and nothing else:
-
-{
-  "stories": 2,
-  "siding": "vinyl",
-  "windows": "average",
-  "gutters": "yes",
-  "condition": "average",
-  "confidence": 0.8
-}
-`;
+  // ---------- EXTERIOR ANALYSIS ----------
 
-  const exteriorResponse = await openai.responses.create({
-    model: "gpt-4.1-mini",
-    input: [
+  let vision: VisionProvider;
+  try {
+    vision = getVisionProvider();
+  } catch (err) {
+    console.error("Vision provider error:", err);
+    return NextResponse.json(
       {
-        role: "user",
-        content: [
-          { type: "input_text", text: exteriorPrompt },
-          { type: "input_image", image_url: exteriorDataUrl, detail: "low" },
-        ],
+        ok: false,
+        message: err instanceof Error ? err.message : String(err),
       },
-    ],
-  });
-
-  const exteriorOutput = exteriorResponse.output[0] as OutputItem | undefined;
-
-  let exteriorAnalysis: ExteriorAnalysis | null = null;
+      { status: 500 }
+    );
+  }
+  const exteriorImages = await Promise.all(exteriorPhotos.map(toVisionImage));
+
+  // Every photo is read on its own and tagged with the side it shows,
+  // then the answers are merged into one analysis. A photo that fails
+  // only adds its errors; the others still merge.
+  const exteriorResults = await mapWithLimit(
+    exteriorImages,
+    MAX_CONCURRENT_VISION_CALLS,
+    (image) =>
+      analyzeWithRepair(
+        (repairPrompt) =>
+          vision.analyzeExterior({
+            address: String(address),
+            image,
+            repairPrompt,
+          }),
+        parseExteriorAnalysis
+      )
+  );
 
-  if (
-    exteriorOutput?.content &&
-    exteriorOutput.content[0]?.type === "output_text"
-  ) {
-    const text = exteriorOutput.content[0].text;
-    try {
-      const parsed = JSON.parse(text) as Partial<ExteriorAnalysis>;
-      if (parsed && typeof parsed === "object") {
-        exteriorAnalysis = {
-          stories: parsed.stories ?? "unknown",
-          siding: parsed.siding ?? "unknown",
-          windows: parsed.windows ?? "unknown",
-          gutters: parsed.gutters ?? "unclear",
-          condition: parsed.condition ?? "average",
-          confidence: parsed.confidence,
-        };
-      }
-    } catch {
-      exteriorAnalysis = null;
+  const exteriorPhotoAnalyses: ExteriorPhotoAnalysis[] = [];
+  const exteriorErrors: FieldError[] = [];
+  exteriorResults.forEach((result, i) => {
+    const fileName = exteriorImages[i].fileName;
+    if (result.value) {
+      exteriorPhotoAnalyses.push({ ...result.value, fileName });
     }
-  }
+    exteriorErrors.push(
+      ...result.errors.map((e) => ({ ...e, field: `${fileName}: ${e.field}` }))
+    );
+  });
+
+  const exteriorAnalysis = mergeExteriorAnalyses(
+    exteriorPhotoAnalyses,
+    frontFacing
+  );
 
   const exteriorValidation = validateExteriorAnalysis(exteriorAnalysis);
 
   // ---------- EQUIPMENT ANALYSIS (ADVANCED, STRONGER MODEL) ----------
 
-  let equipmentAnalysis: EquipmentAnalysis | null = null;
-
-  if (equipmentPhotos.length > 0) {
-    const equipmentImageContents = await Promise.all(
-      equipmentPhotos.map(async (file) => {
-        const base64 = await fileToBase64(file);
-        const url = `data:${file.type};base64,${base64}`;
-        return {
-          type: "input_image" as const,
-          image_url: url,
-          detail: "high" as const,
-        };
-      })
-    );
+  let equipmentLabelRead: EquipmentAnalysis | null = null;
+  let equipmentErrors: FieldError[] = [];
 
-    const equipmentPrompt = `
-You are helping an HVAC load calculation and replacement sizing tool.
-
-You are given one or more images. At least one image is a CLOSE-UP of an HVAC furnace data label. Other images may show the whole furnace, flue, or surrounding equipment.
-
-Your job:
-- Find the clearest label image(s).
-- Read the text on the label carefully.
-- Use wide shots ONLY to understand vent type (metal B-vent vs PVC) and general furnace style.
-
-From these images, extract as much as you can of the following. If you cannot find a field, set it to null or "unknown" as appropriate.
-
-Return ONLY JSON like this:
-
-{
-  "equipmentType": "furnace",
-  "manufacturer": "Trane",
-  "modelNumber": "AUD2B080A9V3VBA",
-  "serialNumber": "123745N3G1G",
-  "nominalTonnage": null,
-  "inputBTUH": 80000,
-  "outputBTUH": null,
-  "seer": null,
-  "seer2": null,
-  "hspf": null,
-  "hspf2": null,
-  "afue": 80,
-  "refrigerant": null,
-  "heatStripKW": null,
-  "manufactureYear": 2012,
-  "stages": "two-stage",
-  "ventType": "metal_flue",
-  "afueSource": "label"
-}
-
-/* Field definitions:
-
-- equipmentType: one of "furnace", "air_handler", "heat_pump", "ac_condenser", "package_unit", "other"
-- manufacturer: brand name if visible (e.g. Trane, American Standard, Goodman, Carrier, Rheem, etc.)
-- modelNumber, serialNumber: exact strings from the label
-- nominalTonnage: cooling tonnage (e.g. 2.5, 3, 4) if can be inferred
-- inputBTUH, outputBTUH: furnace only, if visible
-- seer, seer2, hspf, hspf2, afue: efficiency ratings if visible (null if not seen clearly)
-- refrigerant: e.g. "R-410A", "R-32", "R-454B", etc. (often not applicable for straight gas furnace)
-- heatStripKW: for electric heat strips (air handler / package), if visible
-- manufactureYear: a 4-digit year, inferred from the label/serial pattern if possible
-- stages: "single", "two-stage", "variable", or "unknown"
-
-- ventType:
-  - "metal_flue" if the furnace vents with metal/B-vent.
-  - "pvc" if the furnace vents with PVC pipes.
-  - "mixed" if both metal and PVC are part of the furnace venting.
-  - "unknown" if you cannot tell.
-
-- afueSource:
-  - "label" if AFUE was clearly read from a rating label.
-  - "inferred" if AFUE was inferred from model or other clues.
-  - "model_lookup" if AFUE came from a known model number → AFUE table.
-  - "unknown" if AFUE is unclear.
-
-Be conservative:
-- Prefer accurate "unknown" over a wrong number.
-- If venting looks like an 80% furnace (metal flue only) but the AFUE on the label is not readable, it's okay to leave "afue": null. A separate model lookup step may fill it in.
-*/
-`;
-
-    const equipmentResponse = await openai.responses.create({
-      model: "gpt-4.1",
-      input: [
-        {
-          role: "user",
-          content: [
-            { type: "input_text", text: equipmentPrompt },
-            ...equipmentImageContents,
-          ],
-        },
-      ],
-    });
+  const equipmentImages = await Promise.all(
+    equipmentPhotos.map(toVisionImage)
+  );
 
-    const equipmentOutput = equipmentResponse.output[0] as OutputItem | undefined;
-
-    if (
-      equipmentOutput?.content &&
-      equipmentOutput.content[0]?.type === "output_text"
-    ) {
-      const text = equipmentOutput.content[0].text;
-      try {
-        const parsed = JSON.parse(text) as Partial<EquipmentAnalysis>;
-        if (parsed && typeof parsed === "object") {
-          equipmentAnalysis = {
-            equipmentType: parsed.equipmentType ?? "furnace",
-            manufacturer: parsed.manufacturer ?? "unknown",
-            modelNumber: parsed.modelNumber ?? "unknown",
-            serialNumber: parsed.serialNumber ?? "unknown",
-            nominalTonnage: parsed.nominalTonnage ?? null,
-            inputBTUH: parsed.inputBTUH ?? null,
-            outputBTUH: parsed.outputBTUH ?? null,
-            seer: parsed.seer ?? null,
-            seer2: parsed.seer2 ?? null,
-            hspf: parsed.hspf ?? null,
-            hspf2: parsed.hspf2 ?? null,
-            afue: parsed.afue ?? null,
-            refrigerant: parsed.refrigerant ?? null,
-            heatStripKW: parsed.heatStripKW ?? null,
-            manufactureYear: parsed.manufactureYear ?? null,
-            stages: parsed.stages ?? "unknown",
-            ventType: parsed.ventType ?? "unknown",
-            afueSource: parsed.afueSource ?? "unknown",
-          };
-        }
-      } catch {
-        equipmentAnalysis = null;
-      }
-    }
+  if (equipmentImages.length > 0) {
+    const equipmentResult = await analyzeWithRepair(
+      (repairPrompt) =>
+        vision.analyzeEquipmentLabel({
+          images: equipmentImages,
+          repairPrompt,
+        }),
+      parseEquipmentAnalysis
+    );
+    equipmentLabelRead = equipmentResult.value;
+    equipmentErrors = equipmentResult.errors;
   }
 
-  // 🔁 apply AFUE model lookup, then warranty & flags
-  equipmentAnalysis = applyAfueFromModelTable(equipmentAnalysis);
+  // 🔁 model-number and serial decode, provenance, warranty & flags.
+  // The raw label read and warranty context go back to the client so
+  // the tech's corrections can re-run the same pipeline.
+  const warrantyContext = { registered, installYear };
+  const { equipmentAnalysis, warranty, equipmentFlags } = processEquipment(
+    equipmentLabelRead,
+    warrantyContext
+  );
 
-  const warranty = computeWarrantyInfo(equipmentAnalysis);
-  const equipmentFlags = analyzeEquipmentFlags(equipmentAnalysis);
+  const data: IntakeData = {
+    address: String(address),
+    photoCountExterior: exteriorPhotos.length,
+    photoCountEquipment: equipmentPhotos.length,
+    visionProvider: vision.name,
+    climate,
+    exteriorAnalysis,
+    exteriorValidation,
+    equipmentAnalysis,
+    equipmentLabelRead,
+    warrantyContext,
+    parseErrors: {
+      exterior: exteriorErrors,
+      equipment: equipmentErrors,
+    },
+    warranty,
+    equipmentFlags,
+  };
+
+  // 💾 Save the job; the analysis is still returned if saving fails.
+  let jobId: string | null = null;
+  try {
+    const photos: NewJobPhoto[] = [
+      ...exteriorImages.map((image) => toJobPhoto("exterior", image)),
+      ...equipmentImages.map((image) => toJobPhoto("equipment", image)),
+    ];
+    const job = await createJob({ address: data.address, photos, intake: data });
+    jobId = job.id;
+  } catch (err) {
+    console.error("Job save error:", err);
+  }
 
   return NextResponse.json({
     ok: true,
     message: exteriorValidation.needsClarification
       ? "AI analysis complete, but some exterior details need clarification."
       : "AI analysis complete.",
-    data: {
-      address,
-      photoCountExterior: exteriorPhotos.length,
-      photoCountEquipment: equipmentPhotos.length,
-      exteriorAnalysis,
-      exteriorValidation,
-      equipmentAnalysis,
-      warranty,
-      equipmentFlags,
-    },
+    data: { jobId, ...data },
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+// src/app/api/jobs/[id]/files/[file]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { JobNotFoundError, readJobFile } from "@/lib/jobStore";
+
+// Only these are served inline under their own type; anything else the
+// browser claimed on upload is sent as a download so it can't run as a page.
+const INLINE_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "application/pdf",
+];
+
+interface JobFileRouteContext {
+  params: Promise<{ id: string; file: string }>;
+}
+
+// Stored photos and generated PDFs for a job.
+export async function GET(_req: NextRequest, { params }: JobFileRouteContext) {
+  const { id, file } = await params;
+  try {
+    const { data, mimeType } = await readJobFile(id, file);
+    const inline = INLINE_MIME_TYPES.includes(mimeType);
+    return new Response(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        "Content-Type": inline ? mimeType : "application/octet-stream",
+        "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${file}"`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (err) {
+    if (err instanceof JobNotFoundError) {
+      return NextResponse.json(
+        { ok: false, message: err.message },
+        { status: 404 }
+      );
+    }
+    console.error("Job file error:", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to read job file." },
+      { status: 500 }
+    );
+  }
+}
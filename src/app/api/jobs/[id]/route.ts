@@ -0,0 +1,74 @@
+// src/app/api/jobs/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  JobNotFoundError,
+  deleteJob,
+  getJob,
+  updateJob,
+} from "@/lib/jobStore";
+import { parseJobUpdate } from "@/lib/jobSchemas";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(err: unknown, action: string) {
+  if (err instanceof JobNotFoundError) {
+    return NextResponse.json(
+      { ok: false, message: err.message },
+      { status: 404 }
+    );
+  }
+  console.error(`Job ${action} error:`, err);
+  return NextResponse.json(
+    { ok: false, message: `Failed to ${action} job.` },
+    { status: 500 }
+  );
+}
+
+export async function GET(_req: NextRequest, { params }: JobRouteContext) {
+  const { id } = await params;
+  try {
+    return NextResponse.json({ ok: true, data: await getJob(id) });
+  } catch (err) {
+    return errorResponse(err, "load");
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: JobRouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { ok: false, message: "Body must be JSON." },
+      { status: 400 }
+    );
+  }
+
+  const { value: update, errors } = parseJobUpdate(body);
+  if (!update) {
+    return NextResponse.json(
+      { ok: false, message: "Invalid job update.", errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ ok: true, data: await updateJob(id, update) });
+  } catch (err) {
+    return errorResponse(err, "update");
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: JobRouteContext) {
+  const { id } = await params;
+  try {
+    await deleteJob(id);
+    return NextResponse.json({ ok: true, message: "Job deleted." });
+  } catch (err) {
+    return errorResponse(err, "delete");
+  }
+}
@@ -0,0 +1,16 @@
+// src/app/api/jobs/route.ts
+import { NextResponse } from "next/server";
+import { listJobs } from "@/lib/jobStore";
+
+export async function GET() {
+  try {
+    const jobs = await listJobs();
+    return NextResponse.json({ ok: true, data: jobs });
+  } catch (err) {
+    console.error("Job list error:", err);
+    return NextResponse.json(
+      { ok: false, message: "Failed to list jobs." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,166 +1,83 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { JobReportData, ReportPhoto, buildJobReport } from "@/lib/jobReport";
+import { loadBrandLogo, loadBranding } from "@/lib/branding";
+import { buildProposal } from "@/lib/proposalReport";
+import { addJobPdf, getJob, readJobFile } from "@/lib/jobStore";
 
-export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json();
-
-    const {
-      address,
-      exterior,
-      equipment,
-      warranty,
-      equipmentFlags,
-      loadCalc,
-    } = body;
-
-    const pdf = await PDFDocument.create();
-    const page = pdf.addPage([595, 842]); // A4 size
-    const { width } = page.getSize();
-
-    const font = await pdf.embedFont(StandardFonts.Helvetica);
-    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
-
-    let y = 800;
-
-    const writeHeader = (text: string) => {
-      page.drawText(text, {
-        x: 40,
-        y,
-        size: 18,
-        font: bold,
-        color: rgb(0.2, 0.8, 0.4),
-      });
-      y -= 30;
-    };
-
-    const writeSectionTitle = (text: string) => {
-      page.drawText(text, {
-        x: 40,
-        y,
-        size: 14,
-        font: bold,
-      });
-      y -= 18;
-    };
-
-    const writeLine = (label: string, value: unknown) => {
-      const textValue =
-        value === null || value === undefined ? "N/A" : String(value);
-      page.drawText(`${label}: ${textValue}`, {
-        x: 40,
-        y,
-        size: 10,
-        font,
-      });
-      y -= 14;
-    };
-
-    // -------------------------
-    // HEADER
-    // -------------------------
-    writeHeader("Dr HVAC – Job Summary Report");
-    writeLine("Address", address);
-    y -= 10;
-
-    // -------------------------
-    // EXTERIOR
-    // -------------------------
-    writeSectionTitle("Exterior Analysis");
-
-    if (exterior) {
-      writeLine("Stories", exterior.stories);
-      writeLine("Siding", exterior.siding);
-      writeLine("Windows", exterior.windows);
-      writeLine("Gutters", exterior.gutters);
-      writeLine("Condition", exterior.condition);
-      writeLine("AI Confidence", exterior.confidence ?? "unknown");
-    } else {
-      writeLine("Exterior", "No exterior data available.");
-    }
-
-    y -= 10;
-
-    // -------------------------
-    // EQUIPMENT
-    // -------------------------
-    writeSectionTitle("Equipment Summary");
-
-    if (equipment) {
-      writeLine("Type", equipment.equipmentType);
-      writeLine("Manufacturer", equipment.manufacturer);
-      writeLine("Model Number", equipment.modelNumber);
-      writeLine("Serial Number", equipment.serialNumber);
-      writeLine("Input BTUH", equipment.inputBTUH);
-      writeLine("Stages", equipment.stages);
-      writeLine("AFUE", equipment.afue);
-      writeLine("Vent Type", equipment.ventType);
-    } else {
-      writeLine("Equipment", "No equipment data available.");
-    }
-
-    y -= 10;
+// ?document=proposal selects the customer proposal; the technician job
+// summary is the default.
+type PdfDocumentType = "job-summary" | "proposal";
 
-    // -------------------------
-    // WARRANTY
-    // -------------------------
-    writeSectionTitle("Warranty Information");
-
-    writeLine("Manufacture Year", warranty?.manufactureYear);
-    writeLine("Approx Age", warranty?.approxAgeYears);
-    writeLine("Warranty Status", warranty?.likelyWarrantyStatus);
-
-    y -= 10;
+// Photos saved with the job, when the summary came from a saved job.
+async function loadJobPhotos(jobId: string): Promise<ReportPhoto[]> {
+  try {
+    const job = await getJob(jobId);
+    return await Promise.all(
+      job.photos.map(async (photo) => {
+        const { data } = await readJobFile(jobId, photo.storedAs);
+        return {
+          kind: photo.kind,
+          fileName: photo.fileName,
+          mimeType: photo.mimeType,
+          bytes: new Uint8Array(data),
+        };
+      })
+    );
+  } catch (err) {
+    console.error("Job photo load error:", err);
+    return [];
+  }
+}
 
-    // -------------------------
-    // FLAGS
-    // -------------------------
-    writeSectionTitle("Equipment Flags");
+// Cooling design temperature from the saved intake, so proposal
+// capacities are derated the way the page derates them.
+async function loadCoolingDesignF(jobId: string): Promise<number | undefined> {
+  try {
+    const job = await getJob(jobId);
+    return job.intake?.climate?.conditions.cooling1DB;
+  } catch (err) {
+    console.error("Job climate load error:", err);
+    return undefined;
+  }
+}
 
-    if (equipmentFlags?.notes?.length > 0) {
-      equipmentFlags.notes.forEach((note: string) => writeLine("- Note", note));
+export async function POST(req: NextRequest) {
+  try {
+    const documentType: PdfDocumentType =
+      req.nextUrl.searchParams.get("document") === "proposal"
+        ? "proposal"
+        : "job-summary";
+    const body = (await req.json()) as JobReportData;
+    const jobId = typeof body.jobId === "string" ? body.jobId : null;
+
+    const branding = await loadBranding();
+    const logo = await loadBrandLogo(branding);
+
+    let pdfBytes: Uint8Array;
+    if (documentType === "proposal") {
+      const outdoorDesignF = jobId
+        ? await loadCoolingDesignF(jobId)
+        : undefined;
+      pdfBytes = await buildProposal(body, branding, logo, { outdoorDesignF });
     } else {
-      writeLine("Flags", "No flags detected.");
+      const photos = jobId ? await loadJobPhotos(jobId) : [];
+      pdfBytes = await buildJobReport(body, branding, logo, photos);
     }
 
-    y -= 10;
-
-    // -------------------------
-    // LOAD CALC
-    // -------------------------
-    writeSectionTitle("Manual-J Lite Load Calculation");
-
-    if (loadCalc) {
-      writeLine("Sensible BTUH", loadCalc.sensibleBTUH);
-      writeLine("Latent BTUH", loadCalc.latentBTUH);
-      writeLine("Total BTUH", loadCalc.totalBTUH);
-      writeLine(
-        "Recommended Tonnage",
-        `${loadCalc.recommendedTonnage} Tons`
-      );
-    } else {
-      writeLine("Load Calc", "Load calc not completed.");
+    // Keep a copy with the job when the summary came from a saved job.
+    if (jobId) {
+      try {
+        await addJobPdf(jobId, documentType, pdfBytes);
+      } catch (err) {
+        console.error("Job PDF save error:", err);
+      }
     }
 
-    // -------------------------
-    // FOOTER
-    // -------------------------
-    y = 40;
-    page.drawText("Generated by Dr HVAC AI", {
-      x: 40,
-      y,
-      size: 10,
-      font,
-      color: rgb(0.5, 0.5, 0.5),
-    });
-
-    const pdfBytes = await pdf.save();
-
-    return new Response(pdfBytes, {
+    return new Response(new Uint8Array(pdfBytes), {
       status: 200,
       headers: {
         "Content-Type": "application/pdf",
-        "Content-Disposition": "attachment; filename=job-summary.pdf",
+        "Content-Disposition": `attachment; filename=${documentType}.pdf`,
       },
     });
   } catch (err) {
@@ -1,68 +1,57 @@
 "use client";
 
-import React, { useState, FormEvent } from "react";
+import React, { useRef, useState, FormEvent } from "react";
 import LoadCalcPanel from "@/components/LoadCalcPanel";
-import { LoadCalcResult, WindowAmount, SidingType } from "@/lib/loadCalc";
-
-interface ExteriorAnalysis {
-  stories: number | string;
-  siding: string;
-  windows: string;
-  gutters: string;
-  condition: string;
-  confidence?: number;
-}
-
-interface ExteriorValidation {
-  issues: string[];
-  needsClarification: boolean;
-}
-
-interface EquipmentAnalysis {
-  equipmentType: string;
-  manufacturer: string;
-  modelNumber: string;
-  serialNumber: string;
-  nominalTonnage?: number | null;
-  inputBTUH?: number | null;
-  outputBTUH?: number | null;
-  seer?: number | null;
-  seer2?: number | null;
-  hspf?: number | null;
-  hspf2?: number | null;
-  afue?: number | null;
-  refrigerant?: string | null;
-  heatStripKW?: number | null;
-  manufactureYear?: number | null;
-  stages?: string;
-  ventType?: string | null;
-  afueSource?: string | null;
-}
-
-interface WarrantyInfo {
-  manufactureYear: number | null;
-  approxAgeYears: number | null;
-  likelyWarrantyStatus:
-    | "likely_in_parts_warranty"
-    | "likely_out_of_warranty"
-    | "unknown";
-}
-
-interface EquipmentFlags {
-  afueVentMismatch: boolean;
-  notes: string[];
-}
-
-interface IntakeData {
-  address: string;
-  photoCountExterior: number;
-  photoCountEquipment: number;
-  exteriorAnalysis: ExteriorAnalysis | null;
-  exteriorValidation: ExteriorValidation;
-  equipmentAnalysis: EquipmentAnalysis | null;
-  warranty: WarrantyInfo;
-  equipmentFlags: EquipmentFlags | null;
-}
+import EquipmentOptionsPanel from "@/components/EquipmentOptionsPanel";
+import RoomLoadPanel from "@/components/RoomLoadPanel";
+import {
+  LoadCalcInput,
+  LoadCalcResult,
+  SIDING_TYPES,
+  WINDOW_AMOUNTS,
+  runLoadCalc,
+} from "@/lib/loadCalc";
+import { FACINGS } from "@/lib/envelope";
+import { RoomInput, runRoomLoadCalc } from "@/lib/roomLoadCalc";
+import { computeSizingVerdict, SystemSizingVerdict } from "@/lib/sizingVerdict";
+import { EquipmentMatch, selectEquipment } from "@/lib/equipmentSelection";
+import { ProposalOption, buildProposalOptions } from "@/lib/proposal";
+import { WarrantyInfo, describeComponentWarranty } from "@/lib/warranty";
+import { FieldProvenance, isWeak } from "@/lib/provenance";
+import FieldSourceTag from "@/components/FieldSourceTag";
+import {
+  EMPTY_EQUIPMENT,
+  EquipmentFlags,
+  EquipmentOverrides,
+  equipmentReviewItems,
+  processEquipment,
+} from "@/lib/equipmentPipeline";
+import { EquipmentReviewForm } from "@/components/EquipmentReviewForm";
+import JobHistoryPanel from "@/components/JobHistoryPanel";
+import ScenarioComparePanel from "@/components/ScenarioComparePanel";
+import DuctDesignPanel from "@/components/DuctDesignPanel";
+import {
+  DuctDesignInput,
+  DuctDesignResult,
+  airflowForTonnage,
+  designDucts,
+} from "@/lib/ductDesign";
+import {
+  LoadCalcScenario,
+  ScenarioComparison,
+  compareScenarios,
+  saveScenario,
+} from "@/lib/loadCalcScenarios";
+import type {
+  EquipmentAnalysis,
+  ExteriorAnalysis,
+  IntakeData,
+} from "@/lib/intakeSchemas";
+import type { JobRecord, JobUpdate } from "@/lib/jobStore";
+import {
+  ClarificationForm,
+  CLARIFIED_FIELDS,
+} from "@/components/ClarificationForm";
 
 interface IntakeResponse {
   ok: boolean;
@@ -71,26 +60,76 @@ interface IntakeResponse {
 }
 
 interface JobSummary {
+  jobId: string | null;
   address: string;
+  visionProvider: string | null;
   exterior: ExteriorAnalysis | null;
   equipment: EquipmentAnalysis | null;
   warranty: WarrantyInfo;
   equipmentFlags: EquipmentFlags | null;
+  // Result of the selected scenario
   loadCalc: LoadCalcResult | null;
+  activeScenario: string | null;
+  loadCalcScenarios: ScenarioComparison[];
+  sizingVerdict: SystemSizingVerdict;
+  equipmentOptions: EquipmentMatch[];
+  // Good / better / best for the customer proposal PDF
+  proposalOptions: ProposalOption[];
+  ductDesign: DuctDesignResult | null;
+}
+
+type PdfDocumentType = "job-summary" | "proposal";
+
+// Equipment options shown in the panel (and the job summary PDF).
+const MAX_EQUIPMENT_OPTIONS = 5;
+
+// Weak or defaulted fields are highlighted for the tech to confirm.
+function weakClass(provenance: FieldProvenance | undefined): string | undefined {
+  return provenance && isWeak(provenance) ? "text-amber-300" : undefined;
+}
+
+// Saved jobs can hold inputs a calculator rejects (older saves, hand
+// edits); the page shows the reason instead of failing to render.
+function runSaved<T>(run: () => T): { result: T | null; error: string | null } {
+  try {
+    return { result: run(), error: null };
+  } catch (err) {
+    return {
+      result: null,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
 }
 
 export default function HomePage() {
   const [address, setAddress] = useState<string>("");
   const [exteriorPhotos, setExteriorPhotos] = useState<FileList | null>(null);
   const [equipmentPhotos, setEquipmentPhotos] = useState<FileList | null>(null);
+  const [warrantyRegistered, setWarrantyRegistered] = useState<string>("");
+  const [installYear, setInstallYear] = useState<string>("");
+  const [frontFacing, setFrontFacing] = useState<string>("");
+  // Bumped per intake (and per confirmation) so the load calc panel
+  // re-reads its defaults.
+  const [intakeCount, setIntakeCount] = useState<number>(0);
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [rawResponse, setRawResponse] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<IntakeData | null>(null);
-  const [loadCalcResult, setLoadCalcResult] = useState<LoadCalcResult | null>(
+  // Named load calc runs; the active one drives the summary.
+  const [scenarios, setScenarios] = useState<LoadCalcScenario[]>([]);
+  const [activeScenario, setActiveScenario] = useState<string | null>(null);
+  const [rooms, setRooms] = useState<RoomInput[] | null>(null);
+  const [equipmentOverrides, setEquipmentOverrides] =
+    useState<EquipmentOverrides>({});
+  // Bumped per correction so the review form re-reads the equipment.
+  const [equipmentRevision, setEquipmentRevision] = useState<number>(0);
+  const [ductDesignInput, setDuctDesignInput] =
+    useState<DuctDesignInput | null>(null);
+  const [generatingPdf, setGeneratingPdf] = useState<PdfDocumentType | null>(
     null
   );
   const [error, setError] = useState<string | null>(null);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
 
   async function handleSubmit(e: FormEvent<HTMLFormElement>) {
     e.preventDefault();
@@ -98,11 +137,18 @@ export default function HomePage() {
     setIsLoading(true);
     setRawResponse(null);
     setAnalysis(null);
-    setLoadCalcResult(null);
+    setScenarios([]);
+    setDuctDesignInput(null);
+    setActiveScenario(null);
+    setRooms(null);
+    setEquipmentOverrides({});
 
     try {
       const formData = new FormData();
       formData.append("address", address);
+      formData.append("warrantyRegistered", warrantyRegistered);
+      formData.append("installYear", installYear);
+      formData.append("frontFacing", frontFacing);
 
       if (exteriorPhotos) {
         Array.from(exteriorPhotos).forEach((file) => {
@@ -121,15 +167,17 @@ export default function HomePage() {
         body: formData,
       });
 
-      if (!res.ok) {
+      // Failures the API explains (like a missing vision provider) come
+      // back as JSON with a message worth showing.
+      const json = (await res.json().catch(() => null)) as IntakeResponse | null;
+      if (!json) {
         throw new Error(`Request failed with status ${res.status}`);
       }
-
-      const json = (await res.json()) as IntakeResponse;
       setRawResponse(JSON.stringify(json, null, 2));
 
       if (json.ok && json.data) {
         setAnalysis(json.data);
+        setIntakeCount((n) => n + 1);
       } else {
         setError(json.message || "Unknown error from API.");
       }
@@ -141,14 +189,242 @@ export default function HomePage() {
     }
   }
 
+  // Persist edits to the saved job; the page keeps working if this fails.
+  // Saves run one at a time, so an older body never lands after a newer one.
+  function saveJob(update: JobUpdate) {
+    const jobId = analysis?.jobId;
+    if (!jobId) return;
+
+    saveQueue.current = saveQueue.current.then(async () => {
+      try {
+        const res = await fetch(`/api/jobs/${jobId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(update),
+        });
+        if (!res.ok) {
+          const json = await res.json().catch(() => null);
+          const fields = (json?.errors ?? [])
+            .map((e: { field: string }) => e.field)
+            .join(", ");
+          throw new Error(
+            `${json?.message ?? `status ${res.status}`}${fields ? ` (${fields})` : ""}`
+          );
+        }
+      } catch (err) {
+        console.error("Job save failed:", err);
+        setError(
+          `Your changes were not saved to the job: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      }
+    });
+  }
+
+  function updateScenarios(next: LoadCalcScenario[], active: string | null) {
+    setScenarios(next);
+    setActiveScenario(active);
+    saveJob({ loadCalcScenarios: next, activeScenario: active });
+  }
+
+  function handleLoadCalcResult(
+    result: LoadCalcResult,
+    input: LoadCalcInput,
+    scenarioName: string
+  ) {
+    updateScenarios(
+      saveScenario(scenarios, scenarioName, input, result),
+      scenarioName
+    );
+  }
+
+  async function handleDownloadPdf(documentType: PdfDocumentType) {
+    if (!jobSummary) return;
+
+    setError(null);
+    setGeneratingPdf(documentType);
+    try {
+      const res = await fetch(`/api/pdf?document=${documentType}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(jobSummary),
+      });
+      if (!res.ok) {
+        throw new Error(`PDF request failed with status ${res.status}`);
+      }
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${documentType}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setError("Could not generate the PDF.");
+    } finally {
+      setGeneratingPdf(null);
+    }
+  }
+
+  function handleDuctDesign(input: DuctDesignInput) {
+    setDuctDesignInput(input);
+    saveJob({ ductDesign: input });
+  }
+
+  function handleDeleteScenario(name: string) {
+    const next = scenarios.filter((s) => s.name !== name);
+    updateScenarios(
+      next,
+      activeScenario === name ? next[0]?.name ?? null : activeScenario
+    );
+  }
+
+  function handleRoomLoads(next: RoomInput[]) {
+    setRooms(next);
+    saveJob({ rooms: next });
+  }
+
+  function handleOpenJob(job: JobRecord) {
+    const intake = job.intake;
+    if (!intake) {
+      setError("This job has no saved analysis.");
+      return;
+    }
+
+    setError(null);
+    setRawResponse(null);
+    setAddress(job.address);
+    setAnalysis({ ...intake, jobId: job.id });
+    setScenarios(job.loadCalcScenarios);
+    setActiveScenario(job.activeScenario);
+    setEquipmentOverrides(job.clarifications.equipmentOverrides);
+    // Jobs saved before duct design existed have no entry.
+    setDuctDesignInput(job.ductDesign ?? null);
+    setRooms(job.rooms ?? null);
+    setIntakeCount((n) => n + 1);
+  }
+
+  function handleClarificationConfirm(updated: ExteriorAnalysis) {
+    if (!analysis) return;
+
+    const nextAnalysis: IntakeData = {
+      ...analysis,
+      exteriorAnalysis: updated,
+      exteriorValidation: {
+        issues: [],
+        needsClarification: false,
+        weakFields: analysis.exteriorValidation.weakFields.filter(
+          (field) => !(CLARIFIED_FIELDS as readonly string[]).includes(field)
+        ),
+      },
+    };
+    setAnalysis(nextAnalysis);
+    // Re-seed the load calc panel with the confirmed values.
+    setIntakeCount((n) => n + 1);
+
+    const update: JobUpdate = {
+      intake: nextAnalysis,
+      clarifications: { exterior: updated },
+    };
+
+    // Re-run every scenario with the confirmed values (unknowns keep
+    // theirs); they describe the same house.
+    const siding = SIDING_TYPES.find((s) => s === updated.siding);
+    const windows = WINDOW_AMOUNTS.find((w) => w === updated.windows);
+    if (scenarios.length > 0) {
+      let next = scenarios;
+      for (const scenario of scenarios) {
+        const input: LoadCalcInput = {
+          ...scenario.input,
+          stories:
+            typeof updated.stories === "number"
+              ? updated.stories
+              : scenario.input.stories,
+          windows:
+            windows && windows !== "unknown"
+              ? windows
+              : scenario.input.windows,
+          siding:
+            siding && siding !== "unknown" ? siding : scenario.input.siding,
+        };
+        next = saveScenario(next, scenario.name, input, runLoadCalc(input));
+      }
+      setScenarios(next);
+      update.loadCalcScenarios = next;
+    }
+
+    saveJob(update);
+  }
+
+  function handleEquipmentCorrections(overrides: EquipmentOverrides) {
+    if (!analysis) return;
+
+    const merged = { ...equipmentOverrides, ...overrides };
+    const nextAnalysis: IntakeData = {
+      ...analysis,
+      ...processEquipment(
+        analysis.equipmentLabelRead,
+        analysis.warrantyContext,
+        merged
+      ),
+    };
+    setEquipmentOverrides(merged);
+    setAnalysis(nextAnalysis);
+    setEquipmentRevision((n) => n + 1);
+
+    saveJob({
+      intake: nextAnalysis,
+      clarifications: { equipmentOverrides: merged },
+    });
+  }
+
+  const selectedScenario =
+    scenarios.find((s) => s.name === activeScenario) ?? null;
+  const loadCalcResult = selectedScenario?.result ?? null;
+
+  // Rooms share the selected scenario's house-wide answers, so they
+  // follow it when another scenario is picked.
+  const { result: roomLoads, error: roomLoadsError } =
+    rooms && selectedScenario
+      ? runSaved(() => runRoomLoadCalc({ ...selectedScenario.input, rooms }))
+      : { result: null, error: null };
+
+  // Every catalog match, best first; the panel shows the top few.
+  const equipmentMatches =
+    analysis && loadCalcResult
+      ? selectEquipment(loadCalcResult, {
+          outdoorDesignF: analysis.climate?.conditions.cooling1DB,
+          maxResults: Number.POSITIVE_INFINITY,
+        })
+      : [];
+
+  const { result: ductDesign, error: ductDesignError } = ductDesignInput
+    ? runSaved(() => designDucts(ductDesignInput))
+    : { result: null, error: null };
+
   const jobSummary: JobSummary | null = analysis
     ? {
+        jobId: analysis.jobId ?? null,
         address: analysis.address,
+        visionProvider: analysis.visionProvider ?? null,
         exterior: analysis.exteriorAnalysis,
         equipment: analysis.equipmentAnalysis,
         warranty: analysis.warranty,
         equipmentFlags: analysis.equipmentFlags,
         loadCalc: loadCalcResult,
+        activeScenario,
+        loadCalcScenarios: compareScenarios(scenarios),
+        sizingVerdict: computeSizingVerdict(
+          analysis.equipmentAnalysis,
+          loadCalcResult
+        ),
+        equipmentOptions: equipmentMatches.slice(0, MAX_EQUIPMENT_OPTIONS),
+        proposalOptions: loadCalcResult
+          ? buildProposalOptions(loadCalcResult, equipmentMatches)
+          : [],
+        ductDesign,
       }
     : null;
 
@@ -157,13 +433,16 @@ export default function HomePage() {
       ? analysis.exteriorAnalysis.stories
       : undefined;
 
-  const defaultWindows = analysis?.exteriorAnalysis?.windows
-    ? (analysis.exteriorAnalysis.windows as WindowAmount)
-    : undefined;
+  const defaultWindows = WINDOW_AMOUNTS.find(
+    (w) => w === analysis?.exteriorAnalysis?.windows
+  );
+
+  const defaultSiding = SIDING_TYPES.find(
+    (s) => s === analysis?.exteriorAnalysis?.siding
+  );
 
-  const defaultSiding = analysis?.exteriorAnalysis?.siding
-    ? (analysis.exteriorAnalysis.siding as SidingType)
-    : undefined;
+  const defaultOrientation = analysis?.exteriorAnalysis?.orientation;
+  const windowsByFacing = analysis?.exteriorAnalysis?.windowsByFacing;
 
   return (
     <main className="min-h-screen bg-slate-950 text-slate-100">
@@ -198,7 +477,7 @@ export default function HomePage() {
 
           <div className="space-y-1 text-xs">
             <label className="block font-medium text-slate-200">
-              Exterior Photos (front of house, sides)
+              Exterior Photos (front, back and both sides)
             </label>
             <input
               type="file"
@@ -208,10 +487,29 @@ export default function HomePage() {
               className="block w-full text-xs text-slate-300"
             />
             <p className="text-[11px] text-slate-500">
-              At least one exterior photo is required.
+              At least one exterior photo is required. Each photo is read
+              separately; one per side gives window amounts by direction.
             </p>
           </div>
 
+          <div className="space-y-1 text-xs">
+            <label className="block font-medium text-slate-200">
+              Front of house faces
+            </label>
+            <select
+              value={frontFacing}
+              onChange={(e) => setFrontFacing(e.target.value)}
+              className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100"
+            >
+              <option value="">Unknown</option>
+              {FACINGS.map((facing) => (
+                <option key={facing} value={facing}>
+                  {facing}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="space-y-1 text-xs">
             <label className="block font-medium text-slate-200">
               Equipment Photos (furnace label, open door, flue, etc.)
@@ -228,6 +526,37 @@ export default function HomePage() {
             </p>
           </div>
 
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div className="space-y-1">
+              <label className="block font-medium text-slate-200">
+                Registered with manufacturer?
+              </label>
+              <select
+                value={warrantyRegistered}
+                onChange={(e) => setWarrantyRegistered(e.target.value)}
+                className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100"
+              >
+                <option value="">Unknown</option>
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="block font-medium text-slate-200">
+                Install year (optional)
+              </label>
+              <input
+                type="number"
+                min={1951}
+                max={new Date().getFullYear()}
+                value={installYear}
+                onChange={(e) => setInstallYear(e.target.value)}
+                placeholder="Defaults to manufacture date"
+                className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-emerald-400"
+              />
+            </div>
+          </div>
+
           {error && (
             <div className="text-[11px] text-red-400 border border-red-500/40 bg-red-950/40 rounded-md px-2 py-1">
               {error}
@@ -243,7 +572,25 @@ export default function HomePage() {
           </button>
         </form>
 
+        <JobHistoryPanel
+          currentJobId={analysis?.jobId}
+          onOpen={handleOpenJob}
+        />
+
         {/* Human-readable summary */}
+        {analysis?.visionProvider && (
+          <p
+            className={`mt-6 text-[11px] ${
+              analysis.visionProvider === "mock"
+                ? "text-amber-300"
+                : "text-slate-400"
+            }`}
+          >
+            Photos read by: <strong>{analysis.visionProvider}</strong>
+            {analysis.visionProvider === "mock" &&
+              " (offline fixtures, not the uploaded photos)"}
+          </p>
+        )}
         {analysis && (
           <div className="mt-6 grid gap-4 md:grid-cols-2">
             <div className="border border-slate-800 rounded-lg p-3 bg-slate-900/60">
@@ -252,25 +599,95 @@ export default function HomePage() {
               </h2>
               {analysis.exteriorAnalysis ? (
                 <ul className="text-[11px] space-y-1 text-slate-300">
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.exteriorAnalysis.provenance?.stories
+                    )}
+                  >
                     <strong>Stories:</strong> {String(analysis.exteriorAnalysis.stories)}
+                    <FieldSourceTag
+                      provenance={analysis.exteriorAnalysis.provenance?.stories}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.exteriorAnalysis.provenance?.siding
+                    )}
+                  >
                     <strong>Siding:</strong> {analysis.exteriorAnalysis.siding}
+                    <FieldSourceTag
+                      provenance={analysis.exteriorAnalysis.provenance?.siding}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.exteriorAnalysis.provenance?.windows
+                    )}
+                  >
                     <strong>Windows:</strong> {analysis.exteriorAnalysis.windows}
+                    <FieldSourceTag
+                      provenance={analysis.exteriorAnalysis.provenance?.windows}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.exteriorAnalysis.provenance?.gutters
+                    )}
+                  >
                     <strong>Gutters:</strong> {analysis.exteriorAnalysis.gutters}
+                    <FieldSourceTag
+                      provenance={analysis.exteriorAnalysis.provenance?.gutters}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.exteriorAnalysis.provenance?.condition
+                    )}
+                  >
                     <strong>Condition:</strong> {analysis.exteriorAnalysis.condition}
+                    <FieldSourceTag
+                      provenance={analysis.exteriorAnalysis.provenance?.condition}
+                    />
                   </li>
                   <li>
                     <strong>Confidence:</strong>{" "}
                     {analysis.exteriorAnalysis.confidence ?? "N/A"}
                   </li>
+                  {analysis.exteriorAnalysis.fieldConfidence && (
+                    <li className="text-slate-400">
+                      Per field:{" "}
+                      {Object.entries(analysis.exteriorAnalysis.fieldConfidence)
+                        .map(([field, c]) => `${field} ${c}`)
+                        .join(", ")}
+                    </li>
+                  )}
+                  {analysis.exteriorAnalysis.windowsByFacing &&
+                    Object.keys(analysis.exteriorAnalysis.windowsByFacing)
+                      .length > 0 && (
+                      <li>
+                        <strong>Windows by side:</strong>{" "}
+                        {FACINGS.filter(
+                          (f) => analysis.exteriorAnalysis?.windowsByFacing?.[f]
+                        )
+                          .map(
+                            (f) =>
+                              `${f} ${analysis.exteriorAnalysis?.windowsByFacing?.[f]}`
+                          )
+                          .join(", ")}
+                        {analysis.exteriorAnalysis.orientation
+                          ? ` (most glass: ${analysis.exteriorAnalysis.orientation})`
+                          : ""}
+                      </li>
+                    )}
+                  {analysis.exteriorAnalysis.photos &&
+                    analysis.exteriorAnalysis.photos.length > 1 && (
+                      <li className="text-slate-400">
+                        Photos:{" "}
+                        {analysis.exteriorAnalysis.photos
+                          .map((p) => `${p.fileName} (${p.side ?? "unknown"})`)
+                          .join(", ")}
+                      </li>
+                    )}
                 </ul>
               ) : (
                 <p className="text-[11px] text-slate-400">
@@ -278,16 +695,29 @@ export default function HomePage() {
                 </p>
               )}
               {analysis.exteriorValidation.needsClarification &&
-                analysis.exteriorValidation.issues.length > 0 && (
-                  <div className="mt-2 text-[11px] text-amber-300">
-                    <p className="font-semibold">Needs clarification:</p>
-                    <ul className="list-disc ml-4 mt-1 space-y-1">
-                      {analysis.exteriorValidation.issues.map((issue, i) => (
-                        <li key={i}>{issue}</li>
-                      ))}
-                    </ul>
-                  </div>
+                analysis.exteriorAnalysis && (
+                  <ClarificationForm
+                    key={intakeCount}
+                    analysis={analysis.exteriorAnalysis}
+                    validation={analysis.exteriorValidation}
+                    onConfirm={handleClarificationConfirm}
+                  />
                 )}
+              {analysis.parseErrors && analysis.parseErrors.exterior.length > 0 && (
+                <div className="mt-2 text-[11px] text-slate-400">
+                  <p className="font-semibold">AI answer problems (ignored):</p>
+                  <ul className="list-disc ml-4 mt-1 space-y-1">
+                    {analysis.parseErrors.exterior.map((e, i) => (
+                      <li key={i}>
+                        {e.field}: {e.message}
+                        {e.received !== undefined
+                          ? ` Got ${JSON.stringify(e.received)}.`
+                          : ""}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             <div className="border border-slate-800 rounded-lg p-3 bg-slate-900/60">
@@ -296,43 +726,170 @@ export default function HomePage() {
               </h2>
               {analysis.equipmentAnalysis ? (
                 <ul className="text-[11px] space-y-1 text-slate-300">
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.equipmentType
+                    )}
+                  >
                     <strong>Type:</strong> {analysis.equipmentAnalysis.equipmentType}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.equipmentType}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.manufacturer
+                    )}
+                  >
                     <strong>Manufacturer:</strong>{" "}
                     {analysis.equipmentAnalysis.manufacturer}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.manufacturer}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.modelNumber
+                    )}
+                  >
                     <strong>Model:</strong>{" "}
                     {analysis.equipmentAnalysis.modelNumber}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.modelNumber}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.serialNumber
+                    )}
+                  >
                     <strong>Serial:</strong>{" "}
                     {analysis.equipmentAnalysis.serialNumber}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.serialNumber}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.inputBTUH
+                    )}
+                  >
                     <strong>Input BTUH:</strong>{" "}
                     {analysis.equipmentAnalysis.inputBTUH ?? "N/A"}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.inputBTUH}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.stages
+                    )}
+                  >
                     <strong>Stages:</strong>{" "}
                     {analysis.equipmentAnalysis.stages ?? "unknown"}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.stages}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.ventType
+                    )}
+                  >
                     <strong>Vent Type:</strong>{" "}
                     {analysis.equipmentAnalysis.ventType ?? "unknown"}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.ventType}
+                    />
                   </li>
-                  <li>
+                  <li
+                    className={weakClass(
+                      analysis.equipmentAnalysis.provenance?.afue
+                    )}
+                  >
                     <strong>AFUE:</strong>{" "}
                     {analysis.equipmentAnalysis.afue ?? "unknown"}
+                    {analysis.equipmentAnalysis.afueSource &&
+                    analysis.equipmentAnalysis.afueSource !== "unknown"
+                      ? ` – ${analysis.equipmentAnalysis.afueSource}`
+                      : ""}
+                    <FieldSourceTag
+                      provenance={analysis.equipmentAnalysis.provenance?.afue}
+                    />
                   </li>
+                  {analysis.equipmentAnalysis.nominalTonnage ? (
+                    <li
+                      className={weakClass(
+                        analysis.equipmentAnalysis.provenance?.nominalTonnage
+                      )}
+                    >
+                      <strong>Tonnage:</strong>{" "}
+                      {analysis.equipmentAnalysis.nominalTonnage}
+                      <FieldSourceTag
+                        provenance={analysis.equipmentAnalysis.provenance?.nominalTonnage}
+                      />
+                    </li>
+                  ) : null}
+                  {analysis.equipmentAnalysis.efficiencyTier ? (
+                    <li
+                      className={weakClass(
+                        analysis.equipmentAnalysis.provenance?.efficiencyTier
+                      )}
+                    >
+                      <strong>Efficiency Tier:</strong>{" "}
+                      {analysis.equipmentAnalysis.efficiencyTier}
+                      <FieldSourceTag
+                        provenance={analysis.equipmentAnalysis.provenance?.efficiencyTier}
+                      />
+                    </li>
+                  ) : null}
+                  {analysis.equipmentAnalysis.cabinetWidthIn ? (
+                    <li
+                      className={weakClass(
+                        analysis.equipmentAnalysis.provenance?.cabinetWidthIn
+                      )}
+                    >
+                      <strong>Cabinet Width:</strong>{" "}
+                      {analysis.equipmentAnalysis.cabinetWidthIn}&quot;
+                      <FieldSourceTag
+                        provenance={analysis.equipmentAnalysis.provenance?.cabinetWidthIn}
+                      />
+                    </li>
+                  ) : null}
+                  {analysis.equipmentAnalysis.refrigerant ? (
+                    <li
+                      className={weakClass(
+                        analysis.equipmentAnalysis.provenance?.refrigerant
+                      )}
+                    >
+                      <strong>Refrigerant:</strong>{" "}
+                      {analysis.equipmentAnalysis.refrigerant}
+                      <FieldSourceTag
+                        provenance={analysis.equipmentAnalysis.provenance?.refrigerant}
+                      />
+                    </li>
+                  ) : null}
                 </ul>
               ) : (
                 <p className="text-[11px] text-slate-400">
                   No equipment analysis returned.
                 </p>
               )}
+              {analysis.parseErrors && analysis.parseErrors.equipment.length > 0 && (
+                <div className="mt-2 text-[11px] text-slate-400">
+                  <p className="font-semibold">AI answer problems (ignored):</p>
+                  <ul className="list-disc ml-4 mt-1 space-y-1">
+                    {analysis.parseErrors.equipment.map((e, i) => (
+                      <li key={i}>
+                        {e.field}: {e.message}
+                        {e.received !== undefined
+                          ? ` Got ${JSON.stringify(e.received)}.`
+                          : ""}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
               <div className="mt-3 border-t border-slate-800 pt-2">
                 <h3 className="text-[11px] font-semibold text-slate-200">
@@ -342,6 +899,12 @@ export default function HomePage() {
                   <li>
                     <strong>Manufacture Year:</strong>{" "}
                     {analysis.warranty.manufactureYear ?? "unknown"}
+                    {analysis.equipmentAnalysis?.manufactureMonth
+                      ? ` (month ${analysis.equipmentAnalysis.manufactureMonth})`
+                      : ""}
+                    {analysis.equipmentAnalysis?.manufactureYearSource
+                      ? ` – ${analysis.equipmentAnalysis.manufactureYearSource}`
+                      : ""}
                   </li>
                   <li>
                     <strong>Approx Age:</strong>{" "}
@@ -349,8 +912,25 @@ export default function HomePage() {
                   </li>
                   <li>
                     <strong>Warranty:</strong>{" "}
-                    {analysis.warranty.likelyWarrantyStatus}
+                    {analysis.warranty.likelyWarrantyStatus.overall}
+                    {analysis.warranty.likelyWarrantyStatus.startDate
+                      ? ` (from ${analysis.warranty.likelyWarrantyStatus.startBasis} ${analysis.warranty.likelyWarrantyStatus.startDate})`
+                      : ""}
                   </li>
+                  {analysis.warranty.likelyWarrantyStatus.components.map(
+                    (component) => (
+                      <li key={component.component} className="ml-2">
+                        {describeComponentWarranty(component)}
+                      </li>
+                    )
+                  )}
+                  {analysis.warranty.likelyWarrantyStatus.notes.map(
+                    (note, i) => (
+                      <li key={i} className="text-slate-400">
+                        {note}
+                      </li>
+                    )
+                  )}
                 </ul>
 
                 {analysis.equipmentFlags &&
@@ -365,6 +945,17 @@ export default function HomePage() {
                       </ul>
                     </div>
                   )}
+
+                {/* Shown without a label read too, so the tech can enter it */}
+                <EquipmentReviewForm
+                  key={`${intakeCount}-${equipmentRevision}`}
+                  equipment={analysis.equipmentAnalysis ?? EMPTY_EQUIPMENT}
+                  items={equipmentReviewItems(
+                    analysis.equipmentAnalysis ?? EMPTY_EQUIPMENT,
+                    analysis.equipmentFlags
+                  )}
+                  onConfirm={handleEquipmentCorrections}
+                />
               </div>
             </div>
           </div>
@@ -385,9 +976,43 @@ export default function HomePage() {
         {/* Combined job summary JSON */}
         {jobSummary && (
           <div className="mt-6">
-            <h2 className="text-xs font-semibold mb-1 text-slate-300">
-              Combined Job Summary (Ready for PDF)
-            </h2>
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-xs font-semibold text-slate-300">
+                Combined Job Summary (Ready for PDF)
+              </h2>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  className="rounded-md bg-emerald-500 px-3 py-1 text-[11px] font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-60 disabled:cursor-not-allowed"
+                  onClick={() => handleDownloadPdf("job-summary")}
+                  disabled={generatingPdf !== null}
+                >
+                  {generatingPdf === "job-summary"
+                    ? "Generating PDF..."
+                    : "Download PDF Summary"}
+                </button>
+                <button
+                  type="button"
+                  className="rounded-md border border-emerald-500 px-3 py-1 text-[11px] font-semibold text-emerald-300 hover:bg-emerald-500/10 disabled:opacity-60 disabled:cursor-not-allowed"
+                  onClick={() => handleDownloadPdf("proposal")}
+                  disabled={
+                    generatingPdf !== null ||
+                    jobSummary.proposalOptions.length === 0
+                  }
+                  title={
+                    !jobSummary.loadCalc
+                      ? "Run the load calc first"
+                      : jobSummary.proposalOptions.length === 0
+                      ? "No catalog system fits this load within the Manual S limits"
+                      : undefined
+                  }
+                >
+                  {generatingPdf === "proposal"
+                    ? "Generating PDF..."
+                    : "Download Customer Proposal"}
+                </button>
+              </div>
+            </div>
             <pre className="text-[11px] bg-slate-950 border border-slate-800 rounded-lg p-3 overflow-x-auto max-h-64">
               {JSON.stringify(jobSummary, null, 2)}
             </pre>
@@ -397,12 +1022,91 @@ export default function HomePage() {
         {/* Manual-J Lite Load Calc Panel, auto-filled from AI */}
         <div className="mt-8">
           <LoadCalcPanel
+            defaultsVersion={intakeCount}
             defaultStories={defaultStories}
             defaultWindows={defaultWindows}
             defaultSiding={defaultSiding}
-            onResult={setLoadCalcResult}
+            defaultOrientation={defaultOrientation}
+            windowsByFacing={windowsByFacing}
+            designConditions={analysis?.climate?.conditions ?? null}
+            result={loadCalcResult}
+            onResult={handleLoadCalcResult}
           />
         </div>
+
+        <ScenarioComparePanel
+          comparisons={compareScenarios(scenarios)}
+          activeScenario={activeScenario}
+          onSelect={(name) => updateScenarios(scenarios, name)}
+          onDelete={handleDeleteScenario}
+        />
+
+        <RoomLoadPanel
+          key={`rooms-${intakeCount}`}
+          initialRooms={rooms}
+          houseInput={selectedScenario?.input ?? null}
+          result={roomLoads}
+          onCalculate={handleRoomLoads}
+        />
+        {roomLoadsError && (
+          <p className="mt-2 text-[11px] text-red-400">
+            Saved rooms could not be calculated: {roomLoadsError}
+          </p>
+        )}
+
+        <DuctDesignPanel
+          key={`duct-${intakeCount}`}
+          initialInput={ductDesignInput}
+          defaultAirflowCFM={
+            loadCalcResult
+              ? airflowForTonnage(loadCalcResult.recommendedTonnage)
+              : null
+          }
+          roomLoads={roomLoads?.rooms ?? null}
+          result={ductDesign}
+          onDesign={handleDuctDesign}
+        />
+        {ductDesignError && (
+          <p className="mt-2 text-[11px] text-red-400">
+            Saved duct design could not be calculated: {ductDesignError}
+          </p>
+        )}
+        {jobSummary?.loadCalc && (
+          <div className="mt-6 border border-slate-800 rounded-lg p-3 bg-slate-900/60">
+            <h2 className="text-xs font-semibold mb-2 text-slate-200">
+              Existing Equipment vs. Calculated Load
+            </h2>
+            <p
+              className={`text-[11px] font-semibold ${
+                jobSummary.sizingVerdict.overall === "right_sized"
+                  ? "text-emerald-400"
+                  : jobSummary.sizingVerdict.overall === "unknown"
+                  ? "text-slate-400"
+                  : "text-amber-300"
+              }`}
+            >
+              {jobSummary.sizingVerdict.overall.replace("_", "-")}
+            </p>
+            <ul className="text-[11px] space-y-1 text-slate-300 mt-1">
+              {jobSummary.sizingVerdict.cooling && (
+                <li>{jobSummary.sizingVerdict.cooling.note}</li>
+              )}
+              {jobSummary.sizingVerdict.heating.map((check) => (
+                <li key={check.source}>{check.note}</li>
+              ))}
+              {!jobSummary.sizingVerdict.cooling &&
+                jobSummary.sizingVerdict.heating.length === 0 && (
+                  <li>{jobSummary.sizingVerdict.summary}</li>
+                )}
+            </ul>
+          </div>
+        )}
+
+        {jobSummary?.loadCalc && (
+          <div className="mt-6">
+            <EquipmentOptionsPanel matches={jobSummary.equipmentOptions} />
+          </div>
+        )}
       </div>
     </main>
   );
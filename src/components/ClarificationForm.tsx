@@ -2,6 +2,7 @@
 "use client";
 
 import { useState } from "react";
+import { ProvenanceMap, provenanceFor } from "@/lib/provenance";
 
 export interface ExteriorAnalysis {
   stories: number | string;
@@ -10,24 +11,29 @@ export interface ExteriorAnalysis {
   gutters: string;
   condition: string;
   confidence?: number;
+  provenance?: ProvenanceMap;
 }
 
 export interface ValidationResult {
   issues: string[];
   needsClarification: boolean;
+  weakFields?: string[];
 }
 
-interface ClarificationFormProps {
-  analysis: ExteriorAnalysis;
+// Fields the tech can confirm in this form.
+export const CLARIFIED_FIELDS = ["stories", "windows", "siding"] as const;
+
+interface ClarificationFormProps<T extends ExteriorAnalysis> {
+  analysis: T;
   validation: ValidationResult;
-  onConfirm: (updated: ExteriorAnalysis) => void;
+  onConfirm: (updated: T) => void;
 }
 
-export function ClarificationForm({
+export function ClarificationForm<T extends ExteriorAnalysis>({
   analysis,
   validation,
   onConfirm,
-}: ClarificationFormProps) {
+}: ClarificationFormProps<T>) {
   const initialStories =
     typeof analysis.stories === "number"
       ? analysis.stories.toString()
@@ -52,16 +58,23 @@ export function ClarificationForm({
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    const updated: ExteriorAnalysis = {
-      stories: stories === "" ? "unknown" : stories,
+    const confirmed = {
+      stories: stories === "" ? "unknown" : Number(stories),
       windows: windows === "" ? "unknown" : windows,
       siding: siding === "" ? "unknown" : siding,
-      gutters: analysis.gutters,
-      condition: analysis.condition,
-      confidence: analysis.confidence ?? 0.8,
     };
 
-    onConfirm(updated);
+    // Whatever the tech picked replaces the AI read; blanks stay defaults.
+    const provenance: ProvenanceMap = { ...analysis.provenance };
+    for (const field of CLARIFIED_FIELDS) {
+      provenance[field] = provenanceFor(confirmed[field], "user_confirmed");
+    }
+
+    onConfirm({
+      ...analysis,
+      ...confirmed,
+      provenance,
+    });
   };
 
   return (
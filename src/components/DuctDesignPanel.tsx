@@ -0,0 +1,459 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  DuctDesignInput,
+  DuctDesignResult,
+  DuctSection,
+  DuctSize,
+  describeDuctSize,
+  designDucts,
+  runsFromRoomLoads,
+} from "@/lib/ductDesign";
+import type { RoomLoad } from "@/lib/roomLoadCalc";
+
+interface DuctDesignPanelProps {
+  // Saved input to start from (e.g. a reopened job); remount to reload.
+  initialInput?: DuctDesignInput | null;
+  // Whole-house airflow from the load calc, used when the field is empty.
+  defaultAirflowCFM?: number | null;
+  // Room-by-room loads; fills one run per room sharing the airflow.
+  roomLoads?: RoomLoad[] | null;
+  result?: DuctDesignResult | null;
+  onDesign: (input: DuctDesignInput) => void;
+}
+
+interface RunRow {
+  name: string;
+  cfm: string;
+  // Sensible BTU/h; shares the airflow left after explicit CFMs.
+  load: string;
+  existing: string;
+}
+
+const DEFAULT_ASP_IN_WC = "0.2";
+const DEFAULT_TEL_FT = "250";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-xs focus:outline-none focus:ring focus:ring-emerald-500/60";
+
+const EMPTY_RUN: RunRow = { name: "", cfm: "", load: "", existing: "" };
+
+const EMPTY_RUNS: RunRow[] = [
+  { ...EMPTY_RUN, name: "Living room" },
+  { ...EMPTY_RUN, name: "Kitchen" },
+  { ...EMPTY_RUN, name: "Bedroom 1" },
+  { ...EMPTY_RUN, name: "Bedroom 2" },
+];
+
+/**
+ * "6" -> 6" round, "16x8" -> 16" × 8" rectangular.
+ */
+function parseDuctSize(text: string): DuctSize | null | "invalid" {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+  const rect = /^(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)$/.exec(value);
+  if (rect) return { widthIn: Number(rect[1]), heightIn: Number(rect[2]) };
+  const round = /^(\d+(?:\.\d+)?)$/.exec(value);
+  if (round) return { diameterIn: Number(round[1]) };
+  return "invalid";
+}
+
+function formatDuctSize(size: DuctSize | undefined): string {
+  if (!size) return "";
+  return "diameterIn" in size
+    ? String(size.diameterIn)
+    : `${size.widthIn}x${size.heightIn}`;
+}
+
+function optionalText(value: number | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+function sizeText(section: DuctSection): string {
+  return `${section.diameterIn}" round / ${section.rectangular.widthIn}x${section.rectangular.heightIn}"`;
+}
+
+export default function DuctDesignPanel({
+  initialInput,
+  defaultAirflowCFM,
+  roomLoads,
+  result,
+  onDesign,
+}: DuctDesignPanelProps) {
+  const [asp, setAsp] = useState<string>(
+    optionalText(initialInput?.availableStaticPressureInWC) || DEFAULT_ASP_IN_WC
+  );
+  const [tel, setTel] = useState<string>(
+    optionalText(initialInput?.totalEffectiveLengthFt) || DEFAULT_TEL_FT
+  );
+  const [frictionRate, setFrictionRate] = useState<string>(
+    optionalText(initialInput?.frictionRate)
+  );
+  const [airflow, setAirflow] = useState<string>(
+    optionalText(initialInput?.totalAirflowCFM)
+  );
+  const [returnGrilles, setReturnGrilles] = useState<string>(
+    optionalText(initialInput?.returnGrilles)
+  );
+  const [supplyTrunk, setSupplyTrunk] = useState<string>(
+    formatDuctSize(initialInput?.existingSupplyTrunk)
+  );
+  const [returnTrunk, setReturnTrunk] = useState<string>(
+    formatDuctSize(initialInput?.existingReturnTrunk)
+  );
+  const [runs, setRuns] = useState<RunRow[]>(
+    initialInput
+      ? initialInput.runs.map((run) => ({
+          name: run.name,
+          cfm: optionalText(run.cfm),
+          load: optionalText(run.sensibleBTUH),
+          existing: formatDuctSize(run.existing),
+        }))
+      : EMPTY_RUNS
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateRun = (index: number, patch: Partial<RunRow>) =>
+    setRuns((prev) =>
+      prev.map((run, i) => (i === index ? { ...run, ...patch } : run))
+    );
+
+  // Existing sizes are kept for rooms that already had a run.
+  const fillFromRoomLoads = (loads: RoomLoad[]) =>
+    setRuns((prev) =>
+      runsFromRoomLoads(loads).map((run) => ({
+        ...EMPTY_RUN,
+        name: run.name,
+        load: optionalText(run.sensibleBTUH),
+        existing: prev.find((row) => row.name === run.name)?.existing ?? "",
+      }))
+    );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const number = (text: string, label: string): number | undefined => {
+      if (text.trim() === "") return undefined;
+      const value = Number(text);
+      if (Number.isNaN(value) || value <= 0) {
+        throw new Error(`${label} must be a positive number.`);
+      }
+      return value;
+    };
+    const wholeNumber = (text: string, label: string): number | undefined => {
+      const value = number(text, label);
+      if (value !== undefined && !Number.isInteger(value)) {
+        throw new Error(`${label} must be a whole number.`);
+      }
+      return value;
+    };
+    const size = (text: string, label: string): DuctSize | undefined => {
+      const parsed = parseDuctSize(text);
+      if (parsed === "invalid") {
+        throw new Error(`${label}: enter a diameter (6) or width x height (16x8).`);
+      }
+      return parsed ?? undefined;
+    };
+
+    try {
+      const namedRuns = runs.filter((run) => run.name.trim() !== "");
+      const input: DuctDesignInput = {
+        runs: namedRuns.map((run) => ({
+          name: run.name.trim(),
+          cfm: number(run.cfm, `${run.name} CFM`),
+          sensibleBTUH: number(run.load, `${run.name} load`),
+          existing: size(run.existing, `${run.name} existing size`),
+        })),
+        totalAirflowCFM:
+          number(airflow, "Total airflow") ?? defaultAirflowCFM ?? undefined,
+        availableStaticPressureInWC:
+          number(asp, "Available static pressure") ?? 0,
+        totalEffectiveLengthFt: number(tel, "Total effective length"),
+        frictionRate: number(frictionRate, "Friction rate"),
+        returnGrilles: wholeNumber(returnGrilles, "Return grilles"),
+        existingSupplyTrunk: size(supplyTrunk, "Existing supply trunk"),
+        existingReturnTrunk: size(returnTrunk, "Existing return trunk"),
+      };
+
+      // Surfaces the calculator's own input errors before saving.
+      designDucts(input);
+      setFormError(null);
+      onDesign(input);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="mt-6 border border-slate-800 rounded-lg p-3 bg-slate-900/60">
+      <h2 className="text-xs font-semibold mb-1 text-slate-200">Duct Design</h2>
+      <p className="text-[11px] text-slate-400 mb-3">
+        Equal-friction sizing per supply run, trunk and return. Runs with no
+        CFM share the remaining airflow by their load (BTU/h), or evenly when
+        no loads are given; enter existing sizes (6 or 16x8) to flag
+        undersized ductwork.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          <label className="text-[11px] text-slate-200">
+            Total airflow (CFM)
+            <input
+              type="number"
+              className={INPUT_CLASS}
+              value={airflow}
+              placeholder={defaultAirflowCFM ? String(defaultAirflowCFM) : ""}
+              onChange={(e) => setAirflow(e.target.value)}
+            />
+          </label>
+          <label className="text-[11px] text-slate-200">
+            Available static (in. w.c.)
+            <input
+              type="number"
+              step="any"
+              className={INPUT_CLASS}
+              value={asp}
+              onChange={(e) => setAsp(e.target.value)}
+            />
+          </label>
+          <label className="text-[11px] text-slate-200">
+            Total effective length (ft)
+            <input
+              type="number"
+              className={INPUT_CLASS}
+              value={tel}
+              onChange={(e) => setTel(e.target.value)}
+            />
+          </label>
+          <label className="text-[11px] text-slate-200">
+            Friction rate (optional)
+            <input
+              type="number"
+              step="any"
+              className={INPUT_CLASS}
+              value={frictionRate}
+              placeholder="from static / TEL"
+              onChange={(e) => setFrictionRate(e.target.value)}
+            />
+          </label>
+          <label className="text-[11px] text-slate-200">
+            Return grilles (optional)
+            <input
+              type="number"
+              step="1"
+              min="1"
+              className={INPUT_CLASS}
+              value={returnGrilles}
+              onChange={(e) => setReturnGrilles(e.target.value)}
+            />
+          </label>
+        </div>
+
+        <table className="w-full text-[11px] text-slate-300 border-collapse">
+          <thead>
+            <tr className="text-left text-slate-400">
+              <th className="pr-2 pb-1 font-semibold">Supply run</th>
+              <th className="pr-2 pb-1 font-semibold">CFM</th>
+              <th className="pr-2 pb-1 font-semibold">Load (BTU/h)</th>
+              <th className="pr-2 pb-1 font-semibold">Existing size</th>
+              <th className="pb-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run, i) => (
+              <tr key={i}>
+                <td className="pr-2 py-0.5">
+                  <input
+                    className={INPUT_CLASS}
+                    value={run.name}
+                    onChange={(e) => updateRun(i, { name: e.target.value })}
+                  />
+                </td>
+                <td className="pr-2 py-0.5">
+                  <input
+                    type="number"
+                    className={INPUT_CLASS}
+                    value={run.cfm}
+                    placeholder="auto"
+                    onChange={(e) => updateRun(i, { cfm: e.target.value })}
+                  />
+                </td>
+                <td className="pr-2 py-0.5">
+                  <input
+                    type="number"
+                    className={INPUT_CLASS}
+                    value={run.load}
+                    placeholder="—"
+                    onChange={(e) => updateRun(i, { load: e.target.value })}
+                  />
+                </td>
+                <td className="pr-2 py-0.5">
+                  <input
+                    className={INPUT_CLASS}
+                    value={run.existing}
+                    onChange={(e) => updateRun(i, { existing: e.target.value })}
+                  />
+                </td>
+                <td className="py-0.5">
+                  <button
+                    type="button"
+                    className="text-red-400 underline"
+                    onClick={() =>
+                      setRuns((prev) => prev.filter((_, j) => j !== i))
+                    }
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex gap-4">
+          <button
+            type="button"
+            className="text-[11px] text-emerald-400 underline"
+            onClick={() => setRuns((prev) => [...prev, EMPTY_RUN])}
+          >
+            Add run
+          </button>
+          {roomLoads && roomLoads.length > 0 && (
+            <button
+              type="button"
+              className="text-[11px] text-emerald-400 underline"
+              onClick={() => fillFromRoomLoads(roomLoads)}
+            >
+              Fill runs from room loads
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-[11px] text-slate-200">
+            Existing supply trunk
+            <input
+              className={INPUT_CLASS}
+              value={supplyTrunk}
+              onChange={(e) => setSupplyTrunk(e.target.value)}
+            />
+          </label>
+          <label className="text-[11px] text-slate-200">
+            Existing return trunk
+            <input
+              className={INPUT_CLASS}
+              value={returnTrunk}
+              onChange={(e) => setReturnTrunk(e.target.value)}
+            />
+          </label>
+        </div>
+
+        {formError && <p className="text-[11px] text-red-400">{formError}</p>}
+
+        <button
+          type="submit"
+          className="inline-flex items-center px-3 py-1.5 rounded-lg bg-emerald-500 text-slate-950 text-xs font-semibold"
+        >
+          Size Ducts
+        </button>
+      </form>
+
+      {result && (
+        <div className="mt-4 text-[11px] text-slate-300">
+          <p className="mb-2">
+            Friction rate <strong>{result.frictionRate}</strong> in. w.c./100 ft
+            · {result.totalSupplyCFM} CFM supply
+          </p>
+          <table className="text-[11px] border-collapse mb-2">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th className="pr-4 pb-1 font-semibold">Section</th>
+                <th className="pr-4 pb-1 font-semibold">CFM</th>
+                <th className="pr-4 pb-1 font-semibold">Size</th>
+                <th className="pr-4 pb-1 font-semibold">FPM</th>
+                <th className="pb-1 font-semibold">Existing</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.supplyRuns.map((run, i) => (
+                <tr key={i} className="border-t border-slate-800">
+                  <td className="pr-4 py-1">{run.name}</td>
+                  <td className="pr-4 py-1">{run.cfm}</td>
+                  <td className="pr-4 py-1">{sizeText(run)}</td>
+                  <td className="pr-4 py-1">{run.velocityFPM}</td>
+                  <td
+                    className={`py-1 ${
+                      run.existing?.undersized ? "text-amber-300" : ""
+                    }`}
+                  >
+                    {run.existing
+                      ? `${describeDuctSize(run.existing.size)} (${
+                          run.existing.undersized ? "undersized" : "OK"
+                        })`
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-800">
+                <td className="pr-4 py-1 font-semibold">Supply trunk</td>
+                <td className="pr-4 py-1">{result.supplyTrunk.cfm}</td>
+                <td className="pr-4 py-1">{sizeText(result.supplyTrunk)}</td>
+                <td className="pr-4 py-1">{result.supplyTrunk.velocityFPM}</td>
+                <td
+                  className={`py-1 ${
+                    result.supplyTrunk.existing?.undersized ? "text-amber-300" : ""
+                  }`}
+                >
+                  {result.supplyTrunk.existing
+                    ? describeDuctSize(result.supplyTrunk.existing.size)
+                    : "—"}
+                </td>
+              </tr>
+              <tr className="border-t border-slate-800">
+                <td className="pr-4 py-1 font-semibold">
+                  Return drop × {result.returnAir.grilles}
+                </td>
+                <td className="pr-4 py-1">{result.returnAir.cfmPerGrille}</td>
+                <td className="pr-4 py-1">{sizeText(result.returnAir.drop)}</td>
+                <td className="pr-4 py-1">{result.returnAir.drop.velocityFPM}</td>
+                <td className="py-1">
+                  {result.returnAir.grilleFreeAreaSqIn} sq in grille free area
+                </td>
+              </tr>
+              <tr className="border-t border-slate-800">
+                <td className="pr-4 py-1 font-semibold">Return trunk</td>
+                <td className="pr-4 py-1">{result.returnAir.trunk.cfm}</td>
+                <td className="pr-4 py-1">{sizeText(result.returnAir.trunk)}</td>
+                <td className="pr-4 py-1">{result.returnAir.trunk.velocityFPM}</td>
+                <td
+                  className={`py-1 ${
+                    result.returnAir.existingTrunk?.undersized
+                      ? "text-amber-300"
+                      : ""
+                  }`}
+                >
+                  {result.returnAir.existingTrunk
+                    ? describeDuctSize(result.returnAir.existingTrunk.size)
+                    : "—"}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+
+          {result.undersized.length > 0 && (
+            <ul className="list-disc list-inside text-amber-300 mb-2">
+              {result.undersized.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          )}
+          <ul className="list-disc list-inside text-slate-400">
+            {result.notes.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React from "react";
+import { EquipmentMatch } from "@/lib/equipmentSelection";
+
+interface EquipmentOptionsPanelProps {
+  matches: EquipmentMatch[];
+}
+
+export default function EquipmentOptionsPanel({
+  matches,
+}: EquipmentOptionsPanelProps) {
+  return (
+    <div className="border border-slate-800 rounded-lg p-3 bg-slate-900/60">
+      <h2 className="text-xs font-semibold mb-2 text-slate-200">
+        Equipment Options (Manual S check)
+      </h2>
+
+      {matches.length === 0 ? (
+        <p className="text-[11px] text-slate-400">
+          No catalog systems to compare.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {matches.map((match) => (
+            <li
+              key={match.system.id}
+              className="text-[11px] text-slate-300 border-t border-slate-800 pt-2 first:border-t-0 first:pt-0"
+            >
+              <p>
+                <strong>
+                  {match.system.brand} {match.system.nominalTons} ton
+                </strong>{" "}
+                – {match.system.condenserModel} / {match.system.coilModel}
+                {match.system.furnaceModel
+                  ? ` / ${match.system.furnaceModel}`
+                  : ""}
+                {match.system.airHandlerModel
+                  ? ` / ${match.system.airHandlerModel}`
+                  : ""}
+              </p>
+              <p>
+                {match.totalCapacityBTUH} BTUH ({match.totalPercent}% total,{" "}
+                {match.sensiblePercent}% sensible, {match.latentPercent}%
+                latent) · SEER2 {match.system.seer2}
+                {match.system.afue ? ` · ${match.system.afue}% AFUE` : ""}
+                {match.system.hspf2 ? ` · HSPF2 ${match.system.hspf2}` : ""}
+              </p>
+              <p
+                className={
+                  match.withinManualS ? "text-emerald-400" : "text-amber-300"
+                }
+              >
+                {match.withinManualS
+                  ? "Within Manual S limits"
+                  : "Outside Manual S limits"}
+              </p>
+              {match.notes.length > 0 && (
+                <ul className="list-disc ml-4 mt-1 space-y-1 text-slate-400">
+                  {match.notes.map((note, i) => (
+                    <li key={i}>{note}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
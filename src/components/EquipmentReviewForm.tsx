@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  EquipmentOverrides,
+  EquipmentReviewField,
+  EquipmentReviewItem,
+} from "@/lib/equipmentPipeline";
+
+export interface ReviewableEquipment {
+  modelNumber: string;
+  afue?: number | null;
+  nominalTonnage?: number | null;
+  manufactureYear?: number | null;
+}
+
+interface EquipmentReviewFormProps {
+  equipment: ReviewableEquipment;
+  // Flagged or missing fields; the form opens on its own when any exist.
+  items: EquipmentReviewItem[];
+  onConfirm: (overrides: EquipmentOverrides) => void;
+}
+
+const FIELD_LABELS: Record<EquipmentReviewField, string> = {
+  modelNumber: "Model number",
+  afue: "AFUE (%)",
+  nominalTonnage: "Nominal tonnage",
+  manufactureYear: "Manufacture year",
+};
+
+const FIELD_ORDER: EquipmentReviewField[] = [
+  "modelNumber",
+  "afue",
+  "nominalTonnage",
+  "manufactureYear",
+];
+
+function initialValue(value: string | number | null | undefined): string {
+  return value === null || value === undefined || value === "unknown"
+    ? ""
+    : String(value);
+}
+
+export function EquipmentReviewForm({
+  equipment,
+  items,
+  onConfirm,
+}: EquipmentReviewFormProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(items.length > 0);
+  const [values, setValues] = useState<Record<EquipmentReviewField, string>>({
+    modelNumber: initialValue(equipment.modelNumber),
+    afue: initialValue(equipment.afue),
+    nominalTonnage: initialValue(equipment.nominalTonnage),
+    manufactureYear: initialValue(equipment.manufactureYear),
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const reasonFor = (field: EquipmentReviewField) =>
+    items.find((item) => item.field === field)?.reason;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const overrides: EquipmentOverrides = {};
+    const modelNumber = values.modelNumber.trim();
+    if (modelNumber && modelNumber !== equipment.modelNumber) {
+      overrides.modelNumber = modelNumber;
+    }
+
+    // Only changed or newly filled numbers count as corrections.
+    const numbers: [Exclude<EquipmentReviewField, "modelNumber">, number, number][] =
+      [
+        ["afue", 50, 100],
+        ["nominalTonnage", 0.5, 25],
+        ["manufactureYear", 1950, new Date().getFullYear()],
+      ];
+    for (const [field, min, max] of numbers) {
+      const text = values[field].trim();
+      if (text === "" || text === initialValue(equipment[field])) continue;
+      const num = Number(text);
+      if (Number.isNaN(num) || num < min || num > max) {
+        setFormError(`${FIELD_LABELS[field]} must be between ${min} and ${max}.`);
+        return;
+      }
+      overrides[field] = num;
+    }
+
+    setFormError(null);
+    onConfirm(overrides);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        className="mt-2 text-[11px] text-emerald-400 underline"
+        onClick={() => setIsOpen(true)}
+      >
+        Correct label details
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 border border-amber-500/40 bg-amber-500/5 rounded-xl p-3">
+      <h3 className="text-xs font-semibold text-amber-300 mb-2">
+        {items.length > 0
+          ? "Check these label details"
+          : "Correct label details"}
+      </h3>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        {FIELD_ORDER.map((field) => (
+          <div key={field}>
+            <label className="block text-[11px] mb-1 text-slate-200">
+              {FIELD_LABELS[field]}
+            </label>
+            <input
+              type={field === "modelNumber" ? "text" : "number"}
+              step="any"
+              className="w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-xs focus:outline-none focus:ring focus:ring-emerald-500/60"
+              value={values[field]}
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, [field]: e.target.value }))
+              }
+            />
+            {reasonFor(field) && (
+              <p className="text-[11px] text-amber-300 mt-1">
+                {reasonFor(field)}
+              </p>
+            )}
+          </div>
+        ))}
+
+        {formError && <p className="text-[11px] text-red-400">{formError}</p>}
+
+        <button
+          type="submit"
+          className="mt-1 inline-flex items-center px-3 py-1.5 rounded-lg bg-emerald-500 text-slate-950 text-xs font-semibold"
+        >
+          Apply corrections
+        </button>
+      </form>
+    </div>
+  );
+}
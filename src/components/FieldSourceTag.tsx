@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import { FieldProvenance, describeSource, isWeak } from "@/lib/provenance";
+
+interface FieldSourceTagProps {
+  provenance?: FieldProvenance;
+}
+
+export default function FieldSourceTag({ provenance }: FieldSourceTagProps) {
+  if (!provenance) return null;
+
+  return (
+    <span
+      className={`ml-1 text-[10px] ${
+        isWeak(provenance) ? "text-amber-300" : "text-slate-500"
+      }`}
+    >
+      [{describeSource(provenance.source)}
+      {provenance.source === "default"
+        ? ""
+        : `, ${Math.round(provenance.confidence * 100)}%`}
+      ]
+    </span>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import React, { useState } from "react";
+import type { JobListItem, JobRecord } from "@/lib/jobStore";
+
+interface JobHistoryPanelProps {
+  currentJobId?: string | null;
+  onOpen: (job: JobRecord) => void;
+}
+
+interface JobsResponse<T> {
+  ok: boolean;
+  message?: string;
+  data?: T;
+}
+
+export default function JobHistoryPanel({
+  currentJobId,
+  onOpen,
+}: JobHistoryPanelProps) {
+  const [jobs, setJobs] = useState<JobListItem[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function request<T>(url: string, init?: RequestInit): Promise<T | null> {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const res = await fetch(url, init);
+      const json = (await res.json()) as JobsResponse<T>;
+      if (!res.ok || !json.ok) {
+        setError(json.message || `Request failed with status ${res.status}`);
+        return null;
+      }
+      return json.data ?? null;
+    } catch (err) {
+      console.error(err);
+      setError("Could not reach the job store.");
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function refresh() {
+    const list = await request<JobListItem[]>("/api/jobs");
+    if (list) setJobs(list);
+  }
+
+  async function handleOpen(id: string) {
+    const job = await request<JobRecord>(`/api/jobs/${id}`);
+    if (job) onOpen(job);
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm("Delete this job and its photos and PDFs?")) return;
+    await request(`/api/jobs/${id}`, { method: "DELETE" });
+    await refresh();
+  }
+
+  return (
+    <div className="mt-6 border border-slate-800 rounded-lg p-3 bg-slate-900/60">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-semibold text-slate-200">Saved Jobs</h2>
+        <button
+          type="button"
+          className="text-[11px] text-emerald-400 underline disabled:opacity-50"
+          onClick={refresh}
+          disabled={isLoading}
+        >
+          {jobs === null ? "Show saved jobs" : "Refresh"}
+        </button>
+      </div>
+
+      {error && <p className="text-[11px] text-red-400 mb-2">{error}</p>}
+
+      {jobs !== null && jobs.length === 0 && (
+        <p className="text-[11px] text-slate-400">No saved jobs yet.</p>
+      )}
+
+      {jobs !== null && jobs.length > 0 && (
+        <ul className="text-[11px] space-y-1 text-slate-300">
+          {jobs.map((job) => (
+            <li
+              key={job.id}
+              className={`flex items-center justify-between gap-2 ${
+                job.id === currentJobId ? "text-emerald-300" : ""
+              }`}
+            >
+              <span>
+                <strong>{job.address}</strong> –{" "}
+                {new Date(job.updatedAt).toLocaleString()} · {job.photoCount}{" "}
+                photos
+                {job.scenarioCount > 0
+                  ? ` · ${job.scenarioCount} load calc scenario${
+                      job.scenarioCount === 1 ? "" : "s"
+                    }`
+                  : ""}
+                {job.pdfCount > 0 ? ` · ${job.pdfCount} PDF` : ""}
+              </span>
+              <span className="flex gap-2 shrink-0">
+                <button
+                  type="button"
+                  className="text-emerald-400 underline"
+                  onClick={() => handleOpen(job.id)}
+                  disabled={isLoading}
+                >
+                  Open
+                </button>
+                <button
+                  type="button"
+                  className="text-red-400 underline"
+                  onClick={() => handleDelete(job.id)}
+                  disabled={isLoading}
+                >
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -10,35 +10,227 @@ import {
   Orientation,
   InsulationLevel,
 } from "@/lib/loadCalc";
+import {
+  ClimateDesignConditions,
+  DesignTemperatureDifferences,
+  FALLBACK_DESIGN_CONDITIONS,
+  INDOOR_HEATING_SETPOINT_F,
+  designDifferences,
+} from "@/lib/climate";
+import {
+  ENVELOPE_ADJACENCIES,
+  ENVELOPE_COMPONENT_KINDS,
+  EnvelopeAdjacency,
+  EnvelopeComponent,
+  EnvelopeComponentKind,
+  FACINGS,
+  Facing,
+  WindowGroupInput,
+} from "@/lib/envelope";
+import {
+  EXTERIOR_SHADING_LEVELS,
+  ExteriorShading,
+  formatSolarHour,
+} from "@/lib/solarGain";
+import {
+  CONSTRUCTION_TIGHTNESS_LEVELS,
+  ConstructionTightness,
+  VENTILATION_TYPES,
+  VentilationType,
+} from "@/lib/airLeakage";
+import {
+  SPECIAL_LOADS,
+  SPECIAL_LOAD_LABELS,
+  SpecialLoad,
+} from "@/lib/internalGains";
+import {
+  DUCT_LOCATIONS,
+  DUCT_TIGHTNESS_LEVELS,
+  DuctLocation,
+  DuctTightness,
+} from "@/lib/ductLoss";
+import { DEFAULT_SCENARIO_NAME } from "@/lib/loadCalcScenarios";
 
 interface LoadCalcPanelProps {
   defaultStories?: number;
   defaultWindows?: WindowAmount;
   defaultSiding?: SidingType;
-  onResult?: (result: LoadCalcResult) => void;
+  defaultOrientation?: Orientation;
+  // Window amount per side from the exterior photos.
+  windowsByFacing?: Partial<Record<Facing, WindowAmount>>;
+  designConditions?: ClimateDesignConditions | null;
+  // Bump to re-apply the defaults above (e.g. after the tech confirms them).
+  defaultsVersion?: number;
+  // When given, the page owns the shown result (it may re-run the calc).
+  result?: LoadCalcResult | null;
+  onResult?: (
+    result: LoadCalcResult,
+    input: LoadCalcInput,
+    scenarioName: string
+  ) => void;
+}
+
+// Suggested what-if names; any name works.
+const SCENARIO_SUGGESTIONS = [
+  DEFAULT_SCENARIO_NAME,
+  "after attic insulation upgrade",
+  "new windows",
+  "ducts sealed / moved inside",
+];
+
+const DUCT_LOCATION_LABELS: Record<DuctLocation, string> = {
+  attic: "Attic",
+  crawl: "Crawlspace",
+  garage: "Garage",
+  conditioned: "Conditioned space",
+};
+
+const VENTILATION_LABELS: Record<VentilationType, string> = {
+  exhaust_only: "Exhaust only",
+  supply_only: "Supply only",
+  balanced: "Balanced (no recovery)",
+  hrv: "HRV",
+  erv: "ERV",
+};
+
+// Common duct wrap / flex jacket values.
+const DUCT_R_VALUES = [0, 4.2, 6, 8];
+
+interface GlassRow {
+  area: string;
+  shgc: string;
+  overhang: string;
+  shading: ExteriorShading;
+}
+
+const EMPTY_GLASS: Record<Facing, GlassRow> = {
+  north: { area: "", shgc: "", overhang: "", shading: "none" },
+  east: { area: "", shgc: "", overhang: "", shading: "none" },
+  south: { area: "", shgc: "", overhang: "", shading: "none" },
+  west: { area: "", shgc: "", overhang: "", shading: "none" },
+};
+
+// One row of the detailed envelope table; blank adjacency / facing use
+// the component's default.
+interface EnvelopeRow {
+  kind: EnvelopeComponentKind;
+  label: string;
+  area: string;
+  rValue: string;
+  uFactor: string;
+  shgc: string;
+  facing: Facing | "";
+  adjacency: EnvelopeAdjacency | "";
+}
+
+const EMPTY_ENVELOPE_ROW: EnvelopeRow = {
+  kind: "wall",
+  label: "",
+  area: "",
+  rValue: "",
+  uFactor: "",
+  shgc: "",
+  facing: "",
+  adjacency: "",
+};
+
+function isFenestration(kind: EnvelopeComponentKind): boolean {
+  return kind === "window" || kind === "skylight";
+}
+
+// " (high: cooling ΔT -5°F)" after the daily range, when it moves ΔT.
+function describeDailyRange(climate: DesignTemperatureDifferences): string {
+  const adjustment = climate.dailyRangeAdjustmentF;
+  if (adjustment === 0) return "";
+  return ` (${climate.dailyRangeClass}: cooling ΔT ${
+    adjustment > 0 ? "+" : ""
+  }${adjustment}°F)`;
+}
+
+function initialOrientation(defaultOrientation?: Orientation): Orientation {
+  return defaultOrientation && defaultOrientation !== "unknown"
+    ? defaultOrientation
+    : "mixed";
 }
 
 export default function LoadCalcPanel({
   defaultStories,
   defaultWindows,
   defaultSiding,
+  defaultOrientation,
+  windowsByFacing,
+  designConditions,
+  defaultsVersion = 0,
+  result: resultProp,
   onResult,
 }: LoadCalcPanelProps) {
   const [sqft, setSqft] = useState<string>("");
+  const [scenarioName, setScenarioName] = useState<string>(
+    DEFAULT_SCENARIO_NAME
+  );
 
   const [stories, setStories] = useState<number>(defaultStories ?? 1);
   const [windows, setWindows] = useState<WindowAmount>(
     defaultWindows ?? "average"
   );
-  const [orientation, setOrientation] = useState<Orientation>("mixed");
+  const [orientation, setOrientation] = useState<Orientation>(
+    initialOrientation(defaultOrientation)
+  );
+  // Measured glass per side; blank areas fall back to the presets.
+  const [glass, setGlass] = useState<Record<Facing, GlassRow>>(EMPTY_GLASS);
+  // Detailed envelope; rows with an area replace all the presets.
+  const [envelopeRows, setEnvelopeRows] = useState<EnvelopeRow[]>([]);
   const [insulation, setInsulation] = useState<InsulationLevel>("average");
   const [siding, setSiding] = useState<SidingType>(
     defaultSiding ?? "unknown"
   );
-  const [ductsInAtticOrCrawl, setDuctsInAtticOrCrawl] =
-    useState<boolean>(false);
+  const [supplyLocation, setSupplyLocation] =
+    useState<DuctLocation>("conditioned");
+  const [returnLocation, setReturnLocation] =
+    useState<DuctLocation>("conditioned");
+  const [ductR, setDuctR] = useState<number>(6);
+  // "measured" = use the duct blaster CFM25 below.
+  const [ductLeakage, setDuctLeakage] = useState<DuctTightness | "measured">(
+    "average"
+  );
+  const [leakageCFM25, setLeakageCFM25] = useState<string>("");
+  // Blank winter temp = use the climate table's 99% value.
+  const [winterDesignTemp, setWinterDesignTemp] = useState<string>("");
+  const [heatingSetpoint, setHeatingSetpoint] = useState<string>(
+    String(INDOOR_HEATING_SETPOINT_F)
+  );
+  const [indoorRH, setIndoorRH] = useState<number>(45);
+  // Blank occupants = bedrooms + 1.
+  const [occupants, setOccupants] = useState<string>("");
+  const [bedrooms, setBedrooms] = useState<string>("3");
+  const [specialLoads, setSpecialLoads] = useState<
+    Partial<Record<SpecialLoad, number>>
+  >({});
+  // "" = estimate infiltration from the insulation level.
+  const [airLeakageMode, setAirLeakageMode] = useState<
+    ConstructionTightness | "cfm50" | "ach50" | ""
+  >("");
+  const [blowerDoor, setBlowerDoor] = useState<string>("");
+  const [ventilationType, setVentilationType] = useState<
+    VentilationType | "none"
+  >("none");
+  const [ventilationCFM, setVentilationCFM] = useState<string>("0");
+  // Recovery effectiveness (%); blank = HRV/ERV defaults.
+  const [sensibleRecovery, setSensibleRecovery] = useState<string>("");
+  const [latentRecovery, setLatentRecovery] = useState<string>("");
 
-  const [result, setResult] = useState<LoadCalcResult | null>(null);
+  const [localResult, setLocalResult] = useState<LoadCalcResult | null>(null);
+  const result = resultProp !== undefined ? resultProp : localResult;
+
+  // New defaults: re-seed the photo-derived fields, keep everything else.
+  const [appliedVersion, setAppliedVersion] = useState(defaultsVersion);
+  if (appliedVersion !== defaultsVersion) {
+    setAppliedVersion(defaultsVersion);
+    setStories(defaultStories ?? 1);
+    setWindows(defaultWindows ?? "average");
+    setOrientation(initialOrientation(defaultOrientation));
+    setSiding(defaultSiding ?? "unknown");
+  }
 
   function handleRunCalc() {
     const sqftNum = Number(sqft);
@@ -47,22 +239,143 @@ export default function LoadCalcPanel({
       return;
     }
 
+    // An unresolved address uses the fallback design row, so the cooling
+    // ΔT and the grains difference describe the same outdoor condition.
+    const climate = designDifferences(
+      designConditions ?? FALLBACK_DESIGN_CONDITIONS,
+      indoorRH
+    );
+
+    const winterTempNum =
+      winterDesignTemp === ""
+        ? climate.heatingOutdoorDesignF
+        : Number(winterDesignTemp);
+    const setpointNum = Number(heatingSetpoint);
+    if (
+      heatingSetpoint === "" ||
+      Number.isNaN(winterTempNum) ||
+      Number.isNaN(setpointNum)
+    ) {
+      alert("Please enter a valid winter design temp and heating setpoint.");
+      return;
+    }
+
+    const cfm25Num = Number(leakageCFM25);
+    if (
+      ductLeakage === "measured" &&
+      (leakageCFM25 === "" || Number.isNaN(cfm25Num) || cfm25Num < 0)
+    ) {
+      alert("Please enter the measured duct leakage (CFM25).");
+      return;
+    }
+
+    const blowerDoorNum = Number(blowerDoor);
+    if (
+      (airLeakageMode === "cfm50" || airLeakageMode === "ach50") &&
+      (blowerDoor === "" || Number.isNaN(blowerDoorNum) || blowerDoorNum < 0)
+    ) {
+      alert("Please enter the blower door result.");
+      return;
+    }
+
+    const ventilationCFMNum = Number(ventilationCFM);
+    const recovery = (value: string) =>
+      value === "" || Number.isNaN(Number(value))
+        ? undefined
+        : Number(value) / 100;
+
+    const windowAreas: Partial<Record<Facing, WindowGroupInput>> = {};
+    for (const facing of FACINGS) {
+      const row = glass[facing];
+      if (!(Number(row.area) > 0)) continue;
+      windowAreas[facing] = {
+        areaSqFt: Number(row.area),
+        shgc: Number(row.shgc) > 0 ? Number(row.shgc) : undefined,
+        overhangDepthFt: Number(row.overhang) > 0 ? Number(row.overhang) : undefined,
+        exteriorShading: row.shading,
+      };
+    }
+
+    const envelope: EnvelopeComponent[] = [];
+    for (const row of envelopeRows) {
+      if (!(Number(row.area) > 0)) continue;
+      const name = row.label.trim() || row.kind;
+      const rValue = Number(row.rValue) > 0 ? Number(row.rValue) : undefined;
+      const uFactor = Number(row.uFactor) > 0 ? Number(row.uFactor) : undefined;
+      if (rValue === undefined && uFactor === undefined) {
+        alert(`Detailed envelope: enter an R-value or U-factor for ${name}.`);
+        return;
+      }
+      const glazed = isFenestration(row.kind);
+      envelope.push({
+        kind: row.kind,
+        label: row.label.trim() || undefined,
+        areaSqFt: Number(row.area),
+        rValue,
+        uFactor,
+        shgc: glazed && Number(row.shgc) > 0 ? Number(row.shgc) : undefined,
+        facing: row.kind === "window" && row.facing ? row.facing : undefined,
+        adjacency: row.adjacency || undefined,
+      });
+    }
+
     const input: LoadCalcInput = {
       sqft: sqftNum,
       stories,
       windows,
       orientation,
+      windowsByFacing,
+      windowAreas: Object.keys(windowAreas).length > 0 ? windowAreas : undefined,
       insulation,
       siding,
-      designDeltaT: 40,
-      indoorRH: 45,
-      ductsInAtticOrCrawl,
+      envelope: envelope.length > 0 ? envelope : undefined,
+      designDeltaT: climate.coolingDeltaT,
+      indoorRH,
+      ducts: {
+        supplyLocation,
+        returnLocation,
+        insulationR: ductR,
+        ...(ductLeakage === "measured"
+          ? { leakageCFM25: cfm25Num }
+          : { tightness: ductLeakage }),
+      },
+      grainsDifference: climate.grainsDifference,
+      elevationFt: designConditions?.elevationFt,
+      occupants: Number(occupants) > 0 ? Number(occupants) : undefined,
+      bedrooms:
+        bedrooms !== "" && Number(bedrooms) >= 0 ? Number(bedrooms) : undefined,
+      specialLoads,
+      airLeakage:
+        airLeakageMode === ""
+          ? undefined
+          : airLeakageMode === "cfm50"
+          ? { cfm50: blowerDoorNum }
+          : airLeakageMode === "ach50"
+          ? { ach50: blowerDoorNum }
+          : { tightness: airLeakageMode },
+      ventilation:
+        ventilationType !== "none" && ventilationCFMNum > 0
+          ? {
+              type: ventilationType,
+              cfm: ventilationCFMNum,
+              ...(ventilationType === "hrv" || ventilationType === "erv"
+                ? {
+                    sensibleEffectiveness: recovery(sensibleRecovery),
+                    latentEffectiveness: recovery(latentRecovery),
+                  }
+                : {}),
+            }
+          : undefined,
+      heating: {
+        outdoorDesignTempF: winterTempNum,
+        indoorSetpointF: setpointNum,
+      },
     };
 
     const calc = runLoadCalc(input);
-    setResult(calc);
+    setLocalResult(calc);
     if (onResult) {
-      onResult(calc);
+      onResult(calc, input, scenarioName.trim() || DEFAULT_SCENARIO_NAME);
     }
   }
 
@@ -86,6 +399,37 @@ export default function LoadCalcPanel({
         ballparking.
       </p>
 
+      {/* Design conditions */}
+      <p style={{ fontSize: "12px", color: "#9ca3af", marginBottom: "12px" }}>
+        {designConditions
+          ? `Design conditions: ${designConditions.location}, ${designConditions.state} – ${designConditions.cooling1DB}°F / ${designConditions.coolingMCWB}°F WB cooling, ${designConditions.heating99DB}°F heating, ${designConditions.dailyRange}°F daily range${describeDailyRange(designDifferences(designConditions, indoorRH))}.`
+          : `No climate data for this address: using ${FALLBACK_DESIGN_CONDITIONS.cooling1DB}°F / ${FALLBACK_DESIGN_CONDITIONS.coolingMCWB}°F WB cooling and ${FALLBACK_DESIGN_CONDITIONS.heating99DB}°F heating design conditions.`}
+      </p>
+
+      {/* Scenario: each name keeps its own input + result */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Scenario:</label>
+        <input
+          type="text"
+          list="load-calc-scenarios"
+          value={scenarioName}
+          onChange={(e) => setScenarioName(e.target.value)}
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        />
+        <datalist id="load-calc-scenarios">
+          {SCENARIO_SUGGESTIONS.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </div>
+
       {/* SQFT */}
       <div style={{ marginBottom: "10px", fontSize: "13px" }}>
         <label>Square Footage:</label>
@@ -175,6 +519,115 @@ export default function LoadCalcPanel({
           <option value="west">West</option>
           <option value="unknown">Unknown</option>
         </select>
+        {windowsByFacing && Object.keys(windowsByFacing).length > 0 && (
+          <div style={{ fontSize: "11px", color: "#94a3b8", marginTop: "4px" }}>
+            Glass is split by the per-side window amounts from the photos.
+          </div>
+        )}
+      </div>
+
+      {/* Measured glass per side */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Measured Glass (optional):</label>
+        <div style={{ fontSize: "11px", color: "#94a3b8", marginTop: "4px" }}>
+          Enter window area per side to replace the window presets. Blank
+          SHGC uses the insulation preset; use the label value for low-e glass.
+        </div>
+        <table style={{ marginTop: "6px", fontSize: "12px" }}>
+          <thead>
+            <tr style={{ color: "#9ca3af", textAlign: "left" }}>
+              <th style={{ paddingRight: "8px" }}>Side</th>
+              <th style={{ paddingRight: "8px" }}>Area (sq ft)</th>
+              <th style={{ paddingRight: "8px" }}>SHGC</th>
+              <th style={{ paddingRight: "8px" }}>Overhang (ft)</th>
+              <th>Trees / shading</th>
+            </tr>
+          </thead>
+          <tbody>
+            {FACINGS.map((facing) => {
+              const row = glass[facing];
+              const update = (patch: Partial<GlassRow>) =>
+                setGlass((prev) => ({
+                  ...prev,
+                  [facing]: { ...prev[facing], ...patch },
+                }));
+              return (
+                <tr key={facing}>
+                  <td style={{ paddingRight: "8px", textTransform: "capitalize" }}>
+                    {facing}
+                  </td>
+                  <td style={{ paddingRight: "8px" }}>
+                    <input
+                      type="number"
+                      value={row.area}
+                      onChange={(e) => update({ area: e.target.value })}
+                      style={{
+                        width: "64px",
+                        padding: "2px 6px",
+                        borderRadius: "6px",
+                        border: "1px solid #4b5563",
+                        background: "#020617",
+                        color: "#e5e7eb",
+                      }}
+                    />
+                  </td>
+                  <td style={{ paddingRight: "8px" }}>
+                    <input
+                      type="number"
+                      step="0.05"
+                      value={row.shgc}
+                      onChange={(e) => update({ shgc: e.target.value })}
+                      style={{
+                        width: "64px",
+                        padding: "2px 6px",
+                        borderRadius: "6px",
+                        border: "1px solid #4b5563",
+                        background: "#020617",
+                        color: "#e5e7eb",
+                      }}
+                    />
+                  </td>
+                  <td style={{ paddingRight: "8px" }}>
+                    <input
+                      type="number"
+                      value={row.overhang}
+                      onChange={(e) => update({ overhang: e.target.value })}
+                      style={{
+                        width: "64px",
+                        padding: "2px 6px",
+                        borderRadius: "6px",
+                        border: "1px solid #4b5563",
+                        background: "#020617",
+                        color: "#e5e7eb",
+                      }}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      value={row.shading}
+                      onChange={(e) =>
+                        update({ shading: e.target.value as ExteriorShading })
+                      }
+                      style={{
+                        padding: "2px 6px",
+                        borderRadius: "6px",
+                        border: "1px solid #4b5563",
+                        background: "#020617",
+                        color: "#e5e7eb",
+                      }}
+                    >
+                      {EXTERIOR_SHADING_LEVELS.map((level) => (
+                        <option key={level} value={level}>
+                          {level.charAt(0).toUpperCase() + level.slice(1)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
       </div>
 
       {/* Insulation */}
@@ -227,17 +680,535 @@ export default function LoadCalcPanel({
         </select>
       </div>
 
+      {/* Detailed envelope */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Detailed Envelope (optional):</label>
+        <div style={{ fontSize: "11px", color: "#94a3b8", marginTop: "4px" }}>
+          Enter every wall, ceiling, floor, window, skylight and door with its
+          area and R-value or U-factor. Any row with an area replaces the
+          insulation, window, siding, orientation and measured glass presets
+          above.
+        </div>
+        {envelopeRows.length > 0 && (
+          <table style={{ marginTop: "6px", fontSize: "12px" }}>
+            <thead>
+              <tr style={{ color: "#9ca3af", textAlign: "left" }}>
+                <th style={{ paddingRight: "8px" }}>Component</th>
+                <th style={{ paddingRight: "8px" }}>Label</th>
+                <th style={{ paddingRight: "8px" }}>Area (sq ft)</th>
+                <th style={{ paddingRight: "8px" }}>R-value</th>
+                <th style={{ paddingRight: "8px" }}>U-factor</th>
+                <th style={{ paddingRight: "8px" }}>SHGC</th>
+                <th style={{ paddingRight: "8px" }}>Facing</th>
+                <th style={{ paddingRight: "8px" }}>Other side</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {envelopeRows.map((row, i) => {
+                const update = (patch: Partial<EnvelopeRow>) =>
+                  setEnvelopeRows((prev) =>
+                    prev.map((r, j) => (j === i ? { ...r, ...patch } : r))
+                  );
+                const cellStyle = {
+                  width: "64px",
+                  padding: "2px 6px",
+                  borderRadius: "6px",
+                  border: "1px solid #4b5563",
+                  background: "#020617",
+                  color: "#e5e7eb",
+                };
+                return (
+                  <tr key={i}>
+                    <td style={{ paddingRight: "8px" }}>
+                      <select
+                        value={row.kind}
+                        onChange={(e) =>
+                          update({
+                            kind: e.target.value as EnvelopeComponentKind,
+                          })
+                        }
+                        style={{ ...cellStyle, width: "auto" }}
+                      >
+                        {ENVELOPE_COMPONENT_KINDS.map((kind) => (
+                          <option key={kind} value={kind}>
+                            {kind.charAt(0).toUpperCase() + kind.slice(1)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={{ paddingRight: "8px" }}>
+                      <input
+                        value={row.label}
+                        onChange={(e) => update({ label: e.target.value })}
+                        style={{ ...cellStyle, width: "110px" }}
+                      />
+                    </td>
+                    <td style={{ paddingRight: "8px" }}>
+                      <input
+                        type="number"
+                        value={row.area}
+                        onChange={(e) => update({ area: e.target.value })}
+                        style={cellStyle}
+                      />
+                    </td>
+                    <td style={{ paddingRight: "8px" }}>
+                      <input
+                        type="number"
+                        value={row.rValue}
+                        onChange={(e) => update({ rValue: e.target.value })}
+                        style={cellStyle}
+                      />
+                    </td>
+                    <td style={{ paddingRight: "8px" }}>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={row.uFactor}
+                        onChange={(e) => update({ uFactor: e.target.value })}
+                        style={cellStyle}
+                      />
+                    </td>
+                    <td style={{ paddingRight: "8px" }}>
+                      <input
+                        type="number"
+                        step="0.05"
+                        value={row.shgc}
+                        disabled={!isFenestration(row.kind)}
+                        onChange={(e) => update({ shgc: e.target.value })}
+                        style={cellStyle}
+                      />
+                    </td>
+                    <td style={{ paddingRight: "8px" }}>
+                      <select
+                        value={row.facing}
+                        disabled={row.kind !== "window"}
+                        onChange={(e) =>
+                          update({ facing: e.target.value as Facing | "" })
+                        }
+                        style={{ ...cellStyle, width: "auto" }}
+                      >
+                        <option value="">—</option>
+                        {FACINGS.map((facing) => (
+                          <option key={facing} value={facing}>
+                            {facing.charAt(0).toUpperCase() + facing.slice(1)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={{ paddingRight: "8px" }}>
+                      <select
+                        value={row.adjacency}
+                        onChange={(e) =>
+                          update({
+                            adjacency: e.target.value as EnvelopeAdjacency | "",
+                          })
+                        }
+                        style={{ ...cellStyle, width: "auto" }}
+                      >
+                        <option value="">Default</option>
+                        {ENVELOPE_ADJACENCIES.map((adjacency) => (
+                          <option key={adjacency} value={adjacency}>
+                            {adjacency.charAt(0).toUpperCase() +
+                              adjacency.slice(1)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setEnvelopeRows((prev) =>
+                            prev.filter((_, j) => j !== i)
+                          )
+                        }
+                        style={{
+                          background: "none",
+                          border: "none",
+                          color: "#f87171",
+                          cursor: "pointer",
+                          fontSize: "12px",
+                        }}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <button
+          type="button"
+          onClick={() =>
+            setEnvelopeRows((prev) => [...prev, { ...EMPTY_ENVELOPE_ROW }])
+          }
+          style={{
+            marginTop: "6px",
+            background: "none",
+            border: "none",
+            color: "#22c55e",
+            cursor: "pointer",
+            fontSize: "12px",
+            padding: 0,
+            textDecoration: "underline",
+          }}
+        >
+          Add component
+        </button>
+      </div>
+
+      {/* Winter design conditions */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Winter Design Temp (°F):</label>
+        <input
+          type="number"
+          value={winterDesignTemp}
+          onChange={(e) => setWinterDesignTemp(e.target.value)}
+          placeholder={String(
+            (designConditions ?? FALLBACK_DESIGN_CONDITIONS).heating99DB
+          )}
+          style={{
+            marginLeft: "10px",
+            width: "80px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        />
+        <label style={{ marginLeft: "16px" }}>Indoor Setpoint (°F):</label>
+        <input
+          type="number"
+          value={heatingSetpoint}
+          onChange={(e) => setHeatingSetpoint(e.target.value)}
+          style={{
+            marginLeft: "10px",
+            width: "80px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        />
+      </div>
+
+      {/* Indoor RH */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Indoor RH Target (%):</label>
+        <select
+          value={indoorRH}
+          onChange={(e) => setIndoorRH(Number(e.target.value))}
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        >
+          <option value={40}>40</option>
+          <option value={45}>45</option>
+          <option value={50}>50</option>
+          <option value={55}>55</option>
+        </select>
+      </div>
+
+      {/* Internal gains */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Bedrooms:</label>
+        <input
+          type="number"
+          value={bedrooms}
+          onChange={(e) => setBedrooms(e.target.value)}
+          style={{
+            marginLeft: "10px",
+            width: "80px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        />
+        <label style={{ marginLeft: "16px" }}>Occupants:</label>
+        <input
+          type="number"
+          value={occupants}
+          onChange={(e) => setOccupants(e.target.value)}
+          placeholder={
+            bedrooms !== "" && Number(bedrooms) >= 0
+              ? String(Number(bedrooms) + 1)
+              : "4"
+          }
+          style={{
+            marginLeft: "10px",
+            width: "80px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        />
+      </div>
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Special Loads:</label>
+        {SPECIAL_LOADS.map((load) => (
+          <label key={load} style={{ marginLeft: "12px" }}>
+            <input
+              type="checkbox"
+              checked={(specialLoads[load] ?? 0) > 0}
+              onChange={(e) =>
+                setSpecialLoads((prev) => ({
+                  ...prev,
+                  [load]: e.target.checked ? 1 : 0,
+                }))
+              }
+              style={{ marginRight: "4px" }}
+            />
+            {SPECIAL_LOAD_LABELS[load]}
+          </label>
+        ))}
+      </div>
+
+      {/* Air leakage */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Air Leakage:</label>
+        <select
+          value={airLeakageMode}
+          onChange={(e) =>
+            setAirLeakageMode(
+              e.target.value as ConstructionTightness | "cfm50" | "ach50" | ""
+            )
+          }
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        >
+          <option value="">Estimate from insulation</option>
+          {CONSTRUCTION_TIGHTNESS_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level.charAt(0).toUpperCase() +
+                level.slice(1).replace("_", " ")}{" "}
+              construction
+            </option>
+          ))}
+          <option value="cfm50">Blower door (CFM50)</option>
+          <option value="ach50">Blower door (ACH50)</option>
+        </select>
+        {(airLeakageMode === "cfm50" || airLeakageMode === "ach50") && (
+          <input
+            type="number"
+            value={blowerDoor}
+            onChange={(e) => setBlowerDoor(e.target.value)}
+            placeholder={airLeakageMode === "cfm50" ? "CFM50" : "ACH50"}
+            style={{
+              marginLeft: "10px",
+              width: "80px",
+              padding: "4px 8px",
+              borderRadius: "6px",
+              border: "1px solid #4b5563",
+              background: "#020617",
+              color: "#e5e7eb",
+            }}
+          />
+        )}
+      </div>
+
+      {/* Mechanical ventilation */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Ventilation:</label>
+        <select
+          value={ventilationType}
+          onChange={(e) =>
+            setVentilationType(e.target.value as VentilationType | "none")
+          }
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        >
+          <option value="none">None</option>
+          {VENTILATION_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {VENTILATION_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        {ventilationType !== "none" && (
+          <>
+            <label style={{ marginLeft: "16px" }}>CFM:</label>
+            <input
+              type="number"
+              value={ventilationCFM}
+              onChange={(e) => setVentilationCFM(e.target.value)}
+              style={{
+                marginLeft: "10px",
+                width: "80px",
+                padding: "4px 8px",
+                borderRadius: "6px",
+                border: "1px solid #4b5563",
+                background: "#020617",
+                color: "#e5e7eb",
+              }}
+            />
+          </>
+        )}
+        {(ventilationType === "hrv" || ventilationType === "erv") && (
+          <>
+            <label style={{ marginLeft: "16px" }}>Sensible %:</label>
+            <input
+              type="number"
+              value={sensibleRecovery}
+              onChange={(e) => setSensibleRecovery(e.target.value)}
+              placeholder="70"
+              style={{
+                marginLeft: "10px",
+                width: "80px",
+                padding: "4px 8px",
+                borderRadius: "6px",
+                border: "1px solid #4b5563",
+                background: "#020617",
+                color: "#e5e7eb",
+              }}
+            />
+            <label style={{ marginLeft: "16px" }}>Latent %:</label>
+            <input
+              type="number"
+              value={latentRecovery}
+              onChange={(e) => setLatentRecovery(e.target.value)}
+              placeholder={ventilationType === "erv" ? "50" : "0"}
+              style={{
+                marginLeft: "10px",
+                width: "80px",
+                padding: "4px 8px",
+                borderRadius: "6px",
+                border: "1px solid #4b5563",
+                background: "#020617",
+                color: "#e5e7eb",
+              }}
+            />
+          </>
+        )}
+      </div>
+
       {/* Duct location */}
+      <div style={{ marginBottom: "10px", fontSize: "13px" }}>
+        <label>Supply Ducts:</label>
+        <select
+          value={supplyLocation}
+          onChange={(e) => setSupplyLocation(e.target.value as DuctLocation)}
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        >
+          {DUCT_LOCATIONS.map((location) => (
+            <option key={location} value={location}>
+              {DUCT_LOCATION_LABELS[location]}
+            </option>
+          ))}
+        </select>
+        <label style={{ marginLeft: "16px" }}>Return Ducts:</label>
+        <select
+          value={returnLocation}
+          onChange={(e) => setReturnLocation(e.target.value as DuctLocation)}
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        >
+          {DUCT_LOCATIONS.map((location) => (
+            <option key={location} value={location}>
+              {DUCT_LOCATION_LABELS[location]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Duct insulation & leakage */}
       <div style={{ marginBottom: "14px", fontSize: "13px" }}>
-        <label>
+        <label>Duct Insulation:</label>
+        <select
+          value={ductR}
+          onChange={(e) => setDuctR(Number(e.target.value))}
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        >
+          {DUCT_R_VALUES.map((r) => (
+            <option key={r} value={r}>
+              {r === 0 ? "None (bare metal)" : `R-${r}`}
+            </option>
+          ))}
+        </select>
+        <label style={{ marginLeft: "16px" }}>Duct Leakage:</label>
+        <select
+          value={ductLeakage}
+          onChange={(e) =>
+            setDuctLeakage(e.target.value as DuctTightness | "measured")
+          }
+          style={{
+            marginLeft: "10px",
+            padding: "4px 8px",
+            borderRadius: "6px",
+            border: "1px solid #4b5563",
+            background: "#020617",
+            color: "#e5e7eb",
+          }}
+        >
+          {DUCT_TIGHTNESS_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level.charAt(0).toUpperCase() + level.slice(1)}
+            </option>
+          ))}
+          <option value="measured">Measured (CFM25)</option>
+        </select>
+        {ductLeakage === "measured" && (
           <input
-            type="checkbox"
-            checked={ductsInAtticOrCrawl}
-            onChange={(e) => setDuctsInAtticOrCrawl(e.target.checked)}
-            style={{ marginRight: "6px" }}
+            type="number"
+            value={leakageCFM25}
+            onChange={(e) => setLeakageCFM25(e.target.value)}
+            placeholder="CFM25"
+            style={{
+              marginLeft: "10px",
+              width: "80px",
+              padding: "4px 8px",
+              borderRadius: "6px",
+              border: "1px solid #4b5563",
+              background: "#020617",
+              color: "#e5e7eb",
+            }}
           />
-          Ducts in attic or crawlspace
-        </label>
+        )}
       </div>
 
       <button
@@ -273,7 +1244,18 @@ export default function LoadCalcPanel({
             <strong>Sensible BTUH:</strong> {result.sensibleBTUH}
           </p>
           <p style={{ fontSize: "13px" }}>
-            <strong>Latent BTUH:</strong> {result.latentBTUH}
+            <strong>Latent BTUH:</strong> {result.latentBTUH} (infiltration{" "}
+            {result.latent.infiltrationBTUH}, ventilation{" "}
+            {result.latent.ventilationBTUH}, occupants{" "}
+            {result.latent.occupantBTUH}
+            {result.latent.internalBTUH
+              ? `, household moisture ${result.latent.internalBTUH}`
+              : ""}
+            )
+          </p>
+          <p style={{ fontSize: "13px" }}>
+            <strong>Sensible Heat Ratio:</strong>{" "}
+            {result.sensibleHeatRatio.toFixed(2)}
           </p>
           <p style={{ fontSize: "13px" }}>
             <strong>Total BTUH:</strong> {result.totalBTUH}
@@ -282,6 +1264,20 @@ export default function LoadCalcPanel({
             <strong>Recommended Tonnage:</strong>{" "}
             {result.recommendedTonnage.toFixed(2)} Tons
           </p>
+          {result.envelope?.solar && result.envelope.solar.blockBTUH > 0 && (
+            <p style={{ fontSize: "13px" }}>
+              <strong>Solar Peak:</strong>{" "}
+              {formatSolarHour(result.envelope.solar.peakHour)},{" "}
+              {result.envelope.solar.blockBTUH} BTUH block load
+            </p>
+          )}
+          {result.heating && (
+            <p style={{ fontSize: "13px" }}>
+              <strong>Required Heating BTUH:</strong>{" "}
+              {result.heating.requiredBTUH} (ΔT {result.heating.designDeltaT}
+              °F)
+            </p>
+          )}
 
           {result.notes.length > 0 && (
             <>
@@ -298,6 +1294,9 @@ export default function LoadCalcPanel({
                 {result.notes.map((note, i) => (
                   <li key={i}>{note}</li>
                 ))}
+                {result.heating?.notes.map((note, i) => (
+                  <li key={`heating-${i}`}>{note}</li>
+                ))}
               </ul>
             </>
           )}
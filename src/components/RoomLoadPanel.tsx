@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useState } from "react";
+import type { LoadCalcInput } from "@/lib/loadCalc";
+import { FACINGS, Facing, WindowGroupInput } from "@/lib/envelope";
+import {
+  EXTERIOR_SHADING_LEVELS,
+  ExteriorShading,
+  formatSolarHour,
+} from "@/lib/solarGain";
+import {
+  CEILING_EXPOSURES,
+  CeilingExposure,
+  RoomInput,
+  RoomLoadCalcResult,
+  runRoomLoadCalc,
+} from "@/lib/roomLoadCalc";
+
+interface RoomLoadPanelProps {
+  // Saved rooms to start from (e.g. a reopened job); remount to reload.
+  initialRooms?: RoomInput[] | null;
+  // Input of the selected load calc scenario; the rooms share its
+  // house-wide answers (insulation, leakage, ventilation, ducts, ...).
+  houseInput: LoadCalcInput | null;
+  result?: RoomLoadCalcResult | null;
+  onCalculate: (rooms: RoomInput[]) => void;
+}
+
+interface RoomRow {
+  name: string;
+  floorArea: string;
+  wallLength: string;
+  ceilingHeight: string;
+  ceilingExposure: CeilingExposure;
+  glass: Record<Facing, string>;
+  // Applies to all of the room's glass.
+  shading: ExteriorShading;
+}
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-slate-700 bg-slate-950 px-2 py-1 text-xs focus:outline-none focus:ring focus:ring-emerald-500/60";
+
+const EMPTY_GLASS: Record<Facing, string> = {
+  north: "",
+  east: "",
+  south: "",
+  west: "",
+};
+
+const EMPTY_ROOM: RoomRow = {
+  name: "",
+  floorArea: "",
+  wallLength: "",
+  ceilingHeight: "",
+  ceilingExposure: "attic",
+  glass: EMPTY_GLASS,
+  shading: "none",
+};
+
+const EMPTY_ROOMS: RoomRow[] = [
+  { ...EMPTY_ROOM, name: "Living room" },
+  { ...EMPTY_ROOM, name: "Kitchen" },
+  { ...EMPTY_ROOM, name: "Bedroom 1" },
+  { ...EMPTY_ROOM, name: "Bedroom 2" },
+];
+
+function optionalText(value: number | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+function toRow(room: RoomInput): RoomRow {
+  const groups = FACINGS.map((facing) => room.windows?.[facing]);
+  return {
+    name: room.name,
+    floorArea: String(room.floorAreaSqFt),
+    wallLength: String(room.exteriorWallLengthFt),
+    ceilingHeight: optionalText(room.ceilingHeightFt),
+    ceilingExposure: room.ceilingExposure,
+    glass: {
+      north: optionalText(room.windows?.north?.areaSqFt),
+      east: optionalText(room.windows?.east?.areaSqFt),
+      south: optionalText(room.windows?.south?.areaSqFt),
+      west: optionalText(room.windows?.west?.areaSqFt),
+    },
+    shading: groups.find((g) => g?.exteriorShading)?.exteriorShading ?? "none",
+  };
+}
+
+export default function RoomLoadPanel({
+  initialRooms,
+  houseInput,
+  result,
+  onCalculate,
+}: RoomLoadPanelProps) {
+  const [rows, setRows] = useState<RoomRow[]>(
+    initialRooms && initialRooms.length > 0
+      ? initialRooms.map(toRow)
+      : EMPTY_ROOMS
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateRow = (index: number, patch: Partial<RoomRow>) =>
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...patch } : row))
+    );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!houseInput) return;
+
+    const number = (text: string, label: string): number | undefined => {
+      if (text.trim() === "") return undefined;
+      const value = Number(text);
+      if (Number.isNaN(value) || value < 0) {
+        throw new Error(`${label} must be a number >= 0.`);
+      }
+      return value;
+    };
+
+    try {
+      const rooms: RoomInput[] = rows
+        .filter((row) => row.name.trim() !== "")
+        .map((row) => {
+          const name = row.name.trim();
+          const windows: Partial<Record<Facing, WindowGroupInput>> = {};
+          for (const facing of FACINGS) {
+            const areaSqFt = number(row.glass[facing], `${name} ${facing} glass`);
+            if (areaSqFt) {
+              windows[facing] = {
+                areaSqFt,
+                exteriorShading: row.shading !== "none" ? row.shading : undefined,
+              };
+            }
+          }
+          return {
+            name,
+            floorAreaSqFt: number(row.floorArea, `${name} floor area`) ?? 0,
+            exteriorWallLengthFt:
+              number(row.wallLength, `${name} exterior wall`) ?? 0,
+            ceilingHeightFt: number(row.ceilingHeight, `${name} ceiling height`),
+            ceilingExposure: row.ceilingExposure,
+            windows,
+          };
+        });
+
+      // Surfaces the calculator's own input errors before saving.
+      runRoomLoadCalc({ ...houseInput, rooms });
+      setFormError(null);
+      onCalculate(rooms);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="mt-6 border border-slate-800 rounded-lg p-3 bg-slate-900/60">
+      <h2 className="text-xs font-semibold mb-1 text-slate-200">
+        Room-by-Room Loads
+      </h2>
+      <p className="text-[11px] text-slate-400 mb-3">
+        Walls, ceiling and glass per room, with the selected scenario&apos;s
+        insulation, air leakage, ventilation, occupants and ducts. Glass per
+        side in sq ft; blank ceiling height is one story. The room loads can
+        fill the duct design runs below.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="overflow-x-auto">
+          <table className="w-full text-[11px] text-slate-300 border-collapse">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th className="pr-2 pb-1 font-semibold">Room</th>
+                <th className="pr-2 pb-1 font-semibold">Floor (sq ft)</th>
+                <th className="pr-2 pb-1 font-semibold">Ext. wall (ft)</th>
+                <th className="pr-2 pb-1 font-semibold">Ceiling (ft)</th>
+                <th className="pr-2 pb-1 font-semibold">Above</th>
+                {FACINGS.map((facing) => (
+                  <th key={facing} className="pr-2 pb-1 font-semibold">
+                    {facing[0].toUpperCase()} glass
+                  </th>
+                ))}
+                <th className="pr-2 pb-1 font-semibold">Shading</th>
+                <th className="pb-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i}>
+                  <td className="pr-2 py-0.5">
+                    <input
+                      className={INPUT_CLASS}
+                      value={row.name}
+                      onChange={(e) => updateRow(i, { name: e.target.value })}
+                    />
+                  </td>
+                  <td className="pr-2 py-0.5">
+                    <input
+                      type="number"
+                      className={INPUT_CLASS}
+                      value={row.floorArea}
+                      onChange={(e) =>
+                        updateRow(i, { floorArea: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="pr-2 py-0.5">
+                    <input
+                      type="number"
+                      className={INPUT_CLASS}
+                      value={row.wallLength}
+                      onChange={(e) =>
+                        updateRow(i, { wallLength: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="pr-2 py-0.5">
+                    <input
+                      type="number"
+                      step="any"
+                      className={INPUT_CLASS}
+                      value={row.ceilingHeight}
+                      placeholder="8.5"
+                      onChange={(e) =>
+                        updateRow(i, { ceilingHeight: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td className="pr-2 py-0.5">
+                    <select
+                      className={INPUT_CLASS}
+                      value={row.ceilingExposure}
+                      onChange={(e) =>
+                        updateRow(i, {
+                          ceilingExposure: e.target.value as CeilingExposure,
+                        })
+                      }
+                    >
+                      {CEILING_EXPOSURES.map((exposure) => (
+                        <option key={exposure} value={exposure}>
+                          {exposure}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  {FACINGS.map((facing) => (
+                    <td key={facing} className="pr-2 py-0.5">
+                      <input
+                        type="number"
+                        className={INPUT_CLASS}
+                        value={row.glass[facing]}
+                        onChange={(e) =>
+                          updateRow(i, {
+                            glass: { ...row.glass, [facing]: e.target.value },
+                          })
+                        }
+                      />
+                    </td>
+                  ))}
+                  <td className="pr-2 py-0.5">
+                    <select
+                      className={INPUT_CLASS}
+                      value={row.shading}
+                      onChange={(e) =>
+                        updateRow(i, {
+                          shading: e.target.value as ExteriorShading,
+                        })
+                      }
+                    >
+                      {EXTERIOR_SHADING_LEVELS.map((level) => (
+                        <option key={level} value={level}>
+                          {level}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-0.5">
+                    <button
+                      type="button"
+                      className="text-red-400 underline"
+                      onClick={() =>
+                        setRows((prev) => prev.filter((_, j) => j !== i))
+                      }
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button
+          type="button"
+          className="text-[11px] text-emerald-400 underline"
+          onClick={() => setRows((prev) => [...prev, EMPTY_ROOM])}
+        >
+          Add room
+        </button>
+
+        {formError && <p className="text-[11px] text-red-400">{formError}</p>}
+
+        <button
+          type="submit"
+          disabled={!houseInput}
+          title={houseInput ? undefined : "Run the load calc first"}
+          className="inline-flex items-center px-3 py-1.5 rounded-lg bg-emerald-500 text-slate-950 text-xs font-semibold disabled:opacity-50"
+        >
+          Calculate Room Loads
+        </button>
+      </form>
+
+      {result && (
+        <div className="mt-4 text-[11px] text-slate-300">
+          <table className="text-[11px] border-collapse mb-2">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th className="pr-4 pb-1 font-semibold">Room</th>
+                <th className="pr-4 pb-1 font-semibold">Sun peak</th>
+                <th className="pr-4 pb-1 font-semibold">Sensible</th>
+                <th className="pr-4 pb-1 font-semibold">Latent</th>
+                <th className="pr-4 pb-1 font-semibold">Total</th>
+                <th className="pb-1 font-semibold">Supply CFM</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.rooms.map((room, i) => (
+                <tr key={i} className="border-t border-slate-800">
+                  <td className="pr-4 py-1">{room.name}</td>
+                  <td className="pr-4 py-1">
+                    {room.solarPeakHour !== null
+                      ? formatSolarHour(room.solarPeakHour)
+                      : "-"}
+                  </td>
+                  <td className="pr-4 py-1">{room.sensibleBTUH}</td>
+                  <td className="pr-4 py-1">{room.latentBTUH}</td>
+                  <td className="pr-4 py-1">{room.totalBTUH}</td>
+                  <td className="py-1">{room.supplyCFM}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-800 font-semibold">
+                <td className="pr-4 py-1">House</td>
+                <td className="pr-4 py-1">
+                  {result.envelope?.solar
+                    ? formatSolarHour(result.envelope.solar.peakHour)
+                    : "-"}
+                </td>
+                <td className="pr-4 py-1">{result.sensibleBTUH}</td>
+                <td className="pr-4 py-1">{result.latentBTUH}</td>
+                <td className="pr-4 py-1">{result.totalBTUH}</td>
+                <td className="py-1">{result.totalSupplyCFM}</td>
+              </tr>
+            </tbody>
+          </table>
+          <ul className="list-disc list-inside text-slate-400">
+            {result.notes.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
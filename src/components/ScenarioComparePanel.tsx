@@ -0,0 +1,147 @@
+"use client";
+
+import React from "react";
+import {
+  ScenarioComparison,
+  formatDelta,
+} from "@/lib/loadCalcScenarios";
+
+interface ScenarioComparePanelProps {
+  comparisons: ScenarioComparison[];
+  activeScenario: string | null;
+  onSelect: (name: string) => void;
+  onDelete: (name: string) => void;
+}
+
+function deltaClass(value: number | null): string {
+  if (value === null || value === 0) return "text-slate-400";
+  // Smaller loads are the good news here.
+  return value < 0 ? "text-emerald-400" : "text-amber-300";
+}
+
+export default function ScenarioComparePanel({
+  comparisons,
+  activeScenario,
+  onSelect,
+  onDelete,
+}: ScenarioComparePanelProps) {
+  if (comparisons.length === 0) return null;
+
+  const baseline = comparisons[0].scenario.name;
+
+  return (
+    <div className="mt-6 border border-slate-800 rounded-lg p-3 bg-slate-900/60">
+      <h2 className="text-xs font-semibold mb-1 text-slate-200">
+        Load Calc Scenarios
+      </h2>
+      <p className="text-[11px] text-slate-400 mb-2">
+        Deltas are against “{baseline}”. The selected scenario feeds the job
+        summary and equipment options.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="text-[11px] text-slate-300 border-collapse">
+          <thead>
+            <tr className="text-left text-slate-400">
+              <th className="pr-4 pb-1 font-semibold">Scenario</th>
+              <th className="pr-4 pb-1 font-semibold">Sensible</th>
+              <th className="pr-4 pb-1 font-semibold">Latent</th>
+              <th className="pr-4 pb-1 font-semibold">Total</th>
+              <th className="pr-4 pb-1 font-semibold">Tons</th>
+              <th className="pr-4 pb-1 font-semibold">Heating</th>
+              <th className="pb-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {comparisons.map(({ scenario, delta, changes }) => {
+              const isActive = scenario.name === activeScenario;
+              const isBaseline = scenario.name === baseline;
+              return (
+                <tr
+                  key={scenario.name}
+                  className={`align-top border-t border-slate-800 ${
+                    isActive ? "bg-emerald-500/5" : ""
+                  }`}
+                >
+                  <td className="pr-4 py-1">
+                    <strong className={isActive ? "text-emerald-300" : ""}>
+                      {scenario.name}
+                    </strong>{" "}
+                    <span className="text-slate-500">v{scenario.version}</span>
+                    {changes.length > 0 && (
+                      <ul className="text-slate-400 mt-1">
+                        {changes.map((change) => (
+                          <li key={change}>{change}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="pr-4 py-1">
+                    {scenario.result.sensibleBTUH.toLocaleString()}
+                    {!isBaseline && (
+                      <div className={deltaClass(delta.sensibleBTUH)}>
+                        {formatDelta(delta.sensibleBTUH, "BTUH")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="pr-4 py-1">
+                    {scenario.result.latentBTUH.toLocaleString()}
+                    {!isBaseline && (
+                      <div className={deltaClass(delta.latentBTUH)}>
+                        {formatDelta(delta.latentBTUH, "BTUH")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="pr-4 py-1">
+                    {scenario.result.totalBTUH.toLocaleString()}
+                    {!isBaseline && (
+                      <div className={deltaClass(delta.totalBTUH)}>
+                        {formatDelta(delta.totalBTUH, "BTUH")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="pr-4 py-1">
+                    {scenario.result.recommendedTonnage.toFixed(2)}
+                    {!isBaseline && (
+                      <div className={deltaClass(delta.recommendedTonnage)}>
+                        {formatDelta(delta.recommendedTonnage, "ton")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="pr-4 py-1">
+                    {scenario.result.heating
+                      ? scenario.result.heating.requiredBTUH.toLocaleString()
+                      : "—"}
+                    {!isBaseline && (
+                      <div className={deltaClass(delta.heatingBTUH)}>
+                        {formatDelta(delta.heatingBTUH, "BTUH")}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1 whitespace-nowrap">
+                    {!isActive && (
+                      <button
+                        type="button"
+                        className="text-emerald-400 underline mr-2"
+                        onClick={() => onSelect(scenario.name)}
+                      >
+                        Use
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="text-red-400 underline"
+                      onClick={() => onDelete(scenario.name)}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeVentilation,
+  envelopeLeakage,
+  resolveVentilation,
+  ventilationFlows,
+} from "@/lib/airLeakage";
+
+// 2,000 sq ft × 8 ft
+const VOLUME = 16000;
+
+describe("envelopeLeakage", () => {
+  it("divides ACH50 by 25 for summer and 15 for winter", () => {
+    // 2,000 CFM50 × 60 / 16,000 = 7.5 ACH50
+    const cooling = envelopeLeakage({ cfm50: 2000 }, VOLUME, 1, "cooling");
+    expect(cooling).toEqual({
+      ach50: 7.5,
+      source: "blower door",
+      naturalACH: 0.3,
+      infiltrationCFM: 80,
+    });
+
+    const heating = envelopeLeakage({ cfm50: 2000 }, VOLUME, 1, "heating");
+    expect(heating?.naturalACH).toBe(0.5);
+    expect(heating?.infiltrationCFM).toBeCloseTo(133.33, 2);
+  });
+
+  it("takes CFM50 over ACH50 and ACH50 over the category", () => {
+    expect(
+      envelopeLeakage(
+        { cfm50: 2000, ach50: 3, tightness: "leaky" },
+        VOLUME,
+        1,
+        "cooling"
+      )?.ach50
+    ).toBe(7.5);
+    expect(
+      envelopeLeakage({ ach50: 3, tightness: "leaky" }, VOLUME, 1, "cooling")
+    ).toMatchObject({ ach50: 3, source: "blower door", naturalACH: 0.12 });
+    expect(
+      envelopeLeakage({ tightness: "average" }, VOLUME, 1, "cooling")
+    ).toMatchObject({ ach50: 7, source: "tightness", naturalACH: 0.28 });
+  });
+
+  it("leaks more per ACH50 in taller houses", () => {
+    // 7.5 / (15 × 0.8)
+    const twoStory = envelopeLeakage({ ach50: 7.5 }, VOLUME, 2, "heating");
+    expect(twoStory?.naturalACH).toBe(0.63);
+    expect(twoStory?.infiltrationCFM).toBeCloseTo(166.67, 2);
+  });
+
+  it("returns null without a blower door number or category", () => {
+    expect(envelopeLeakage(undefined, VOLUME, 1, "cooling")).toBeNull();
+    expect(envelopeLeakage({}, VOLUME, 1, "heating")).toBeNull();
+  });
+
+  it("rejects negative readings", () => {
+    expect(() => envelopeLeakage({ cfm50: -1 }, VOLUME, 1, "cooling")).toThrow(
+      "CFM50 must be >= 0"
+    );
+  });
+});
+
+describe("ventilationFlows", () => {
+  it("leaves 30% of an HRV's air as sensible load and all of it as latent", () => {
+    const flows = ventilationFlows({ type: "hrv", cfm: 100 }, 80);
+    expect(flows.outdoorAirCFM).toBe(100);
+    expect(flows.sensibleCFM).toBeCloseTo(30, 6);
+    expect(flows.latentCFM).toBe(100);
+  });
+
+  it("recovers moisture too with an ERV", () => {
+    const flows = ventilationFlows(
+      { type: "erv", cfm: 100, sensibleEffectiveness: 0.75 },
+      80
+    );
+    expect(flows.sensibleCFM).toBeCloseTo(25, 6);
+    expect(flows.latentCFM).toBeCloseTo(50, 6);
+  });
+
+  it("clamps recovery at 100%", () => {
+    const system = {
+      type: "erv" as const,
+      cfm: 100,
+      sensibleEffectiveness: 1.2,
+      latentEffectiveness: -0.1,
+    };
+    expect(ventilationFlows(system, 80)).toEqual({
+      outdoorAirCFM: 100,
+      sensibleCFM: 0,
+      latentCFM: 100,
+    });
+    expect(describeVentilation(system)).toBe(
+      "100 CFM ERV (100% sensible / 0% latent recovery)"
+    );
+  });
+
+  it("adds unbalanced fans to infiltration in quadrature", () => {
+    // √(80² + 60²) − 80
+    expect(ventilationFlows({ type: "exhaust_only", cfm: 60 }, 80)).toEqual({
+      outdoorAirCFM: 20,
+      sensibleCFM: 20,
+      latentCFM: 20,
+    });
+    expect(ventilationFlows({ type: "balanced", cfm: 0 }, 80).outdoorAirCFM).toBe(
+      0
+    );
+  });
+});
+
+describe("resolveVentilation", () => {
+  it("reads the older plain CFM as balanced air without recovery", () => {
+    expect(resolveVentilation(undefined, 50)).toEqual({
+      type: "balanced",
+      cfm: 50,
+    });
+    expect(resolveVentilation(undefined, 0)).toBeUndefined();
+  });
+});
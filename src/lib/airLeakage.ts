@@ -0,0 +1,238 @@
+// src/lib/airLeakage.ts
+
+// Construction tightness when there is no blower door number.
+export type ConstructionTightness = "tight" | "average" | "leaky" | "very_leaky";
+
+export const CONSTRUCTION_TIGHTNESS_LEVELS: ConstructionTightness[] = [
+  "tight",
+  "average",
+  "leaky",
+  "very_leaky",
+];
+
+/**
+ * Envelope air leakage. A blower door result (CFM50 or ACH50) wins over
+ * the tightness category.
+ */
+export interface AirLeakageInput {
+  cfm50?: number;
+  ach50?: number;
+  tightness?: ConstructionTightness;
+}
+
+export type VentilationType =
+  | "exhaust_only"
+  | "supply_only"
+  | "balanced"
+  | "hrv"
+  | "erv";
+
+export const VENTILATION_TYPES: VentilationType[] = [
+  "exhaust_only",
+  "supply_only",
+  "balanced",
+  "hrv",
+  "erv",
+];
+
+export interface VentilationSystemInput {
+  type: VentilationType;
+  cfm: number;
+  // 0–1; HRV/ERV only, defaults below when missing.
+  sensibleEffectiveness?: number;
+  latentEffectiveness?: number;
+}
+
+export type AirLeakageSeason = "cooling" | "heating";
+
+export interface EnvelopeLeakage {
+  ach50: number;
+  source: "blower door" | "tightness";
+  // Natural air changes per hour at design conditions.
+  naturalACH: number;
+  infiltrationCFM: number;
+}
+
+/**
+ * Outdoor air the ventilation system adds, and what is left of it after
+ * heat / energy recovery (the CFM that actually carries load).
+ */
+export interface VentilationFlows {
+  outdoorAirCFM: number;
+  sensibleCFM: number;
+  latentCFM: number;
+}
+
+// Typical ACH50 for new code-built tight, average existing, older
+// leaky, and unimproved very leaky homes.
+const TIGHTNESS_ACH50: Record<ConstructionTightness, number> = {
+  tight: 3,
+  average: 7,
+  leaky: 12,
+  very_leaky: 18,
+};
+
+// LBL-style ACH50 → natural ACH divisor: winter design sees more stack
+// and wind driving force than summer.
+const LEAKAGE_DIVISOR: Record<AirLeakageSeason, number> = {
+  cooling: 25,
+  heating: 15,
+};
+
+// Taller houses leak more at the same ACH50 (divisor shrinks).
+function heightFactor(stories: number): number {
+  if (stories >= 3) return 0.7;
+  if (stories >= 2) return 0.8;
+  if (stories > 1) return 0.9;
+  return 1;
+}
+
+const DEFAULT_EFFECTIVENESS: Record<
+  "hrv" | "erv",
+  { sensible: number; latent: number }
+> = {
+  hrv: { sensible: 0.7, latent: 0 },
+  erv: { sensible: 0.7, latent: 0.5 },
+};
+
+function clampEffectiveness(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+export function hasAirLeakageData(leakage: AirLeakageInput | undefined): boolean {
+  return (
+    !!leakage &&
+    (leakage.cfm50 !== undefined ||
+      leakage.ach50 !== undefined ||
+      leakage.tightness !== undefined)
+  );
+}
+
+/**
+ * Design infiltration from a blower door result or a tightness
+ * category: ACH50 (CFM50 × 60 / volume) divided down to natural ACH.
+ * Returns null when there is nothing to go on, so callers can fall back
+ * to their insulation-based estimate.
+ */
+export function envelopeLeakage(
+  leakage: AirLeakageInput | undefined,
+  volumeCuFt: number,
+  stories: number,
+  season: AirLeakageSeason
+): EnvelopeLeakage | null {
+  if (!leakage || !hasAirLeakageData(leakage)) return null;
+  if (volumeCuFt <= 0) {
+    throw new Error("volume must be > 0");
+  }
+
+  // 1) ACH50: CFM50 first, then ACH50, then the category
+  let ach50: number;
+  let source: EnvelopeLeakage["source"] = "blower door";
+  if (leakage.cfm50 !== undefined) {
+    if (leakage.cfm50 < 0) throw new Error("CFM50 must be >= 0");
+    ach50 = (leakage.cfm50 * 60) / volumeCuFt;
+  } else if (leakage.ach50 !== undefined) {
+    if (leakage.ach50 < 0) throw new Error("ACH50 must be >= 0");
+    ach50 = leakage.ach50;
+  } else {
+    ach50 = TIGHTNESS_ACH50[leakage.tightness ?? "average"];
+    source = "tightness";
+  }
+
+  // 2) Natural ACH at design conditions
+  const naturalACH = ach50 / (LEAKAGE_DIVISOR[season] * heightFactor(stories));
+
+  return {
+    ach50: Math.round(ach50 * 10) / 10,
+    source,
+    naturalACH: Math.round(naturalACH * 100) / 100,
+    infiltrationCFM: (naturalACH * volumeCuFt) / 60,
+  };
+}
+
+/**
+ * Outdoor air from the ventilation system. Balanced systems bring in
+ * their rated CFM, less what an HRV/ERV recovers. Exhaust- or
+ * supply-only fans unbalance the house and add to natural infiltration
+ * in quadrature (ASHRAE Fundamentals), so only the increase counts.
+ */
+export function ventilationFlows(
+  system: VentilationSystemInput | undefined,
+  infiltrationCFM: number
+): VentilationFlows {
+  if (!system || system.cfm <= 0) {
+    return { outdoorAirCFM: 0, sensibleCFM: 0, latentCFM: 0 };
+  }
+
+  if (system.type === "exhaust_only" || system.type === "supply_only") {
+    const outdoorAirCFM =
+      Math.sqrt(infiltrationCFM ** 2 + system.cfm ** 2) - infiltrationCFM;
+    return { outdoorAirCFM, sensibleCFM: outdoorAirCFM, latentCFM: outdoorAirCFM };
+  }
+
+  if (system.type === "balanced") {
+    return { outdoorAirCFM: system.cfm, sensibleCFM: system.cfm, latentCFM: system.cfm };
+  }
+
+  const defaults = DEFAULT_EFFECTIVENESS[system.type];
+  const sensible = clampEffectiveness(
+    system.sensibleEffectiveness ?? defaults.sensible
+  );
+  const latent = clampEffectiveness(
+    system.latentEffectiveness ?? defaults.latent
+  );
+  return {
+    outdoorAirCFM: system.cfm,
+    sensibleCFM: system.cfm * (1 - sensible),
+    latentCFM: system.cfm * (1 - latent),
+  };
+}
+
+export function describeAirLeakage(leakage: EnvelopeLeakage): string {
+  return `${leakage.ach50} ACH50 (${leakage.source}) ≈ ${leakage.naturalACH} natural ACH`;
+}
+
+export function describeVentilation(system: VentilationSystemInput): string {
+  const kind =
+    system.type === "hrv" || system.type === "erv"
+      ? system.type.toUpperCase()
+      : system.type.replace("_", "-");
+  if (system.type !== "hrv" && system.type !== "erv") {
+    return `${system.cfm} CFM ${kind}`;
+  }
+  const defaults = DEFAULT_EFFECTIVENESS[system.type];
+  const sensible = Math.round(
+    clampEffectiveness(system.sensibleEffectiveness ?? defaults.sensible) * 100
+  );
+  const latent = Math.round(
+    clampEffectiveness(system.latentEffectiveness ?? defaults.latent) * 100
+  );
+  return `${system.cfm} CFM ${kind} (${sensible}% sensible / ${latent}% latent recovery)`;
+}
+
+/**
+ * The ventilation system to model: the explicit one, else the older
+ * plain `ventilationCFM` as balanced outdoor air with no recovery.
+ */
+export function resolveVentilation(
+  system: VentilationSystemInput | undefined,
+  legacyVentilationCFM?: number
+): VentilationSystemInput | undefined {
+  if (system) return system;
+  return legacyVentilationCFM && legacyVentilationCFM > 0
+    ? { type: "balanced", cfm: legacyVentilationCFM }
+    : undefined;
+}
+
+/**
+ * What was entered, before any volume math: "2400 CFM50", "5 ACH50" or
+ * "average construction".
+ */
+export function describeAirLeakageInput(
+  leakage: AirLeakageInput | undefined
+): string | null {
+  if (!leakage || !hasAirLeakageData(leakage)) return null;
+  if (leakage.cfm50 !== undefined) return `${leakage.cfm50} CFM50`;
+  if (leakage.ach50 !== undefined) return `${leakage.ach50} ACH50`;
+  return `${(leakage.tightness ?? "average").replace("_", " ")} construction`;
+}
@@ -0,0 +1,68 @@
+// src/lib/branding.ts
+import { promises as fs } from "fs";
+import path from "path";
+import defaultBranding from "@/data/branding.json";
+
+/**
+ * Company details printed on reports. Defaults come from
+ * src/data/branding.json; BRANDING_FILE points at a JSON file whose
+ * fields override them (e.g. one per franchise location).
+ */
+export interface Branding {
+  companyName: string;
+  tagline?: string;
+  licenseNumber?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  address?: string;
+  // PNG or JPG, relative to the project root
+  logoFile?: string | null;
+  accentColor?: string; // "#rrggbb"
+}
+
+export interface BrandLogo {
+  bytes: Uint8Array;
+  format: "png" | "jpg";
+}
+
+export async function loadBranding(): Promise<Branding> {
+  const overridePath = process.env.BRANDING_FILE;
+  if (!overridePath) return defaultBranding;
+
+  try {
+    const text = await fs.readFile(path.resolve(overridePath), "utf8");
+    return { ...defaultBranding, ...(JSON.parse(text) as Partial<Branding>) };
+  } catch (err) {
+    console.error("Branding config error, using defaults:", err);
+    return defaultBranding;
+  }
+}
+
+/**
+ * The configured logo, or null when none is set or the file is missing.
+ */
+export async function loadBrandLogo(branding: Branding): Promise<BrandLogo | null> {
+  if (!branding.logoFile) return null;
+
+  const ext = path.extname(branding.logoFile).toLowerCase();
+  const format = ext === ".png" ? "png" : ext === ".jpg" || ext === ".jpeg" ? "jpg" : null;
+  if (!format) return null;
+
+  try {
+    const bytes = await fs.readFile(path.resolve(branding.logoFile));
+    return { bytes: new Uint8Array(bytes), format };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * "#22c55e" -> [0.13, 0.77, 0.37]; falls back to the app's green.
+ */
+export function accentRGB(branding: Branding): [number, number, number] {
+  const match = /^#?([0-9a-f]{6})$/i.exec(branding.accentColor ?? "");
+  if (!match) return [0.13, 0.77, 0.37];
+  const n = parseInt(match[1], 16);
+  return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+}
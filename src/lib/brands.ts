@@ -0,0 +1,39 @@
+// src/lib/brands.ts
+
+export type BrandFamily =
+  | "trane"
+  | "carrier"
+  | "goodman"
+  | "rheem"
+  | "lennox"
+  | "york";
+
+export const BRAND_FAMILIES: BrandFamily[] = [
+  "trane",
+  "carrier",
+  "goodman",
+  "rheem",
+  "lennox",
+  "york",
+];
+
+// Sister brands share serial and model conventions with the parent.
+const BRAND_ALIASES: Record<BrandFamily, string[]> = {
+  trane: ["trane", "american standard", "ameristar", "runtru"],
+  carrier: ["carrier", "bryant", "payne", "day & night", "day and night"],
+  goodman: ["goodman", "amana", "daikin", "janitrol"],
+  rheem: ["rheem", "ruud", "weatherking", "sure comfort"],
+  lennox: ["lennox", "aire-flo", "concord"],
+  york: ["york", "coleman", "luxaire", "johnson controls", "champion"],
+};
+
+export function brandFamilyFor(manufacturer: string): BrandFamily | null {
+  const name = manufacturer.trim().toLowerCase();
+  if (!name || name === "unknown") return null;
+  for (const family of BRAND_FAMILIES) {
+    if (BRAND_ALIASES[family].some((alias) => name.includes(alias))) {
+      return family;
+    }
+  }
+  return null;
+}
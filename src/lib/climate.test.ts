@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  FALLBACK_DESIGN_CONDITIONS,
+  designDifferences,
+  lookupClimateByCounty,
+  resolveClimateFromAddress,
+} from "@/lib/climate";
+import { fallbackGrainsDifference } from "@/lib/loadCalc";
+
+describe("resolveClimateFromAddress", () => {
+  it("reads the ZIP after the state", () => {
+    const resolved = resolveClimateFromAddress("4512 Elm St, Austin, TX 78701");
+    expect(resolved?.conditions.location).toBe("Austin");
+    expect(resolved?.matchedBy).toBe("zip");
+    expect(resolved?.matchedOn).toBe("78701");
+  });
+
+  it("accepts ZIP+4 and a trailing country", () => {
+    expect(
+      resolveClimateFromAddress("1 Pike Pl, Seattle, WA, 98115-1234, USA")
+        ?.conditions.location
+    ).toBe("Seattle");
+  });
+
+  it("doesn't take a five-digit house number for the ZIP", () => {
+    const resolved = resolveClimateFromAddress(
+      "12345 Main St, Austin, TX 78701"
+    );
+    expect(resolved?.matchedOn).toBe("78701");
+    // 98101 would be Seattle; the county decides instead.
+    expect(
+      resolveClimateFromAddress("98101 Ranch Rd, Travis County, TX")?.conditions
+        .location
+    ).toBe("Austin");
+  });
+
+  it("falls back to a county phrase", () => {
+    const resolved = resolveClimateFromAddress(
+      "Rural Route 2, Harris County, TX"
+    );
+    expect(resolved?.conditions.location).toBe("Houston");
+    expect(resolved?.matchedBy).toBe("county");
+    expect(resolved?.matchedOn).toBe("Harris County, TX");
+  });
+
+  it("reads a spelled-out state after the county", () => {
+    const resolved = resolveClimateFromAddress(
+      "4410 N 7th Ave, Maricopa County, Arizona"
+    );
+    expect(resolved?.conditions.state).toBe("AZ");
+    expect(resolved?.matchedOn).toBe("Maricopa County, Arizona");
+    expect(
+      resolveClimateFromAddress("Clark County, Nevada")?.conditions.state
+    ).toBe("NV");
+    expect(
+      resolveClimateFromAddress("Harris County, Texas")?.conditions.location
+    ).toBe("Houston");
+  });
+
+  it("doesn't take a County Road for the state", () => {
+    const resolved = resolveClimateFromAddress("1800 Harris County Road 5");
+    expect(resolved?.conditions.location).toBe("Houston");
+    expect(resolved?.matchedOn).toBe("Harris County");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(resolveClimateFromAddress("somewhere out west")).toBeNull();
+  });
+});
+
+describe("lookupClimateByCounty", () => {
+  it("uses the state to pick between counties with the same name", () => {
+    expect(lookupClimateByCounty("Montgomery County", "PA")?.location).toBe(
+      "Philadelphia"
+    );
+    expect(lookupClimateByCounty("montgomery", "dc")?.location).toBe(
+      "Washington"
+    );
+    expect(lookupClimateByCounty("Montgomery", "TX")).toBeNull();
+  });
+});
+
+describe("designDifferences", () => {
+  it("adjusts the cooling ΔT for the daily range", () => {
+    const deltaT = (dailyRange: number) =>
+      designDifferences({ ...FALLBACK_DESIGN_CONDITIONS, dailyRange }, 50);
+
+    // 95°F outdoor - 75°F indoor = 20°F before the correction
+    expect(deltaT(10)).toMatchObject({
+      dailyRangeClass: "low",
+      dailyRangeAdjustmentF: 4,
+      coolingDeltaT: 24,
+    });
+    expect(deltaT(16).coolingDeltaT).toBe(20);
+    expect(deltaT(25).coolingDeltaT).toBe(20);
+    expect(deltaT(30)).toMatchObject({
+      dailyRangeClass: "high",
+      dailyRangeAdjustmentF: -5,
+      coolingDeltaT: 15,
+    });
+  });
+
+  it("never goes below zero", () => {
+    const climate = designDifferences(
+      { ...FALLBACK_DESIGN_CONDITIONS, cooling1DB: 78, dailyRange: 30 },
+      50
+    );
+    expect(climate.coolingDeltaT).toBe(0);
+  });
+});
+
+describe("fallback design conditions", () => {
+  it("gives the cooling ΔT and grains of one 95°F / 75°F WB day", () => {
+    const climate = designDifferences(FALLBACK_DESIGN_CONDITIONS, 50);
+    expect(climate.coolingDeltaT).toBe(20);
+    expect(climate.heatingOutdoorDesignF).toBe(20);
+    expect(climate.grainsDifference).toBe(
+      Math.round(fallbackGrainsDifference(50))
+    );
+  });
+});
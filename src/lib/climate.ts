@@ -0,0 +1,258 @@
+// src/lib/climate.ts
+import climateTable from "@/data/climateDesign.json";
+import {
+  humidityRatioFromRH,
+  humidityRatioFromWetBulb,
+  toGrains,
+} from "@/lib/psychrometrics";
+
+/**
+ * One row of src/data/climateDesign.json.
+ * Temperatures are °F: 1% cooling dry-bulb with its mean coincident
+ * wet-bulb, 99% heating dry-bulb, and the mean daily range in summer.
+ */
+export interface ClimateDesignConditions {
+  location: string;
+  state: string;
+  zip3: string[];
+  counties: string[];
+  elevationFt: number;
+  cooling1DB: number;
+  coolingMCWB: number;
+  heating99DB: number;
+  dailyRange: number;
+}
+
+export type DailyRangeClass = "low" | "medium" | "high";
+
+export interface ResolvedClimate {
+  conditions: ClimateDesignConditions;
+  matchedBy: "zip" | "county";
+  matchedOn: string;
+}
+
+export interface DesignTemperatureDifferences {
+  coolingDeltaT: number;
+  heatingOutdoorDesignF: number;
+  heatingDeltaT: number;
+  outdoorGrains: number;
+  indoorGrains: number;
+  grainsDifference: number;
+  dailyRangeClass: DailyRangeClass;
+  // Already applied to coolingDeltaT.
+  dailyRangeAdjustmentF: number;
+}
+
+const CLIMATE_TABLE = climateTable as ClimateDesignConditions[];
+
+export const INDOOR_COOLING_SETPOINT_F = 75;
+export const INDOOR_HEATING_SETPOINT_F = 70;
+
+// Design conditions used when the job address doesn't resolve to a
+// climate row: a humid 95°F DB / 75°F WB summer and a 20°F winter.
+// Both the cooling ΔT and the grains difference come from this one row.
+export const FALLBACK_DESIGN_CONDITIONS: ClimateDesignConditions = {
+  location: "Generic",
+  state: "",
+  zip3: [],
+  counties: [],
+  elevationFt: 0,
+  cooling1DB: 95,
+  coolingMCWB: 75,
+  heating99DB: 20,
+  dailyRange: 20,
+};
+
+// ZIP (or ZIP+4) closing the address, right after the state: "WA 98115",
+// "Seattle, WA, 98115-1234, USA". A 5-digit house number never matches.
+const ZIP_PATTERN =
+  /[A-Za-z.],?\s+(\d{5})(?:-\d{4})?(?:,?\s*(?:USA?|United States))?\s*$/i;
+const COUNTY_PATTERN = /([A-Za-z.' -]+?)\s+County\b/i;
+// The state after "County": an upper-case code ("County Road" is not
+// RO) or a name spelled out after a comma.
+const STATE_CODE_AFTER_COUNTY = /^,?\s*([A-Z]{2})\b/;
+const STATE_NAME_AFTER_COUNTY = /^,\s*([A-Za-z]+(?: [A-Za-z]+)*)/;
+
+const STATE_CODES: Record<string, string> = {
+  alabama: "AL",
+  alaska: "AK",
+  arizona: "AZ",
+  arkansas: "AR",
+  california: "CA",
+  colorado: "CO",
+  connecticut: "CT",
+  delaware: "DE",
+  "district of columbia": "DC",
+  florida: "FL",
+  georgia: "GA",
+  hawaii: "HI",
+  idaho: "ID",
+  illinois: "IL",
+  indiana: "IN",
+  iowa: "IA",
+  kansas: "KS",
+  kentucky: "KY",
+  louisiana: "LA",
+  maine: "ME",
+  maryland: "MD",
+  massachusetts: "MA",
+  michigan: "MI",
+  minnesota: "MN",
+  mississippi: "MS",
+  missouri: "MO",
+  montana: "MT",
+  nebraska: "NE",
+  nevada: "NV",
+  "new hampshire": "NH",
+  "new jersey": "NJ",
+  "new mexico": "NM",
+  "new york": "NY",
+  "north carolina": "NC",
+  "north dakota": "ND",
+  ohio: "OH",
+  oklahoma: "OK",
+  oregon: "OR",
+  pennsylvania: "PA",
+  "rhode island": "RI",
+  "south carolina": "SC",
+  "south dakota": "SD",
+  tennessee: "TN",
+  texas: "TX",
+  utah: "UT",
+  vermont: "VT",
+  virginia: "VA",
+  washington: "WA",
+  "west virginia": "WV",
+  wisconsin: "WI",
+  wyoming: "WY",
+};
+
+const KNOWN_STATE_CODES = new Set(Object.values(STATE_CODES));
+
+/**
+ * The state named right after a county phrase, with the text it was
+ * read from; nothing when what follows isn't a state.
+ */
+function stateAfterCounty(rest: string): { code: string; text: string } | null {
+  const code = rest.match(STATE_CODE_AFTER_COUNTY);
+  if (code && KNOWN_STATE_CODES.has(code[1])) {
+    return { code: code[1], text: code[0] };
+  }
+  const name = rest.match(STATE_NAME_AFTER_COUNTY);
+  const named = name && STATE_CODES[name[1].toLowerCase()];
+  return named ? { code: named, text: name[0] } : null;
+}
+
+export function lookupClimateByZip(
+  zip: string
+): ClimateDesignConditions | null {
+  const zip3 = zip.trim().slice(0, 3);
+  return CLIMATE_TABLE.find((row) => row.zip3.includes(zip3)) ?? null;
+}
+
+export function lookupClimateByCounty(
+  county: string,
+  state?: string
+): ClimateDesignConditions | null {
+  const name = county
+    .replace(/\s+county$/i, "")
+    .trim()
+    .toLowerCase();
+  const st = state?.trim().toUpperCase();
+  return (
+    CLIMATE_TABLE.find(
+      (row) =>
+        (!st || row.state === st) &&
+        row.counties.some((c) => c.toLowerCase() === name)
+    ) ?? null
+  );
+}
+
+/**
+ * Resolve design conditions from a free-form job address.
+ * Tries the ZIP after the state first, then a "<Name> County, ST" (or
+ * "<Name> County, State") phrase.
+ */
+export function resolveClimateFromAddress(
+  address: string
+): ResolvedClimate | null {
+  const zip = address.match(ZIP_PATTERN)?.[1];
+  if (zip) {
+    const conditions = lookupClimateByZip(zip);
+    if (conditions) {
+      return { conditions, matchedBy: "zip", matchedOn: zip };
+    }
+  }
+
+  const countyMatch = address.match(COUNTY_PATTERN);
+  if (countyMatch) {
+    const state = stateAfterCounty(
+      address.slice((countyMatch.index ?? 0) + countyMatch[0].length)
+    );
+    const conditions = lookupClimateByCounty(countyMatch[1], state?.code);
+    if (conditions) {
+      return {
+        conditions,
+        matchedBy: "county",
+        matchedOn: `${countyMatch[0]}${state?.text ?? ""}`.trim(),
+      };
+    }
+  }
+
+  return null;
+}
+
+// Cooling ΔT correction by daily range class (the CLTD mean-temperature
+// correction at each class's typical range, against a 20°F reference):
+// big day/night swings mean the house sees a cooler average.
+const DAILY_RANGE_DELTA_T_ADJUSTMENT: Record<DailyRangeClass, number> = {
+  low: 4,
+  medium: 0,
+  high: -5,
+};
+
+function classifyDailyRange(range: number): DailyRangeClass {
+  if (range < 16) return "low";
+  if (range > 25) return "high";
+  return "medium";
+}
+
+/**
+ * Turn a climate row into the numbers runLoadCalc needs: cooling ΔT
+ * (adjusted for the daily range), winter design temp / ΔT, and
+ * outdoor-minus-indoor grains.
+ */
+export function designDifferences(
+  conditions: ClimateDesignConditions,
+  indoorRH: number,
+  indoorCoolingF = INDOOR_COOLING_SETPOINT_F,
+  indoorHeatingF = INDOOR_HEATING_SETPOINT_F
+): DesignTemperatureDifferences {
+  const outdoorGrains = toGrains(
+    humidityRatioFromWetBulb(
+      conditions.cooling1DB,
+      conditions.coolingMCWB,
+      conditions.elevationFt
+    )
+  );
+  const indoorGrains = toGrains(
+    humidityRatioFromRH(indoorCoolingF, indoorRH, conditions.elevationFt)
+  );
+
+  const dailyRangeClass = classifyDailyRange(conditions.dailyRange);
+  const dailyRangeAdjustmentF = DAILY_RANGE_DELTA_T_ADJUSTMENT[dailyRangeClass];
+
+  return {
+    coolingDeltaT: Math.max(
+      conditions.cooling1DB - indoorCoolingF + dailyRangeAdjustmentF,
+      0
+    ),
+    heatingOutdoorDesignF: conditions.heating99DB,
+    heatingDeltaT: Math.max(indoorHeatingF - conditions.heating99DB, 0),
+    outdoorGrains: Math.round(outdoorGrains),
+    indoorGrains: Math.round(indoorGrains),
+    grainsDifference: Math.round(outdoorGrains - indoorGrains),
+    dailyRangeClass,
+    dailyRangeAdjustmentF,
+  };
+}
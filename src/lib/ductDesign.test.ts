@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { designDucts, runsFromRoomLoads } from "@/lib/ductDesign";
+import type { DuctDesignInput } from "@/lib/ductDesign";
+
+const BASE: DuctDesignInput = {
+  runs: [{ name: "Living room", cfm: 200 }],
+  availableStaticPressureInWC: 0.2,
+};
+
+describe("designDucts", () => {
+  it("shares the airflow target by sensible load", () => {
+    const result = designDucts({
+      runs: [
+        { name: "Living room", sensibleBTUH: 6000 },
+        { name: "Bedroom", sensibleBTUH: 2000 },
+      ],
+      totalAirflowCFM: 800,
+      availableStaticPressureInWC: 0.2,
+    });
+    expect(result.supplyRuns.map((r) => r.cfm)).toEqual([600, 200]);
+  });
+
+  it("rejects friction rates outside the design range", () => {
+    expect(() => designDucts({ ...BASE, frictionRate: 0 })).toThrow(
+      /friction rate/
+    );
+    expect(() => designDucts({ ...BASE, frictionRate: -0.1 })).toThrow(
+      /friction rate/
+    );
+    expect(() => designDucts({ ...BASE, frictionRate: 8 })).toThrow(
+      /friction rate/
+    );
+    expect(designDucts({ ...BASE, frictionRate: 0.1 }).frictionRate).toBe(0.1);
+  });
+
+  it("requires a whole number of return grilles", () => {
+    expect(() => designDucts({ ...BASE, returnGrilles: 1.5 })).toThrow(
+      /return grilles/
+    );
+    expect(() => designDucts({ ...BASE, returnGrilles: 0 })).toThrow(
+      /return grilles/
+    );
+    expect(designDucts({ ...BASE, returnGrilles: 2 }).returnAir.grilles).toBe(2);
+  });
+
+  it("flags an existing duct that would run over the velocity ceiling", () => {
+    // A 6" branch carries 200 CFM at a steep friction rate, but at
+    // ~1000 FPM, well over the 700 FPM branch ceiling.
+    const result = designDucts({
+      ...BASE,
+      frictionRate: 0.5,
+      runs: [{ name: "Living room", cfm: 200, existing: { diameterIn: 6 } }],
+    });
+    const existing = result.supplyRuns[0].existing;
+    expect(existing?.capacityCFM).toBeGreaterThan(200);
+    expect(existing?.velocityFPM).toBeGreaterThan(700);
+    expect(existing?.undersized).toBe(true);
+    expect(result.undersized[0]).toMatch(/over the 700 FPM limit/);
+  });
+});
+
+describe("runsFromRoomLoads", () => {
+  it("carries each room's sensible load", () => {
+    expect(
+      runsFromRoomLoads([
+        {
+          name: "Kitchen",
+          solarBTUH: 900,
+          solarPeakHour: 17,
+          sensibleBTUH: 4200,
+          latentBTUH: 600,
+          totalBTUH: 4800,
+          supplyCFM: 180,
+        },
+      ])
+    ).toEqual([{ name: "Kitchen", sensibleBTUH: 4200 }]);
+  });
+});
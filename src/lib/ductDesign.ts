@@ -0,0 +1,522 @@
+// src/lib/ductDesign.ts
+import type { FieldError } from "@/lib/intakeSchemas";
+import type { RoomLoad } from "@/lib/roomLoadCalc";
+
+/**
+ * An installed duct: round by diameter, or rectangular by inside
+ * dimensions.
+ */
+export type DuctSize =
+  | { diameterIn: number }
+  | { widthIn: number; heightIn: number };
+
+export interface SupplyRun {
+  name: string;
+  // Explicit airflow for this run...
+  cfm?: number;
+  // ...or its sensible load, to take a share of the whole-house target.
+  sensibleBTUH?: number;
+  // What's there today, to check against the design.
+  existing?: DuctSize;
+}
+
+export interface DuctDesignInput {
+  runs: SupplyRun[];
+  // Whole-house blower airflow; defaults to the sum of the runs' CFM.
+  totalAirflowCFM?: number;
+  // Blower external static minus coil, filter, grilles and registers.
+  availableStaticPressureInWC: number;
+  // Longest supply + longest return, fittings included.
+  totalEffectiveLengthFt?: number;
+  // in. w.c. per 100 ft; derived from ASP and TEL when not given.
+  frictionRate?: number;
+  returnGrilles?: number;
+  // Rectangular equivalents are sized at this height.
+  rectangularHeightIn?: number;
+  existingSupplyTrunk?: DuctSize;
+  existingReturnTrunk?: DuctSize;
+}
+
+export interface RectangularSize {
+  widthIn: number;
+  heightIn: number;
+}
+
+export interface DuctSection {
+  cfm: number;
+  diameterIn: number;
+  rectangular: RectangularSize;
+  velocityFPM: number;
+  // Friction rate of the chosen size at this airflow
+  frictionRate: number;
+}
+
+export interface ExistingDuctCheck {
+  size: DuctSize;
+  equivalentDiameterIn: number;
+  // What it carries at the design friction rate
+  capacityCFM: number;
+  velocityFPM: number;
+  // Same ceiling the design size is held to
+  maxVelocityFPM: number;
+  undersized: boolean;
+}
+
+export interface SupplyRunDesign extends DuctSection {
+  name: string;
+  existing?: ExistingDuctCheck;
+}
+
+export interface ReturnAirDesign {
+  grilles: number;
+  cfmPerGrille: number;
+  // Free area each return grille needs at the design face velocity
+  grilleFreeAreaSqIn: number;
+  drop: DuctSection;
+  trunk: DuctSection;
+  existingTrunk?: ExistingDuctCheck;
+}
+
+export interface DuctDesignResult {
+  frictionRate: number;
+  availableStaticPressureInWC: number;
+  totalEffectiveLengthFt: number;
+  totalSupplyCFM: number;
+  supplyRuns: SupplyRunDesign[];
+  supplyTrunk: DuctSection & { existing?: ExistingDuctCheck };
+  returnAir: ReturnAirDesign;
+  // Existing ducts that can't carry their design airflow
+  undersized: string[];
+  notes: string[];
+}
+
+const STANDARD_ROUND_SIZES_IN = [
+  4, 5, 6, 7, 8, 9, 10, 12, 14, 16, 18, 20, 22, 24, 26, 28, 30, 32, 36,
+];
+
+// Typical residential total effective length when none is measured.
+const DEFAULT_TOTAL_EFFECTIVE_LENGTH_FT = 250;
+
+const DEFAULT_RECTANGULAR_HEIGHT_IN = 8;
+
+const MAX_ASPECT_RATIO = 4;
+
+// Manual D friction rate design area (in. w.c. / 100 ft).
+const MIN_FRICTION_RATE = 0.06;
+const MAX_FRICTION_RATE = 0.18;
+// Anything above this is a typo (in. w.c. per ft, or per 10 ft).
+const MAX_INPUT_FRICTION_RATE = 1;
+
+// Velocity ceilings for quiet residential ducts (FPM).
+const MAX_SUPPLY_TRUNK_FPM = 900;
+const MAX_SUPPLY_BRANCH_FPM = 700;
+const MAX_RETURN_TRUNK_FPM = 700;
+const MAX_RETURN_BRANCH_FPM = 600;
+
+const RETURN_GRILLE_FACE_FPM = 400;
+
+const CFM_PER_TON = 400;
+
+// One return grille per this much airflow when not specified.
+const CFM_PER_RETURN_GRILLE = 800;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Friction loss of round galvanized duct, in. w.c. per 100 ft:
+ * 0.109136 × CFM^1.9 / D^5.02.
+ */
+export function roundDuctFriction(cfm: number, diameterIn: number): number {
+  return (0.109136 * Math.pow(cfm, 1.9)) / Math.pow(diameterIn, 5.02);
+}
+
+function roundDuctCapacity(diameterIn: number, frictionRate: number): number {
+  return Math.pow(
+    (frictionRate * Math.pow(diameterIn, 5.02)) / 0.109136,
+    1 / 1.9
+  );
+}
+
+function velocityFPM(cfm: number, diameterIn: number): number {
+  const areaSqFt = Math.PI * Math.pow(diameterIn / 24, 2);
+  return cfm / areaSqFt;
+}
+
+/**
+ * Huebscher equivalent round diameter of a rectangular duct.
+ */
+export function equivalentDiameter(widthIn: number, heightIn: number): number {
+  return (
+    (1.3 * Math.pow(widthIn * heightIn, 0.625)) /
+    Math.pow(widthIn + heightIn, 0.25)
+  );
+}
+
+function sizeDiameter(size: DuctSize): number {
+  return "diameterIn" in size
+    ? size.diameterIn
+    : equivalentDiameter(size.widthIn, size.heightIn);
+}
+
+/**
+ * Smallest rectangle (2" steps) at the given height with at least the
+ * round duct's equivalent diameter; the height grows past 4:1.
+ */
+function rectangularFor(diameterIn: number, heightIn: number): RectangularSize {
+  let height = heightIn;
+  for (;;) {
+    for (let width = 4; width <= height * MAX_ASPECT_RATIO; width += 2) {
+      if (equivalentDiameter(width, height) >= diameterIn) {
+        return { widthIn: width, heightIn: height };
+      }
+    }
+    height += 2;
+  }
+}
+
+/**
+ * Equal friction: the smallest standard round size whose friction at
+ * this airflow is at or below the design rate and whose velocity stays
+ * under the ceiling.
+ */
+export function sizeDuct(
+  cfm: number,
+  frictionRate: number,
+  maxVelocityFPM: number,
+  rectangularHeightIn: number = DEFAULT_RECTANGULAR_HEIGHT_IN
+): DuctSection {
+  const diameterIn =
+    STANDARD_ROUND_SIZES_IN.find(
+      (d) =>
+        roundDuctFriction(cfm, d) <= frictionRate &&
+        velocityFPM(cfm, d) <= maxVelocityFPM
+    ) ?? STANDARD_ROUND_SIZES_IN[STANDARD_ROUND_SIZES_IN.length - 1];
+
+  return {
+    cfm: Math.round(cfm),
+    diameterIn,
+    rectangular: rectangularFor(diameterIn, rectangularHeightIn),
+    velocityFPM: Math.round(velocityFPM(cfm, diameterIn)),
+    frictionRate: round3(roundDuctFriction(cfm, diameterIn)),
+  };
+}
+
+/**
+ * An existing duct is undersized when it can't carry the airflow at the
+ * design friction rate or would run faster than the ceiling `sizeDuct`
+ * holds the new size to.
+ */
+function checkExisting(
+  size: DuctSize,
+  cfm: number,
+  frictionRate: number,
+  maxVelocityFPM: number
+): ExistingDuctCheck {
+  const diameter = sizeDiameter(size);
+  const capacityCFM = roundDuctCapacity(diameter, frictionRate);
+  const velocity = velocityFPM(cfm, diameter);
+  return {
+    size,
+    equivalentDiameterIn: Math.round(diameter * 10) / 10,
+    capacityCFM: Math.round(capacityCFM),
+    velocityFPM: Math.round(velocity),
+    maxVelocityFPM,
+    undersized: capacityCFM < cfm || velocity > maxVelocityFPM,
+  };
+}
+
+function describeShortfall(check: ExistingDuctCheck, cfm: number): string {
+  return check.capacityCFM < Math.round(cfm)
+    ? `carries ~${check.capacityCFM} CFM, needs ${Math.round(cfm)} CFM`
+    : `would run ${check.velocityFPM} FPM at ${Math.round(cfm)} CFM, over the ${check.maxVelocityFPM} FPM limit`;
+}
+
+export function describeDuctSize(size: DuctSize): string {
+  return "diameterIn" in size
+    ? `${size.diameterIn}" round`
+    : `${size.widthIn}x${size.heightIn}" rect`;
+}
+
+/**
+ * Whole-house blower airflow for a system size (400 CFM per ton).
+ */
+export function airflowForTonnage(tons: number): number {
+  return Math.round(tons * CFM_PER_TON);
+}
+
+/**
+ * Supply runs from a room-by-room calc, one per room. Runs carry the
+ * room's sensible load, so they share whatever whole-house airflow the
+ * design targets.
+ */
+export function runsFromRoomLoads(rooms: RoomLoad[]): SupplyRun[] {
+  return rooms.map((room) => ({
+    name: room.name,
+    sensibleBTUH: room.sensibleBTUH,
+  }));
+}
+
+/**
+ * Inputs `designDucts` refuses, with fields named as in
+ * `DuctDesignInput`. Shared with the job PATCH check so a saved duct
+ * design always designs.
+ */
+export function ductDesignInputErrors(input: DuctDesignInput): FieldError[] {
+  const {
+    runs,
+    availableStaticPressureInWC,
+    totalEffectiveLengthFt = DEFAULT_TOTAL_EFFECTIVE_LENGTH_FT,
+    frictionRate,
+    returnGrilles,
+  } = input;
+
+  if (runs.length === 0) {
+    return [{ field: "runs", message: "at least one supply run is required" }];
+  }
+  const errors: FieldError[] = [];
+  if (!(availableStaticPressureInWC > 0)) {
+    errors.push({
+      field: "availableStaticPressureInWC",
+      message: "available static pressure must be > 0",
+    });
+  }
+  if (!(totalEffectiveLengthFt > 0)) {
+    errors.push({
+      field: "totalEffectiveLengthFt",
+      message: "total effective length must be > 0",
+    });
+  }
+  if (
+    frictionRate !== undefined &&
+    !(frictionRate > 0 && frictionRate <= MAX_INPUT_FRICTION_RATE)
+  ) {
+    errors.push({
+      field: "frictionRate",
+      message: `friction rate must be > 0 and <= ${MAX_INPUT_FRICTION_RATE} in. w.c./100 ft`,
+    });
+  }
+  if (
+    returnGrilles !== undefined &&
+    !(Number.isInteger(returnGrilles) && returnGrilles >= 1)
+  ) {
+    errors.push({
+      field: "returnGrilles",
+      message: "return grilles must be a whole number >= 1",
+    });
+  }
+  runs.forEach((run, i) => {
+    const field = `runs[${i}]`;
+    if (run.cfm !== undefined && !(run.cfm >= 0)) {
+      errors.push({ field: `${field}.cfm`, message: `${run.name}: CFM must be >= 0` });
+    }
+    if (run.sensibleBTUH !== undefined && !(run.sensibleBTUH >= 0)) {
+      errors.push({
+        field: `${field}.sensibleBTUH`,
+        message: `${run.name}: sensible load must be >= 0`,
+      });
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  const explicitCFM = runs.reduce((sum, r) => sum + (r.cfm ?? 0), 0);
+  if (!((input.totalAirflowCFM ?? explicitCFM) > 0)) {
+    errors.push({
+      field: "totalAirflowCFM",
+      message: "supply airflow must be > 0",
+    });
+  }
+  return errors;
+}
+
+/**
+ * Manual-D-lite duct design: friction rate from available static
+ * pressure and total effective length, then equal-friction round and
+ * rectangular sizes for every supply run, the supply trunk and the
+ * return side. Existing duct sizes are checked against the design.
+ */
+export function designDucts(input: DuctDesignInput): DuctDesignResult {
+  const notes: string[] = [];
+  const undersized: string[] = [];
+
+  const {
+    runs,
+    availableStaticPressureInWC,
+    totalEffectiveLengthFt = DEFAULT_TOTAL_EFFECTIVE_LENGTH_FT,
+    rectangularHeightIn = DEFAULT_RECTANGULAR_HEIGHT_IN,
+  } = input;
+
+  const [inputError] = ductDesignInputErrors(input);
+  if (inputError) throw new Error(inputError.message);
+
+  // 1) Friction rate: Manual D's ASP × 100 / TEL, unless given
+  const availableFrictionRate =
+    (availableStaticPressureInWC * 100) / totalEffectiveLengthFt;
+  let frictionRate = availableFrictionRate;
+  if (input.frictionRate !== undefined) {
+    frictionRate = input.frictionRate;
+    if (frictionRate > availableFrictionRate) {
+      notes.push(
+        `Design friction rate ${frictionRate} exceeds the ${round3(
+          availableFrictionRate
+        )} the blower can support over ${totalEffectiveLengthFt} ft; expect low airflow.`
+      );
+    }
+  } else {
+    notes.push(
+      `Friction rate ${round3(frictionRate)} in. w.c./100 ft from ${availableStaticPressureInWC} in. w.c. available over ${totalEffectiveLengthFt} ft TEL.`
+    );
+  }
+  if (frictionRate < MIN_FRICTION_RATE) {
+    notes.push(
+      `Friction rate below ${MIN_FRICTION_RATE}: long runs or little static left; ducts come out large, consider a higher-static blower or shorter runs.`
+    );
+  } else if (frictionRate > MAX_FRICTION_RATE) {
+    notes.push(
+      `Friction rate above ${MAX_FRICTION_RATE}: sizes may be noisy; capped velocities keep them quiet.`
+    );
+  }
+
+  // 2) Airflow per run: explicit CFM, else share of the target by
+  //    sensible load, else an even split
+  const explicitCFM = runs.reduce((sum, r) => sum + (r.cfm ?? 0), 0);
+  const totalSupplyCFM = input.totalAirflowCFM ?? explicitCFM;
+
+  const remainingCFM = Math.max(totalSupplyCFM - explicitCFM, 0);
+  const unassigned = runs.filter((r) => r.cfm === undefined);
+  const unassignedLoad = unassigned.reduce(
+    (sum, r) => sum + (r.sensibleBTUH ?? 0),
+    0
+  );
+  const runCFM = runs.map((run) => {
+    if (run.cfm !== undefined) return run.cfm;
+    return unassignedLoad > 0
+      ? remainingCFM * ((run.sensibleBTUH ?? 0) / unassignedLoad)
+      : remainingCFM / unassigned.length;
+  });
+
+  if (
+    input.totalAirflowCFM !== undefined &&
+    explicitCFM > input.totalAirflowCFM
+  ) {
+    notes.push(
+      `Run airflows add up to ${Math.round(explicitCFM)} CFM, more than the ${input.totalAirflowCFM} CFM target.`
+    );
+  }
+
+  // 3) Supply runs and trunk
+  const supplyRuns: SupplyRunDesign[] = runs.map((run, i) => {
+    const section = sizeDuct(
+      runCFM[i],
+      frictionRate,
+      MAX_SUPPLY_BRANCH_FPM,
+      rectangularHeightIn
+    );
+    const design: SupplyRunDesign = { name: run.name, ...section };
+    if (run.existing) {
+      design.existing = checkExisting(
+        run.existing,
+        runCFM[i],
+        frictionRate,
+        MAX_SUPPLY_BRANCH_FPM
+      );
+      if (design.existing.undersized) {
+        undersized.push(
+          `${run.name}: existing ${describeDuctSize(run.existing)} ${describeShortfall(
+            design.existing,
+            runCFM[i]
+          )} (${section.diameterIn}" round).`
+        );
+      }
+    }
+    return design;
+  });
+
+  const supplyTrunk: DuctDesignResult["supplyTrunk"] = sizeDuct(
+    totalSupplyCFM,
+    frictionRate,
+    MAX_SUPPLY_TRUNK_FPM,
+    rectangularHeightIn
+  );
+  if (input.existingSupplyTrunk) {
+    supplyTrunk.existing = checkExisting(
+      input.existingSupplyTrunk,
+      totalSupplyCFM,
+      frictionRate,
+      MAX_SUPPLY_TRUNK_FPM
+    );
+    if (supplyTrunk.existing.undersized) {
+      undersized.push(
+        `Supply trunk: existing ${describeDuctSize(
+          input.existingSupplyTrunk
+        )} ${describeShortfall(supplyTrunk.existing, totalSupplyCFM)}.`
+      );
+    }
+  }
+
+  // 4) Return side: same airflow, slower velocities
+  const grilles =
+    input.returnGrilles ??
+    Math.max(1, Math.ceil(totalSupplyCFM / CFM_PER_RETURN_GRILLE));
+  const cfmPerGrille = totalSupplyCFM / grilles;
+  const returnAir: ReturnAirDesign = {
+    grilles,
+    cfmPerGrille: Math.round(cfmPerGrille),
+    grilleFreeAreaSqIn: Math.ceil((cfmPerGrille / RETURN_GRILLE_FACE_FPM) * 144),
+    drop: sizeDuct(
+      cfmPerGrille,
+      frictionRate,
+      MAX_RETURN_BRANCH_FPM,
+      rectangularHeightIn
+    ),
+    trunk: sizeDuct(
+      totalSupplyCFM,
+      frictionRate,
+      MAX_RETURN_TRUNK_FPM,
+      rectangularHeightIn
+    ),
+  };
+  if (input.existingReturnTrunk) {
+    returnAir.existingTrunk = checkExisting(
+      input.existingReturnTrunk,
+      totalSupplyCFM,
+      frictionRate,
+      MAX_RETURN_TRUNK_FPM
+    );
+    if (returnAir.existingTrunk.undersized) {
+      undersized.push(
+        `Return trunk: existing ${describeDuctSize(
+          input.existingReturnTrunk
+        )} ${describeShortfall(returnAir.existingTrunk, totalSupplyCFM)}.`
+      );
+    }
+  }
+  notes.push(
+    `${grilles} return grille${grilles === 1 ? "" : "s"} at ${RETURN_GRILLE_FACE_FPM} FPM face velocity need ~${returnAir.grilleFreeAreaSqIn} sq in free area each.`
+  );
+
+  if (undersized.length > 0) {
+    notes.push(
+      `${undersized.length} existing duct section${
+        undersized.length === 1 ? " is" : "s are"
+      } undersized for the design airflow.`
+    );
+  }
+
+  return {
+    frictionRate: round3(frictionRate),
+    availableStaticPressureInWC: round2(availableStaticPressureInWC),
+    totalEffectiveLengthFt,
+    totalSupplyCFM: Math.round(totalSupplyCFM),
+    supplyRuns,
+    supplyTrunk,
+    returnAir,
+    undersized,
+    notes,
+  };
+}
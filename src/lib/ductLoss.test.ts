@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  CONDITIONED_DUCTS,
+  computeDuctLoad,
+  ductLeakageCFM25,
+  ductLocationTempF,
+  DuctSystemInput,
+  resolveDuctSystem,
+} from "@/lib/ductLoss";
+
+// R-6 wrap + 0.7 air films: U = 1 / 6.7
+const ATTIC: DuctSystemInput = {
+  supplyLocation: "attic",
+  returnLocation: "attic",
+  insulationR: 6,
+  tightness: "average",
+};
+
+const HEATING = {
+  sqft: 1000,
+  stories: 1,
+  season: "heating" as const,
+  outdoorF: 10,
+  indoorF: 70,
+};
+
+describe("computeDuctLoad", () => {
+  it("matches a hand calc for attic ducts in winter", () => {
+    // 270 sq ft supply (ASHRAE 152 one-story 27%) × (110 - 10) / 6.7
+    // 50 sq ft return (5%) × (70 - 10) / 6.7
+    // 100 CFM25, half each side: 1.08 × 50 × 40 and 1.08 × 50 × 60
+    expect(computeDuctLoad(ATTIC, HEATING)).toEqual({
+      supplyConductionBTUH: 4030,
+      returnConductionBTUH: 448,
+      supplyLeakageBTUH: 2160,
+      returnLeakageBTUH: 3240,
+      conductionBTUH: 4478,
+      leakageBTUH: 5400,
+      totalBTUH: 9878,
+    });
+  });
+
+  it("runs the attic 25°F over outdoor in summer", () => {
+    const lines = computeDuctLoad(ATTIC, {
+      ...HEATING,
+      season: "cooling",
+      outdoorF: 95,
+      indoorF: 75,
+    });
+    // 270 × (120 - 55) / 6.7 and 50 × (120 - 75) / 6.7
+    expect(lines.supplyConductionBTUH).toBe(2619);
+    expect(lines.returnConductionBTUH).toBe(336);
+    // 1.08 × 50 × 20 and 1.08 × 50 × 45
+    expect(lines.leakageBTUH).toBe(3510);
+    expect(lines.totalBTUH).toBe(6465);
+  });
+
+  it("uses the smaller multi-story duct areas", () => {
+    const lines = computeDuctLoad(
+      { ...ATTIC, leakageCFM25: 0 },
+      { ...HEATING, sqft: 2000, stories: 2 }
+    );
+    // 400 sq ft supply (20%), 80 sq ft return (4%)
+    expect(lines.supplyConductionBTUH).toBe(Math.round((400 * 100) / 6.7));
+    expect(lines.returnConductionBTUH).toBe(Math.round((80 * 60) / 6.7));
+    expect(lines.leakageBTUH).toBe(0);
+  });
+
+  it("adds nothing for ducts inside the conditioned space", () => {
+    const lines = computeDuctLoad(CONDITIONED_DUCTS, HEATING);
+    expect(lines.totalBTUH).toBe(0);
+    expect(
+      computeDuctLoad(CONDITIONED_DUCTS, {
+        ...HEATING,
+        season: "cooling",
+        outdoorF: 95,
+        indoorF: 75,
+      }).totalBTUH
+    ).toBe(0);
+  });
+
+  it("counts only the exposed side", () => {
+    const lines = computeDuctLoad(
+      { ...ATTIC, returnLocation: "conditioned" },
+      HEATING
+    );
+    expect(lines.returnConductionBTUH).toBe(0);
+    expect(lines.returnLeakageBTUH).toBe(0);
+    expect(lines.supplyConductionBTUH).toBe(4030);
+  });
+
+  it("rejects a house without floor area", () => {
+    expect(() => computeDuctLoad(ATTIC, { ...HEATING, sqft: 0 })).toThrow(
+      "sqft must be > 0"
+    );
+  });
+});
+
+describe("ductLeakageCFM25", () => {
+  it("prefers the duct blaster number over the tightness estimate", () => {
+    expect(ductLeakageCFM25(ATTIC, 1500)).toBe(150);
+    expect(ductLeakageCFM25({ ...ATTIC, tightness: "sealed" }, 1500)).toBe(60);
+    expect(ductLeakageCFM25({ ...ATTIC, leakageCFM25: 80 }, 1500)).toBe(80);
+  });
+});
+
+describe("ductLocationTempF", () => {
+  it("buffers crawlspaces and garages in winter", () => {
+    expect(ductLocationTempF("crawl", "heating", 10, 70)).toBe(40);
+    expect(ductLocationTempF("garage", "heating", 10, 70)).toBe(28);
+    expect(ductLocationTempF("crawl", "cooling", 95, 75)).toBe(75);
+  });
+});
+
+describe("resolveDuctSystem", () => {
+  it("reads the legacy attic flag from older jobs", () => {
+    expect(resolveDuctSystem(undefined, true).supplyLocation).toBe("attic");
+    expect(resolveDuctSystem(undefined)).toBe(CONDITIONED_DUCTS);
+    expect(resolveDuctSystem(ATTIC, false)).toBe(ATTIC);
+  });
+});
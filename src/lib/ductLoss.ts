@@ -0,0 +1,236 @@
+// src/lib/ductLoss.ts
+
+// Where a duct run sits; anything outside "conditioned" gains heat in
+// summer and loses it in winter.
+export type DuctLocation = "attic" | "crawl" | "garage" | "conditioned";
+
+export const DUCT_LOCATIONS: DuctLocation[] = [
+  "attic",
+  "crawl",
+  "garage",
+  "conditioned",
+];
+
+// Estimated leakage when there is no duct blaster number.
+export type DuctTightness = "sealed" | "average" | "leaky";
+
+export const DUCT_TIGHTNESS_LEVELS: DuctTightness[] = [
+  "sealed",
+  "average",
+  "leaky",
+];
+
+export interface DuctSystemInput {
+  supplyLocation: DuctLocation;
+  returnLocation: DuctLocation;
+  // Installed R-value of the duct wrap / liner (0 for bare metal).
+  insulationR: number;
+  // Measured total leakage at 25 Pa (duct blaster); wins over tightness.
+  leakageCFM25?: number;
+  tightness?: DuctTightness;
+}
+
+export type DuctSeason = "cooling" | "heating";
+
+/**
+ * Duct gain (cooling) or loss (heating) split into conduction through
+ * the duct walls and air leaking out of supplies / into returns.
+ */
+export interface DuctLoadLines {
+  supplyConductionBTUH: number;
+  returnConductionBTUH: number;
+  supplyLeakageBTUH: number;
+  returnLeakageBTUH: number;
+  conductionBTUH: number;
+  leakageBTUH: number;
+  totalBTUH: number;
+}
+
+export interface DuctLoadInput {
+  sqft: number;
+  stories: number;
+  season: DuctSeason;
+  outdoorF: number;
+  indoorF: number;
+}
+
+// CFM25 per 100 sq ft of floor: tested-and-sealed new work, typical
+// existing, and disconnected / unsealed.
+const LEAKAGE_CFM25_PER_100_SQFT: Record<DuctTightness, number> = {
+  sealed: 4,
+  average: 10,
+  leaky: 20,
+};
+
+// Duct surface area as a share of floor area (ASHRAE 152 defaults).
+const SUPPLY_AREA_PER_SQFT = { oneStory: 0.27, multiStory: 0.2 };
+const RETURN_AREA_PER_SQFT = { oneStory: 0.05, multiStory: 0.04 };
+
+// Inside + outside air films on the duct wall.
+const DUCT_AIR_FILM_R = 0.7;
+
+// Air leaving the equipment at design conditions.
+const SUPPLY_AIR_F: Record<DuctSeason, number> = {
+  cooling: 55,
+  heating: 110,
+};
+
+// Legacy "ducts in attic or crawl" flag from older saved jobs.
+const LEGACY_UNCONDITIONED_DUCTS: DuctSystemInput = {
+  supplyLocation: "attic",
+  returnLocation: "attic",
+  insulationR: 6,
+  tightness: "average",
+};
+
+export const CONDITIONED_DUCTS: DuctSystemInput = {
+  supplyLocation: "conditioned",
+  returnLocation: "conditioned",
+  insulationR: 6,
+  tightness: "average",
+};
+
+/**
+ * The duct system to model: the explicit one, else the legacy
+ * attic/crawl flag, else ducts inside the envelope.
+ */
+export function resolveDuctSystem(
+  ducts: DuctSystemInput | undefined,
+  legacyDuctsInAtticOrCrawl?: boolean
+): DuctSystemInput {
+  if (ducts) return ducts;
+  return legacyDuctsInAtticOrCrawl ? LEGACY_UNCONDITIONED_DUCTS : CONDITIONED_DUCTS;
+}
+
+/**
+ * Total CFM25: the measured number, else the tightness estimate by
+ * floor area.
+ */
+export function ductLeakageCFM25(system: DuctSystemInput, sqft: number): number {
+  if (system.leakageCFM25 !== undefined && system.leakageCFM25 >= 0) {
+    return system.leakageCFM25;
+  }
+  const tightness = system.tightness ?? "average";
+  return (LEAKAGE_CFM25_PER_100_SQFT[tightness] * sqft) / 100;
+}
+
+/**
+ * Design air temperature around the ducts. Mirrors the envelope
+ * adjacency offsets: attics run 25°F over outdoor in summer and at
+ * outdoor in winter, crawlspaces sit near indoor in summer and halfway
+ * in winter, attached garages are partly buffered.
+ */
+export function ductLocationTempF(
+  location: DuctLocation,
+  season: DuctSeason,
+  outdoorF: number,
+  indoorF: number
+): number {
+  if (location === "conditioned") return indoorF;
+  if (season === "cooling") {
+    if (location === "attic") return outdoorF + 25;
+    if (location === "garage") return outdoorF + 5;
+    return indoorF;
+  }
+  if (location === "attic") return outdoorF;
+  if (location === "garage") return indoorF - (indoorF - outdoorF) * 0.7;
+  return indoorF - (indoorF - outdoorF) * 0.5;
+}
+
+function label(location: DuctLocation): string {
+  return location === "crawl" ? "crawlspace" : location;
+}
+
+export function describeDuctSystem(system: DuctSystemInput): string {
+  const leakage =
+    system.leakageCFM25 !== undefined
+      ? `${system.leakageCFM25} CFM25 measured`
+      : `${system.tightness ?? "average"} leakage`;
+  const where =
+    system.supplyLocation === system.returnLocation
+      ? `supply and return in ${label(system.supplyLocation)}`
+      : `supply in ${label(system.supplyLocation)}, return in ${label(
+          system.returnLocation
+        )}`;
+  return `${where}, R-${system.insulationR}, ${leakage}`;
+}
+
+/**
+ * Duct conduction and leakage load for one season.
+ * Conduction: duct surface area (ASHRAE 152 share of floor area) ×
+ * U × (surrounding air − air in the duct). Leakage: CFM25 split evenly
+ * between supply and return; supply leaks throw away conditioned air,
+ * return leaks pull in air from wherever the return runs.
+ * Ducts inside the conditioned space add nothing.
+ */
+export function computeDuctLoad(
+  system: DuctSystemInput,
+  input: DuctLoadInput
+): DuctLoadLines {
+  const { sqft, stories, season, outdoorF, indoorF } = input;
+
+  if (sqft <= 0) {
+    throw new Error("sqft must be > 0");
+  }
+  if (system.insulationR < 0) {
+    throw new Error("duct insulation R must be >= 0");
+  }
+
+  // 1) Surface area and U-factor
+  const multiStory = stories >= 2;
+  const supplyAreaSqFt =
+    sqft *
+    (multiStory ? SUPPLY_AREA_PER_SQFT.multiStory : SUPPLY_AREA_PER_SQFT.oneStory);
+  const returnAreaSqFt =
+    sqft *
+    (multiStory ? RETURN_AREA_PER_SQFT.multiStory : RETURN_AREA_PER_SQFT.oneStory);
+  const u = 1 / (system.insulationR + DUCT_AIR_FILM_R);
+
+  // 2) Temperatures: positive ΔT = load in either season
+  const supplyAirF = SUPPLY_AIR_F[season];
+  const sign = season === "cooling" ? 1 : -1;
+  const supplyAmbientF = ductLocationTempF(
+    system.supplyLocation,
+    season,
+    outdoorF,
+    indoorF
+  );
+  const returnAmbientF = ductLocationTempF(
+    system.returnLocation,
+    season,
+    outdoorF,
+    indoorF
+  );
+  const supplyExposed = system.supplyLocation !== "conditioned";
+  const returnExposed = system.returnLocation !== "conditioned";
+
+  // 3) Conduction through the duct walls
+  const supplyConductionBTUH = supplyExposed
+    ? supplyAreaSqFt * u * Math.max(sign * (supplyAmbientF - supplyAirF), 0)
+    : 0;
+  const returnConductionBTUH = returnExposed
+    ? returnAreaSqFt * u * Math.max(sign * (returnAmbientF - indoorF), 0)
+    : 0;
+
+  // 4) Leakage, half supply / half return
+  const leakCFM = ductLeakageCFM25(system, sqft) / 2;
+  const supplyLeakageBTUH = supplyExposed
+    ? 1.08 * leakCFM * Math.max(sign * (indoorF - supplyAirF), 0)
+    : 0;
+  const returnLeakageBTUH = returnExposed
+    ? 1.08 * leakCFM * Math.max(sign * (returnAmbientF - indoorF), 0)
+    : 0;
+
+  const conductionBTUH = supplyConductionBTUH + returnConductionBTUH;
+  const leakageBTUH = supplyLeakageBTUH + returnLeakageBTUH;
+
+  return {
+    supplyConductionBTUH: Math.round(supplyConductionBTUH),
+    returnConductionBTUH: Math.round(returnConductionBTUH),
+    supplyLeakageBTUH: Math.round(supplyLeakageBTUH),
+    returnLeakageBTUH: Math.round(returnLeakageBTUH),
+    conductionBTUH: Math.round(conductionBTUH),
+    leakageBTUH: Math.round(leakageBTUH),
+    totalBTUH: Math.round(conductionBTUH + leakageBTUH),
+  };
+}
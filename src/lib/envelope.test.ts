@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  componentU,
+  computeCoolingEnvelope,
+  computeHeatingEnvelope,
+  envelopeFromPresets,
+  EnvelopeComponent,
+} from "@/lib/envelope";
+
+const OPAQUE: EnvelopeComponent[] = [
+  { kind: "wall", areaSqFt: 100, rValue: 10 },
+  { kind: "ceiling", areaSqFt: 400, rValue: 20 },
+  { kind: "floor", areaSqFt: 400, rValue: 20, adjacency: "crawl" },
+];
+
+describe("componentU", () => {
+  it("takes the U-factor over the R-value", () => {
+    expect(componentU({ kind: "window", areaSqFt: 10, uFactor: 0.3 })).toBe(0.3);
+    expect(
+      componentU({ kind: "window", areaSqFt: 10, uFactor: 0.3, rValue: 2 })
+    ).toBe(0.3);
+    expect(componentU({ kind: "wall", areaSqFt: 10, rValue: 20 })).toBe(0.05);
+  });
+
+  it("needs one of them", () => {
+    expect(() =>
+      componentU({ kind: "door", label: "Front door", areaSqFt: 20 })
+    ).toThrow("Front door: needs an R-value or U-factor");
+  });
+});
+
+describe("computeCoolingEnvelope", () => {
+  it("runs UA × ΔT with the attic hotter and the crawlspace adding nothing", () => {
+    const loads = computeCoolingEnvelope(OPAQUE, 20);
+    // wall 10 UA × 20; ceiling 20 UA × (20 + 25); floor over crawl 0
+    expect(loads.lines.map((l) => l.conductionBTUH)).toEqual([200, 900, 0]);
+    expect(loads.totalUA).toBe(50);
+    expect(loads.conductionBTUH).toBe(1100);
+  });
+
+  it("has no solar gain without glass", () => {
+    const loads = computeCoolingEnvelope(OPAQUE, 20);
+    expect(loads.solarBTUH).toBe(0);
+    expect(loads.lines.every((l) => l.solarBTUH === 0)).toBe(true);
+  });
+
+  it("adds solar gain through glass on top of conduction", () => {
+    const loads = computeCoolingEnvelope(
+      [{ kind: "window", areaSqFt: 40, uFactor: 0.5, shgc: 0.5, facing: "west" }],
+      20
+    );
+    expect(loads.conductionBTUH).toBe(400);
+    expect(loads.solarBTUH).toBeGreaterThan(0);
+    expect(loads.lines[0].solarBTUH).toBe(loads.solarBTUH);
+  });
+});
+
+describe("computeHeatingEnvelope", () => {
+  it("gives crawlspace and ground contact half the outdoor delta", () => {
+    const loads = computeHeatingEnvelope(
+      [...OPAQUE, { kind: "floor", areaSqFt: 200, rValue: 10, adjacency: "ground" }],
+      60
+    );
+    expect(loads.lines.map((l) => l.conductionBTUH)).toEqual([
+      600, 1200, 600, 600,
+    ]);
+    expect(loads.solarBTUH).toBe(0);
+  });
+});
+
+describe("envelopeFromPresets", () => {
+  // One story, 40 × 40 ft: 160 ft of wall × 8.5 ft.
+  const BASE = {
+    sqft: 1600,
+    stories: 1,
+    windows: "average" as const,
+    insulation: "average" as const,
+  };
+
+  const area = (components: EnvelopeComponent[], label: string) =>
+    components.find((c) => c.label === label)?.areaSqFt;
+
+  it("builds a square-footprint house from the categorical answers", () => {
+    const { components } = envelopeFromPresets(BASE);
+    // 15% glass = 240 sq ft, a quarter per side
+    expect(area(components, "west windows")).toBe(60);
+    expect(area(components, "Exterior walls")).toBe(1360 - 240);
+    expect(area(components, "Ceiling under attic")).toBe(1600);
+    expect(components.find((c) => c.kind === "wall")?.rValue).toBe(11);
+  });
+
+  it("puts 40% of the glass on the predominant side", () => {
+    const { components, notes } = envelopeFromPresets({
+      ...BASE,
+      orientation: "west",
+    });
+    expect(area(components, "west windows")).toBe(96);
+    expect(area(components, "north windows")).toBe(48);
+    expect(notes).toContain("Most glass assumed to face west.");
+  });
+
+  it("adds the cladding's R to the walls", () => {
+    const { components } = envelopeFromPresets({ ...BASE, siding: "brick" });
+    expect(components.find((c) => c.kind === "wall")?.rValue).toBe(12);
+  });
+
+  it("uses measured glass instead of the presets", () => {
+    const { components, notes } = envelopeFromPresets({
+      ...BASE,
+      orientation: "west",
+      windowAreas: { south: { areaSqFt: 80, shgc: 0.25 } },
+    });
+    const windows = components.filter((c) => c.kind === "window");
+    expect(windows).toHaveLength(1);
+    expect(windows[0]).toMatchObject({ facing: "south", areaSqFt: 80, shgc: 0.25 });
+    expect(area(components, "Exterior walls")).toBe(1360 - 80);
+    expect(notes).toContain("Measured glass: south 80 sq ft.");
+  });
+
+  it("ignores measured sides with zero glass", () => {
+    const { components } = envelopeFromPresets({
+      ...BASE,
+      windowAreas: { south: { areaSqFt: 0 } },
+    });
+    expect(area(components, "south windows")).toBe(60);
+  });
+});
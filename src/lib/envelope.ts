@@ -0,0 +1,537 @@
+// src/lib/envelope.ts
+import type {
+  InsulationLevel,
+  Orientation,
+  SidingType,
+  WindowAmount,
+} from "@/lib/loadCalc";
+import {
+  ExteriorShading,
+  SolarGainResult,
+  componentSolarByHour,
+  computeSolarGain,
+  DESIGN_HOURS,
+} from "@/lib/solarGain";
+
+export type Facing = "north" | "south" | "east" | "west";
+
+export const FACINGS: Facing[] = ["north", "east", "south", "west"];
+
+export type EnvelopeComponentKind =
+  | "wall"
+  | "ceiling"
+  | "floor"
+  | "window"
+  | "skylight"
+  | "door";
+
+export const ENVELOPE_COMPONENT_KINDS: EnvelopeComponentKind[] = [
+  "wall",
+  "ceiling",
+  "floor",
+  "window",
+  "skylight",
+  "door",
+];
+
+// What is on the other side of the component.
+export type EnvelopeAdjacency = "outdoors" | "attic" | "roof" | "crawl" | "ground";
+
+export const ENVELOPE_ADJACENCIES: EnvelopeAdjacency[] = [
+  "outdoors",
+  "attic",
+  "roof",
+  "crawl",
+  "ground",
+];
+
+export interface EnvelopeComponent {
+  kind: EnvelopeComponentKind;
+  label?: string;
+  areaSqFt: number;
+  // Give either a whole-assembly R-value or a U-factor (U wins if both).
+  rValue?: number;
+  uFactor?: number;
+  // Fenestration only.
+  shgc?: number;
+  facing?: Facing;
+  // Fenestration shading: overhang depth over a window of the given
+  // height, and trees / neighbors / screens.
+  overhangDepthFt?: number;
+  windowHeightFt?: number;
+  exteriorShading?: ExteriorShading;
+  adjacency?: EnvelopeAdjacency;
+}
+
+/**
+ * Glass measured on one side of the house; replaces the window amount
+ * presets for that side.
+ */
+export interface WindowGroupInput {
+  areaSqFt: number;
+  // Low-e glass: enter the label SHGC / U-factor.
+  shgc?: number;
+  uFactor?: number;
+  overhangDepthFt?: number;
+  windowHeightFt?: number;
+  exteriorShading?: ExteriorShading;
+}
+
+export interface EnvelopeLine {
+  kind: EnvelopeComponentKind;
+  label: string;
+  areaSqFt: number;
+  uFactor: number;
+  ua: number;
+  conductionBTUH: number;
+  solarBTUH: number;
+}
+
+export interface EnvelopeLoads {
+  lines: EnvelopeLine[];
+  totalUA: number;
+  conductionBTUH: number;
+  solarBTUH: number;
+  // Cooling only: the design-day solar walk behind solarBTUH.
+  solar?: SolarGainResult;
+}
+
+export interface EnvelopePresetInput {
+  sqft: number;
+  stories: number;
+  windows: WindowAmount;
+  insulation: InsulationLevel;
+  siding?: SidingType;
+  orientation?: Orientation;
+  // Window amount seen on each side (e.g. from exterior photos); when
+  // given, glass is split by these instead of the orientation preset.
+  windowsByFacing?: Partial<Record<Facing, WindowAmount>>;
+  // Measured glass per side; wins over windows / orientation /
+  // windowsByFacing when any side is given.
+  windowAreas?: Partial<Record<Facing, WindowGroupInput>>;
+}
+
+export interface EnvelopePreset {
+  components: EnvelopeComponent[];
+  notes: string[];
+}
+
+export interface PresetAssemblies {
+  wallR: number;
+  ceilingR: number;
+  floorR: number;
+  windowU: number;
+  windowSHGC: number;
+}
+
+// Whole-assembly values behind the poor / average / good presets.
+const INSULATION_PRESETS: Record<InsulationLevel, PresetAssemblies> = {
+  poor: { wallR: 5, ceilingR: 10, floorR: 10, windowU: 0.9, windowSHGC: 0.7 },
+  average: {
+    wallR: 11,
+    ceilingR: 20,
+    floorR: 20,
+    windowU: 0.5,
+    windowSHGC: 0.5,
+  },
+  good: { wallR: 17, ceilingR: 33, floorR: 30, windowU: 0.35, windowSHGC: 0.35 },
+};
+
+// Extra R the cladding adds to the wall assembly.
+const SIDING_EXTRA_R: Record<SidingType, number> = {
+  brick: 1.0,
+  stucco: 0.4,
+  "fiber cement": 0,
+  wood: 0,
+  vinyl: 0,
+  mixed: 0,
+  unknown: 0,
+};
+
+// Glass area as a fraction of conditioned floor area.
+const WINDOW_FLOOR_RATIO: Record<WindowAmount, number> = {
+  few: 0.1,
+  average: 0.15,
+  many: 0.2,
+  unknown: 0.15,
+};
+
+// Cooling: sun-baked attics and roof decks run hotter than outdoor air,
+// crawlspaces and ground contact run cooler than indoors.
+const COOLING_DELTA_T_OFFSET: Record<EnvelopeAdjacency, number> = {
+  outdoors: 0,
+  attic: 25,
+  roof: 35,
+  crawl: 0,
+  ground: 0,
+};
+
+// Heating: buffered spaces only see part of the outdoor delta.
+const HEATING_DELTA_T_MULTIPLIER: Record<EnvelopeAdjacency, number> = {
+  outdoors: 1,
+  attic: 1,
+  roof: 1,
+  crawl: 0.5,
+  ground: 0.5,
+};
+
+export const STORY_HEIGHT_FT = 8.5;
+
+export function presetAssemblies(insulation: InsulationLevel): PresetAssemblies {
+  return INSULATION_PRESETS[insulation];
+}
+
+/**
+ * Preset wall R-value plus what the cladding adds.
+ */
+export function presetWallR(
+  insulation: InsulationLevel,
+  siding: SidingType = "unknown"
+): number {
+  return INSULATION_PRESETS[insulation].wallR + SIDING_EXTRA_R[siding];
+}
+
+export function componentU(component: EnvelopeComponent): number {
+  if (component.uFactor !== undefined && component.uFactor > 0) {
+    return component.uFactor;
+  }
+  if (component.rValue !== undefined && component.rValue > 0) {
+    return 1 / component.rValue;
+  }
+  throw new Error(
+    `${component.label ?? component.kind}: needs an R-value or U-factor`
+  );
+}
+
+function defaultAdjacency(kind: EnvelopeComponentKind): EnvelopeAdjacency {
+  switch (kind) {
+    case "ceiling":
+      return "attic";
+    case "skylight":
+      return "roof";
+    case "floor":
+      return "crawl";
+    default:
+      return "outdoors";
+  }
+}
+
+function lineLabel(component: EnvelopeComponent): string {
+  if (component.label) return component.label;
+  return component.facing
+    ? `${component.facing} ${component.kind}`
+    : component.kind;
+}
+
+/**
+ * Cooling gains per component: UA × ΔT conduction (ΔT adjusted for
+ * attics, roofs and crawlspaces) plus solar gain through glass at the
+ * hour the whole set of components peaks (the block load; see
+ * solarGain.ts).
+ */
+export function computeCoolingEnvelope(
+  components: EnvelopeComponent[],
+  designDeltaT: number
+): EnvelopeLoads {
+  const solarGain = computeSolarGain(components);
+  const peakIndex = DESIGN_HOURS.indexOf(solarGain.peakHour);
+
+  const lines = components.map((component): EnvelopeLine => {
+    const uFactor = componentU(component);
+    const ua = uFactor * component.areaSqFt;
+    const adjacency = component.adjacency ?? defaultAdjacency(component.kind);
+    const deltaT = Math.max(
+      designDeltaT + COOLING_DELTA_T_OFFSET[adjacency],
+      0
+    );
+    const conduction =
+      adjacency === "crawl" || adjacency === "ground" ? 0 : ua * deltaT;
+    const solar = componentSolarByHour(component)[peakIndex];
+
+    return {
+      kind: component.kind,
+      label: lineLabel(component),
+      areaSqFt: Math.round(component.areaSqFt),
+      uFactor: Math.round(uFactor * 1000) / 1000,
+      ua: Math.round(ua * 10) / 10,
+      conductionBTUH: Math.round(conduction),
+      solarBTUH: Math.round(solar),
+    };
+  });
+
+  return { ...summarize(lines), solar: solarGain };
+}
+
+/**
+ * Heating losses per component: UA × ΔT, with crawlspace and ground
+ * contact seeing roughly half the outdoor delta.
+ */
+export function computeHeatingEnvelope(
+  components: EnvelopeComponent[],
+  designDeltaT: number
+): EnvelopeLoads {
+  const lines = components.map((component): EnvelopeLine => {
+    const uFactor = componentU(component);
+    const ua = uFactor * component.areaSqFt;
+    const adjacency = component.adjacency ?? defaultAdjacency(component.kind);
+    const conduction =
+      ua * designDeltaT * HEATING_DELTA_T_MULTIPLIER[adjacency];
+
+    return {
+      kind: component.kind,
+      label: lineLabel(component),
+      areaSqFt: Math.round(component.areaSqFt),
+      uFactor: Math.round(uFactor * 1000) / 1000,
+      ua: Math.round(ua * 10) / 10,
+      conductionBTUH: Math.round(conduction),
+      solarBTUH: 0,
+    };
+  });
+
+  return summarize(lines);
+}
+
+function summarize(lines: EnvelopeLine[]): EnvelopeLoads {
+  return {
+    lines,
+    totalUA: Math.round(lines.reduce((sum, l) => sum + l.ua, 0) * 10) / 10,
+    conductionBTUH: lines.reduce((sum, l) => sum + l.conductionBTUH, 0),
+    solarBTUH: lines.reduce((sum, l) => sum + l.solarBTUH, 0),
+  };
+}
+
+/**
+ * Map the categorical intake answers (insulation, windows, siding,
+ * orientation) onto envelope components for a square-footprint house.
+ * This is how AI-derived intake feeds the component model.
+ */
+export function envelopeFromPresets(input: EnvelopePresetInput): EnvelopePreset {
+  const notes: string[] = [];
+  const {
+    sqft,
+    stories,
+    windows,
+    insulation,
+    siding = "unknown",
+    orientation = "unknown",
+    windowsByFacing,
+    windowAreas,
+  } = input;
+
+  const assemblies = presetAssemblies(insulation);
+
+  switch (insulation) {
+    case "good":
+      notes.push("Good insulation: R-17 walls / R-33 ceiling assumed.");
+      break;
+    case "poor":
+      notes.push("Poor insulation: R-5 walls / R-10 ceiling assumed.");
+      break;
+    case "average":
+      break;
+  }
+
+  // Only apply when no side has measured glass.
+  const presetGlassNotes: string[] = [];
+
+  switch (windows) {
+    case "few":
+      presetGlassNotes.push("Few windows: glass assumed at 10% of floor area.");
+      break;
+    case "many":
+      presetGlassNotes.push("Many windows: glass assumed at 20% of floor area.");
+      break;
+    case "unknown":
+      presetGlassNotes.push("Window amount unknown: assuming average.");
+      break;
+    case "average":
+      break;
+  }
+
+  const floorCount = Math.max(stories, 1);
+  const footprint = sqft / floorCount;
+  const perimeter = 4 * Math.sqrt(footprint);
+  const grossWallArea = perimeter * STORY_HEIGHT_FT * floorCount;
+  const presetWindowArea = sqft * WINDOW_FLOOR_RATIO[windows];
+
+  // Predominant glass facing gets 40%, the rest is split evenly.
+  const windowShares: Record<Facing, number> = {
+    north: 0.25,
+    east: 0.25,
+    south: 0.25,
+    west: 0.25,
+  };
+  switch (orientation) {
+    case "north":
+    case "south":
+    case "east":
+    case "west":
+      for (const facing of FACINGS) {
+        windowShares[facing] = facing === orientation ? 0.4 : 0.2;
+      }
+      presetGlassNotes.push(`Most glass assumed to face ${orientation}.`);
+      break;
+    case "mixed":
+    case "unknown":
+      break;
+  }
+
+  // Per-side window amounts override the orientation preset; sides with
+  // no reading count as average.
+  const seenFacings = FACINGS.filter(
+    (f) => windowsByFacing?.[f] && windowsByFacing[f] !== "unknown"
+  );
+  if (windowsByFacing && seenFacings.length > 0) {
+    const weights = FACINGS.map(
+      (f) => WINDOW_FLOOR_RATIO[windowsByFacing[f] ?? "unknown"]
+    );
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    FACINGS.forEach((facing, i) => {
+      windowShares[facing] = weights[i] / totalWeight;
+    });
+    presetGlassNotes.push(
+      `Glass split by side from photos: ${FACINGS.map(
+        (f) => `${f} ${Math.round(windowShares[f] * 100)}%`
+      ).join(", ")}.`
+    );
+  }
+
+  // Measured glass per side wins over all of the above.
+  const measured = FACINGS.flatMap((facing) => {
+    const group = windowAreas?.[facing];
+    return group && group.areaSqFt > 0 ? [{ facing, group }] : [];
+  });
+  const windowComponents: EnvelopeComponent[] =
+    measured.length > 0
+      ? measured.map(({ facing, group }) => ({
+          kind: "window",
+          label: `${facing} windows`,
+          areaSqFt: group.areaSqFt,
+          uFactor: group.uFactor ?? assemblies.windowU,
+          shgc: group.shgc ?? assemblies.windowSHGC,
+          facing,
+          overhangDepthFt: group.overhangDepthFt,
+          windowHeightFt: group.windowHeightFt,
+          exteriorShading: group.exteriorShading,
+        }))
+      : FACINGS.map(
+          (facing): EnvelopeComponent => ({
+            kind: "window",
+            label: `${facing} windows`,
+            areaSqFt: presetWindowArea * windowShares[facing],
+            uFactor: assemblies.windowU,
+            shgc: assemblies.windowSHGC,
+            facing,
+          })
+        );
+  if (measured.length > 0) {
+    notes.push(
+      `Measured glass: ${measured
+        .map(({ facing, group }) => `${facing} ${Math.round(group.areaSqFt)} sq ft`)
+        .join(", ")}.`
+    );
+  } else {
+    notes.push(...presetGlassNotes);
+  }
+  const windowArea = windowComponents.reduce((sum, c) => sum + c.areaSqFt, 0);
+
+  const wallR = presetWallR(insulation, siding);
+  if (SIDING_EXTRA_R[siding] > 0) {
+    notes.push(`${siding} cladding adds ~R-${SIDING_EXTRA_R[siding]} to walls.`);
+  }
+
+  const components: EnvelopeComponent[] = [
+    {
+      kind: "wall",
+      label: "Exterior walls",
+      areaSqFt: Math.max(grossWallArea - windowArea, 0),
+      rValue: wallR,
+    },
+    {
+      kind: "ceiling",
+      label: "Ceiling under attic",
+      areaSqFt: footprint,
+      rValue: assemblies.ceilingR,
+    },
+    {
+      kind: "floor",
+      label: "Floor",
+      areaSqFt: footprint,
+      rValue: assemblies.floorR,
+    },
+    ...windowComponents,
+  ];
+
+  return { components, notes };
+}
+
+/**
+ * "west 120 sq ft (SHGC 0.25, 2 ft overhang), ..." for reports and
+ * scenario diffs; null when no side was measured.
+ */
+export function describeWindowAreas(
+  windowAreas: Partial<Record<Facing, WindowGroupInput>> | undefined
+): string | null {
+  const sides = FACINGS.flatMap((facing) => {
+    const group = windowAreas?.[facing];
+    if (!group || group.areaSqFt <= 0) return [];
+    const details = [
+      group.shgc !== undefined ? `SHGC ${group.shgc}` : null,
+      group.overhangDepthFt ? `${group.overhangDepthFt} ft overhang` : null,
+      group.exteriorShading && group.exteriorShading !== "none"
+        ? `${group.exteriorShading} shading`
+        : null,
+    ].filter((d): d is string => d !== null);
+    return [
+      `${facing} ${Math.round(group.areaSqFt)} sq ft${
+        details.length > 0 ? ` (${details.join(", ")})` : ""
+      }`,
+    ];
+  });
+  return sides.length > 0 ? sides.join(", ") : null;
+}
+
+function insulationLabel(component: EnvelopeComponent): string {
+  if (component.uFactor !== undefined) return `U-${component.uFactor}`;
+  if (component.rValue !== undefined) return `R-${component.rValue}`;
+  return "no R/U";
+}
+
+/**
+ * "ceiling (attic) 1600 sq ft R-49, west window 60 sq ft U-0.3 SHGC 0.25"
+ * for scenario diffs: rows of the same kind, side and rating are added
+ * up. Null when the envelope comes from the presets.
+ */
+export function describeEnvelope(
+  components: EnvelopeComponent[] | undefined
+): string | null {
+  if (!components || components.length === 0) return null;
+  const groups = new Map<
+    string,
+    { name: string; rating: string; areaSqFt: number }
+  >();
+  for (const component of components) {
+    const name = [
+      component.facing,
+      component.kind,
+      component.adjacency && component.adjacency !== "outdoors"
+        ? `(${component.adjacency})`
+        : null,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const rating = [
+      insulationLabel(component),
+      component.shgc !== undefined ? `SHGC ${component.shgc}` : null,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const key = `${name}|${rating}`;
+    const group = groups.get(key) ?? { name, rating, areaSqFt: 0 };
+    group.areaSqFt += component.areaSqFt;
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .map((g) => `${g.name} ${Math.round(g.areaSqFt)} sq ft ${g.rating}`)
+    .join(", ");
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_EQUIPMENT,
+  equipmentReviewItems,
+  processEquipment,
+} from "@/lib/equipmentPipeline";
+import type { EquipmentAnalysis } from "@/lib/intakeSchemas";
+
+describe("processEquipment", () => {
+  it("builds the equipment from the tech's entries when there is no label read", () => {
+    expect(processEquipment(null).equipmentAnalysis).toBeNull();
+    expect(
+      equipmentReviewItems(EMPTY_EQUIPMENT, null).map((item) => item.field)
+    ).toEqual(["modelNumber", "afue", "nominalTonnage", "manufactureYear"]);
+
+    const { equipmentAnalysis, warranty } = processEquipment(
+      null,
+      {},
+      { modelNumber: "GMVC960803BN", afue: 96, manufactureYear: 2015 }
+    );
+    expect(equipmentAnalysis?.modelNumber).toBe("GMVC960803BN");
+    expect(equipmentAnalysis?.afue).toBe(96);
+    expect(equipmentAnalysis?.afueSource).toBe("user_confirmed");
+    expect(equipmentAnalysis?.userConfirmedFields).toEqual([
+      "modelNumber",
+      "afue",
+      "manufactureYear",
+    ]);
+    expect(warranty.manufactureYear).toBe(2015);
+  });
+
+  it("drops the AFUE / venting flag once the tech confirms AFUE", () => {
+    const labelRead: EquipmentAnalysis = {
+      equipmentType: "furnace",
+      manufacturer: "Goodman",
+      modelNumber: "GMVC960803BN",
+      serialNumber: "",
+      afue: 96,
+      afueSource: "label",
+      ventType: "metal_flue",
+    };
+
+    const read = processEquipment(labelRead);
+    expect(read.equipmentFlags?.afueVentMismatch).toBe(true);
+    expect(read.equipmentFlags?.notes).toHaveLength(1);
+
+    const confirmed = processEquipment(labelRead, {}, { afue: 96 });
+    expect(confirmed.equipmentFlags).toEqual({
+      afueVentMismatch: false,
+      notes: [],
+    });
+  });
+});
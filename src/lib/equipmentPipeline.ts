@@ -0,0 +1,373 @@
+// src/lib/equipmentPipeline.ts
+import type { EquipmentAnalysis } from "@/lib/intakeSchemas";
+import { decodeSerialNumber, describeSerialRule } from "@/lib/serialDecoder";
+import { decodeModelNumber } from "@/lib/modelDecoder";
+import {
+  WarrantyContext,
+  WarrantyInfo,
+  computeWarrantyInfo,
+} from "@/lib/warranty";
+import { ProvenanceMap, provenanceFor } from "@/lib/provenance";
+
+export interface EquipmentFlags {
+  afueVentMismatch: boolean;
+  notes: string[];
+}
+
+/**
+ * Values the tech typed in to correct the label read. They always win:
+ * decodes only fill blanks, and a confirmed year skips the serial decode.
+ */
+export interface EquipmentOverrides {
+  modelNumber?: string;
+  afue?: number;
+  nominalTonnage?: number;
+  manufactureYear?: number;
+}
+
+export type EquipmentReviewField = keyof EquipmentOverrides;
+
+export interface EquipmentReviewItem {
+  field: EquipmentReviewField;
+  reason: string;
+}
+
+export interface ProcessedEquipment {
+  equipmentAnalysis: EquipmentAnalysis | null;
+  warranty: WarrantyInfo;
+  equipmentFlags: EquipmentFlags | null;
+}
+
+/**
+ * Starting point when there is no label read (no equipment photos, or
+ * the read failed): the tech fills it in through the review form.
+ */
+export const EMPTY_EQUIPMENT: EquipmentAnalysis = {
+  equipmentType: "unknown",
+  manufacturer: "",
+  modelNumber: "",
+  serialNumber: "",
+};
+
+// ✍️ Tech corrections: applied to the label read before any decode
+function applyOverrides(
+  equipment: EquipmentAnalysis | null,
+  overrides: EquipmentOverrides
+): EquipmentAnalysis | null {
+  const hasOverrides = Object.values(overrides).some(
+    (value) => value !== undefined
+  );
+  if (!equipment && !hasOverrides) return null;
+
+  const next: EquipmentAnalysis = { ...(equipment ?? EMPTY_EQUIPMENT) };
+  const confirmed: string[] = [];
+
+  if (overrides.modelNumber) {
+    next.modelNumber = overrides.modelNumber;
+    confirmed.push("modelNumber");
+  }
+  if (overrides.afue) {
+    next.afue = overrides.afue;
+    next.afueSource = "user_confirmed";
+    confirmed.push("afue");
+  }
+  if (overrides.nominalTonnage) {
+    next.nominalTonnage = overrides.nominalTonnage;
+    confirmed.push("nominalTonnage");
+  }
+  if (overrides.manufactureYear) {
+    next.manufactureYear = overrides.manufactureYear;
+    next.manufactureYearSource = "user_confirmed";
+    confirmed.push("manufactureYear");
+  }
+
+  return { ...next, userConfirmedFields: confirmed };
+}
+
+// 🔎 Model-number nomenclature: fills only what the label read left blank
+function applyModelDecode(
+  equipment: EquipmentAnalysis | null
+): EquipmentAnalysis | null {
+  if (!equipment) return equipment;
+
+  const decoded = decodeModelNumber(
+    equipment.manufacturer ?? "",
+    equipment.modelNumber ?? ""
+  );
+  if (!decoded) {
+    return { ...equipment, modelDecodeRule: null, modelDecodeFields: [] };
+  }
+
+  const next: EquipmentAnalysis = { ...equipment };
+  const filled: string[] = [];
+
+  const isBlank = (value: unknown) =>
+    value === null || value === undefined || value === "unknown";
+
+  if (
+    isBlank(next.equipmentType) ||
+    next.equipmentType === "" ||
+    next.equipmentType === "other"
+  ) {
+    next.equipmentType = decoded.equipmentKind;
+    filled.push("equipmentType");
+  }
+  if (isBlank(next.inputBTUH) && decoded.inputBTUH) {
+    next.inputBTUH = decoded.inputBTUH;
+    filled.push("inputBTUH");
+  }
+  if (isBlank(next.nominalTonnage) && decoded.nominalTonnage) {
+    next.nominalTonnage = decoded.nominalTonnage;
+    filled.push("nominalTonnage");
+  }
+  if (isBlank(next.afue) && decoded.afue) {
+    next.afue = decoded.afue;
+    next.afueSource = "model_lookup";
+    filled.push("afue");
+  }
+  if (isBlank(next.seer) && isBlank(next.seer2) && decoded.seer) {
+    next.seer = decoded.seer;
+    filled.push("seer");
+  }
+  if (isBlank(next.efficiencyTier) && decoded.efficiencyTier) {
+    next.efficiencyTier = decoded.efficiencyTier;
+    filled.push("efficiencyTier");
+  }
+  if (isBlank(next.stages) && decoded.stages) {
+    next.stages = decoded.stages;
+    filled.push("stages");
+  }
+  if (isBlank(next.cabinetWidthIn) && decoded.cabinetWidthIn) {
+    next.cabinetWidthIn = decoded.cabinetWidthIn;
+    filled.push("cabinetWidthIn");
+  }
+  if (isBlank(next.refrigerant) && decoded.refrigerant) {
+    next.refrigerant = decoded.refrigerant;
+    filled.push("refrigerant");
+  }
+
+  return {
+    ...next,
+    modelDecodeRule: decoded.rule,
+    modelDecodeFields: filled,
+  };
+}
+
+// 🏷️ Provenance: value, confidence and source for every label field
+const EQUIPMENT_PROVENANCE_FIELDS = [
+  "equipmentType",
+  "manufacturer",
+  "modelNumber",
+  "serialNumber",
+  "nominalTonnage",
+  "inputBTUH",
+  "outputBTUH",
+  "seer",
+  "seer2",
+  "hspf",
+  "hspf2",
+  "afue",
+  "refrigerant",
+  "heatStripKW",
+  "manufactureYear",
+  "stages",
+  "ventType",
+  "efficiencyTier",
+  "cabinetWidthIn",
+] as const;
+
+// AFUE guessed from venting or cabinet style rather than read.
+const INFERRED_AFUE_CONFIDENCE = 0.6;
+
+function applyProvenance(
+  equipment: EquipmentAnalysis | null
+): EquipmentAnalysis | null {
+  if (!equipment) return equipment;
+
+  const provenance: ProvenanceMap = {};
+  const decoded = equipment.modelDecodeFields ?? [];
+  const confirmed = equipment.userConfirmedFields ?? [];
+
+  for (const field of EQUIPMENT_PROVENANCE_FIELDS) {
+    const value = equipment[field];
+    const aiConfidence = equipment.fieldConfidence?.[field];
+
+    if (confirmed.includes(field)) {
+      provenance[field] = provenanceFor(value, "user_confirmed");
+    } else if (decoded.includes(field)) {
+      provenance[field] = provenanceFor(value, "model_lookup");
+    } else if (
+      field === "manufactureYear" &&
+      equipment.manufactureYearSource === "serial_decode"
+    ) {
+      provenance[field] = provenanceFor(value, "serial_decode");
+    } else if (field === "afue" && equipment.afueSource === "inferred") {
+      provenance[field] = provenanceFor(
+        value,
+        "ai",
+        Math.min(aiConfidence ?? 1, INFERRED_AFUE_CONFIDENCE)
+      );
+    } else {
+      provenance[field] = provenanceFor(value, "ai", aiConfidence);
+    }
+  }
+
+  return { ...equipment, provenance };
+}
+
+// 🔢 Serial-number date decode: deterministic, so it wins over the AI guess
+function applySerialDecode(
+  equipment: EquipmentAnalysis | null
+): EquipmentAnalysis | null {
+  if (!equipment || equipment.manufactureYearSource === "user_confirmed") {
+    return equipment;
+  }
+
+  const decoded = decodeSerialNumber(
+    equipment.manufacturer ?? "",
+    equipment.serialNumber ?? ""
+  );
+
+  if (!decoded) {
+    return {
+      ...equipment,
+      manufactureMonth: null,
+      manufactureYearSource: equipment.manufactureYear ? "ai" : "unknown",
+      serialDecodeRule: null,
+    };
+  }
+
+  const aiYear = equipment.manufactureYear ?? null;
+
+  return {
+    ...equipment,
+    manufactureYear: decoded.year,
+    manufactureMonth: decoded.month,
+    manufactureYearSource: "serial_decode",
+    serialDecodeRule: decoded.rule,
+    aiManufactureYear: aiYear !== null && aiYear !== decoded.year ? aiYear : null,
+  };
+}
+
+export function analyzeEquipmentFlags(
+  equipment: EquipmentAnalysis | null
+): EquipmentFlags | null {
+  if (!equipment) return null;
+
+  const notes: string[] = [];
+  let afueVentMismatch = false;
+
+  const afue = equipment.afue ?? null;
+  const ventType = equipment.ventType ?? "unknown";
+
+  // A tech-confirmed AFUE has already been checked against the plate.
+  if (
+    afue !== null &&
+    afue >= 90 &&
+    ventType === "metal_flue" &&
+    equipment.afueSource !== "user_confirmed"
+  ) {
+    afueVentMismatch = true;
+    notes.push(
+      "AI/model lookup says 90%+ AFUE, but venting appears to be metal/B-vent only. This often indicates an 80% furnace. Please confirm AFUE manually."
+    );
+  }
+
+  if (afue === null && ventType === "pvc") {
+    notes.push(
+      "Venting appears to be PVC, which often indicates a 90%+ condensing furnace. Confirm AFUE from the rating plate."
+    );
+  }
+
+  if (equipment.aiManufactureYear && equipment.serialDecodeRule) {
+    notes.push(
+      `AI read manufacture year ${equipment.aiManufactureYear}, but the serial decodes to ${equipment.manufactureYear} (${describeSerialRule(
+        equipment.serialDecodeRule
+      )}). Using the serial decode; confirm on the data plate if unsure.`
+    );
+  }
+
+  if (!afueVentMismatch && notes.length === 0) {
+    return { afueVentMismatch: false, notes: [] };
+  }
+
+  return { afueVentMismatch, notes };
+}
+
+/**
+ * Label read -> tech corrections -> model and serial decode -> provenance,
+ * then warranty and flags. Runs on the server after the photo read and
+ * again in the browser whenever the tech corrects a value.
+ */
+export function processEquipment(
+  labelRead: EquipmentAnalysis | null,
+  context: WarrantyContext = {},
+  overrides: EquipmentOverrides = {}
+): ProcessedEquipment {
+  let equipment = applyOverrides(labelRead, overrides);
+  equipment = applyModelDecode(equipment);
+  equipment = applySerialDecode(equipment);
+  equipment = applyProvenance(equipment);
+
+  return {
+    equipmentAnalysis: equipment,
+    warranty: computeWarrantyInfo(equipment, context),
+    equipmentFlags: analyzeEquipmentFlags(equipment),
+  };
+}
+
+// Which correctable fields matter for each equipment type.
+const REVIEW_FIELDS_BY_TYPE: Record<string, EquipmentReviewField[]> = {
+  furnace: ["modelNumber", "afue", "manufactureYear"],
+  ac_condenser: ["modelNumber", "nominalTonnage", "manufactureYear"],
+  heat_pump: ["modelNumber", "nominalTonnage", "manufactureYear"],
+  air_handler: ["modelNumber", "nominalTonnage", "manufactureYear"],
+  package_unit: ["modelNumber", "afue", "nominalTonnage", "manufactureYear"],
+};
+
+const ALL_REVIEW_FIELDS: EquipmentReviewField[] = [
+  "modelNumber",
+  "afue",
+  "nominalTonnage",
+  "manufactureYear",
+];
+
+/**
+ * Fields the tech should check: flagged by `analyzeEquipmentFlags` or
+ * still blank after the decodes.
+ */
+export function equipmentReviewItems(
+  equipment: EquipmentAnalysis | null,
+  flags: EquipmentFlags | null
+): EquipmentReviewItem[] {
+  if (!equipment) return [];
+
+  const items: EquipmentReviewItem[] = [];
+  const confirmed = equipment.userConfirmedFields ?? [];
+
+  if (flags?.afueVentMismatch && !confirmed.includes("afue")) {
+    items.push({
+      field: "afue",
+      reason: "AFUE doesn't match the venting; confirm from the rating plate.",
+    });
+  }
+  if (equipment.aiManufactureYear && !confirmed.includes("manufactureYear")) {
+    items.push({
+      field: "manufactureYear",
+      reason: `Photo read says ${equipment.aiManufactureYear}, serial decodes to ${equipment.manufactureYear}.`,
+    });
+  }
+
+  const fields =
+    REVIEW_FIELDS_BY_TYPE[equipment.equipmentType] ?? ALL_REVIEW_FIELDS;
+  for (const field of fields) {
+    const value = equipment[field];
+    const missing =
+      value === null || value === undefined || value === "" || value === "unknown";
+    if (missing && !items.some((item) => item.field === field)) {
+      items.push({ field, reason: "Not read from the label." });
+    }
+  }
+
+  return items;
+}
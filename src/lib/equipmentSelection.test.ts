@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { CatalogSystem, selectEquipment } from "@/lib/equipmentSelection";
+import type { LoadCalcResult } from "@/lib/loadCalc";
+
+function load(sensibleBTUH: number, latentBTUH: number): LoadCalcResult {
+  const totalBTUH = sensibleBTUH + latentBTUH;
+  return {
+    sensibleBTUH,
+    latentBTUH,
+    totalBTUH,
+    recommendedTonnage: totalBTUH / 12000,
+    sensibleHeatRatio: sensibleBTUH / totalBTUH,
+    latent: {
+      infiltrationBTUH: latentBTUH,
+      ventilationBTUH: 0,
+      occupantBTUH: 0,
+      internalBTUH: 0,
+      totalBTUH: latentBTUH,
+    },
+    notes: [],
+  };
+}
+
+function system(
+  id: string,
+  sensibleCapacityBTUH: number,
+  latentCapacityBTUH: number,
+  seer2 = 15
+): CatalogSystem {
+  return {
+    id,
+    brand: "Test",
+    systemType: "ac_furnace",
+    condenserModel: `${id}-AC`,
+    coilModel: `${id}-COIL`,
+    nominalTons: 2,
+    totalCapacityBTUH: sensibleCapacityBTUH + latentCapacityBTUH,
+    sensibleCapacityBTUH,
+    latentCapacityBTUH,
+    seer2,
+    eer2: 12,
+  };
+}
+
+function match(
+  result: LoadCalcResult,
+  candidate: CatalogSystem,
+  outdoorDesignF?: number
+) {
+  const [found] = selectEquipment(result, { outdoorDesignF }, [candidate]);
+  return found;
+}
+
+describe("selectEquipment", () => {
+  // 20,000 sensible + 4,000 latent
+  const LOAD = load(20000, 4000);
+
+  it("credits half the excess latent capacity to sensible", () => {
+    // 19,000 + (6,000 - 4,000) / 2 = 20,000
+    const found = match(LOAD, system("credited", 19000, 6000));
+    expect(found.withinManualS).toBe(true);
+    expect(found.sensiblePercent).toBe(95);
+    expect(found.notes).toContain(
+      "Sensible 95% of load; OK once half the excess latent capacity is credited."
+    );
+  });
+
+  it("rejects a sensible shortfall the latent credit can't cover", () => {
+    // 18,000 + 1,000 < 20,000
+    const found = match(LOAD, system("short", 18000, 6000));
+    expect(found.withinManualS).toBe(false);
+    expect(found.notes).toContain("Sensible capacity short (90% of load).");
+  });
+
+  it("lets spare sensible capacity cover a latent shortfall", () => {
+    const humid = load(18000, 6000);
+    const covered = match(humid, system("covered", 21000, 4000));
+    expect(covered.withinManualS).toBe(true);
+    expect(covered.notes).toContain("Latent capacity 67% of load.");
+
+    // 4,000 latent + 1,000 spare sensible < 6,000
+    const uncovered = match(humid, system("uncovered", 19000, 4000));
+    expect(uncovered.withinManualS).toBe(false);
+  });
+
+  it("derates capacities above the 95°F rating point", () => {
+    const found = match(LOAD, system("hot", 20000, 5000), 103);
+    expect(found.totalCapacityBTUH).toBe(23500);
+    expect(found.sensibleCapacityBTUH).toBe(18800);
+    expect(found.notes).toContain(
+      "Capacities derated 6% for 103°F outdoor design."
+    );
+  });
+
+  it("ranks matches inside Manual S first, then by closeness and SEER2", () => {
+    const ranked = selectEquipment(LOAD, {}, [
+      system("too-small", 17000, 4000, 20),
+      system("close-efficient", 20000, 5000, 17),
+      system("close", 20000, 5000, 15),
+      system("big", 22000, 5000, 16),
+    ]);
+    expect(ranked.map((m) => m.system.id)).toEqual([
+      "close-efficient",
+      "close",
+      "big",
+      "too-small",
+    ]);
+  });
+});
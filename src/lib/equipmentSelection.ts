@@ -0,0 +1,210 @@
+// src/lib/equipmentSelection.ts
+import catalogData from "@/data/equipmentCatalog.json";
+import type { LoadCalcResult } from "@/lib/loadCalc";
+import {
+  MAX_COOLING_RATIO,
+  MAX_COOLING_RATIO_HEAT_PUMP,
+  MAX_FURNACE_RATIO,
+  MIN_COOLING_RATIO,
+  MIN_HEATING_RATIO,
+  describeRatioRange,
+} from "@/lib/manualS";
+
+export type SystemType = "ac_furnace" | "heat_pump";
+
+/**
+ * One matched system from src/data/equipmentCatalog.json.
+ * Cooling capacities are AHRI-style ratings at 95°F outdoor / 80°F DB /
+ * 67°F WB entering the coil.
+ */
+export interface CatalogSystem {
+  id: string;
+  brand: string;
+  systemType: SystemType;
+  condenserModel: string;
+  coilModel: string;
+  furnaceModel?: string;
+  airHandlerModel?: string;
+  nominalTons: number;
+  totalCapacityBTUH: number;
+  sensibleCapacityBTUH: number;
+  latentCapacityBTUH: number;
+  seer2: number;
+  eer2: number;
+  afue?: number;
+  furnaceOutputBTUH?: number;
+  hspf2?: number;
+  heatingCapacity17F?: number;
+}
+
+export interface EquipmentSelectionOptions {
+  // Cooling design dry-bulb; capacities are derated above 95°F.
+  outdoorDesignF?: number;
+  systemTypes?: SystemType[];
+  // Heat pumps may go to 125% in heating-dominated climates.
+  heatingDominated?: boolean;
+  maxResults?: number;
+}
+
+export interface EquipmentMatch {
+  system: CatalogSystem;
+  totalCapacityBTUH: number;
+  sensibleCapacityBTUH: number;
+  latentCapacityBTUH: number;
+  totalPercent: number;
+  sensiblePercent: number;
+  latentPercent: number;
+  heatingPercent: number | null;
+  withinManualS: boolean;
+  notes: string[];
+}
+
+const CATALOG = catalogData as CatalogSystem[];
+
+const RATING_OUTDOOR_F = 95;
+
+// Roughly 0.75% capacity loss per °F above the 95°F rating point.
+const CAPACITY_LOSS_PER_F = 0.0075;
+
+function percent(capacity: number, load: number): number {
+  return load > 0 ? Math.round((capacity / load) * 100) : 0;
+}
+
+/**
+ * Rank catalog systems against a load calc result.
+ * Systems inside the Manual S limits come first, ordered by how close
+ * total capacity is to the load, then by SEER2.
+ */
+export function selectEquipment(
+  load: LoadCalcResult,
+  options: EquipmentSelectionOptions = {},
+  catalog: CatalogSystem[] = CATALOG
+): EquipmentMatch[] {
+  const {
+    outdoorDesignF = RATING_OUTDOOR_F,
+    systemTypes,
+    heatingDominated = false,
+    maxResults = 5,
+  } = options;
+
+  const derate = Math.max(
+    1 - Math.max(outdoorDesignF - RATING_OUTDOOR_F, 0) * CAPACITY_LOSS_PER_F,
+    0
+  );
+  const heatingLoad = load.heating?.requiredBTUH ?? null;
+
+  const matches = catalog
+    .filter((system) => !systemTypes || systemTypes.includes(system.systemType))
+    .map((system): EquipmentMatch => {
+      const notes: string[] = [];
+
+      const total = system.totalCapacityBTUH * derate;
+      const sensible = system.sensibleCapacityBTUH * derate;
+      const latent = system.latentCapacityBTUH * derate;
+
+      const totalPercent = percent(total, load.totalBTUH);
+      const sensiblePercent = percent(sensible, load.sensibleBTUH);
+      const latentPercent = percent(latent, load.latentBTUH);
+
+      const maxTotal =
+        system.systemType === "heat_pump" && heatingDominated
+          ? MAX_COOLING_RATIO_HEAT_PUMP
+          : MAX_COOLING_RATIO;
+
+      let withinManualS = true;
+
+      if (total < load.totalBTUH * MIN_COOLING_RATIO) {
+        withinManualS = false;
+        notes.push(`Total capacity only ${totalPercent}% of load.`);
+      } else if (total > load.totalBTUH * maxTotal) {
+        withinManualS = false;
+        notes.push(
+          `Total capacity ${totalPercent}% of load exceeds the ${Math.round(
+            maxTotal * 100
+          )}% oversizing limit.`
+        );
+      }
+
+      // Manual S: half of any excess latent capacity counts as sensible,
+      // and spare sensible capacity can cover a small latent shortfall.
+      const excessLatent = Math.max(latent - load.latentBTUH, 0);
+      const effectiveSensible = sensible + excessLatent / 2;
+      if (effectiveSensible < load.sensibleBTUH) {
+        withinManualS = false;
+        notes.push(`Sensible capacity short (${sensiblePercent}% of load).`);
+      } else if (excessLatent > 0 && sensible < load.sensibleBTUH) {
+        notes.push(
+          `Sensible ${sensiblePercent}% of load; OK once half the excess latent capacity is credited.`
+        );
+      }
+
+      if (latent < load.latentBTUH) {
+        const spareSensible = sensible - load.sensibleBTUH;
+        if (latent + Math.max(spareSensible, 0) < load.latentBTUH) {
+          withinManualS = false;
+        }
+        notes.push(`Latent capacity ${latentPercent}% of load.`);
+      }
+
+      let heatingPercent: number | null = null;
+      if (heatingLoad && heatingLoad > 0) {
+        if (system.furnaceOutputBTUH) {
+          heatingPercent = percent(system.furnaceOutputBTUH, heatingLoad);
+          const ratio = system.furnaceOutputBTUH / heatingLoad;
+          // The furnace blower has to move the cooling airflow, so an
+          // oversized furnace is flagged but doesn't rule out the match.
+          if (ratio < MIN_HEATING_RATIO) {
+            withinManualS = false;
+            notes.push(
+              `Furnace output only ${heatingPercent}% of heating load.`
+            );
+          } else if (ratio > MAX_FURNACE_RATIO) {
+            notes.push(
+              `Furnace output ${heatingPercent}% of heating load (Manual S: ${describeRatioRange(
+                MIN_HEATING_RATIO,
+                MAX_FURNACE_RATIO
+              )}); use the smallest input that carries the cooling airflow.`
+            );
+          }
+        } else if (system.heatingCapacity17F) {
+          heatingPercent = percent(system.heatingCapacity17F, heatingLoad);
+          if (system.heatingCapacity17F < heatingLoad) {
+            notes.push(
+              `Heat pump covers ${heatingPercent}% of heating load at 17°F; size backup heat strips for the rest.`
+            );
+          }
+        }
+      }
+
+      if (derate < 1) {
+        notes.push(
+          `Capacities derated ${Math.round(
+            (1 - derate) * 100
+          )}% for ${outdoorDesignF}°F outdoor design.`
+        );
+      }
+
+      return {
+        system,
+        totalCapacityBTUH: Math.round(total),
+        sensibleCapacityBTUH: Math.round(sensible),
+        latentCapacityBTUH: Math.round(latent),
+        totalPercent,
+        sensiblePercent,
+        latentPercent,
+        heatingPercent,
+        withinManualS,
+        notes,
+      };
+    });
+
+  matches.sort((a, b) => {
+    if (a.withinManualS !== b.withinManualS) return a.withinManualS ? -1 : 1;
+    const closeness =
+      Math.abs(a.totalPercent - 105) - Math.abs(b.totalPercent - 105);
+    if (closeness !== 0) return closeness;
+    return b.system.seer2 - a.system.seer2;
+  });
+
+  return matches.slice(0, maxResults);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { facingForPhoto, mergeExteriorAnalyses } from "@/lib/exteriorMerge";
+import type {
+  ExteriorPhotoAnalysis,
+  ExteriorSide,
+} from "@/lib/intakeSchemas";
+
+function photo(
+  side: ExteriorSide,
+  windows = "average",
+  extra: Partial<ExteriorPhotoAnalysis> = {}
+): ExteriorPhotoAnalysis {
+  return {
+    fileName: `${side}.jpg`,
+    stories: 2,
+    siding: "vinyl",
+    windows,
+    gutters: "yes",
+    condition: "good",
+    confidence: 0.8,
+    side,
+    ...extra,
+  };
+}
+
+describe("facingForPhoto", () => {
+  it("turns a quarter clockwise per side from the front", () => {
+    // Front door faces north: standing on the street looking south,
+    // the house's left side is to the east.
+    expect(facingForPhoto(photo("front"), "north")).toBe("north");
+    expect(facingForPhoto(photo("left"), "north")).toBe("east");
+    expect(facingForPhoto(photo("back"), "north")).toBe("south");
+    expect(facingForPhoto(photo("right"), "north")).toBe("west");
+  });
+
+  it("wraps past west", () => {
+    expect(facingForPhoto(photo("left"), "west")).toBe("north");
+    expect(facingForPhoto(photo("back"), "west")).toBe("east");
+    expect(facingForPhoto(photo("right"), "south")).toBe("east");
+  });
+
+  it("prefers the front facing over the model's compass guess", () => {
+    expect(facingForPhoto(photo("back", "average", { facing: "west" }), "east")).toBe(
+      "west"
+    );
+    expect(facingForPhoto(photo("back", "average", { facing: "north" }), "east")).toBe(
+      "west"
+    );
+  });
+
+  it("falls back to the model's facing, then gives up", () => {
+    expect(facingForPhoto(photo("back", "average", { facing: "south" }), null)).toBe(
+      "south"
+    );
+    expect(facingForPhoto(photo("unknown", "average", { facing: "east" }), "north")).toBe(
+      "east"
+    );
+    expect(facingForPhoto(photo("back"), null)).toBeNull();
+    expect(facingForPhoto(photo("unknown", "average", { facing: "unknown" }), "north")).toBeNull();
+  });
+});
+
+describe("mergeExteriorAnalyses", () => {
+  it("files each photo's windows under its compass side", () => {
+    const merged = mergeExteriorAnalyses(
+      [photo("front", "few"), photo("back", "many"), photo("left", "average")],
+      "east"
+    );
+    expect(merged?.windowsByFacing).toEqual({
+      east: "few",
+      south: "average",
+      west: "many",
+    });
+    expect(merged?.orientation).toBe("west");
+  });
+});
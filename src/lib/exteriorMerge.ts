@@ -0,0 +1,234 @@
+// src/lib/exteriorMerge.ts
+import { FACINGS, Facing } from "@/lib/envelope";
+import type { Orientation, WindowAmount } from "@/lib/loadCalc";
+import type {
+  ExteriorAnalysis,
+  ExteriorField,
+  ExteriorPhotoAnalysis,
+  ExteriorSide,
+} from "@/lib/intakeSchemas";
+import { ProvenanceMap, provenanceFor } from "@/lib/provenance";
+
+interface Vote<T> {
+  value: T;
+  // winner's share of the total weight × its supporters' mean confidence
+  confidence: number;
+  share: number;
+}
+
+// Weight for photos the model didn't score.
+const DEFAULT_PHOTO_CONFIDENCE = 0.5;
+
+// Below this share of the weight, two siding answers become "mixed".
+const MIXED_SIDING_SHARE = 0.6;
+
+const WINDOW_LEVEL: Record<Exclude<WindowAmount, "unknown">, number> = {
+  few: 1,
+  average: 2,
+  many: 3,
+};
+
+const LEVEL_WINDOW: WindowAmount[] = ["unknown", "few", "average", "many"];
+
+// Quarter turns clockwise from the front (as seen from the street, the
+// house's left side is a quarter turn clockwise from its front).
+const SIDE_TURNS: Record<Exclude<ExteriorSide, "unknown">, number> = {
+  front: 0,
+  left: 1,
+  back: 2,
+  right: 3,
+};
+
+function photoWeight(photo: ExteriorAnalysis): number {
+  return photo.confidence ?? DEFAULT_PHOTO_CONFIDENCE;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Confidence-weighted vote; `ignore` values (e.g. "unknown") don't count.
+ */
+function vote<T>(
+  photos: ExteriorAnalysis[],
+  pick: (photo: ExteriorAnalysis) => T,
+  ignore: T[]
+): Vote<T> | null {
+  const totals = new Map<T, { weight: number; count: number }>();
+  let totalWeight = 0;
+
+  for (const photo of photos) {
+    const value = pick(photo);
+    if (ignore.includes(value)) continue;
+    const weight = photoWeight(photo);
+    const entry = totals.get(value) ?? { weight: 0, count: 0 };
+    entry.weight += weight;
+    entry.count += 1;
+    totals.set(value, entry);
+    totalWeight += weight;
+  }
+
+  let winner: T | null = null;
+  let winnerEntry = { weight: 0, count: 0 };
+  totals.forEach((entry, value) => {
+    if (winner === null || entry.weight > winnerEntry.weight) {
+      winner = value;
+      winnerEntry = entry;
+    }
+  });
+  if (winner === null || totalWeight === 0) return null;
+
+  const share = winnerEntry.weight / totalWeight;
+  return {
+    value: winner,
+    share,
+    confidence: round2(share * (winnerEntry.weight / winnerEntry.count)),
+  };
+}
+
+/**
+ * Compass facing of the side a photo shows: from the front-door facing
+ * when the user gave one, otherwise whatever the model reported.
+ */
+export function facingForPhoto(
+  photo: ExteriorAnalysis,
+  frontFacing: Facing | null
+): Facing | null {
+  const side = photo.side ?? "unknown";
+  if (frontFacing && side !== "unknown") {
+    const start = FACINGS.indexOf(frontFacing);
+    return FACINGS[(start + SIDE_TURNS[side]) % FACINGS.length];
+  }
+  if (photo.facing && photo.facing !== "unknown") {
+    return photo.facing;
+  }
+  return null;
+}
+
+function windowLevel(windows: string): number | null {
+  return windows in WINDOW_LEVEL
+    ? WINDOW_LEVEL[windows as keyof typeof WINDOW_LEVEL]
+    : null;
+}
+
+/**
+ * The side with clearly the most glass; "mixed" when no side stands out.
+ */
+function orientationFromWindows(
+  windowsByFacing: Partial<Record<Facing, WindowAmount>>
+): Orientation {
+  const levels = FACINGS.map((facing) => ({
+    facing,
+    level: windowLevel(windowsByFacing[facing] ?? "unknown"),
+  })).filter((l): l is { facing: Facing; level: number } => l.level !== null);
+
+  if (levels.length === 0) return "unknown";
+
+  const max = Math.max(...levels.map((l) => l.level));
+  const top = levels.filter((l) => l.level === max);
+
+  if (levels.length === 1) {
+    return max === WINDOW_LEVEL.many ? top[0].facing : "unknown";
+  }
+  return top.length === 1 ? top[0].facing : "mixed";
+}
+
+/**
+ * Merge per-photo answers into one ExteriorAnalysis: consensus stories,
+ * siding, gutters and condition, window amount per facing, and a
+ * confidence per field.
+ */
+export function mergeExteriorAnalyses(
+  photos: ExteriorPhotoAnalysis[],
+  frontFacing: Facing | null = null
+): ExteriorAnalysis | null {
+  if (photos.length === 0) return null;
+
+  const fieldConfidence: Partial<Record<ExteriorField, number>> = {};
+
+  // 1) Stories: numeric answers only
+  const stories = vote<number | string>(photos, (p) => p.stories, ["unknown"]);
+  if (stories) fieldConfidence.stories = stories.confidence;
+
+  // 2) Siding: a split vote means mixed cladding
+  const siding = vote(photos, (p) => p.siding, ["unknown"]);
+  let sidingValue = siding?.value ?? "unknown";
+  if (siding) {
+    fieldConfidence.siding = siding.confidence;
+    const kinds = new Set(
+      photos.map((p) => p.siding).filter((v) => v !== "unknown")
+    );
+    if (kinds.size > 1 && siding.share < MIXED_SIDING_SHARE) {
+      sidingValue = "mixed";
+    }
+  }
+
+  // 3) Windows per facing, then overall amount from every photo
+  const windowsByFacing: Partial<Record<Facing, WindowAmount>> = {};
+  for (const facing of FACINGS) {
+    const onFacing = photos.filter(
+      (p) => facingForPhoto(p, frontFacing) === facing
+    );
+    const facingVote = vote(onFacing, (p) => p.windows, ["unknown"]);
+    if (facingVote) {
+      windowsByFacing[facing] = facingVote.value as WindowAmount;
+    }
+  }
+
+  let levelSum = 0;
+  let levelWeight = 0;
+  let windowPhotos = 0;
+  for (const photo of photos) {
+    const level = windowLevel(photo.windows);
+    if (level === null) continue;
+    levelSum += level * photoWeight(photo);
+    levelWeight += photoWeight(photo);
+    windowPhotos += 1;
+  }
+  const windows =
+    levelWeight > 0 ? LEVEL_WINDOW[Math.round(levelSum / levelWeight)] : "unknown";
+  if (windowPhotos > 0) {
+    fieldConfidence.windows = round2(levelWeight / windowPhotos);
+  }
+
+  // 4) Gutters and condition
+  const gutters = vote(photos, (p) => p.gutters, ["unclear"]);
+  if (gutters) fieldConfidence.gutters = gutters.confidence;
+
+  const condition = vote(photos, (p) => p.condition, []);
+  if (condition) fieldConfidence.condition = condition.confidence;
+
+  const confidence = round2(
+    photos.reduce((sum, p) => sum + photoWeight(p), 0) / photos.length
+  );
+
+  const merged = {
+    stories: stories?.value ?? "unknown",
+    siding: sidingValue,
+    windows,
+    gutters: gutters?.value ?? "unclear",
+    condition: condition?.value ?? "average",
+    orientation: orientationFromWindows(windowsByFacing),
+  };
+
+  // 5) Provenance: every field here is a photo read
+  const provenance: ProvenanceMap = {};
+  for (const field of Object.keys(merged) as (keyof typeof merged)[]) {
+    const fieldKey = field === "orientation" ? "windows" : field;
+    provenance[field] = provenanceFor(
+      merged[field],
+      "ai",
+      fieldConfidence[fieldKey] ?? 0
+    );
+  }
+
+  return {
+    ...merged,
+    confidence,
+    photos,
+    windowsByFacing,
+    fieldConfidence,
+    provenance,
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkHeatingEquipment,
+  runHeatingLoadCalc,
+  HeatingLoadInput,
+} from "@/lib/heatingLoad";
+
+// 60°F design ΔT; 1000 sq ft -> 8500 cu ft.
+const HOUSE: HeatingLoadInput = {
+  sqft: 1000,
+  stories: 1,
+  windows: "average",
+  insulation: "average",
+  outdoorDesignTempF: 10,
+  indoorSetpointF: 70,
+  envelope: [
+    { kind: "wall", areaSqFt: 1000, rValue: 10 },
+    { kind: "window", areaSqFt: 100, uFactor: 0.5 },
+    { kind: "floor", areaSqFt: 500, rValue: 20 },
+  ],
+};
+
+describe("runHeatingLoadCalc", () => {
+  it("adds up UA × ΔT, with a crawlspace floor at half the delta", () => {
+    const result = runHeatingLoadCalc(HOUSE);
+    expect(result.designDeltaT).toBe(60);
+    // wall 100 UA × 60, window 50 UA × 60, floor 25 UA × 60 × 0.5
+    expect(result.envelope?.lines.map((l) => l.conductionBTUH)).toEqual([
+      6000, 3000, 750,
+    ]);
+    expect(result.conductionBTUH).toBe(9750);
+  });
+
+  it("estimates infiltration from the insulation level", () => {
+    const result = runHeatingLoadCalc(HOUSE);
+    // 0.45 ACH × 8500 / 60 = 63.75 CFM × 1.08 × 60
+    expect(result.infiltrationBTUH).toBe(4131);
+    expect(result.ventilationBTUH).toBe(0);
+    expect(result.ductLossBTUH).toBe(0);
+    expect(result.requiredBTUH).toBe(9750 + 4131);
+
+    const twoStory = runHeatingLoadCalc({ ...HOUSE, stories: 2 });
+    expect(twoStory.infiltrationBTUH).toBe(Math.round(4131 * 1.1));
+    expect(twoStory.notes).toContain(
+      "Multi-story: extra winter infiltration for stack effect."
+    );
+  });
+
+  it("adds attic duct losses to the required heating", () => {
+    const result = runHeatingLoadCalc({
+      ...HOUSE,
+      ducts: {
+        supplyLocation: "attic",
+        returnLocation: "attic",
+        insulationR: 6,
+        tightness: "average",
+      },
+    });
+    expect(result.ductConductionBTUH).toBe(4478);
+    expect(result.ductLeakageBTUH).toBe(5400);
+    expect(result.requiredBTUH).toBe(9750 + 4131 + 9878);
+  });
+
+  it("reports humidification without adding it to required heating", () => {
+    const result = runHeatingLoadCalc(HOUSE);
+    expect(result.infiltrationLatentBTUH).toBeGreaterThan(0);
+    expect(result.ventilationLatentBTUH).toBe(0);
+    expect(result.requiredBTUH).toBe(
+      result.conductionBTUH + result.infiltrationBTUH
+    );
+  });
+
+  it("returns no load when outdoors is at or above the setpoint", () => {
+    const result = runHeatingLoadCalc({ ...HOUSE, outdoorDesignTempF: 72 });
+    expect(result.designDeltaT).toBe(-2);
+    expect(result.requiredBTUH).toBe(0);
+    expect(result.envelope).toBeUndefined();
+  });
+
+  it("rejects a house with no floor area", () => {
+    expect(() => runHeatingLoadCalc({ ...HOUSE, sqft: 0 })).toThrow(/sqft/);
+  });
+});
+
+describe("checkHeatingEquipment", () => {
+  it("checks furnace output against 100–140% of the load", () => {
+    const [check] = checkHeatingEquipment(50000, { outputBTUH: 60000 });
+    expect(check.source).toBe("furnace_output");
+    expect(check.percentOfLoad).toBe(120);
+    expect(check.verdict).toBe("right_sized");
+    expect(checkHeatingEquipment(50000, { outputBTUH: 80000 })[0].verdict).toBe(
+      "oversized"
+    );
+  });
+
+  it("falls back to input × AFUE", () => {
+    const [check] = checkHeatingEquipment(50000, {
+      inputBTUH: 60000,
+      afue: 80,
+    });
+    expect(check.source).toBe("furnace_input_x_afue");
+    expect(check.capacityBTUH).toBe(48000);
+    expect(check.verdict).toBe("undersized");
+  });
+
+  it("allows heat strips up to 175%", () => {
+    const [check] = checkHeatingEquipment(50000, { heatStripKW: 25 });
+    expect(check.source).toBe("heat_strips");
+    expect(check.capacityBTUH).toBe(85300);
+    expect(check.verdict).toBe("right_sized");
+  });
+
+  it("skips missing equipment and zero loads", () => {
+    expect(checkHeatingEquipment(50000, null)).toEqual([]);
+    expect(checkHeatingEquipment(0, { outputBTUH: 60000 })).toEqual([]);
+  });
+});
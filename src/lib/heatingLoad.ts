@@ -0,0 +1,303 @@
+// src/lib/heatingLoad.ts
+import type { InsulationLevel, WindowAmount } from "@/lib/loadCalc";
+import {
+  AirLeakageInput,
+  VentilationSystemInput,
+  describeAirLeakage,
+  envelopeLeakage,
+  ventilationFlows,
+} from "@/lib/airLeakage";
+import {
+  CONDITIONED_DUCTS,
+  DuctSystemInput,
+  computeDuctLoad,
+  describeDuctSystem,
+} from "@/lib/ductLoss";
+import {
+  EnvelopeComponent,
+  EnvelopeLoads,
+  STORY_HEIGHT_FT,
+  computeHeatingEnvelope,
+  envelopeFromPresets,
+} from "@/lib/envelope";
+import {
+  MAX_FURNACE_RATIO,
+  MAX_HEAT_STRIP_RATIO,
+  MIN_HEATING_RATIO,
+} from "@/lib/manualS";
+import {
+  humidityRatioFromRH,
+  latentAirFactor,
+  toGrains,
+} from "@/lib/psychrometrics";
+
+export interface HeatingDesignInput {
+  outdoorDesignTempF: number; // 99% winter design dry-bulb
+  indoorSetpointF: number;
+}
+
+export interface HeatingLoadInput extends HeatingDesignInput {
+  sqft: number;
+  stories: number;
+  windows: WindowAmount;
+  insulation: InsulationLevel;
+  // Missing = ducts inside the conditioned space.
+  ducts?: DuctSystemInput;
+  // Blower door result or tightness; missing = insulation-based ACH.
+  airLeakage?: AirLeakageInput;
+  ventilation?: VentilationSystemInput;
+  elevationFt?: number;
+  // Detailed envelope; falls back to the insulation/windows presets.
+  envelope?: EnvelopeComponent[];
+}
+
+export interface HeatingLoadResult {
+  designDeltaT: number;
+  envelope?: EnvelopeLoads;
+  conductionBTUH: number;
+  infiltrationBTUH: number;
+  ventilationBTUH: number;
+  ductConductionBTUH: number;
+  ductLeakageBTUH: number;
+  // Conduction + leakage
+  ductLossBTUH: number;
+  requiredBTUH: number;
+  // Moisture the outdoor air carries away at a 30% RH indoor target:
+  // a humidifier load, not part of requiredBTUH.
+  infiltrationLatentBTUH: number;
+  ventilationLatentBTUH: number;
+  notes: string[];
+}
+
+export type HeatingSizingVerdict = "undersized" | "right_sized" | "oversized";
+
+export interface HeatingEquipmentCheck {
+  source: "furnace_output" | "furnace_input_x_afue" | "heat_strips";
+  capacityBTUH: number;
+  percentOfLoad: number;
+  verdict: HeatingSizingVerdict;
+  note: string;
+}
+
+export interface ExistingHeatingEquipment {
+  inputBTUH?: number | null;
+  outputBTUH?: number | null;
+  afue?: number | null;
+  heatStripKW?: number | null;
+}
+
+// Natural air changes per hour at winter design conditions.
+const NATURAL_ACH: Record<InsulationLevel, number> = {
+  poor: 0.7,
+  average: 0.45,
+  good: 0.3,
+};
+
+const BTUH_PER_KW = 3412;
+
+// Winter humidity assumptions for the humidification (latent) load.
+const WINTER_INDOOR_RH = 30;
+const WINTER_OUTDOOR_RH = 80;
+
+/**
+ * Winter heating load: envelope conduction, infiltration and mechanical
+ * ventilation at the 99% design temperature, plus duct conduction and
+ * leakage losses. Latent (humidification) loads are reported alongside.
+ * Uses the same envelope components as the cooling calc, so detailed
+ * R/U-value input and the categorical presets both flow through here.
+ */
+export function runHeatingLoadCalc(input: HeatingLoadInput): HeatingLoadResult {
+  const notes: string[] = [];
+
+  const {
+    sqft,
+    stories,
+    windows,
+    insulation,
+    ducts = CONDITIONED_DUCTS,
+    airLeakage,
+    ventilation,
+    elevationFt = 0,
+    envelope,
+    outdoorDesignTempF,
+    indoorSetpointF,
+  } = input;
+
+  if (sqft <= 0) {
+    throw new Error("sqft must be > 0");
+  }
+
+  const designDeltaT = indoorSetpointF - outdoorDesignTempF;
+  if (designDeltaT <= 0) {
+    notes.push(
+      "Outdoor design temp is at or above the indoor setpoint: no heating load."
+    );
+    return {
+      designDeltaT,
+      conductionBTUH: 0,
+      infiltrationBTUH: 0,
+      ventilationBTUH: 0,
+      ductConductionBTUH: 0,
+      ductLeakageBTUH: 0,
+      ductLossBTUH: 0,
+      requiredBTUH: 0,
+      infiltrationLatentBTUH: 0,
+      ventilationLatentBTUH: 0,
+      notes,
+    };
+  }
+
+  // 1) Envelope: detailed components or the categorical presets
+  const components =
+    envelope && envelope.length > 0
+      ? envelope
+      : envelopeFromPresets({ sqft, stories, windows, insulation }).components;
+
+  // 2) Conduction (UA × ΔT per component)
+  const envelopeLoads = computeHeatingEnvelope(components, designDeltaT);
+  const conductionBTUH = envelopeLoads.conductionBTUH;
+
+  // 3) Infiltration: blower door / tightness category, else estimated
+  //    from the insulation level
+  const volume = sqft * STORY_HEIGHT_FT;
+  const leakage = envelopeLeakage(airLeakage, volume, stories, "heating");
+  let infiltrationCFM: number;
+  if (leakage) {
+    infiltrationCFM = leakage.infiltrationCFM;
+    notes.push(`Air leakage: ${describeAirLeakage(leakage)} in winter.`);
+  } else {
+    let ach = NATURAL_ACH[insulation];
+    if (stories >= 2) {
+      ach *= 1.1;
+      notes.push("Multi-story: extra winter infiltration for stack effect.");
+    }
+    infiltrationCFM = (ach * volume) / 60;
+  }
+  const infiltrationBTUH = 1.08 * infiltrationCFM * designDeltaT;
+
+  // 4) Mechanical ventilation, less heat recovery
+  const ventilationAir = ventilationFlows(ventilation, infiltrationCFM);
+  const ventilationBTUH = 1.08 * ventilationAir.sensibleCFM * designDeltaT;
+
+  // 5) Duct losses: conduction through the duct walls + leakage
+  const ductLoss = computeDuctLoad(ducts, {
+    sqft,
+    stories,
+    season: "heating",
+    outdoorF: outdoorDesignTempF,
+    indoorF: indoorSetpointF,
+  });
+  if (ductLoss.totalBTUH > 0) {
+    notes.push(
+      `Ducts (${describeDuctSystem(ducts)}): ${ductLoss.conductionBTUH} BTU/h conduction + ${ductLoss.leakageBTUH} BTU/h leakage loss.`
+    );
+  }
+
+  const requiredBTUH =
+    conductionBTUH + infiltrationBTUH + ventilationBTUH + ductLoss.totalBTUH;
+
+  // 6) Humidification: indoor-minus-outdoor grains × outdoor air CFM
+  const winterGrains = Math.max(
+    toGrains(humidityRatioFromRH(indoorSetpointF, WINTER_INDOOR_RH, elevationFt)) -
+      toGrains(
+        humidityRatioFromRH(outdoorDesignTempF, WINTER_OUTDOOR_RH, elevationFt)
+      ),
+    0
+  );
+  const latentFactor = latentAirFactor(elevationFt);
+  const infiltrationLatentBTUH = latentFactor * infiltrationCFM * winterGrains;
+  const ventilationLatentBTUH =
+    latentFactor * ventilationAir.latentCFM * winterGrains;
+  if (infiltrationLatentBTUH + ventilationLatentBTUH > 0) {
+    notes.push(
+      `Humidification: ~${Math.round(
+        infiltrationLatentBTUH + ventilationLatentBTUH
+      )} BTU/h of moisture to hold ${WINTER_INDOOR_RH}% RH indoors (not included in required heating).`
+    );
+  }
+
+  notes.push(
+    `At ${outdoorDesignTempF}°F outdoor / ${indoorSetpointF}°F indoor, required heating is ~${Math.round(
+      requiredBTUH
+    )} BTU/h.`
+  );
+
+  return {
+    designDeltaT,
+    envelope: envelopeLoads,
+    conductionBTUH: Math.round(conductionBTUH),
+    infiltrationBTUH: Math.round(infiltrationBTUH),
+    ventilationBTUH: Math.round(ventilationBTUH),
+    ductConductionBTUH: ductLoss.conductionBTUH,
+    ductLeakageBTUH: ductLoss.leakageBTUH,
+    ductLossBTUH: ductLoss.totalBTUH,
+    requiredBTUH: Math.round(requiredBTUH),
+    infiltrationLatentBTUH: Math.round(infiltrationLatentBTUH),
+    ventilationLatentBTUH: Math.round(ventilationLatentBTUH),
+    notes,
+  };
+}
+
+function verdictFor(ratio: number, maxRatio: number): HeatingSizingVerdict {
+  if (ratio < MIN_HEATING_RATIO) return "undersized";
+  if (ratio > maxRatio) return "oversized";
+  return "right_sized";
+}
+
+/**
+ * Compare the existing furnace / heat strips against the required
+ * heating load. Returns one check per capacity we can figure out.
+ */
+export function checkHeatingEquipment(
+  requiredBTUH: number,
+  equipment: ExistingHeatingEquipment | null
+): HeatingEquipmentCheck[] {
+  if (!equipment || requiredBTUH <= 0) return [];
+
+  const checks: HeatingEquipmentCheck[] = [];
+
+  const push = (
+    source: HeatingEquipmentCheck["source"],
+    capacityBTUH: number,
+    maxRatio: number,
+    label: string
+  ) => {
+    const ratio = capacityBTUH / requiredBTUH;
+    const verdict = verdictFor(ratio, maxRatio);
+    const percentOfLoad = Math.round(ratio * 100);
+    checks.push({
+      source,
+      capacityBTUH: Math.round(capacityBTUH),
+      percentOfLoad,
+      verdict,
+      note: `${label} ${Math.round(
+        capacityBTUH
+      )} BTU/h is ${percentOfLoad}% of the ${requiredBTUH} BTU/h heating load (${verdict.replace(
+        "_",
+        "-"
+      )}).`,
+    });
+  };
+
+  if (equipment.outputBTUH) {
+    push("furnace_output", equipment.outputBTUH, MAX_FURNACE_RATIO, "Furnace output");
+  } else if (equipment.inputBTUH && equipment.afue) {
+    push(
+      "furnace_input_x_afue",
+      equipment.inputBTUH * (equipment.afue / 100),
+      MAX_FURNACE_RATIO,
+      "Furnace output (input × AFUE)"
+    );
+  }
+
+  if (equipment.heatStripKW) {
+    push(
+      "heat_strips",
+      equipment.heatStripKW * BTUH_PER_KW,
+      MAX_HEAT_STRIP_RATIO,
+      `Heat strips (${equipment.heatStripKW} kW)`
+    );
+  }
+
+  return checks;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRepairPrompt,
+  extractJsonText,
+  parseEquipmentAnalysis,
+  parseExteriorAnalysis,
+} from "@/lib/intakeSchemas";
+
+describe("extractJsonText", () => {
+  it("strips markdown fences and the prose around the object", () => {
+    expect(
+      extractJsonText('Here you go:\n```json\n{"stories": 2}\n```\nHope that helps.')
+    ).toBe('{"stories": 2}');
+  });
+});
+
+describe("parseExteriorAnalysis", () => {
+  it("normalizes aliases and word answers", () => {
+    const { value, errors } = parseExteriorAnalysis(
+      '{"side": "rear", "stories": "two story", "siding": "Hardie board", "windows": "lots", "gutters": true, "condition": "fair", "confidence": 85}'
+    );
+    expect(errors).toEqual([]);
+    expect(value).toMatchObject({
+      side: "back",
+      stories: 2,
+      siding: "fiber cement",
+      windows: "many",
+      gutters: "yes",
+      condition: "average",
+      confidence: 0.85,
+    });
+  });
+
+  it("lists bad fields and falls back to unknown", () => {
+    const { value, errors } = parseExteriorAnalysis(
+      '{"stories": 7, "siding": "adobe", "windows": "average"}'
+    );
+    expect(value?.stories).toBe("unknown");
+    expect(value?.siding).toBe("unknown");
+    expect(value?.windows).toBe("average");
+    expect(errors.map((e) => e.field)).toEqual(["stories", "siding"]);
+    expect(errors[1].received).toBe("adobe");
+  });
+
+  it("doesn't take object built-ins for aliases", () => {
+    const { value, errors } = parseExteriorAnalysis(
+      '{"siding": "constructor", "windows": "toString", "stories": "constructor"}'
+    );
+    expect(value?.siding).toBe("unknown");
+    expect(value?.windows).toBe("unknown");
+    expect(value?.stories).toBe("unknown");
+    expect(errors.map((e) => e.field)).toEqual(["stories", "siding", "windows"]);
+  });
+
+  it("returns no value for text that isn't a JSON object", () => {
+    const { value, errors } = parseExteriorAnalysis("I can't see the house.");
+    expect(value).toBeNull();
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe("$");
+    expect(errors[0].message).toMatch(/^Not valid JSON/);
+
+    expect(parseExteriorAnalysis("[1, 2]").errors).toEqual([
+      { field: "$", message: "Expected a JSON object." },
+    ]);
+  });
+});
+
+describe("parseEquipmentAnalysis", () => {
+  it("coerces label text to numbers", () => {
+    const { value, errors } = parseEquipmentAnalysis(
+      '{"equipmentType": "gas furnace", "inputBTUH": "80,000 BTU/h", "afue": 0.96, "stages": "2-stage", "manufacturer": "Goodman"}'
+    );
+    expect(errors).toEqual([]);
+    expect(value).toMatchObject({
+      equipmentType: "furnace",
+      inputBTUH: 80000,
+      afue: 96,
+      stages: "two-stage",
+      manufacturer: "Goodman",
+      modelNumber: "unknown",
+      seer: null,
+    });
+  });
+
+  it("drops numbers outside the plausible range", () => {
+    const { value, errors } = parseEquipmentAnalysis(
+      '{"equipmentType": "condenser", "nominalTonnage": "36", "seer": "sixteen"}'
+    );
+    expect(value?.equipmentType).toBe("ac_condenser");
+    expect(value?.nominalTonnage).toBeNull();
+    expect(value?.seer).toBeNull();
+    expect(errors).toEqual([
+      {
+        field: "nominalTonnage",
+        message: "Expected a value between 1 and 25.",
+        received: "36",
+      },
+      { field: "seer", message: "Expected a number.", received: "sixteen" },
+    ]);
+  });
+});
+
+describe("buildRepairPrompt", () => {
+  it("quotes the failed answer and each problem", () => {
+    const previous = '{"stories": 7}';
+    const { errors } = parseExteriorAnalysis(previous);
+    const prompt = buildRepairPrompt(previous, errors);
+    expect(prompt).toContain(previous);
+    expect(prompt).toContain(
+      '- stories: Expected one of: 1, 1.5, 2, 3 or "unknown". (got 7)'
+    );
+    expect(prompt).toContain("ONLY the corrected JSON object");
+  });
+});
@@ -0,0 +1,638 @@
+// src/lib/intakeSchemas.ts
+import type { Facing } from "@/lib/envelope";
+import type { Orientation, WindowAmount } from "@/lib/loadCalc";
+import type { ProvenanceMap } from "@/lib/provenance";
+import type { ResolvedClimate } from "@/lib/climate";
+import type { EquipmentFlags } from "@/lib/equipmentPipeline";
+import type { WarrantyContext, WarrantyInfo } from "@/lib/warranty";
+
+// --------- TYPES ----------
+
+export type ExteriorSide = "front" | "back" | "left" | "right" | "unknown";
+
+export type ExteriorField =
+  | "stories"
+  | "siding"
+  | "windows"
+  | "gutters"
+  | "condition";
+
+export interface ExteriorAnalysis {
+  stories: number | string; // 1, 1.5, 2, 3 or "unknown"
+  siding: string; // vinyl, wood, fiber cement, stucco, brick, mixed, unknown
+  windows: string; // few, average, many, unknown
+  gutters: string; // yes, no, unclear
+  condition: string; // good, average, poor
+  confidence?: number;
+
+  // single photo: which side it shows
+  side?: ExteriorSide;
+  facing?: Facing | "unknown";
+
+  // merged from several photos (see exteriorMerge.ts)
+  photos?: ExteriorPhotoAnalysis[];
+  windowsByFacing?: Partial<Record<Facing, WindowAmount>>;
+  orientation?: Orientation;
+  fieldConfidence?: Partial<Record<ExteriorField, number>>;
+
+  // value, confidence and source for each field above
+  provenance?: ProvenanceMap;
+}
+
+export interface ExteriorPhotoAnalysis extends ExteriorAnalysis {
+  fileName: string;
+}
+
+export interface EquipmentAnalysis {
+  equipmentType: string; // furnace, air_handler, heat_pump, ac_condenser, package_unit, other
+  manufacturer: string;
+  modelNumber: string;
+  serialNumber: string;
+  nominalTonnage?: number | null;
+  inputBTUH?: number | null;
+  outputBTUH?: number | null;
+  seer?: number | null;
+  seer2?: number | null;
+  hspf?: number | null;
+  hspf2?: number | null;
+  afue?: number | null;
+  refrigerant?: string | null;
+  heatStripKW?: number | null;
+  manufactureYear?: number | null;
+  manufactureMonth?: number | null;
+  manufactureYearSource?: string | null; // "serial_decode", "ai", "user_confirmed", "unknown"
+  serialDecodeRule?: string | null;
+  aiManufactureYear?: number | null; // kept when the serial decode disagrees
+  stages?: string; // single, two-stage, variable, unknown
+
+  // sanity-check helpers
+  ventType?: string | null; // "metal_flue", "pvc", "mixed", "unknown"
+  afueSource?: string | null; // "label", "inferred", "model_lookup", "user_confirmed", "unknown"
+
+  // model-number nomenclature decode
+  efficiencyTier?: string | null; // e.g. "90%+ condensing", "SEER2 tier 4"
+  cabinetWidthIn?: number | null;
+  modelDecodeRule?: string | null;
+  modelDecodeFields?: string[]; // fields filled from the model number
+  userConfirmedFields?: string[]; // fields the tech corrected
+
+  // the model's own 0–1 confidence per field, when it gave one
+  fieldConfidence?: Partial<Record<string, number>>;
+  // value, confidence and source for each label field
+  provenance?: ProvenanceMap;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+  received?: unknown;
+}
+
+export interface ExteriorValidation {
+  issues: string[];
+  needsClarification: boolean;
+  weakFields: string[];
+}
+
+// The intake route's `data` payload, also saved as the job's intake.
+export interface IntakeData {
+  jobId?: string | null;
+  address: string;
+  photoCountExterior: number;
+  photoCountEquipment: number;
+  visionProvider?: string;
+  parseErrors?: {
+    exterior: FieldError[];
+    equipment: FieldError[];
+  };
+  climate: ResolvedClimate | null;
+  exteriorAnalysis: ExteriorAnalysis | null;
+  exteriorValidation: ExteriorValidation;
+  equipmentAnalysis: EquipmentAnalysis | null;
+  // Label read before decodes, so corrections can re-run the pipeline.
+  equipmentLabelRead: EquipmentAnalysis | null;
+  warrantyContext: WarrantyContext;
+  warranty: WarrantyInfo;
+  equipmentFlags: EquipmentFlags | null;
+}
+
+/**
+ * `value` is null only when the text isn't a JSON object at all.
+ * Otherwise invalid fields fall back to their "unknown" value and are
+ * listed in `errors`.
+ */
+export interface SchemaResult<T> {
+  value: T | null;
+  errors: FieldError[];
+}
+
+// --------- FIELD HELPERS ----------
+
+type Raw = Record<string, unknown>;
+
+function normalizeToken(value: string): string {
+  return value.trim().toLowerCase().replace(/[_\s]+/g, " ");
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" &&
+      ["", "unknown", "n/a", "na", "null", "none"].includes(
+        value.trim().toLowerCase()
+      ))
+  );
+}
+
+/**
+ * Map a free-text answer onto an enum using exact values first, then
+ * aliases. Blank answers return the fallback without an error.
+ */
+function enumField<T extends string>(
+  raw: Raw,
+  field: string,
+  values: readonly T[],
+  aliases: Record<string, T>,
+  fallback: T,
+  errors: FieldError[]
+): T {
+  const value = raw[field];
+
+  if (typeof value === "string" || typeof value === "boolean") {
+    const token = normalizeToken(String(value));
+    const exact = values.find((v) => normalizeToken(v) === token);
+    if (exact) return exact;
+    // Own keys only: "constructor" is not an alias.
+    if (Object.hasOwn(aliases, token)) return aliases[token];
+  }
+
+  if (isBlank(value)) return fallback;
+
+  errors.push({
+    field,
+    message: `Expected one of: ${values.join(", ")}.`,
+    received: value,
+  });
+  return fallback;
+}
+
+/**
+ * Coerce "80,000 BTU/h", "95%" or "3.5" to a number and range-check it.
+ * `scale` handles answers given as a fraction (0.8 AFUE -> 80).
+ */
+function numberField(
+  raw: Raw,
+  field: string,
+  range: { min: number; max: number; scaleBelow?: number; scale?: number },
+  errors: FieldError[]
+): number | null {
+  const value = raw[field];
+  if (isBlank(value)) return null;
+
+  let n: number | null = null;
+  if (typeof value === "number") {
+    n = value;
+  } else if (typeof value === "string") {
+    const match = value.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+    n = match ? Number(match[0]) : null;
+  }
+
+  if (n === null || !Number.isFinite(n)) {
+    errors.push({ field, message: "Expected a number.", received: value });
+    return null;
+  }
+
+  if (range.scaleBelow !== undefined && range.scale && n > 0 && n < range.scaleBelow) {
+    n = n * range.scale;
+  }
+
+  if (n < range.min || n > range.max) {
+    errors.push({
+      field,
+      message: `Expected a value between ${range.min} and ${range.max}.`,
+      received: value,
+    });
+    return null;
+  }
+
+  return n;
+}
+
+function stringField(raw: Raw, field: string, errors: FieldError[]): string {
+  const value = raw[field];
+  if (isBlank(value)) return "unknown";
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value).trim();
+  }
+  errors.push({ field, message: "Expected text.", received: value });
+  return "unknown";
+}
+
+// --------- JSON EXTRACTION ----------
+
+/**
+ * Strip markdown fences and any prose around the outermost JSON object.
+ */
+export function extractJsonText(text: string): string {
+  const unfenced = text.replace(/```(?:json)?/gi, "").trim();
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start === -1 || end <= start) return unfenced;
+  return unfenced.slice(start, end + 1);
+}
+
+function parseObject(text: string): { raw: Raw | null; error?: FieldError } {
+  try {
+    const parsed: unknown = JSON.parse(extractJsonText(text));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return { raw: parsed as Raw };
+    }
+    return {
+      raw: null,
+      error: { field: "$", message: "Expected a JSON object." },
+    };
+  } catch (err) {
+    return {
+      raw: null,
+      error: {
+        field: "$",
+        message: `Not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      },
+    };
+  }
+}
+
+// --------- EXTERIOR ----------
+
+const SIDES = ["front", "back", "left", "right", "unknown"] as const;
+
+const SIDE_ALIASES: Record<string, ExteriorSide> = {
+  rear: "back",
+  street: "front",
+  "street side": "front",
+  "left side": "left",
+  "right side": "right",
+};
+
+const PHOTO_FACINGS = ["north", "east", "south", "west", "unknown"] as const;
+
+const PHOTO_FACING_ALIASES: Record<string, Facing> = {
+  n: "north",
+  e: "east",
+  s: "south",
+  w: "west",
+};
+
+const STORIES = [1, 1.5, 2, 3];
+
+const SIDING = [
+  "vinyl",
+  "wood",
+  "fiber cement",
+  "stucco",
+  "brick",
+  "mixed",
+  "unknown",
+] as const;
+
+const SIDING_ALIASES: Record<string, (typeof SIDING)[number]> = {
+  "fiber-cement": "fiber cement",
+  fibercement: "fiber cement",
+  hardie: "fiber cement",
+  hardieplank: "fiber cement",
+  "hardie board": "fiber cement",
+  "cement board": "fiber cement",
+  aluminum: "vinyl",
+  "wood siding": "wood",
+  cedar: "wood",
+  "cedar shake": "wood",
+  shingle: "wood",
+  "t1-11": "wood",
+  stone: "brick",
+  masonry: "brick",
+  "brick veneer": "brick",
+  eifs: "stucco",
+  combination: "mixed",
+  multiple: "mixed",
+};
+
+const WINDOWS = ["few", "average", "many", "unknown"] as const;
+
+const WINDOW_ALIASES: Record<string, (typeof WINDOWS)[number]> = {
+  some: "average",
+  moderate: "average",
+  medium: "average",
+  normal: "average",
+  lots: "many",
+  numerous: "many",
+  "a lot": "many",
+  several: "average",
+  little: "few",
+  "very few": "few",
+  unclear: "unknown",
+};
+
+const GUTTERS = ["yes", "no", "unclear"] as const;
+
+const GUTTER_ALIASES: Record<string, (typeof GUTTERS)[number]> = {
+  true: "yes",
+  false: "no",
+  present: "yes",
+  none: "no",
+  absent: "no",
+  unknown: "unclear",
+};
+
+const CONDITION = ["good", "average", "poor"] as const;
+
+const CONDITION_ALIASES: Record<string, (typeof CONDITION)[number]> = {
+  excellent: "good",
+  great: "good",
+  fair: "average",
+  ok: "average",
+  bad: "poor",
+  worn: "poor",
+};
+
+const STORY_WORDS: Record<string, number> = {
+  one: 1,
+  single: 1,
+  "single story": 1,
+  ranch: 1,
+  "one and a half": 1.5,
+  "1.5 story": 1.5,
+  two: 2,
+  "two story": 2,
+  three: 3,
+  "three story": 3,
+};
+
+function storiesField(raw: Raw, errors: FieldError[]): number | string {
+  const value = raw.stories;
+  if (isBlank(value)) return "unknown";
+
+  let n: number | null = null;
+  if (typeof value === "number") n = value;
+  else if (typeof value === "string") {
+    const token = normalizeToken(value);
+    n = Object.hasOwn(STORY_WORDS, token)
+      ? STORY_WORDS[token]
+      : Number.isNaN(parseFloat(token))
+      ? null
+      : parseFloat(token);
+  }
+
+  if (n !== null && STORIES.includes(n)) return n;
+
+  errors.push({
+    field: "stories",
+    message: `Expected one of: ${STORIES.join(", ")} or "unknown".`,
+    received: value,
+  });
+  return "unknown";
+}
+
+export function parseExteriorAnalysis(
+  text: string
+): SchemaResult<ExteriorAnalysis> {
+  const { raw, error } = parseObject(text);
+  if (!raw) return { value: null, errors: error ? [error] : [] };
+
+  const errors: FieldError[] = [];
+
+  // Some answers come back as a percentage.
+  const confidence = numberField(raw, "confidence", { min: 0, max: 100 }, errors);
+
+  const value: ExteriorAnalysis = {
+    side: enumField(raw, "side", SIDES, SIDE_ALIASES, "unknown", errors),
+    facing: enumField(
+      raw,
+      "facing",
+      PHOTO_FACINGS,
+      PHOTO_FACING_ALIASES,
+      "unknown",
+      errors
+    ),
+    stories: storiesField(raw, errors),
+    siding: enumField(raw, "siding", SIDING, SIDING_ALIASES, "unknown", errors),
+    windows: enumField(raw, "windows", WINDOWS, WINDOW_ALIASES, "unknown", errors),
+    gutters: enumField(raw, "gutters", GUTTERS, GUTTER_ALIASES, "unclear", errors),
+    condition: enumField(
+      raw,
+      "condition",
+      CONDITION,
+      CONDITION_ALIASES,
+      "average",
+      errors
+    ),
+    confidence:
+      confidence === null
+        ? undefined
+        : confidence > 1
+        ? confidence / 100
+        : confidence,
+  };
+
+  return { value, errors };
+}
+
+// --------- EQUIPMENT ----------
+
+const EQUIPMENT_TYPES = [
+  "furnace",
+  "air_handler",
+  "heat_pump",
+  "ac_condenser",
+  "package_unit",
+  "other",
+] as const;
+
+const EQUIPMENT_TYPE_ALIASES: Record<string, (typeof EQUIPMENT_TYPES)[number]> = {
+  "gas furnace": "furnace",
+  "air handler": "air_handler",
+  ahu: "air_handler",
+  "fan coil": "air_handler",
+  "heat pump": "heat_pump",
+  "ac condenser": "ac_condenser",
+  condenser: "ac_condenser",
+  "condensing unit": "ac_condenser",
+  ac: "ac_condenser",
+  "air conditioner": "ac_condenser",
+  "package unit": "package_unit",
+  "packaged unit": "package_unit",
+  package: "package_unit",
+  rtu: "package_unit",
+};
+
+const STAGES = ["single", "two-stage", "variable", "unknown"] as const;
+
+const STAGE_ALIASES: Record<string, (typeof STAGES)[number]> = {
+  "1": "single",
+  "single stage": "single",
+  "single-stage": "single",
+  "one stage": "single",
+  "2": "two-stage",
+  "two stage": "two-stage",
+  "2 stage": "two-stage",
+  "2-stage": "two-stage",
+  modulating: "variable",
+  "variable speed": "variable",
+  "variable capacity": "variable",
+  inverter: "variable",
+};
+
+const VENT_TYPES = ["metal_flue", "pvc", "mixed", "unknown"] as const;
+
+const VENT_ALIASES: Record<string, (typeof VENT_TYPES)[number]> = {
+  metal: "metal_flue",
+  "metal flue": "metal_flue",
+  "b-vent": "metal_flue",
+  "b vent": "metal_flue",
+  "metal b-vent": "metal_flue",
+  plastic: "pvc",
+  cpvc: "pvc",
+  abs: "pvc",
+};
+
+const AFUE_SOURCES = ["label", "inferred", "model_lookup", "unknown"] as const;
+
+const AFUE_SOURCE_ALIASES: Record<string, (typeof AFUE_SOURCES)[number]> = {
+  "model lookup": "model_lookup",
+  rating: "label",
+  nameplate: "label",
+  estimated: "inferred",
+};
+
+const REFRIGERANTS = ["R-22", "R-410A", "R-32", "R-454B", "R-407C"];
+
+function refrigerantField(raw: Raw, errors: FieldError[]): string | null {
+  const value = raw.refrigerant;
+  if (isBlank(value)) return null;
+  if (typeof value === "string") {
+    const token = value.toUpperCase().replace(/[\s-]/g, "");
+    if (token === "PURON") return "R-410A";
+    if (token === "FREON") return "R-22";
+    const match = REFRIGERANTS.find(
+      (r) => r.replace("-", "") === token || r.replace("R-", "") === token
+    );
+    if (match) return match;
+  }
+  errors.push({
+    field: "refrigerant",
+    message: `Expected one of: ${REFRIGERANTS.join(", ")}.`,
+    received: value,
+  });
+  return null;
+}
+
+function fieldConfidenceMap(
+  raw: Raw,
+  errors: FieldError[]
+): Partial<Record<string, number>> | undefined {
+  const value = raw.fieldConfidence;
+  if (isBlank(value)) return undefined;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    errors.push({
+      field: "fieldConfidence",
+      message: "Expected an object of field -> 0..1.",
+      received: value,
+    });
+    return undefined;
+  }
+
+  const map: Partial<Record<string, number>> = {};
+  const entries = value as Raw;
+  for (const key of Object.keys(entries)) {
+    const n = numberField(entries, key, { min: 0, max: 1 }, []);
+    if (n !== null) map[key] = n;
+  }
+  return map;
+}
+
+export function parseEquipmentAnalysis(
+  text: string
+): SchemaResult<EquipmentAnalysis> {
+  const { raw, error } = parseObject(text);
+  if (!raw) return { value: null, errors: error ? [error] : [] };
+
+  const errors: FieldError[] = [];
+  const maxYear = new Date().getFullYear() + 1;
+
+  const value: EquipmentAnalysis = {
+    equipmentType: enumField(
+      raw,
+      "equipmentType",
+      EQUIPMENT_TYPES,
+      EQUIPMENT_TYPE_ALIASES,
+      "other",
+      errors
+    ),
+    manufacturer: stringField(raw, "manufacturer", errors),
+    modelNumber: stringField(raw, "modelNumber", errors),
+    serialNumber: stringField(raw, "serialNumber", errors),
+    nominalTonnage: numberField(raw, "nominalTonnage", { min: 1, max: 25 }, errors),
+    inputBTUH: numberField(raw, "inputBTUH", { min: 10000, max: 300000 }, errors),
+    outputBTUH: numberField(raw, "outputBTUH", { min: 8000, max: 300000 }, errors),
+    seer: numberField(raw, "seer", { min: 8, max: 35 }, errors),
+    seer2: numberField(raw, "seer2", { min: 8, max: 35 }, errors),
+    hspf: numberField(raw, "hspf", { min: 5, max: 15 }, errors),
+    hspf2: numberField(raw, "hspf2", { min: 5, max: 15 }, errors),
+    afue: numberField(
+      raw,
+      "afue",
+      { min: 50, max: 99, scaleBelow: 1, scale: 100 },
+      errors
+    ),
+    refrigerant: refrigerantField(raw, errors),
+    heatStripKW: numberField(raw, "heatStripKW", { min: 1, max: 30 }, errors),
+    manufactureYear: numberField(
+      raw,
+      "manufactureYear",
+      { min: 1950, max: maxYear },
+      errors
+    ),
+    stages: enumField(raw, "stages", STAGES, STAGE_ALIASES, "unknown", errors),
+    ventType: enumField(raw, "ventType", VENT_TYPES, VENT_ALIASES, "unknown", errors),
+    afueSource: enumField(
+      raw,
+      "afueSource",
+      AFUE_SOURCES,
+      AFUE_SOURCE_ALIASES,
+      "unknown",
+      errors
+    ),
+    fieldConfidence: fieldConfidenceMap(raw, errors),
+  };
+
+  return { value, errors };
+}
+
+/**
+ * Instructions for a second attempt after the first answer failed
+ * validation; providers append this to their original prompt.
+ */
+export function buildRepairPrompt(
+  previousOutput: string,
+  errors: FieldError[]
+): string {
+  const problems = errors
+    .map(
+      (e) =>
+        `- ${e.field}: ${e.message}${
+          e.received !== undefined ? ` (got ${JSON.stringify(e.received)})` : ""
+        }`
+    )
+    .join("\n");
+
+  return `
+Your previous answer could not be used:
+
+${previousOutput}
+
+Problems:
+${problems}
+
+Answer again with ONLY the corrected JSON object (no markdown, no comments). Use null or "unknown" for anything you cannot read.
+`;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeInternalGains,
+  describeInternalGains,
+  designOccupants,
+} from "@/lib/internalGains";
+
+describe("designOccupants", () => {
+  it("takes the count, else bedrooms + 1, else four", () => {
+    expect(designOccupants(2, 4)).toBe(2);
+    expect(designOccupants(undefined, 3)).toBe(4);
+    expect(designOccupants(0, 0)).toBe(1);
+    expect(designOccupants(undefined, undefined)).toBe(4);
+  });
+});
+
+describe("computeInternalGains", () => {
+  it("adds people, appliances and lighting", () => {
+    const gains = computeInternalGains({ sqft: 2000, bedrooms: 3 });
+    // 4 × 230 / 4 × 230; 1,200 / 100; 2,000 × 0.85
+    expect(gains.lines).toEqual([
+      { label: "4 occupants", sensibleBTUH: 920, latentBTUH: 920 },
+      { label: "Appliances", sensibleBTUH: 1200, latentBTUH: 100 },
+      { label: "Lighting", sensibleBTUH: 1700, latentBTUH: 0 },
+    ]);
+    expect(gains.sensibleBTUH).toBe(3820);
+    expect(gains.occupantLatentBTUH).toBe(920);
+    expect(gains.otherLatentBTUH).toBe(100);
+    expect(gains.latentBTUH).toBe(1020);
+  });
+
+  it("scales special loads by count and keeps them out of occupant latent", () => {
+    const gains = computeInternalGains({
+      sqft: 2000,
+      occupants: 4,
+      specialLoads: { home_office: 2, aquarium: 1, grow_room: 0 },
+    });
+    expect(gains.lines.slice(3)).toEqual([
+      { label: "Home office × 2", sensibleBTUH: 1200, latentBTUH: 0 },
+      { label: "Aquarium", sensibleBTUH: 300, latentBTUH: 500 },
+    ]);
+    expect(gains.sensibleBTUH).toBe(5320);
+    expect(gains.occupantLatentBTUH).toBe(920);
+    expect(gains.otherLatentBTUH).toBe(600);
+  });
+
+  it("rejects a house without floor area", () => {
+    expect(() => computeInternalGains({ sqft: 0 })).toThrow("sqft must be > 0");
+  });
+});
+
+describe("describeInternalGains", () => {
+  it("lists each line with the totals", () => {
+    expect(
+      describeInternalGains(computeInternalGains({ sqft: 1000, occupants: 2 }))
+    ).toBe(
+      "Internal gains (sensible / latent BTU/h): 2 occupants 460 / 460, Appliances 1200 / 100, Lighting 850 / 0; total 2510 / 560."
+    );
+  });
+});
@@ -0,0 +1,164 @@
+// src/lib/internalGains.ts
+import { LATENT_BTUH_PER_OCCUPANT } from "@/lib/psychrometrics";
+
+// Loads beyond a typical household that are worth asking about.
+export type SpecialLoad =
+  | "home_office"
+  | "commercial_range"
+  | "aquarium"
+  | "grow_room";
+
+export const SPECIAL_LOADS: SpecialLoad[] = [
+  "home_office",
+  "commercial_range",
+  "aquarium",
+  "grow_room",
+];
+
+export const SPECIAL_LOAD_LABELS: Record<SpecialLoad, string> = {
+  home_office: "Home office",
+  commercial_range: "Commercial-style range",
+  aquarium: "Aquarium",
+  grow_room: "Grow room",
+};
+
+export interface InternalGainsInput {
+  sqft: number;
+  // Wins over bedrooms.
+  occupants?: number;
+  // Occupants default to bedrooms + 1.
+  bedrooms?: number;
+  // Count of each special load (e.g. two home offices).
+  specialLoads?: Partial<Record<SpecialLoad, number>>;
+}
+
+export interface InternalGainLine {
+  label: string;
+  sensibleBTUH: number;
+  latentBTUH: number;
+}
+
+export interface InternalGainsResult {
+  occupants: number;
+  lines: InternalGainLine[];
+  sensibleBTUH: number;
+  // Occupant latent is also carried in LatentLoadBreakdown.occupantBTUH;
+  // the rest (cooking, evaporation, plants) in .internalBTUH.
+  occupantLatentBTUH: number;
+  otherLatentBTUH: number;
+  latentBTUH: number;
+}
+
+// Manual J: 230 BTU/h sensible per person.
+const SENSIBLE_BTUH_PER_OCCUPANT = 230;
+
+const DEFAULT_OCCUPANTS = 4;
+
+// Kitchen, laundry and plug loads coincident with the cooling peak.
+const APPLIANCE_SENSIBLE_BTUH = 1200;
+const APPLIANCE_LATENT_BTUH = 100;
+
+// ~0.25 W/sq ft of mostly-LED lighting on at the design hour.
+const LIGHTING_BTUH_PER_SQFT = 0.85;
+
+const SPECIAL_LOAD_GAINS: Record<
+  SpecialLoad,
+  { sensibleBTUH: number; latentBTUH: number }
+> = {
+  // Computers, monitors, printer
+  home_office: { sensibleBTUH: 600, latentBTUH: 0 },
+  // High-output burners, partly captured by the hood
+  commercial_range: { sensibleBTUH: 2000, latentBTUH: 400 },
+  // Heater, pump, lights + evaporation from a large tank
+  aquarium: { sensibleBTUH: 300, latentBTUH: 500 },
+  // ~1 kW of grow lights + plant transpiration
+  grow_room: { sensibleBTUH: 3400, latentBTUH: 1000 },
+};
+
+/**
+ * Occupants the calc should assume: the entered count, else
+ * bedrooms + 1, else a four-person household.
+ */
+export function designOccupants(
+  occupants: number | undefined,
+  bedrooms: number | undefined
+): number {
+  if (occupants !== undefined && occupants > 0) return occupants;
+  if (bedrooms !== undefined && bedrooms >= 0) return bedrooms + 1;
+  return DEFAULT_OCCUPANTS;
+}
+
+/**
+ * Sensible and latent gains from people, appliances, lighting and any
+ * special loads at the cooling design hour.
+ */
+export function computeInternalGains(
+  input: InternalGainsInput
+): InternalGainsResult {
+  const { sqft, specialLoads = {} } = input;
+
+  if (sqft <= 0) {
+    throw new Error("sqft must be > 0");
+  }
+
+  const occupants = designOccupants(input.occupants, input.bedrooms);
+
+  // 1) People, appliances, lighting
+  const lines: InternalGainLine[] = [
+    {
+      label: `${occupants} occupants`,
+      sensibleBTUH: occupants * SENSIBLE_BTUH_PER_OCCUPANT,
+      latentBTUH: occupants * LATENT_BTUH_PER_OCCUPANT,
+    },
+    {
+      label: "Appliances",
+      sensibleBTUH: APPLIANCE_SENSIBLE_BTUH,
+      latentBTUH: APPLIANCE_LATENT_BTUH,
+    },
+    {
+      label: "Lighting",
+      sensibleBTUH: Math.round(sqft * LIGHTING_BTUH_PER_SQFT),
+      latentBTUH: 0,
+    },
+  ];
+
+  // 2) Special loads
+  for (const load of SPECIAL_LOADS) {
+    const count = specialLoads[load] ?? 0;
+    if (count <= 0) continue;
+    const gains = SPECIAL_LOAD_GAINS[load];
+    lines.push({
+      label:
+        count > 1
+          ? `${SPECIAL_LOAD_LABELS[load]} × ${count}`
+          : SPECIAL_LOAD_LABELS[load],
+      sensibleBTUH: gains.sensibleBTUH * count,
+      latentBTUH: gains.latentBTUH * count,
+    });
+  }
+
+  const sensibleBTUH = lines.reduce((sum, l) => sum + l.sensibleBTUH, 0);
+  const latentBTUH = lines.reduce((sum, l) => sum + l.latentBTUH, 0);
+  const occupantLatentBTUH = lines[0].latentBTUH;
+
+  return {
+    occupants,
+    lines,
+    sensibleBTUH,
+    occupantLatentBTUH,
+    otherLatentBTUH: latentBTUH - occupantLatentBTUH,
+    latentBTUH,
+  };
+}
+
+/**
+ * "Internal gains: 4 occupants 920 / 920, ..." for the calc notes.
+ */
+export function describeInternalGains(gains: InternalGainsResult): string {
+  const parts = gains.lines.map(
+    (l) => `${l.label} ${l.sensibleBTUH} / ${l.latentBTUH}`
+  );
+  return `Internal gains (sensible / latent BTU/h): ${parts.join(", ")}; total ${
+    gains.sensibleBTUH
+  } / ${gains.latentBTUH}.`;
+}
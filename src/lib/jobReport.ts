@@ -0,0 +1,805 @@
+// src/lib/jobReport.ts
+import { PDFDocument, PDFImage, StandardFonts, rgb } from "pdf-lib";
+import type { ExteriorAnalysis, EquipmentAnalysis } from "@/lib/intakeSchemas";
+import type { EquipmentFlags } from "@/lib/equipmentPipeline";
+import type { LoadCalcInput, LoadCalcResult } from "@/lib/loadCalc";
+import type { ScenarioComparison } from "@/lib/loadCalcScenarios";
+import { formatDelta } from "@/lib/loadCalcScenarios";
+import type { SystemSizingVerdict } from "@/lib/sizingVerdict";
+import type { EquipmentMatch } from "@/lib/equipmentSelection";
+import {
+  DuctDesignResult,
+  DuctSection,
+  ExistingDuctCheck,
+  describeDuctSize,
+} from "@/lib/ductDesign";
+import { describeDuctSystem, resolveDuctSystem } from "@/lib/ductLoss";
+import { SPECIAL_LOADS, SPECIAL_LOAD_LABELS } from "@/lib/internalGains";
+import { SolarGainResult, formatSolarHour } from "@/lib/solarGain";
+import { describeWindowAreas } from "@/lib/envelope";
+import {
+  describeAirLeakageInput,
+  describeVentilation,
+  resolveVentilation,
+} from "@/lib/airLeakage";
+import { WarrantyInfo, describeComponentWarranty } from "@/lib/warranty";
+import { formatWithSource } from "@/lib/provenance";
+import { Branding, BrandLogo, accentRGB } from "@/lib/branding";
+import {
+  ImageItem,
+  LETTER_SIZE,
+  LayoutFonts,
+  ReportLayout,
+  createReportLayout,
+  toPdfText,
+} from "@/lib/pdfLayout";
+
+/**
+ * The page's JobSummary as posted to /api/pdf.
+ */
+export interface JobReportData {
+  jobId?: string | null;
+  address: string;
+  visionProvider?: string | null;
+  exterior: ExteriorAnalysis | null;
+  equipment: EquipmentAnalysis | null;
+  warranty: WarrantyInfo | null;
+  equipmentFlags: EquipmentFlags | null;
+  loadCalc: LoadCalcResult | null;
+  activeScenario?: string | null;
+  loadCalcScenarios?: ScenarioComparison[];
+  sizingVerdict: SystemSizingVerdict | null;
+  equipmentOptions?: EquipmentMatch[];
+  ductDesign?: DuctDesignResult | null;
+}
+
+export interface ReportPhoto {
+  kind: "exterior" | "equipment";
+  fileName: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+// Equipment options listed in the report.
+const MAX_REPORT_OPTIONS = 3;
+
+const LOGO_MAX_WIDTH = 120;
+const LOGO_MAX_HEIGHT = 54;
+
+export function btuh(value: number): string {
+  return `${Math.round(value).toLocaleString("en-US")} BTUH`;
+}
+
+function percentOf(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : "-";
+}
+
+function present(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== "" && value !== "unknown";
+}
+
+async function embedPhoto(
+  pdf: PDFDocument,
+  photo: { mimeType: string; bytes: Uint8Array }
+): Promise<PDFImage | null> {
+  try {
+    if (photo.mimeType === "image/png") return await pdf.embedPng(photo.bytes);
+    if (photo.mimeType === "image/jpeg" || photo.mimeType === "image/jpg") {
+      return await pdf.embedJpg(photo.bytes);
+    }
+  } catch (err) {
+    console.error("Report photo embed error:", err);
+  }
+  return null;
+}
+
+// ---------- BRANDED DOCUMENT ----------
+
+/**
+ * Logo, company name, tagline and address on the left; license and
+ * contact lines right-aligned.
+ */
+async function writeBrandHeader(
+  pdf: PDFDocument,
+  layout: ReportLayout,
+  branding: Branding,
+  logo: BrandLogo | null,
+  fonts: LayoutFonts
+) {
+  let logoImage: PDFImage | null = null;
+  if (logo) {
+    logoImage = await embedPhoto(pdf, {
+      mimeType: logo.format === "png" ? "image/png" : "image/jpeg",
+      bytes: logo.bytes,
+    });
+  }
+
+  const contact = [
+    branding.licenseNumber,
+    branding.phone,
+    branding.email,
+    branding.website,
+  ].filter((line): line is string => Boolean(line));
+
+  layout.block(LOGO_MAX_HEIGHT + 8, (page, top) => {
+    let textX = layout.margin;
+    if (logoImage) {
+      const scale = Math.min(
+        LOGO_MAX_WIDTH / logoImage.width,
+        LOGO_MAX_HEIGHT / logoImage.height,
+        1
+      );
+      const width = logoImage.width * scale;
+      const height = logoImage.height * scale;
+      page.drawImage(logoImage, {
+        x: layout.margin,
+        y: top - height,
+        width,
+        height,
+      });
+      textX += width + 12;
+    }
+
+    page.drawText(toPdfText(branding.companyName), {
+      x: textX,
+      y: top - 18,
+      size: 16,
+      font: fonts.bold,
+      color: layout.accent,
+    });
+    [branding.tagline, branding.address]
+      .filter((line): line is string => Boolean(line))
+      .forEach((line, i) => {
+        page.drawText(toPdfText(line), {
+          x: textX,
+          y: top - 32 - i * 11,
+          size: 8.5,
+          font: fonts.regular,
+          color: rgb(0.42, 0.45, 0.5),
+        });
+      });
+
+    const right = layout.margin + layout.contentWidth;
+    contact.forEach((line, i) => {
+      const text = toPdfText(line);
+      page.drawText(text, {
+        x: right - fonts.regular.widthOfTextAtSize(text, 8.5),
+        y: top - 12 - i * 11,
+        size: 8.5,
+        font: fonts.regular,
+        color: rgb(0.42, 0.45, 0.5),
+      });
+    });
+  });
+}
+
+/**
+ * A letter-size document with the brand's fonts, accent and header
+ * already written.
+ */
+export async function createBrandedDocument(
+  title: string,
+  branding: Branding,
+  logo: BrandLogo | null
+): Promise<{ pdf: PDFDocument; layout: ReportLayout }> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+  pdf.setCreator(branding.companyName);
+
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+  const layout = createReportLayout(pdf, fonts, {
+    pageSize: LETTER_SIZE,
+    accent: rgb(...accentRGB(branding)),
+  });
+
+  await writeBrandHeader(pdf, layout, branding, logo, fonts);
+  return { pdf, layout };
+}
+
+/**
+ * "Company · License · Phone · Page X of Y"
+ */
+export function brandFooter(branding: Branding) {
+  return (pageNumber: number, pageCount: number) =>
+    [
+      branding.companyName,
+      branding.licenseNumber,
+      branding.phone,
+      `Page ${pageNumber} of ${pageCount}`,
+    ]
+      .filter(Boolean)
+      .join("  ·  ");
+}
+
+export function formatReportDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+// ---------- SECTIONS ----------
+
+function writeExterior(layout: ReportLayout, exterior: ExteriorAnalysis | null) {
+  layout.section("Exterior Analysis");
+  if (!exterior) {
+    layout.note("No exterior data available.");
+    return;
+  }
+
+  const sources = exterior.provenance ?? {};
+  layout.keyValue("Stories", formatWithSource(exterior.stories, sources.stories));
+  layout.keyValue("Siding", formatWithSource(exterior.siding, sources.siding));
+  layout.keyValue("Windows", formatWithSource(exterior.windows, sources.windows));
+  if (exterior.windowsByFacing && Object.keys(exterior.windowsByFacing).length > 0) {
+    layout.keyValue(
+      "Windows by side",
+      Object.entries(exterior.windowsByFacing)
+        .map(([facing, amount]) => `${facing} ${amount}`)
+        .join(", ")
+    );
+  }
+  if (present(exterior.orientation)) {
+    layout.keyValue("Most glass faces", exterior.orientation);
+  }
+  layout.keyValue("Gutters", formatWithSource(exterior.gutters, sources.gutters));
+  layout.keyValue("Condition", formatWithSource(exterior.condition, sources.condition));
+  layout.keyValue(
+    "AI Confidence",
+    exterior.confidence !== undefined
+      ? `${Math.round(exterior.confidence * 100)}%`
+      : "unknown"
+  );
+}
+
+function writeEquipment(layout: ReportLayout, equipment: EquipmentAnalysis | null) {
+  layout.section("Equipment Summary");
+  if (!equipment) {
+    layout.note("No equipment data available.");
+    return;
+  }
+
+  const sources = equipment.provenance ?? {};
+  const line = (label: string, field: keyof EquipmentAnalysis, always = false) => {
+    if (always || present(equipment[field])) {
+      layout.keyValue(label, formatWithSource(equipment[field], sources[field]));
+    }
+  };
+
+  line("Type", "equipmentType", true);
+  line("Manufacturer", "manufacturer", true);
+  line("Model Number", "modelNumber", true);
+  line("Serial Number", "serialNumber", true);
+  line("Tonnage", "nominalTonnage");
+  line("Input BTUH", "inputBTUH");
+  line("Output BTUH", "outputBTUH");
+  line("AFUE", "afue");
+  line("SEER", "seer");
+  line("SEER2", "seer2");
+  line("HSPF", "hspf");
+  line("HSPF2", "hspf2");
+  line("Efficiency Tier", "efficiencyTier");
+  line("Stages", "stages");
+  line("Refrigerant", "refrigerant");
+  line("Heat Strips (kW)", "heatStripKW");
+  line("Cabinet Width (in)", "cabinetWidthIn");
+  line("Vent Type", "ventType");
+}
+
+function writeWarranty(
+  layout: ReportLayout,
+  warranty: WarrantyInfo | null,
+  equipment: EquipmentAnalysis | null
+) {
+  layout.section("Warranty Information");
+  if (!warranty) {
+    layout.note("No warranty estimate available.");
+    return;
+  }
+
+  const status = warranty.likelyWarrantyStatus;
+  layout.keyValue(
+    "Manufacture Year",
+    formatWithSource(warranty.manufactureYear, equipment?.provenance?.manufactureYear)
+  );
+  layout.keyValue("Approx Age", warranty.approxAgeYears ?? "unknown");
+  layout.keyValue("Warranty Status", status.overall.replace(/_/g, " "));
+  if (status.startDate) {
+    layout.keyValue("Coverage Start", `${status.startDate} (${status.startBasis})`);
+  }
+  layout.bullets(status.components.map(describeComponentWarranty));
+  status.notes.forEach((note) => layout.note(note));
+}
+
+function writeFlags(layout: ReportLayout, flags: EquipmentFlags | null) {
+  layout.section("Equipment Flags");
+  if (flags && flags.notes.length > 0) {
+    layout.bullets(flags.notes);
+  } else {
+    layout.note("No flags detected.");
+  }
+}
+
+function writeLoadInputs(layout: ReportLayout, input: LoadCalcInput) {
+  const rows: [string, string][] = [
+    ["Conditioned area", `${input.sqft.toLocaleString("en-US")} sq ft`],
+    ["Stories", String(input.stories)],
+    ["Windows", input.windows],
+    ["Orientation", input.orientation],
+    ["Insulation", input.insulation],
+    ["Siding", input.siding],
+    [
+      "Ducts",
+      describeDuctSystem(resolveDuctSystem(input.ducts, input.ductsInAtticOrCrawl)),
+    ],
+    ["Cooling design ΔT", `${input.designDeltaT}°F`],
+    ["Indoor RH", `${input.indoorRH}%`],
+  ];
+  if (input.windowsByFacing && Object.keys(input.windowsByFacing).length > 0) {
+    rows.push([
+      "Windows by side",
+      Object.entries(input.windowsByFacing)
+        .map(([facing, amount]) => `${facing} ${amount}`)
+        .join(", "),
+    ]);
+  }
+  const windowAreas = describeWindowAreas(input.windowAreas);
+  if (windowAreas) rows.push(["Measured glass", windowAreas]);
+  if (input.grainsDifference !== undefined) {
+    rows.push(["Grains difference", `${Math.round(input.grainsDifference)} gr/lb`]);
+  }
+  if (input.elevationFt) rows.push(["Elevation", `${input.elevationFt} ft`]);
+  if (input.occupants) rows.push(["Occupants", String(input.occupants)]);
+  if (input.bedrooms !== undefined) rows.push(["Bedrooms", String(input.bedrooms)]);
+  const specialLoads = SPECIAL_LOADS.filter((load) => (input.specialLoads?.[load] ?? 0) > 0);
+  if (specialLoads.length > 0) {
+    rows.push([
+      "Special loads",
+      specialLoads
+        .map((load) => `${SPECIAL_LOAD_LABELS[load]} × ${input.specialLoads?.[load]}`)
+        .join(", "),
+    ]);
+  }
+  rows.push([
+    "Air leakage",
+    describeAirLeakageInput(input.airLeakage) ?? `estimated (${input.insulation} insulation)`,
+  ]);
+  const ventilation = resolveVentilation(input.ventilation, input.ventilationCFM);
+  rows.push(["Ventilation", ventilation ? describeVentilation(ventilation) : "none"]);
+  if (input.heating) {
+    rows.push(["Winter design temp", `${input.heating.outdoorDesignTempF}°F`]);
+    rows.push(["Heating setpoint", `${input.heating.indoorSetpointF}°F`]);
+  }
+  if (input.envelope && input.envelope.length > 0) {
+    rows.push(["Envelope", `${input.envelope.length} detailed components`]);
+  }
+
+  layout.subheading("Inputs");
+  layout.table(
+    [
+      { header: "Input", width: 0.45 },
+      { header: "Value", width: 0.55 },
+    ],
+    rows
+  );
+}
+
+function writeSolarGain(layout: ReportLayout, solar: SolarGainResult) {
+  layout.subheading("Solar gain by hour");
+  layout.keyValue(
+    "Whole-house peak",
+    `${formatSolarHour(solar.peakHour)}, ${btuh(solar.blockBTUH)} block load`
+  );
+  for (const e of solar.exposures) {
+    layout.keyValue(
+      `${e.exposure} glass (${e.areaSqFt} sq ft)`,
+      `peaks at ${formatSolarHour(e.peakHour)}, ${btuh(e.peakBTUH)}`
+    );
+  }
+
+  const exposures = solar.exposures.map((e) => e.exposure);
+  const share = 0.8 / (exposures.length + 1);
+  layout.table(
+    [
+      { header: "Hour", width: 0.2 },
+      ...exposures.map((e) => ({ header: e, width: share, align: "right" as const })),
+      { header: "Total", width: share, align: "right" },
+    ],
+    solar.hours.map((h) => [
+      h.hour === solar.peakHour
+        ? `${formatSolarHour(h.hour)} (peak)`
+        : formatSolarHour(h.hour),
+      ...exposures.map((e) => (h.byExposure[e] ?? 0).toLocaleString("en-US")),
+      h.totalBTUH.toLocaleString("en-US"),
+    ])
+  );
+}
+
+function writeLoadBreakdown(layout: ReportLayout, loadCalc: LoadCalcResult) {
+  layout.subheading("Cooling load by factor");
+
+  const rows: string[][] = [];
+  const s = loadCalc.sensible;
+  if (s) {
+    const factors: [string, number][] = [
+      ["Conduction (walls, roof, floor, glass)", s.conductionBTUH],
+      ["Solar gain through glass (block)", s.solarBTUH],
+      ["Infiltration", s.infiltrationBTUH],
+      ["Mechanical ventilation", s.ventilationBTUH],
+      ["Internal gains", s.internalBTUH],
+      ["Duct conduction gain", s.ductConductionBTUH],
+      ["Duct leakage gain", s.ductLeakageBTUH],
+    ];
+    for (const [label, value] of factors) {
+      rows.push(["Sensible", label, btuh(value), percentOf(value, loadCalc.totalBTUH)]);
+    }
+  }
+  rows.push([
+    "Sensible",
+    "Sensible subtotal",
+    btuh(loadCalc.sensibleBTUH),
+    percentOf(loadCalc.sensibleBTUH, loadCalc.totalBTUH),
+  ]);
+  const latentFactors: [string, number][] = [
+    ["Infiltration moisture", loadCalc.latent.infiltrationBTUH],
+    ["Ventilation moisture", loadCalc.latent.ventilationBTUH],
+    ["Occupants", loadCalc.latent.occupantBTUH],
+    ["Cooking, aquariums, plants", loadCalc.latent.internalBTUH],
+  ];
+  for (const [label, value] of latentFactors) {
+    rows.push(["Latent", label, btuh(value), percentOf(value, loadCalc.totalBTUH)]);
+  }
+  rows.push([
+    "Latent",
+    "Latent subtotal",
+    btuh(loadCalc.latentBTUH),
+    percentOf(loadCalc.latentBTUH, loadCalc.totalBTUH),
+  ]);
+  rows.push(["Total", "Total cooling load", btuh(loadCalc.totalBTUH), "100%"]);
+
+  layout.table(
+    [
+      { header: "Type", width: 0.14 },
+      { header: "Factor", width: 0.5 },
+      { header: "Load", width: 0.22, align: "right" },
+      { header: "Share", width: 0.14, align: "right" },
+    ],
+    rows
+  );
+  layout.keyValue("Sensible heat ratio", loadCalc.sensibleHeatRatio.toFixed(2));
+  layout.keyValue("Recommended tonnage", `${loadCalc.recommendedTonnage.toFixed(2)} tons`);
+
+  if (loadCalc.envelope && loadCalc.envelope.lines.length > 0) {
+    layout.subheading("Envelope components");
+    layout.table(
+      [
+        { header: "Component", width: 0.34 },
+        { header: "Area (sq ft)", width: 0.14, align: "right" },
+        { header: "U", width: 0.1, align: "right" },
+        { header: "UA", width: 0.12, align: "right" },
+        { header: "Conduction", width: 0.15, align: "right" },
+        { header: "Solar", width: 0.15, align: "right" },
+      ],
+      loadCalc.envelope.lines.map((line) => [
+        line.label,
+        Math.round(line.areaSqFt).toLocaleString("en-US"),
+        line.uFactor.toFixed(3),
+        line.ua.toFixed(1),
+        Math.round(line.conductionBTUH).toLocaleString("en-US"),
+        Math.round(line.solarBTUH).toLocaleString("en-US"),
+      ])
+    );
+  }
+
+  if (loadCalc.envelope?.solar && loadCalc.envelope.solar.blockBTUH > 0) {
+    writeSolarGain(layout, loadCalc.envelope.solar);
+  }
+
+  if (loadCalc.internalGains) {
+    layout.subheading("Internal gains");
+    layout.table(
+      [
+        { header: "Source", width: 0.5 },
+        { header: "Sensible", width: 0.25, align: "right" },
+        { header: "Latent", width: 0.25, align: "right" },
+      ],
+      [
+        ...loadCalc.internalGains.lines.map((line) => [
+          line.label,
+          btuh(line.sensibleBTUH),
+          btuh(line.latentBTUH),
+        ]),
+        [
+          "Total",
+          btuh(loadCalc.internalGains.sensibleBTUH),
+          btuh(loadCalc.internalGains.latentBTUH),
+        ],
+      ]
+    );
+  }
+
+  if (loadCalc.heating) {
+    const h = loadCalc.heating;
+    layout.subheading(`Heating load (design ΔT ${h.designDeltaT}°F)`);
+    layout.table(
+      [
+        { header: "Factor", width: 0.64 },
+        { header: "Load", width: 0.22, align: "right" },
+        { header: "Share", width: 0.14, align: "right" },
+      ],
+      [
+        ["Conduction", btuh(h.conductionBTUH), percentOf(h.conductionBTUH, h.requiredBTUH)],
+        ["Infiltration", btuh(h.infiltrationBTUH), percentOf(h.infiltrationBTUH, h.requiredBTUH)],
+        [
+          "Mechanical ventilation",
+          btuh(h.ventilationBTUH),
+          percentOf(h.ventilationBTUH, h.requiredBTUH),
+        ],
+        [
+          "Duct conduction loss",
+          btuh(h.ductConductionBTUH),
+          percentOf(h.ductConductionBTUH, h.requiredBTUH),
+        ],
+        [
+          "Duct leakage loss",
+          btuh(h.ductLeakageBTUH),
+          percentOf(h.ductLeakageBTUH, h.requiredBTUH),
+        ],
+        ["Required heating", btuh(h.requiredBTUH), "100%"],
+      ]
+    );
+    const humidificationBTUH = h.infiltrationLatentBTUH + h.ventilationLatentBTUH;
+    if (humidificationBTUH > 0) {
+      layout.keyValue(
+        "Humidification (latent)",
+        `${btuh(humidificationBTUH)} (infiltration ${btuh(
+          h.infiltrationLatentBTUH
+        )}, ventilation ${btuh(h.ventilationLatentBTUH)})`
+      );
+    }
+  }
+
+  const notes = [...loadCalc.notes, ...(loadCalc.heating?.notes ?? [])];
+  if (notes.length > 0) {
+    layout.subheading("Notes");
+    layout.bullets(notes);
+  }
+}
+
+function writeScenarios(layout: ReportLayout, comparisons: ScenarioComparison[]) {
+  if (comparisons.length < 2) return;
+
+  layout.subheading(`Scenarios (vs. "${comparisons[0].scenario.name}")`);
+  layout.table(
+    [
+      { header: "Scenario", width: 0.3 },
+      { header: "Total", width: 0.14, align: "right" },
+      { header: "Change", width: 0.15, align: "right" },
+      { header: "Tons", width: 0.09, align: "right" },
+      { header: "Change", width: 0.11, align: "right" },
+      { header: "Heating change", width: 0.21, align: "right" },
+    ],
+    comparisons.map(({ scenario, delta, changes }) => [
+      changes.length > 0 ? `${scenario.name} (${changes.join("; ")})` : scenario.name,
+      Math.round(scenario.result.totalBTUH).toLocaleString("en-US"),
+      formatDelta(delta.totalBTUH, "BTUH"),
+      scenario.result.recommendedTonnage.toFixed(2),
+      formatDelta(delta.recommendedTonnage, "ton"),
+      formatDelta(delta.heatingBTUH, "BTUH"),
+    ])
+  );
+}
+
+function writeSizing(layout: ReportLayout, verdict: SystemSizingVerdict | null) {
+  layout.section("Existing Equipment Sizing");
+  if (!verdict) {
+    layout.note("Load calc not completed.");
+    return;
+  }
+
+  layout.keyValue("Verdict", verdict.overall.replace("_", "-"));
+  const lines = [
+    ...(verdict.cooling ? [verdict.cooling.note] : []),
+    ...verdict.heating.map((check) => check.note),
+  ];
+  if (lines.length > 0) {
+    layout.bullets(lines);
+  } else {
+    layout.note(verdict.summary);
+  }
+}
+
+function writeEquipmentOptions(layout: ReportLayout, options: EquipmentMatch[]) {
+  if (options.length === 0) return;
+
+  layout.section("Replacement Options");
+  layout.table(
+    [
+      { header: "System", width: 0.4 },
+      { header: "Capacity", width: 0.2, align: "right" },
+      { header: "SEER2", width: 0.1, align: "right" },
+      { header: "AFUE / HSPF2", width: 0.14, align: "right" },
+      { header: "Manual S", width: 0.16 },
+    ],
+    options.slice(0, MAX_REPORT_OPTIONS).map((match) => [
+      `${match.system.brand} ${match.system.nominalTons} ton – ${match.system.condenserModel}`,
+      `${btuh(match.totalCapacityBTUH)} (${match.totalPercent}%)`,
+      String(match.system.seer2),
+      match.system.afue
+        ? `${match.system.afue}%`
+        : match.system.hspf2
+        ? String(match.system.hspf2)
+        : "-",
+      match.withinManualS ? "within limits" : "outside limits",
+    ])
+  );
+}
+
+function writeDuctDesign(layout: ReportLayout, design: DuctDesignResult | null) {
+  if (!design) return;
+
+  const size = (section: DuctSection) =>
+    `${section.diameterIn}" / ${section.rectangular.widthIn}x${section.rectangular.heightIn}"`;
+  const existing = (check?: ExistingDuctCheck) =>
+    check
+      ? `${describeDuctSize(check.size)}, ~${check.capacityCFM} CFM${
+          check.undersized ? " (undersized)" : ""
+        }`
+      : "-";
+
+  layout.section("Duct Design");
+  layout.keyValue(
+    "Friction rate",
+    `${design.frictionRate} in. w.c./100 ft (${design.availableStaticPressureInWC} in. w.c. available, ${design.totalEffectiveLengthFt} ft TEL)`
+  );
+  layout.keyValue("Supply airflow", `${design.totalSupplyCFM} CFM`);
+  layout.spacer(4);
+
+  layout.table(
+    [
+      { header: "Section", width: 0.26 },
+      { header: "CFM", width: 0.1, align: "right" },
+      { header: "Round / rect", width: 0.2, align: "right" },
+      { header: "FPM", width: 0.1, align: "right" },
+      { header: "Existing", width: 0.34 },
+    ],
+    [
+      ...design.supplyRuns.map((run) => [
+        run.name,
+        String(run.cfm),
+        size(run),
+        String(run.velocityFPM),
+        existing(run.existing),
+      ]),
+      [
+        "Supply trunk",
+        String(design.supplyTrunk.cfm),
+        size(design.supplyTrunk),
+        String(design.supplyTrunk.velocityFPM),
+        existing(design.supplyTrunk.existing),
+      ],
+      [
+        `Return drop (x${design.returnAir.grilles})`,
+        String(design.returnAir.cfmPerGrille),
+        size(design.returnAir.drop),
+        String(design.returnAir.drop.velocityFPM),
+        `${design.returnAir.grilleFreeAreaSqIn} sq in grille free area`,
+      ],
+      [
+        "Return trunk",
+        String(design.returnAir.trunk.cfm),
+        size(design.returnAir.trunk),
+        String(design.returnAir.trunk.velocityFPM),
+        existing(design.returnAir.existingTrunk),
+      ],
+    ]
+  );
+
+  if (design.undersized.length > 0) {
+    layout.subheading("Undersized existing ductwork");
+    layout.bullets(design.undersized);
+  }
+  layout.bullets(design.notes, { color: rgb(0.42, 0.45, 0.5) });
+}
+
+async function writePhotos(
+  pdf: PDFDocument,
+  layout: ReportLayout,
+  photos: ReportPhoto[]
+) {
+  if (photos.length === 0) return;
+
+  layout.section("Photos");
+  const skipped: string[] = [];
+
+  for (const kind of ["exterior", "equipment"] as const) {
+    const items: ImageItem[] = [];
+    for (const photo of photos.filter((p) => p.kind === kind)) {
+      const image = await embedPhoto(pdf, photo);
+      if (image) {
+        items.push({ image, caption: photo.fileName });
+      } else {
+        skipped.push(photo.fileName);
+      }
+    }
+    if (items.length > 0) {
+      layout.subheading(kind === "exterior" ? "Exterior" : "Equipment & labels");
+      layout.imageGrid(items);
+    }
+  }
+
+  if (skipped.length > 0) {
+    layout.note(`Not embedded (JPG/PNG only): ${skipped.join(", ")}`);
+  }
+}
+
+// ---------- REPORT ----------
+
+/**
+ * Multi-page, letter-size job report: branding, intake results, load
+ * calc inputs and factor-by-factor breakdown, scenarios and photos.
+ */
+export async function buildJobReport(
+  data: JobReportData,
+  branding: Branding,
+  logo: BrandLogo | null,
+  photos: ReportPhoto[] = [],
+  now: Date = new Date()
+): Promise<Uint8Array> {
+  // 1) Branding + job header
+  const { pdf, layout } = await createBrandedDocument(
+    `${branding.companyName} – Job Summary – ${data.address}`,
+    branding,
+    logo
+  );
+  layout.title("Job Summary Report");
+  layout.keyValue("Address", data.address);
+  layout.keyValue("Prepared", formatReportDate(now));
+  if (data.jobId) layout.keyValue("Job ID", data.jobId);
+  if (data.visionProvider) {
+    layout.keyValue(
+      "Photos read by",
+      data.visionProvider === "mock"
+        ? "mock (offline fixtures, not the uploaded photos)"
+        : data.visionProvider
+    );
+  }
+
+  // 2) Intake results
+  writeExterior(layout, data.exterior);
+  writeEquipment(layout, data.equipment);
+  writeWarranty(layout, data.warranty, data.equipment);
+  writeFlags(layout, data.equipmentFlags);
+
+  // 3) Load calc: inputs, breakdown, scenarios
+  layout.section(
+    `Manual-J Lite Load Calculation${
+      data.activeScenario ? ` – ${data.activeScenario}` : ""
+    }`
+  );
+  const activeInput = data.loadCalcScenarios?.find(
+    (c) => c.scenario.name === data.activeScenario
+  )?.scenario.input;
+  if (data.loadCalc) {
+    if (activeInput) writeLoadInputs(layout, activeInput);
+    writeLoadBreakdown(layout, data.loadCalc);
+    writeScenarios(layout, data.loadCalcScenarios ?? []);
+  } else {
+    layout.note("Load calc not completed.");
+  }
+
+  writeSizing(layout, data.loadCalc ? data.sizingVerdict : null);
+  writeEquipmentOptions(layout, data.equipmentOptions ?? []);
+  writeDuctDesign(layout, data.ductDesign ?? null);
+
+  // 4) Photos
+  await writePhotos(pdf, layout, photos);
+
+  layout.finish(brandFooter(branding));
+
+  return pdf.save();
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { parseJobUpdate } from "@/lib/jobSchemas";
+
+describe("parseJobUpdate", () => {
+  it("accepts the fields the page sends", () => {
+    const body = {
+      activeScenario: "as found",
+      ductDesign: {
+        runs: [{ name: "Kitchen", cfm: 120 }],
+        availableStaticPressureInWC: 0.2,
+      },
+      clarifications: {
+        exterior: null,
+        equipmentOverrides: { modelNumber: "GMVC960803BN", afue: 96 },
+      },
+    };
+    expect(parseJobUpdate(body)).toEqual({ value: body, errors: [] });
+  });
+
+  it("checks saved rooms", () => {
+    const room = {
+      name: "Kitchen",
+      floorAreaSqFt: 180,
+      exteriorWallLengthFt: 14,
+      ceilingExposure: "attic",
+      windows: { west: { areaSqFt: 20, exteriorShading: "partial" } },
+    };
+    expect(parseJobUpdate({ rooms: [room] }).errors).toEqual([]);
+    expect(parseJobUpdate({ rooms: null }).errors).toEqual([]);
+    expect(
+      parseJobUpdate({
+        rooms: [{ ...room, ceilingExposure: "sky", windows: { up: {} } }],
+      }).errors.map((e) => e.field)
+    ).toEqual([
+      "rooms[0].ceilingExposure",
+      "rooms[0].windows.up",
+      "rooms[0].windows.up",
+    ]);
+  });
+
+  it("rejects rooms the room calc can't size", () => {
+    const room = {
+      name: "Kitchen",
+      floorAreaSqFt: 180,
+      exteriorWallLengthFt: 14,
+      ceilingExposure: "attic",
+    };
+    expect(parseJobUpdate({ rooms: [] }).errors.map((e) => e.field)).toEqual([
+      "rooms",
+    ]);
+    expect(
+      parseJobUpdate({
+        rooms: [
+          { ...room, floorAreaSqFt: 0 },
+          { ...room, exteriorWallLengthFt: -1, ceilingHeightFt: 0 },
+        ],
+      }).errors
+    ).toEqual([
+      {
+        field: "rooms[0].floorAreaSqFt",
+        message: "Kitchen: floor area must be > 0",
+      },
+      {
+        field: "rooms[1].exteriorWallLengthFt",
+        message: "Kitchen: exterior wall length must be >= 0",
+      },
+      {
+        field: "rooms[1].ceilingHeightFt",
+        message: "Kitchen: ceiling height must be > 0",
+      },
+    ]);
+  });
+
+  it("rejects duct designs designDucts can't size", () => {
+    const design = {
+      runs: [{ name: "Kitchen", cfm: 120 }],
+      availableStaticPressureInWC: 0.2,
+    };
+    const fields = (ductDesign: unknown) =>
+      parseJobUpdate({ ductDesign }).errors.map((e) => e.field);
+
+    expect(fields({ ...design, runs: [] })).toEqual(["ductDesign.runs"]);
+    expect(fields({ ...design, totalEffectiveLengthFt: null })).toEqual([
+      "ductDesign.totalEffectiveLengthFt",
+    ]);
+    expect(
+      parseJobUpdate({
+        ductDesign: {
+          ...design,
+          availableStaticPressureInWC: 0,
+          totalEffectiveLengthFt: 0,
+          frictionRate: 2,
+          returnGrilles: 1.5,
+        },
+      }).errors
+    ).toEqual([
+      {
+        field: "ductDesign.availableStaticPressureInWC",
+        message: "available static pressure must be > 0",
+      },
+      {
+        field: "ductDesign.totalEffectiveLengthFt",
+        message: "total effective length must be > 0",
+      },
+      {
+        field: "ductDesign.frictionRate",
+        message: "friction rate must be > 0 and <= 1 in. w.c./100 ft",
+      },
+      {
+        field: "ductDesign.returnGrilles",
+        message: "return grilles must be a whole number >= 1",
+      },
+    ]);
+    expect(fields({ ...design, returnGrilles: 0 })).toEqual([
+      "ductDesign.returnGrilles",
+    ]);
+  });
+
+  it("rejects unknown fields", () => {
+    const { value, errors } = parseJobUpdate({ id: "x", pdfs: [] });
+    expect(value).toBeNull();
+    expect(errors.map((e) => e.field)).toEqual(["id", "pdfs"]);
+  });
+
+  it("rejects fields with the wrong type", () => {
+    const { value, errors } = parseJobUpdate({
+      address: 12,
+      intake: "done",
+      loadCalcScenarios: [{ name: "", input: {}, result: null }],
+      activeScenario: 3,
+      ductDesign: { runs: "all" },
+      clarifications: { equipmentOverrides: { afue: "96%", color: "red" } },
+    });
+    expect(value).toBeNull();
+    expect(errors.map((e) => e.field)).toEqual([
+      "address",
+      "intake",
+      "loadCalcScenarios[0].name",
+      "loadCalcScenarios[0].version",
+      "loadCalcScenarios[0].updatedAt",
+      "loadCalcScenarios[0].input",
+      "loadCalcScenarios[0].result",
+      "activeScenario",
+      "ductDesign.availableStaticPressureInWC",
+      "ductDesign.runs",
+      "clarifications.equipmentOverrides.color",
+      "clarifications.equipmentOverrides.afue",
+    ]);
+  });
+
+  it("rejects a body that isn't an object", () => {
+    expect(parseJobUpdate([]).value).toBeNull();
+    expect(parseJobUpdate(null).value).toBeNull();
+  });
+});
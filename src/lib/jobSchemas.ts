@@ -0,0 +1,299 @@
+// src/lib/jobSchemas.ts
+import type { FieldError, SchemaResult } from "@/lib/intakeSchemas";
+import type { JobUpdate } from "@/lib/jobStore";
+import { DuctDesignInput, ductDesignInputErrors } from "@/lib/ductDesign";
+import { FACINGS } from "@/lib/envelope";
+import {
+  CEILING_EXPOSURES,
+  RoomInput,
+  roomInputErrors,
+} from "@/lib/roomLoadCalc";
+
+/**
+ * Checks a PATCH body before it reaches the job store: only the fields
+ * in JobUpdate, each with the right shape. Unlike the intake schemas
+ * nothing is coerced; any error rejects the whole update.
+ */
+
+type Raw = Record<string, unknown>;
+
+const UPDATE_FIELDS = [
+  "address",
+  "intake",
+  "loadCalcScenarios",
+  "activeScenario",
+  "ductDesign",
+  "rooms",
+  "clarifications",
+];
+
+const CLARIFICATION_FIELDS = ["exterior", "equipmentOverrides"];
+
+const OVERRIDE_FIELDS: Record<string, "string" | "number"> = {
+  modelNumber: "string",
+  afue: "number",
+  nominalTonnage: "number",
+  manufactureYear: "number",
+};
+
+function isRecord(value: unknown): value is Raw {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function unknownKeys(
+  raw: Raw,
+  allowed: readonly string[],
+  prefix: string,
+  errors: FieldError[]
+) {
+  for (const key of Object.keys(raw)) {
+    if (!allowed.includes(key)) {
+      errors.push({ field: `${prefix}${key}`, message: "Unknown field." });
+    }
+  }
+}
+
+function checkIntake(value: unknown, errors: FieldError[]) {
+  if (value === null) return;
+  if (!isRecord(value)) {
+    errors.push({ field: "intake", message: "Expected an object or null." });
+    return;
+  }
+  if (typeof value.address !== "string") {
+    errors.push({ field: "intake.address", message: "Expected text." });
+  }
+  for (const field of ["photoCountExterior", "photoCountEquipment"]) {
+    if (!isNumber(value[field])) {
+      errors.push({ field: `intake.${field}`, message: "Expected a number." });
+    }
+  }
+  if (!isRecord(value.exteriorValidation)) {
+    errors.push({
+      field: "intake.exteriorValidation",
+      message: "Expected an object.",
+    });
+  }
+}
+
+function checkScenarios(value: unknown, errors: FieldError[]) {
+  if (!Array.isArray(value)) {
+    errors.push({ field: "loadCalcScenarios", message: "Expected a list." });
+    return;
+  }
+  value.forEach((scenario, i) => {
+    const field = `loadCalcScenarios[${i}]`;
+    if (!isRecord(scenario)) {
+      errors.push({ field, message: "Expected an object." });
+      return;
+    }
+    if (typeof scenario.name !== "string" || scenario.name.trim() === "") {
+      errors.push({ field: `${field}.name`, message: "Expected a name." });
+    }
+    if (!isNumber(scenario.version)) {
+      errors.push({ field: `${field}.version`, message: "Expected a number." });
+    }
+    if (typeof scenario.updatedAt !== "string") {
+      errors.push({ field: `${field}.updatedAt`, message: "Expected text." });
+    }
+    if (!isRecord(scenario.input) || !isNumber(scenario.input.sqft)) {
+      errors.push({
+        field: `${field}.input`,
+        message: "Expected a load calc input.",
+      });
+    }
+    if (!isRecord(scenario.result) || !isNumber(scenario.result.totalBTUH)) {
+      errors.push({
+        field: `${field}.result`,
+        message: "Expected a load calc result.",
+      });
+    }
+  });
+}
+
+function checkDuctDesign(value: unknown, errors: FieldError[]) {
+  if (value === null) return;
+  if (!isRecord(value)) {
+    errors.push({ field: "ductDesign", message: "Expected an object or null." });
+    return;
+  }
+  const shapeErrors = errors.length;
+  if (!isNumber(value.availableStaticPressureInWC)) {
+    errors.push({
+      field: "ductDesign.availableStaticPressureInWC",
+      message: "Expected a number.",
+    });
+  }
+  for (const key of [
+    "totalAirflowCFM",
+    "totalEffectiveLengthFt",
+    "frictionRate",
+    "returnGrilles",
+    "rectangularHeightIn",
+  ]) {
+    if (value[key] !== undefined && !isNumber(value[key])) {
+      errors.push({ field: `ductDesign.${key}`, message: "Expected a number." });
+    }
+  }
+  if (!Array.isArray(value.runs)) {
+    errors.push({ field: "ductDesign.runs", message: "Expected a list." });
+    return;
+  }
+  value.runs.forEach((run, i) => {
+    const field = `ductDesign.runs[${i}]`;
+    if (!isRecord(run) || typeof run.name !== "string") {
+      errors.push({ field, message: "Expected a run with a name." });
+      return;
+    }
+    for (const key of ["cfm", "sensibleBTUH"]) {
+      if (run[key] !== undefined && !isNumber(run[key])) {
+        errors.push({ field: `${field}.${key}`, message: "Expected a number." });
+      }
+    }
+  });
+  // A well-formed design still has to be one designDucts accepts.
+  if (errors.length === shapeErrors) {
+    for (const error of ductDesignInputErrors(value as unknown as DuctDesignInput)) {
+      errors.push({ ...error, field: `ductDesign.${error.field}` });
+    }
+  }
+}
+
+function checkRooms(value: unknown, errors: FieldError[]) {
+  if (value === null) return;
+  if (!Array.isArray(value)) {
+    errors.push({ field: "rooms", message: "Expected a list or null." });
+    return;
+  }
+  const shapeErrors = errors.length;
+  value.forEach((room, i) => {
+    const field = `rooms[${i}]`;
+    if (!isRecord(room) || typeof room.name !== "string") {
+      errors.push({ field, message: "Expected a room with a name." });
+      return;
+    }
+    for (const key of ["floorAreaSqFt", "exteriorWallLengthFt"]) {
+      if (!isNumber(room[key])) {
+        errors.push({ field: `${field}.${key}`, message: "Expected a number." });
+      }
+    }
+    if (room.ceilingHeightFt !== undefined && !isNumber(room.ceilingHeightFt)) {
+      errors.push({
+        field: `${field}.ceilingHeightFt`,
+        message: "Expected a number.",
+      });
+    }
+    if (
+      !CEILING_EXPOSURES.some((exposure) => exposure === room.ceilingExposure)
+    ) {
+      errors.push({
+        field: `${field}.ceilingExposure`,
+        message: `Expected one of: ${CEILING_EXPOSURES.join(", ")}.`,
+        received: room.ceilingExposure,
+      });
+    }
+    if (room.windows === undefined) return;
+    if (!isRecord(room.windows)) {
+      errors.push({ field: `${field}.windows`, message: "Expected an object." });
+      return;
+    }
+    unknownKeys(room.windows, FACINGS, `${field}.windows.`, errors);
+    for (const [facing, group] of Object.entries(room.windows)) {
+      if (!isRecord(group) || !isNumber(group.areaSqFt)) {
+        errors.push({
+          field: `${field}.windows.${facing}`,
+          message: "Expected glass with an area.",
+        });
+      }
+    }
+  });
+  // Well-formed rooms still have to be ones the calc can size.
+  if (errors.length === shapeErrors) {
+    errors.push(...roomInputErrors(value as RoomInput[]));
+  }
+}
+
+function checkClarifications(value: unknown, errors: FieldError[]) {
+  if (!isRecord(value)) {
+    errors.push({ field: "clarifications", message: "Expected an object." });
+    return;
+  }
+  unknownKeys(value, CLARIFICATION_FIELDS, "clarifications.", errors);
+
+  const { exterior, equipmentOverrides } = value;
+  if (exterior !== undefined && exterior !== null && !isRecord(exterior)) {
+    errors.push({
+      field: "clarifications.exterior",
+      message: "Expected an object or null.",
+    });
+  }
+
+  if (equipmentOverrides === undefined) return;
+  if (!isRecord(equipmentOverrides)) {
+    errors.push({
+      field: "clarifications.equipmentOverrides",
+      message: "Expected an object.",
+    });
+    return;
+  }
+  unknownKeys(
+    equipmentOverrides,
+    Object.keys(OVERRIDE_FIELDS),
+    "clarifications.equipmentOverrides.",
+    errors
+  );
+  for (const [key, type] of Object.entries(OVERRIDE_FIELDS)) {
+    const override = equipmentOverrides[key];
+    if (override === undefined) continue;
+    if (type === "number" ? !isNumber(override) : typeof override !== type) {
+      errors.push({
+        field: `clarifications.equipmentOverrides.${key}`,
+        message: type === "number" ? "Expected a number." : "Expected text.",
+        received: override,
+      });
+    }
+  }
+}
+
+export function parseJobUpdate(body: unknown): SchemaResult<JobUpdate> {
+  if (!isRecord(body)) {
+    return {
+      value: null,
+      errors: [{ field: "$", message: "Expected a JSON object." }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  unknownKeys(body, UPDATE_FIELDS, "", errors);
+
+  if (
+    body.address !== undefined &&
+    (typeof body.address !== "string" || body.address.trim() === "")
+  ) {
+    errors.push({ field: "address", message: "Expected an address." });
+  }
+  if (body.intake !== undefined) checkIntake(body.intake, errors);
+  if (body.loadCalcScenarios !== undefined) {
+    checkScenarios(body.loadCalcScenarios, errors);
+  }
+  if (
+    body.activeScenario !== undefined &&
+    body.activeScenario !== null &&
+    typeof body.activeScenario !== "string"
+  ) {
+    errors.push({ field: "activeScenario", message: "Expected text or null." });
+  }
+  if (body.ductDesign !== undefined) checkDuctDesign(body.ductDesign, errors);
+  if (body.rooms !== undefined) checkRooms(body.rooms, errors);
+  if (body.clarifications !== undefined) {
+    checkClarifications(body.clarifications, errors);
+  }
+
+  // Every field above has been checked against its JobUpdate shape.
+  return errors.length > 0
+    ? { value: null, errors }
+    : { value: body as JobUpdate, errors };
+}
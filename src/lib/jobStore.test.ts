@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { addJobPdf, createJob, getJob, updateJob } from "@/lib/jobStore";
+
+describe("job store writes", () => {
+  const env = { ...process.env };
+  let storeDir: string;
+
+  beforeAll(async () => {
+    storeDir = await mkdtemp(path.join(os.tmpdir(), "dr-hvac-jobs-"));
+    process.env.JOB_STORE_DIR = storeDir;
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await rm(storeDir, { recursive: true, force: true });
+  });
+
+  it("keeps every overlapping update and PDF", async () => {
+    const job = await createJob({
+      address: "1200 Pine St, Seattle, WA 98101",
+      photos: [],
+      intake: null,
+    });
+
+    await Promise.all([
+      addJobPdf(job.id, "job-summary", new Uint8Array([1])),
+      updateJob(job.id, { activeScenario: "as found" }),
+      addJobPdf(job.id, "job-summary", new Uint8Array([2])),
+      updateJob(job.id, { address: "1202 Pine St, Seattle, WA 98101" }),
+      addJobPdf(job.id, "proposal", new Uint8Array([3])),
+    ]);
+
+    const saved = await getJob(job.id);
+    expect(saved.activeScenario).toBe("as found");
+    expect(saved.address).toBe("1202 Pine St, Seattle, WA 98101");
+    expect(saved.pdfs.map((p) => p.storedAs)).toEqual([
+      "job-summary-1.pdf",
+      "job-summary-2.pdf",
+      "proposal-3.pdf",
+    ]);
+
+    const files = await readdir(path.join(storeDir, job.id));
+    expect(files.filter((f) => f.endsWith(".tmp"))).toEqual([]);
+  });
+});
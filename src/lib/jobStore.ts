@@ -0,0 +1,304 @@
+// src/lib/jobStore.ts
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { ExteriorAnalysis, IntakeData } from "@/lib/intakeSchemas";
+import type { EquipmentOverrides } from "@/lib/equipmentPipeline";
+import type { LoadCalcScenario } from "@/lib/loadCalcScenarios";
+import type { DuctDesignInput } from "@/lib/ductDesign";
+import type { RoomInput } from "@/lib/roomLoadCalc";
+
+/**
+ * File-backed job store: one directory per job holding job.json plus the
+ * uploaded photos and generated PDFs. Root is JOB_STORE_DIR, or .jobs in
+ * the working directory.
+ */
+
+export type JobPhotoKind = "exterior" | "equipment";
+
+export interface JobPhoto {
+  kind: JobPhotoKind;
+  fileName: string; // as uploaded
+  storedAs: string; // file name inside the job directory
+  mimeType: string;
+}
+
+export interface JobPdf {
+  storedAs: string;
+  label: string;
+  createdAt: string;
+}
+
+export interface JobClarifications {
+  // Exterior values as confirmed by the tech
+  exterior: ExteriorAnalysis | null;
+  equipmentOverrides: EquipmentOverrides;
+}
+
+export interface JobRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  address: string;
+  photos: JobPhoto[];
+  // The intake route's `data` payload, kept current as the tech edits it
+  intake: IntakeData | null;
+  clarifications: JobClarifications;
+  // Named load calc scenarios, each with its full input and result
+  loadCalcScenarios: LoadCalcScenario[];
+  activeScenario: string | null;
+  // Duct design inputs (runs, static pressure, existing sizes)
+  ductDesign: DuctDesignInput | null;
+  // Rooms for the room-by-room calc; older jobs have no entry
+  rooms?: RoomInput[] | null;
+  pdfs: JobPdf[];
+}
+
+export interface JobListItem {
+  id: string;
+  address: string;
+  createdAt: string;
+  updatedAt: string;
+  photoCount: number;
+  scenarioCount: number;
+  pdfCount: number;
+}
+
+export interface NewJobPhoto {
+  kind: JobPhotoKind;
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface NewJob {
+  address: string;
+  photos: NewJobPhoto[];
+  intake: IntakeData | null;
+}
+
+// Fields a PATCH may replace; photos and PDFs are only ever appended.
+export type JobUpdate = Partial<
+  Pick<
+    JobRecord,
+    | "address"
+    | "intake"
+    | "loadCalcScenarios"
+    | "activeScenario"
+    | "ductDesign"
+    | "rooms"
+  >
+> & {
+  clarifications?: Partial<JobClarifications>;
+};
+
+export class JobNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Job ${id} not found.`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+const JOB_FILE = "job.json";
+
+// randomUUID() output; anything else never touches the file system.
+const JOB_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function storeRoot(): string {
+  return process.env.JOB_STORE_DIR || path.join(process.cwd(), ".jobs");
+}
+
+export function isJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+function jobDir(id: string): string {
+  if (!isJobId(id)) throw new JobNotFoundError(id);
+  return path.join(storeRoot(), id);
+}
+
+function safeFileName(fileName: string): string {
+  const cleaned = path.basename(fileName).replace(/[^\w.-]+/g, "_");
+  return cleaned || "file";
+}
+
+// Tail of the pending writes for each job id. Every read-modify-write of
+// a job.json waits for the one before it, so overlapping PATCHes and PDF
+// saves can't drop each other's changes.
+const jobQueues = new Map<string, Promise<void>>();
+
+function withJobLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const run = (jobQueues.get(id) ?? Promise.resolve()).then(task);
+  const tail = run.then(
+    () => undefined,
+    () => undefined
+  );
+  jobQueues.set(id, tail);
+  void tail.then(() => {
+    if (jobQueues.get(id) === tail) jobQueues.delete(id);
+  });
+  return run;
+}
+
+async function writeRecord(record: JobRecord): Promise<void> {
+  const file = path.join(jobDir(record.id), JOB_FILE);
+  // Write then rename so a crash never leaves half a job.json behind.
+  const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(record, null, 2));
+  await fs.rename(tmp, file);
+}
+
+export async function createJob(job: NewJob): Promise<JobRecord> {
+  const id = randomUUID();
+  const dir = jobDir(id);
+  await fs.mkdir(dir, { recursive: true });
+
+  const photos: JobPhoto[] = [];
+  for (const [i, photo] of job.photos.entries()) {
+    const storedAs = `${photo.kind}-${i + 1}-${safeFileName(photo.fileName)}`;
+    await fs.writeFile(path.join(dir, storedAs), photo.data);
+    photos.push({
+      kind: photo.kind,
+      fileName: photo.fileName,
+      storedAs,
+      mimeType: photo.mimeType,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const record: JobRecord = {
+    id,
+    createdAt: now,
+    updatedAt: now,
+    address: job.address,
+    photos,
+    intake: job.intake,
+    clarifications: { exterior: null, equipmentOverrides: {} },
+    loadCalcScenarios: [],
+    activeScenario: null,
+    ductDesign: null,
+    rooms: null,
+    pdfs: [],
+  };
+  await writeRecord(record);
+  return record;
+}
+
+export async function getJob(id: string): Promise<JobRecord> {
+  try {
+    const text = await fs.readFile(path.join(jobDir(id), JOB_FILE), "utf8");
+    return JSON.parse(text) as JobRecord;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new JobNotFoundError(id);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Newest first by last update.
+ */
+export async function listJobs(): Promise<JobListItem[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(storeRoot());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+
+  const jobs: JobListItem[] = [];
+  for (const id of entries.filter(isJobId)) {
+    try {
+      const job = await getJob(id);
+      jobs.push({
+        id: job.id,
+        address: job.address,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        photoCount: job.photos.length,
+        scenarioCount: job.loadCalcScenarios.length,
+        pdfCount: job.pdfs.length,
+      });
+    } catch (err) {
+      // A directory without a readable job.json isn't a job.
+      if (!(err instanceof JobNotFoundError)) throw err;
+    }
+  }
+
+  return jobs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function updateJob(id: string, update: JobUpdate): Promise<JobRecord> {
+  return withJobLock(id, async () => {
+    const job = await getJob(id);
+    const next: JobRecord = {
+      ...job,
+      address: update.address ?? job.address,
+      intake: update.intake !== undefined ? update.intake : job.intake,
+      loadCalcScenarios: update.loadCalcScenarios ?? job.loadCalcScenarios,
+      activeScenario:
+        update.activeScenario !== undefined
+          ? update.activeScenario
+          : job.activeScenario,
+      ductDesign:
+        update.ductDesign !== undefined ? update.ductDesign : job.ductDesign,
+      rooms: update.rooms !== undefined ? update.rooms : job.rooms ?? null,
+      clarifications: { ...job.clarifications, ...update.clarifications },
+      updatedAt: new Date().toISOString(),
+    };
+    await writeRecord(next);
+    return next;
+  });
+}
+
+export function deleteJob(id: string): Promise<void> {
+  return withJobLock(id, async () => {
+    // Throws JobNotFoundError for unknown ids before anything is removed.
+    await getJob(id);
+    await fs.rm(jobDir(id), { recursive: true, force: true });
+  });
+}
+
+export function addJobPdf(
+  id: string,
+  label: string,
+  bytes: Uint8Array
+): Promise<JobRecord> {
+  return withJobLock(id, async () => {
+    const job = await getJob(id);
+    const storedAs = `${safeFileName(label)}-${job.pdfs.length + 1}.pdf`;
+    await fs.writeFile(path.join(jobDir(id), storedAs), bytes);
+
+    const now = new Date().toISOString();
+    const next: JobRecord = {
+      ...job,
+      pdfs: [...job.pdfs, { storedAs, label, createdAt: now }],
+      updatedAt: now,
+    };
+    await writeRecord(next);
+    return next;
+  });
+}
+
+/**
+ * A stored photo or PDF by its `storedAs` name, with its content type.
+ */
+export async function readJobFile(
+  id: string,
+  storedAs: string
+): Promise<{ data: Buffer; mimeType: string }> {
+  const job = await getJob(id);
+  const photo = job.photos.find((p) => p.storedAs === storedAs);
+  const pdf = job.pdfs.find((p) => p.storedAs === storedAs);
+  if (!photo && !pdf) {
+    throw new JobNotFoundError(`${id}/${storedAs}`);
+  }
+
+  return {
+    data: await fs.readFile(path.join(jobDir(id), storedAs)),
+    mimeType: photo ? photo.mimeType : "application/pdf",
+  };
+}
@@ -1,7 +1,61 @@
 // src/lib/loadCalc.ts
+import {
+  HeatingDesignInput,
+  HeatingLoadResult,
+  runHeatingLoadCalc,
+} from "@/lib/heatingLoad";
+import {
+  AirLeakageInput,
+  VentilationSystemInput,
+  describeAirLeakage,
+  describeVentilation,
+  envelopeLeakage,
+  resolveVentilation,
+  ventilationFlows,
+} from "@/lib/airLeakage";
+import {
+  DuctSystemInput,
+  computeDuctLoad,
+  describeDuctSystem,
+  resolveDuctSystem,
+} from "@/lib/ductLoss";
+import {
+  InternalGainsResult,
+  SpecialLoad,
+  computeInternalGains,
+  describeInternalGains,
+} from "@/lib/internalGains";
+import {
+  EnvelopeComponent,
+  EnvelopeLoads,
+  Facing,
+  STORY_HEIGHT_FT,
+  WindowGroupInput,
+  computeCoolingEnvelope,
+  envelopeFromPresets,
+} from "@/lib/envelope";
+import { describeSolarGain } from "@/lib/solarGain";
+import {
+  LatentLoadBreakdown,
+  computeLatentLoad,
+  humidityRatioFromRH,
+  humidityRatioFromWetBulb,
+  toGrains,
+} from "@/lib/psychrometrics";
+import {
+  FALLBACK_DESIGN_CONDITIONS,
+  INDOOR_COOLING_SETPOINT_F,
+} from "@/lib/climate";
 
 export type WindowAmount = "few" | "average" | "many" | "unknown";
 
+export const WINDOW_AMOUNTS: WindowAmount[] = [
+  "few",
+  "average",
+  "many",
+  "unknown",
+];
+
 export type InsulationLevel = "poor" | "average" | "good";
 
 export type Orientation = "north" | "south" | "east" | "west" | "mixed" | "unknown";
@@ -15,6 +69,16 @@ export type SidingType =
   | "mixed"
   | "unknown";
 
+export const SIDING_TYPES: SidingType[] = [
+  "vinyl",
+  "wood",
+  "fiber cement",
+  "stucco",
+  "brick",
+  "mixed",
+  "unknown",
+];
+
 export interface LoadCalcInput {
   sqft: number;
   stories: number;
@@ -24,7 +88,53 @@ export interface LoadCalcInput {
   siding: SidingType;
   designDeltaT: number;
   indoorRH: number;
-  ductsInAtticOrCrawl: boolean;
+  // Duct locations, insulation and leakage; missing = ducts inside the
+  // conditioned space.
+  ducts?: DuctSystemInput;
+  // Older saved jobs: attic ducts with average leakage when `ducts` is
+  // missing.
+  ductsInAtticOrCrawl?: boolean;
+  heating?: HeatingDesignInput;
+  // Outdoor minus indoor grains at cooling design (see climate.ts).
+  // When missing, a humid 95°F DB / 75°F WB outdoor design is assumed.
+  grainsDifference?: number;
+  elevationFt?: number;
+  // Occupants default to bedrooms + 1 (else 4).
+  occupants?: number;
+  bedrooms?: number;
+  // Count of each special internal load (home office, aquarium, ...).
+  specialLoads?: Partial<Record<SpecialLoad, number>>;
+  // Blower door result or construction tightness; missing = estimate
+  // from the insulation level.
+  airLeakage?: AirLeakageInput;
+  // Mechanical ventilation system (exhaust-only, HRV, ERV, ...).
+  ventilation?: VentilationSystemInput;
+  // Older inputs: balanced outdoor air with no recovery, used when
+  // `ventilation` is missing.
+  ventilationCFM?: number;
+  // Window amount per side from the exterior photos (preset mode only).
+  windowsByFacing?: Partial<Record<Facing, WindowAmount>>;
+  // Measured glass per side with SHGC and shading (preset mode only);
+  // wins over windows / orientation / windowsByFacing.
+  windowAreas?: Partial<Record<Facing, WindowGroupInput>>;
+  // Detailed mode: when given, replaces the insulation/windows/siding/
+  // orientation presets.
+  envelope?: EnvelopeComponent[];
+}
+
+/**
+ * Where the sensible cooling load comes from, before rounding.
+ */
+export interface SensibleLoadBreakdown {
+  conductionBTUH: number;
+  solarBTUH: number;
+  infiltrationBTUH: number;
+  ventilationBTUH: number;
+  internalBTUH: number;
+  ductConductionBTUH: number;
+  ductLeakageBTUH: number;
+  // Conduction + leakage
+  ductBTUH: number;
 }
 
 export interface LoadCalcResult {
@@ -32,7 +142,88 @@ export interface LoadCalcResult {
   latentBTUH: number;
   totalBTUH: number;
   recommendedTonnage: number;
+  sensibleHeatRatio: number;
+  sensible?: SensibleLoadBreakdown;
+  latent: LatentLoadBreakdown;
   notes: string[];
+  envelope?: EnvelopeLoads;
+  internalGains?: InternalGainsResult;
+  heating?: HeatingLoadResult;
+}
+
+// Summer air changes per hour (lower than winter: less stack effect).
+const SUMMER_ACH: Record<InsulationLevel, number> = {
+  poor: 0.5,
+  average: 0.3,
+  good: 0.2,
+};
+
+/**
+ * Summer infiltration CFM for a conditioned volume.
+ */
+export function coolingInfiltrationCFM(
+  volumeCuFt: number,
+  insulation: InsulationLevel
+): number {
+  return (SUMMER_ACH[insulation] * volumeCuFt) / 60;
+}
+
+export interface CoolingInfiltration {
+  cfm: number;
+  note: string | null;
+}
+
+/**
+ * Summer infiltration: blower door / tightness category, else estimated
+ * from the insulation level with extra stack effect above one story.
+ */
+export function estimateCoolingInfiltration(
+  airLeakage: AirLeakageInput | undefined,
+  volumeCuFt: number,
+  stories: number,
+  insulation: InsulationLevel
+): CoolingInfiltration {
+  const leakage = envelopeLeakage(airLeakage, volumeCuFt, stories, "cooling");
+  if (leakage) {
+    return {
+      cfm: leakage.infiltrationCFM,
+      note: `Air leakage: ${describeAirLeakage(leakage)} in summer.`,
+    };
+  }
+  const cfm = coolingInfiltrationCFM(volumeCuFt, insulation);
+  return stories >= 2
+    ? { cfm: cfm * 1.08, note: "Multi-story: extra infiltration for stack effect." }
+    : { cfm, note: null };
+}
+
+/**
+ * Outdoor-minus-indoor grains when no climate row resolved, from the
+ * fallback design conditions against the indoor cooling setpoint.
+ */
+export function fallbackGrainsDifference(
+  indoorRH: number,
+  elevationFt = 0
+): number {
+  return (
+    toGrains(
+      humidityRatioFromWetBulb(
+        FALLBACK_DESIGN_CONDITIONS.cooling1DB,
+        FALLBACK_DESIGN_CONDITIONS.coolingMCWB,
+        elevationFt
+      )
+    ) -
+    toGrains(
+      humidityRatioFromRH(INDOOR_COOLING_SETPOINT_F, indoorRH, elevationFt)
+    )
+  );
+}
+
+/**
+ * Total BTUH -> tonnage, rounded to the nearest quarter ton.
+ */
+export function toRecommendedTonnage(totalBTUH: number): number {
+  const rawTonnage = totalBTUH / 12000;
+  return Math.round(rawTonnage * 4) / 4;
 }
 
 /**
@@ -52,127 +243,153 @@ export function runLoadCalc(input: LoadCalcInput): LoadCalcResult {
     siding,
     designDeltaT,
     indoorRH,
+    ducts,
     ductsInAtticOrCrawl,
+    heating,
+    envelope,
+    windowsByFacing,
+    windowAreas,
+    grainsDifference,
+    elevationFt = 0,
+    occupants,
+    bedrooms,
+    specialLoads,
+    airLeakage,
+    ventilation,
+    ventilationCFM = 0,
   } = input;
 
   if (sqft <= 0) {
     throw new Error("sqft must be > 0");
   }
 
-  // 1) Base sensible BTU per sq ft (roughly based on delta-T)
-  const basePerSqFtAt30 = 10;
-  const basePerSqFt = basePerSqFtAt30 * (designDeltaT / 30);
-
-  // 2) Insulation factor
-  let insulationFactor = 1;
-  switch (insulation) {
-    case "good":
-      insulationFactor = 0.85;
-      notes.push("Good insulation: slightly reduced load.");
-      break;
-    case "average":
-      insulationFactor = 1;
-      break;
-    case "poor":
-      insulationFactor = 1.2;
-      notes.push("Poor insulation: increased envelope load.");
-      break;
+  // 1) Envelope: detailed components if given, otherwise map the
+  //    categorical inputs onto a preset house
+  let components: EnvelopeComponent[];
+  if (envelope && envelope.length > 0) {
+    components = envelope;
+    notes.push(
+      `Detailed envelope: ${envelope.length} components with entered R/U values.`
+    );
+  } else {
+    const preset = envelopeFromPresets({
+      sqft,
+      stories,
+      windows,
+      insulation,
+      siding,
+      orientation,
+      windowsByFacing,
+      windowAreas,
+    });
+    components = preset.components;
+    notes.push(...preset.notes);
   }
 
-  // 3) Windows factor
-  let windowFactor = 1;
-  switch (windows) {
-    case "few":
-      windowFactor = 0.9;
-      notes.push("Few windows: reduced gain/loss.");
-      break;
-    case "average":
-      windowFactor = 1;
-      break;
-    case "many":
-      windowFactor = 1.15;
-      notes.push("Many windows: increased gain/loss.");
-      break;
-    case "unknown":
-      notes.push("Window amount unknown: assuming average.");
-      break;
+  // 2) Conduction (UA × ΔT) + solar gain through glass at the
+  //    whole-house peak hour
+  const envelopeLoads = computeCoolingEnvelope(components, designDeltaT);
+  if (envelopeLoads.solar && envelopeLoads.solar.blockBTUH > 0) {
+    notes.push(describeSolarGain(envelopeLoads.solar));
   }
 
-  // 4) Orientation factor
-  let orientationFactor = 1;
-  switch (orientation) {
-    case "south":
-    case "west":
-      orientationFactor = 1.1;
-      notes.push("South/West orientation: higher solar gain.");
-      break;
-    case "north":
-      orientationFactor = 0.95;
-      notes.push("North orientation: slightly lower solar gain.");
-      break;
-    case "east":
-      orientationFactor = 1.05;
-      break;
-    case "mixed":
-    case "unknown":
-      orientationFactor = 1;
-      break;
-  }
+  // 3) Summer infiltration: blower door / tightness category, else
+  //    estimated from the insulation level
+  const volume = sqft * STORY_HEIGHT_FT;
+  const infiltration = estimateCoolingInfiltration(
+    airLeakage,
+    volume,
+    stories,
+    insulation
+  );
+  const infiltrationCFM = infiltration.cfm;
+  if (infiltration.note) notes.push(infiltration.note);
+  const infiltrationBTUH = 1.08 * infiltrationCFM * designDeltaT;
 
-  // 5) Stories factor
-  let storiesFactor = 1;
-  if (stories >= 2) {
-    storiesFactor = 1.08;
-    notes.push("Multi-story: extra load for stack effect and envelope area.");
+  // 4) Mechanical ventilation (outdoor air, less heat/energy recovery)
+  const ventilationSystem = resolveVentilation(ventilation, ventilationCFM);
+  const ventilationAir = ventilationFlows(ventilationSystem, infiltrationCFM);
+  const ventilationBTUH = 1.08 * ventilationAir.sensibleCFM * designDeltaT;
+  if (ventilationSystem) {
+    notes.push(`Mechanical ventilation: ${describeVentilation(ventilationSystem)}.`);
   }
 
-  // 6) Siding factor (small tweak)
-  let sidingFactor = 1;
-  switch (siding) {
-    case "brick":
-      sidingFactor = 0.97;
-      break;
-    case "stucco":
-      sidingFactor = 0.99;
-      break;
-    case "fiber cement":
-    case "wood":
-    case "vinyl":
-    case "mixed":
-    case "unknown":
-      sidingFactor = 1;
-      break;
-  }
+  // 5) Internal gains (people, appliances, lighting, special loads)
+  const internalGains = computeInternalGains({
+    sqft,
+    occupants,
+    bedrooms,
+    specialLoads,
+  });
+  const internalBTUH = internalGains.sensibleBTUH;
+  notes.push(describeInternalGains(internalGains));
 
-  // 7) Duct location penalty
-  let ductFactor = 1;
-  if (ductsInAtticOrCrawl) {
-    ductFactor = 1.1;
-    notes.push("Ducts in unconditioned space: 10% penalty added.");
+  // 6) Duct gain: conduction through the duct walls + leakage
+  const ductSystem = resolveDuctSystem(ducts, ductsInAtticOrCrawl);
+  const ductGain = computeDuctLoad(ductSystem, {
+    sqft,
+    stories,
+    season: "cooling",
+    outdoorF: INDOOR_COOLING_SETPOINT_F + designDeltaT,
+    indoorF: INDOOR_COOLING_SETPOINT_F,
+  });
+  if (ductGain.totalBTUH > 0) {
+    notes.push(
+      `Ducts (${describeDuctSystem(ductSystem)}): ${ductGain.conductionBTUH} BTU/h conduction + ${ductGain.leakageBTUH} BTU/h leakage gain.`
+    );
   }
 
-  const sensiblePerSqFt =
-    basePerSqFt *
-    insulationFactor *
-    windowFactor *
-    orientationFactor *
-    storiesFactor *
-    sidingFactor *
-    ductFactor;
+  const sensibleBTUH =
+    envelopeLoads.conductionBTUH +
+    envelopeLoads.solarBTUH +
+    infiltrationBTUH +
+    ventilationBTUH +
+    internalBTUH +
+    ductGain.totalBTUH;
 
-  const sensibleBTUH = sensiblePerSqFt * sqft;
+  // 7) Latent load: humidity ratio difference × outdoor air CFM,
+  //    plus occupants and household moisture sources
+  let grains = grainsDifference;
+  if (grains === undefined) {
+    grains = fallbackGrainsDifference(indoorRH, elevationFt);
+    notes.push(
+      `No outdoor humidity data: assuming ${FALLBACK_DESIGN_CONDITIONS.cooling1DB}°F DB / ${FALLBACK_DESIGN_CONDITIONS.coolingMCWB}°F WB outdoor design.`
+    );
+  }
 
-  // 8) Latent load (simplified)
-  let latentRatio = 0.2;
-  if (indoorRH <= 35) latentRatio = 0.15;
-  else if (indoorRH >= 55) latentRatio = 0.25;
+  const latent = computeLatentLoad({
+    grainsDifference: grains,
+    infiltrationCFM,
+    ventilationCFM: ventilationAir.latentCFM,
+    occupants: internalGains.occupants,
+    internalLatentBTUH: internalGains.otherLatentBTUH,
+    elevationFt,
+  });
+  const latentBTUH = latent.totalBTUH;
 
-  const latentBTUH = sensibleBTUH * latentRatio;
+  if (grains <= 0) {
+    notes.push("Outdoor air is drier than indoor target: latent is internal gains only.");
+  } else {
+    notes.push(
+      `Latent load from a ${Math.round(
+        grains
+      )} grain outdoor/indoor moisture difference and ${internalGains.occupants} occupants.`
+    );
+  }
 
-  // 9) Total & tonnage
+  // 8) Total, sensible heat ratio & tonnage
   const totalBTUH = sensibleBTUH + latentBTUH;
-  const rawTonnage = totalBTUH / 12000;
-  const recommendedTonnage = Math.round(rawTonnage * 4) / 4;
+  const sensibleHeatRatio =
+    totalBTUH > 0 ? Math.round((sensibleBTUH / totalBTUH) * 100) / 100 : 1;
+  const recommendedTonnage = toRecommendedTonnage(totalBTUH);
+
+  if (sensibleHeatRatio < 0.75) {
+    notes.push(
+      `Sensible heat ratio is ${sensibleHeatRatio.toFixed(
+        2
+      )}: pick equipment with strong latent capacity or add dehumidification.`
+    );
+  }
 
   notes.push(
     `Based on the inputs, total design load is ~${Math.round(
@@ -180,11 +397,43 @@ export function runLoadCalc(input: LoadCalcInput): LoadCalcResult {
     )} BTU/h, which is roughly ${recommendedTonnage.toFixed(2)} tons.`
   );
 
+  // 9) Winter heating load (optional), on the same envelope
+  let heatingResult: HeatingLoadResult | undefined;
+  if (heating) {
+    heatingResult = runHeatingLoadCalc({
+      sqft,
+      stories,
+      windows,
+      insulation,
+      ducts: ductSystem,
+      airLeakage,
+      ventilation: ventilationSystem,
+      elevationFt,
+      envelope: components,
+      ...heating,
+    });
+  }
+
   return {
     sensibleBTUH: Math.round(sensibleBTUH),
     latentBTUH: Math.round(latentBTUH),
     totalBTUH: Math.round(totalBTUH),
     recommendedTonnage,
+    sensibleHeatRatio,
+    sensible: {
+      conductionBTUH: Math.round(envelopeLoads.conductionBTUH),
+      solarBTUH: Math.round(envelopeLoads.solarBTUH),
+      infiltrationBTUH: Math.round(infiltrationBTUH),
+      ventilationBTUH: Math.round(ventilationBTUH),
+      internalBTUH: Math.round(internalBTUH),
+      ductConductionBTUH: ductGain.conductionBTUH,
+      ductLeakageBTUH: ductGain.leakageBTUH,
+      ductBTUH: ductGain.totalBTUH,
+    },
+    latent,
     notes,
+    envelope: envelopeLoads,
+    internalGains,
+    heating: heatingResult,
   };
 }
\ No newline at end of file
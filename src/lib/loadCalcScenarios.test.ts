@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import type { LoadCalcInput, LoadCalcResult } from "@/lib/loadCalc";
+import {
+  compareScenarios,
+  formatDelta,
+  saveScenario,
+  scenarioDelta,
+} from "@/lib/loadCalcScenarios";
+
+const INPUT: LoadCalcInput = {
+  sqft: 1800,
+  stories: 1,
+  windows: "average",
+  orientation: "unknown",
+  insulation: "average",
+  siding: "vinyl",
+  designDeltaT: 20,
+  indoorRH: 50,
+};
+
+function result(
+  sensibleBTUH: number,
+  latentBTUH: number,
+  heatingBTUH?: number
+): LoadCalcResult {
+  const totalBTUH = sensibleBTUH + latentBTUH;
+  return {
+    sensibleBTUH,
+    latentBTUH,
+    totalBTUH,
+    recommendedTonnage: Math.round((totalBTUH / 12000) * 2) / 2,
+    sensibleHeatRatio: sensibleBTUH / totalBTUH,
+    latent: {
+      infiltrationBTUH: latentBTUH,
+      ventilationBTUH: 0,
+      occupantBTUH: 0,
+      internalBTUH: 0,
+      totalBTUH: latentBTUH,
+    },
+    heating:
+      heatingBTUH === undefined
+        ? undefined
+        : {
+            designDeltaT: 60,
+            conductionBTUH: heatingBTUH,
+            infiltrationBTUH: 0,
+            ventilationBTUH: 0,
+            ductConductionBTUH: 0,
+            ductLeakageBTUH: 0,
+            ductLossBTUH: 0,
+            requiredBTUH: heatingBTUH,
+            infiltrationLatentBTUH: 0,
+            ventilationLatentBTUH: 0,
+            notes: [],
+          },
+    notes: [],
+  };
+}
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+const LATER = new Date("2026-03-02T12:00:00Z");
+
+describe("saveScenario", () => {
+  it("starts a new name at version 1 and defaults a blank one", () => {
+    const saved = saveScenario([], "  ", INPUT, result(24000, 6000), NOW);
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({
+      name: "as-is",
+      version: 1,
+      updatedAt: "2026-03-01T12:00:00.000Z",
+    });
+  });
+
+  it("replaces a re-run in place and bumps its version", () => {
+    let scenarios = saveScenario([], "as-is", INPUT, result(24000, 6000), NOW);
+    scenarios = saveScenario(
+      scenarios,
+      "attic R-49",
+      INPUT,
+      result(20000, 6000),
+      NOW
+    );
+    scenarios = saveScenario(
+      scenarios,
+      " as-is ",
+      INPUT,
+      result(25000, 6000),
+      LATER
+    );
+
+    expect(scenarios.map((s) => [s.name, s.version])).toEqual([
+      ["as-is", 2],
+      ["attic R-49", 1],
+    ]);
+    expect(scenarios[0].result.sensibleBTUH).toBe(25000);
+    expect(scenarios[0].updatedAt).toBe("2026-03-02T12:00:00.000Z");
+  });
+});
+
+describe("scenarioDelta", () => {
+  it("subtracts the baseline from the other scenario", () => {
+    expect(
+      scenarioDelta(result(24000, 6000, 50000), result(18000, 5000, 41000))
+    ).toEqual({
+      sensibleBTUH: -6000,
+      latentBTUH: -1000,
+      totalBTUH: -7000,
+      recommendedTonnage: -0.5,
+      heatingBTUH: -9000,
+    });
+  });
+
+  it("leaves heating blank unless both scenarios have it", () => {
+    expect(
+      scenarioDelta(result(24000, 6000), result(24000, 6000, 41000))
+        .heatingBTUH
+    ).toBeNull();
+  });
+});
+
+describe("compareScenarios", () => {
+  it("puts the baseline first and names the changed inputs", () => {
+    let scenarios = saveScenario(
+      [],
+      "attic R-49",
+      { ...INPUT, insulation: "good" },
+      result(20000, 6000),
+      NOW
+    );
+    scenarios = saveScenario(scenarios, "as-is", INPUT, result(24000, 6000), NOW);
+
+    const [base, upgrade] = compareScenarios(scenarios);
+    expect(base.scenario.name).toBe("as-is");
+    expect(base.delta.totalBTUH).toBe(0);
+    expect(base.changes).toEqual([]);
+    expect(upgrade.delta.sensibleBTUH).toBe(-4000);
+    expect(upgrade.changes).toEqual(["insulation: average → good"]);
+  });
+
+  it("names envelope, per-side window and design condition changes", () => {
+    const detailed: LoadCalcInput = {
+      ...INPUT,
+      windowsByFacing: { west: "many" },
+      grainsDifference: 40,
+      envelope: [
+        { kind: "wall", areaSqFt: 900, rValue: 11 },
+        { kind: "wall", areaSqFt: 300, rValue: 11 },
+        { kind: "ceiling", areaSqFt: 1800, rValue: 19, adjacency: "attic" },
+        { kind: "window", areaSqFt: 60, uFactor: 0.3, shgc: 0.25, facing: "west" },
+      ],
+    };
+    const upgraded: LoadCalcInput = {
+      ...detailed,
+      windowsByFacing: { north: "few", west: "many" },
+      designDeltaT: 22,
+      grainsDifference: 45.4,
+      envelope: detailed.envelope?.map((c) =>
+        c.kind === "ceiling" ? { ...c, rValue: 49 } : c
+      ),
+    };
+
+    const scenarios = saveScenario(
+      saveScenario([], "as-is", detailed, result(24000, 6000), NOW),
+      "attic R-49",
+      upgraded,
+      result(21000, 6000),
+      NOW
+    );
+    expect(compareScenarios(scenarios)[1].changes).toEqual([
+      "envelope: wall 1200 sq ft R-11, ceiling (attic) 1800 sq ft R-19, west window 60 sq ft U-0.3 SHGC 0.25 → wall 1200 sq ft R-11, ceiling (attic) 1800 sq ft R-49, west window 60 sq ft U-0.3 SHGC 0.25",
+      "windows by side: west many → north few, west many",
+      "cooling design ΔT: 20°F → 22°F",
+      "grains difference: 40 gr/lb → 45 gr/lb",
+    ]);
+  });
+
+  it("falls back to the first scenario without an as-is", () => {
+    const scenarios = saveScenario(
+      [],
+      "before",
+      INPUT,
+      result(24000, 6000),
+      NOW
+    );
+    expect(compareScenarios(scenarios)[0].scenario.name).toBe("before");
+    expect(compareScenarios([])).toEqual([]);
+  });
+});
+
+describe("formatDelta", () => {
+  it("signs and groups the difference", () => {
+    expect(formatDelta(-6000, "BTUH")).toBe("−6,000 BTUH");
+    expect(formatDelta(0.5, "ton")).toBe("+0.5 ton");
+    expect(formatDelta(0, "BTUH")).toBe("0 BTUH");
+    expect(formatDelta(null, "BTUH")).toBe("—");
+  });
+});
@@ -0,0 +1,233 @@
+// src/lib/loadCalcScenarios.ts
+import type { LoadCalcInput, LoadCalcResult } from "@/lib/loadCalc";
+import { describeDuctSystem, resolveDuctSystem } from "@/lib/ductLoss";
+import { SPECIAL_LOADS, SPECIAL_LOAD_LABELS } from "@/lib/internalGains";
+import { describeEnvelope, describeWindowAreas, FACINGS } from "@/lib/envelope";
+import {
+  describeAirLeakageInput,
+  describeVentilation,
+  resolveVentilation,
+} from "@/lib/airLeakage";
+
+/**
+ * One named what-if for a job ("as-is", "after attic insulation upgrade",
+ * ...). Re-running a scenario under the same name replaces it and bumps
+ * its version.
+ */
+export interface LoadCalcScenario {
+  name: string;
+  version: number;
+  input: LoadCalcInput;
+  result: LoadCalcResult;
+  updatedAt: string;
+}
+
+export interface ScenarioDelta {
+  sensibleBTUH: number;
+  latentBTUH: number;
+  totalBTUH: number;
+  recommendedTonnage: number;
+  heatingBTUH: number | null;
+}
+
+export interface ScenarioComparison {
+  scenario: LoadCalcScenario;
+  // Against the baseline; zero for the baseline itself.
+  delta: ScenarioDelta;
+  // Inputs that differ from the baseline, e.g. "insulation: average → good"
+  changes: string[];
+}
+
+export const DEFAULT_SCENARIO_NAME = "as-is";
+
+// Inputs worth naming when two scenarios differ.
+const COMPARED_INPUTS: { key: keyof LoadCalcInput; label: string }[] = [
+  { key: "sqft", label: "sq ft" },
+  { key: "stories", label: "stories" },
+  { key: "insulation", label: "insulation" },
+  { key: "windows", label: "windows" },
+  { key: "orientation", label: "orientation" },
+  { key: "siding", label: "siding" },
+  { key: "indoorRH", label: "indoor RH" },
+  { key: "occupants", label: "occupants" },
+  { key: "bedrooms", label: "bedrooms" },
+];
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function formatInput(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+/**
+ * Adds the scenario, or replaces the one with the same name (keeping its
+ * place in the list).
+ */
+export function saveScenario(
+  scenarios: LoadCalcScenario[],
+  name: string,
+  input: LoadCalcInput,
+  result: LoadCalcResult,
+  now: Date = new Date()
+): LoadCalcScenario[] {
+  const trimmed = name.trim() || DEFAULT_SCENARIO_NAME;
+  const existing = scenarios.find((s) => s.name === trimmed);
+  const scenario: LoadCalcScenario = {
+    name: trimmed,
+    version: existing ? existing.version + 1 : 1,
+    input,
+    result,
+    updatedAt: now.toISOString(),
+  };
+
+  return existing
+    ? scenarios.map((s) => (s.name === trimmed ? scenario : s))
+    : [...scenarios, scenario];
+}
+
+export function scenarioDelta(
+  base: LoadCalcResult,
+  other: LoadCalcResult
+): ScenarioDelta {
+  return {
+    sensibleBTUH: other.sensibleBTUH - base.sensibleBTUH,
+    latentBTUH: other.latentBTUH - base.latentBTUH,
+    totalBTUH: other.totalBTUH - base.totalBTUH,
+    recommendedTonnage: round2(
+      other.recommendedTonnage - base.recommendedTonnage
+    ),
+    heatingBTUH:
+      base.heating && other.heating
+        ? other.heating.requiredBTUH - base.heating.requiredBTUH
+        : null,
+  };
+}
+
+export function describeInputChanges(
+  base: LoadCalcInput,
+  other: LoadCalcInput
+): string[] {
+  const changes: string[] = [];
+  for (const { key, label } of COMPARED_INPUTS) {
+    if (base[key] !== other[key]) {
+      changes.push(`${label}: ${formatInput(base[key])} → ${formatInput(other[key])}`);
+    }
+  }
+  const baseDucts = describeDuctSystem(
+    resolveDuctSystem(base.ducts, base.ductsInAtticOrCrawl)
+  );
+  const otherDucts = describeDuctSystem(
+    resolveDuctSystem(other.ducts, other.ductsInAtticOrCrawl)
+  );
+  if (baseDucts !== otherDucts) {
+    changes.push(`ducts: ${baseDucts} → ${otherDucts}`);
+  }
+  const baseLeakage = describeAirLeakageInput(base.airLeakage);
+  const otherLeakage = describeAirLeakageInput(other.airLeakage);
+  if (baseLeakage !== otherLeakage) {
+    changes.push(
+      `air leakage: ${formatInput(baseLeakage)} → ${formatInput(otherLeakage)}`
+    );
+  }
+  const ventilation = (input: LoadCalcInput) => {
+    const system = resolveVentilation(input.ventilation, input.ventilationCFM);
+    return system ? describeVentilation(system) : "none";
+  };
+  if (ventilation(base) !== ventilation(other)) {
+    changes.push(`ventilation: ${ventilation(base)} → ${ventilation(other)}`);
+  }
+  const specialLoads = (input: LoadCalcInput) =>
+    SPECIAL_LOADS.filter((load) => (input.specialLoads?.[load] ?? 0) > 0)
+      .map((load) => `${SPECIAL_LOAD_LABELS[load]} × ${input.specialLoads?.[load]}`)
+      .join(", ") || "none";
+  if (specialLoads(base) !== specialLoads(other)) {
+    changes.push(`special loads: ${specialLoads(base)} → ${specialLoads(other)}`);
+  }
+  const baseGlass = describeWindowAreas(base.windowAreas);
+  const otherGlass = describeWindowAreas(other.windowAreas);
+  if (baseGlass !== otherGlass) {
+    changes.push(`measured glass: ${formatInput(baseGlass)} → ${formatInput(otherGlass)}`);
+  }
+  const baseEnvelope = describeEnvelope(base.envelope);
+  const otherEnvelope = describeEnvelope(other.envelope);
+  if (baseEnvelope !== otherEnvelope) {
+    changes.push(
+      `envelope: ${baseEnvelope ?? "presets"} → ${otherEnvelope ?? "presets"}`
+    );
+  }
+  const windowsByFacing = (input: LoadCalcInput) =>
+    FACINGS.filter((facing) => input.windowsByFacing?.[facing])
+      .map((facing) => `${facing} ${input.windowsByFacing?.[facing]}`)
+      .join(", ") || null;
+  if (windowsByFacing(base) !== windowsByFacing(other)) {
+    changes.push(
+      `windows by side: ${formatInput(windowsByFacing(base))} → ${formatInput(
+        windowsByFacing(other)
+      )}`
+    );
+  }
+  if (base.designDeltaT !== other.designDeltaT) {
+    changes.push(
+      `cooling design ΔT: ${base.designDeltaT}°F → ${other.designDeltaT}°F`
+    );
+  }
+  if (base.grainsDifference !== other.grainsDifference) {
+    const grains = (value: number | undefined) =>
+      value === undefined ? "—" : `${Math.round(value)} gr/lb`;
+    changes.push(
+      `grains difference: ${grains(base.grainsDifference)} → ${grains(
+        other.grainsDifference
+      )}`
+    );
+  }
+  if (base.heating?.outdoorDesignTempF !== other.heating?.outdoorDesignTempF) {
+    changes.push(
+      `winter design: ${formatInput(base.heating?.outdoorDesignTempF)}°F → ${formatInput(
+        other.heating?.outdoorDesignTempF
+      )}°F`
+    );
+  }
+  if (base.heating?.indoorSetpointF !== other.heating?.indoorSetpointF) {
+    changes.push(
+      `heating setpoint: ${formatInput(base.heating?.indoorSetpointF)}°F → ${formatInput(
+        other.heating?.indoorSetpointF
+      )}°F`
+    );
+  }
+  return changes;
+}
+
+/**
+ * Every scenario against the baseline (by name, else the first one),
+ * baseline first.
+ */
+export function compareScenarios(
+  scenarios: LoadCalcScenario[],
+  baselineName: string = DEFAULT_SCENARIO_NAME
+): ScenarioComparison[] {
+  if (scenarios.length === 0) return [];
+
+  const base = scenarios.find((s) => s.name === baselineName) ?? scenarios[0];
+  const ordered = [base, ...scenarios.filter((s) => s !== base)];
+
+  return ordered.map((scenario) => ({
+    scenario,
+    delta: scenarioDelta(base.result, scenario.result),
+    changes:
+      scenario === base ? [] : describeInputChanges(base.input, scenario.input),
+  }));
+}
+
+/**
+ * "-6,000 BTUH" / "+0.5 ton" style deltas for the comparison table.
+ */
+export function formatDelta(value: number | null, unit: string): string {
+  if (value === null) return "—";
+  if (value === 0) return `0 ${unit}`;
+  const sign = value > 0 ? "+" : "−";
+  return `${sign}${Math.abs(value).toLocaleString()} ${unit}`;
+}
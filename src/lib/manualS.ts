@@ -0,0 +1,23 @@
+// src/lib/manualS.ts
+
+// ACCA Manual S equipment sizing limits, as a fraction of the design
+// load. Shared by the existing-equipment verdict and catalog ranking so
+// the two can't disagree.
+
+// Cooling: total capacity vs. total load.
+export const MIN_COOLING_RATIO = 0.95;
+export const MAX_COOLING_RATIO = 1.15;
+// Heat pumps in heating-dominated climates may go bigger.
+export const MAX_COOLING_RATIO_HEAT_PUMP = 1.25;
+
+// Heating: furnace output or strip heat vs. required heating.
+export const MIN_HEATING_RATIO = 1;
+export const MAX_FURNACE_RATIO = 1.4;
+export const MAX_HEAT_STRIP_RATIO = 1.75;
+
+/**
+ * "100–140%" for notes.
+ */
+export function describeRatioRange(min: number, max: number): string {
+  return `${Math.round(min * 100)}–${Math.round(max * 100)}%`;
+}
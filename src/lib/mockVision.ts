@@ -0,0 +1,59 @@
+// src/lib/mockVision.ts
+import fixtures from "@/data/visionFixtures.json";
+import type {
+  EquipmentVisionInput,
+  ExteriorVisionInput,
+  VisionImage,
+  VisionProvider,
+} from "@/lib/visionProvider";
+
+/**
+ * One canned answer from src/data/visionFixtures.json. A fixture is
+ * picked when any uploaded file name contains one of its `match`
+ * strings; the first fixture in each list is the default.
+ */
+interface VisionFixture {
+  id: string;
+  match: string[];
+  response: Record<string, unknown>;
+}
+
+const EXTERIOR_FIXTURES = fixtures.exterior as VisionFixture[];
+const EQUIPMENT_FIXTURES = fixtures.equipment as VisionFixture[];
+
+function pickFixture(
+  list: VisionFixture[],
+  images: VisionImage[]
+): VisionFixture {
+  const names = images.map((image) => image.fileName.toLowerCase());
+  const matched = list.find((fixture) =>
+    fixture.match.some((needle) =>
+      names.some((name) => name.includes(needle.toLowerCase()))
+    )
+  );
+  return matched ?? list[0];
+}
+
+// Photos named like "back.jpg" or "house-left.png" are tagged that side.
+function sideFromFileName(image: VisionImage): string {
+  const name = image.fileName.toLowerCase();
+  if (name.includes("front")) return "front";
+  if (name.includes("back") || name.includes("rear")) return "back";
+  if (name.includes("left")) return "left";
+  if (name.includes("right")) return "right";
+  return "unknown";
+}
+
+// Offline backend for dev and CI: no network, same answer every time.
+export const mockVisionProvider: VisionProvider = {
+  name: "mock",
+
+  async analyzeExterior({ image }: ExteriorVisionInput) {
+    const response = pickFixture(EXTERIOR_FIXTURES, [image]).response;
+    return JSON.stringify({ ...response, side: sideFromFileName(image) });
+  },
+
+  async analyzeEquipmentLabel({ images }: EquipmentVisionInput) {
+    return JSON.stringify(pickFixture(EQUIPMENT_FIXTURES, images).response);
+  },
+};
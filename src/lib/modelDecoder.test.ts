@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { decodeModelNumber } from "@/lib/modelDecoder";
+import type { ModelDecodeResult } from "@/lib/modelDecoder";
+import { processEquipment } from "@/lib/equipmentPipeline";
+
+describe("decodeModelNumber", () => {
+  it.each<[string, string, Partial<ModelDecodeResult>]>([
+    // brand, model, expected decode
+    [
+      "Trane",
+      "S9V2B080U4PSA",
+      {
+        rule: "trane_s_series_furnace",
+        equipmentKind: "furnace",
+        inputBTUH: 80000,
+        stages: "two-stage",
+        cabinetWidthIn: 17.5,
+      },
+    ],
+    [
+      "American Standard",
+      "4TTR6030J1000A",
+      {
+        rule: "trane_outdoor",
+        equipmentKind: "ac_condenser",
+        nominalTonnage: 2.5,
+        refrigerant: "R-410A",
+      },
+    ],
+    [
+      "Carrier",
+      "58STA090",
+      {
+        rule: "carrier_furnace",
+        equipmentKind: "furnace",
+        inputBTUH: 90000,
+        afue: 80,
+        stages: "single",
+      },
+    ],
+    [
+      "Bryant",
+      "25HCE436A003",
+      {
+        rule: "carrier_outdoor",
+        equipmentKind: "heat_pump",
+        nominalTonnage: 3,
+      },
+    ],
+    [
+      "Goodman",
+      "GMVC960805CN",
+      {
+        rule: "goodman_furnace",
+        equipmentKind: "furnace",
+        inputBTUH: 80000,
+        afue: 96,
+        stages: "two-stage",
+        cabinetWidthIn: 21,
+      },
+    ],
+    [
+      "Amana",
+      "GSX140361",
+      {
+        rule: "goodman_outdoor_seer",
+        equipmentKind: "ac_condenser",
+        nominalTonnage: 3,
+        seer: 14,
+      },
+    ],
+    [
+      "Rheem",
+      "R96VA0602317MSA",
+      {
+        rule: "rheem_furnace",
+        equipmentKind: "furnace",
+        inputBTUH: 60000,
+        afue: 96,
+        cabinetWidthIn: 17.5,
+      },
+    ],
+    [
+      "Ruud",
+      "R801PA075314ZSA",
+      { rule: "rheem_furnace", inputBTUH: 75000, cabinetWidthIn: 14.25 },
+    ],
+    [
+      "Rheem",
+      "RA1536AJ1NA",
+      {
+        rule: "rheem_outdoor",
+        equipmentKind: "ac_condenser",
+        nominalTonnage: 3,
+        seer: 15,
+      },
+    ],
+    [
+      "Lennox",
+      "EL296V070C036B",
+      {
+        rule: "lennox_furnace",
+        equipmentKind: "furnace",
+        inputBTUH: 70000,
+        afue: 96,
+        stages: "variable",
+        cabinetWidthIn: 21,
+      },
+    ],
+    [
+      "Lennox",
+      "XC21-036-230",
+      {
+        rule: "lennox_outdoor_x_series",
+        equipmentKind: "ac_condenser",
+        nominalTonnage: 3,
+        seer: 21,
+      },
+    ],
+    [
+      "Lennox",
+      "EL17XC1-036",
+      { rule: "lennox_outdoor", nominalTonnage: 3, seer: 17 },
+    ],
+    [
+      "York",
+      "TM9V080C16MP11",
+      {
+        rule: "york_furnace",
+        equipmentKind: "furnace",
+        inputBTUH: 80000,
+        stages: "variable",
+        cabinetWidthIn: 21,
+      },
+    ],
+    [
+      "Coleman",
+      "YCJF36S41S1",
+      {
+        rule: "york_outdoor",
+        equipmentKind: "ac_condenser",
+        nominalTonnage: 3,
+      },
+    ],
+  ])("%s %s", (brand, model, expected) => {
+    expect(decodeModelNumber(brand, model)).toMatchObject(expected);
+  });
+
+  it("tries every brand when the manufacturer is unknown", () => {
+    expect(decodeModelNumber("", "XC21-036")?.brandFamily).toBe("lennox");
+  });
+
+  it("returns null when no rule matches", () => {
+    expect(decodeModelNumber("Goodman", "ABC123")).toBeNull();
+    expect(decodeModelNumber("Trane", "unknown")).toBeNull();
+  });
+});
+
+describe("model decode in the equipment pipeline", () => {
+  it("fills the equipment type only when the label read left it blank", () => {
+    const { equipmentAnalysis } = processEquipment({
+      equipmentType: "other",
+      manufacturer: "Lennox",
+      modelNumber: "XC21-036",
+      serialNumber: "",
+    });
+    expect(equipmentAnalysis?.equipmentType).toBe("ac_condenser");
+    expect(equipmentAnalysis?.modelDecodeFields).toContain("equipmentType");
+
+    const read = processEquipment({
+      equipmentType: "heat_pump",
+      manufacturer: "Lennox",
+      modelNumber: "XC21-036",
+      serialNumber: "",
+    });
+    expect(read.equipmentAnalysis?.equipmentType).toBe("heat_pump");
+  });
+});
@@ -0,0 +1,367 @@
+// src/lib/modelDecoder.ts
+import { BRAND_FAMILIES, BrandFamily, brandFamilyFor } from "@/lib/brands";
+
+export type ModelEquipmentKind = "furnace" | "ac_condenser" | "heat_pump";
+
+export type ModelStages = "single" | "two-stage" | "variable";
+
+export interface ModelDecodeResult {
+  brandFamily: BrandFamily;
+  rule: string;
+  equipmentKind: ModelEquipmentKind;
+  inputBTUH?: number;
+  nominalTonnage?: number;
+  afue?: number;
+  seer?: number;
+  efficiencyTier?: string;
+  stages?: ModelStages;
+  cabinetWidthIn?: number;
+  refrigerant?: string;
+}
+
+type Decoded = Omit<ModelDecodeResult, "brandFamily" | "rule">;
+
+interface ModelRule {
+  id: string;
+  pattern: RegExp;
+  decode: (m: RegExpMatchArray) => Decoded | null;
+}
+
+// Furnace cabinet width letters shared by most brands.
+const CABINET_WIDTH_IN: Record<string, number> = {
+  A: 14.5,
+  B: 17.5,
+  C: 21,
+  D: 24.5,
+};
+
+// Rheem / Ruud spell the cabinet width as whole inches.
+const RHEEM_CABINET_WIDTH_IN: Record<string, number> = {
+  "14": 14.25,
+  "17": 17.5,
+  "21": 21,
+  "24": 24.5,
+};
+
+// Furnace inputs are sold in 20k-ish steps from 40k to 140k.
+function furnaceInput(code: string): number | null {
+  const kbtuh = Number(code);
+  if (kbtuh < 40 || kbtuh > 140) return null;
+  return kbtuh * 1000;
+}
+
+// Cooling capacity code in kBTU/h (18, 24, … 60) -> tons.
+function tonsFromKbtuh(code: string): number | null {
+  const kbtuh = Number(code);
+  if (kbtuh < 12 || kbtuh > 60 || kbtuh % 6 !== 0) return null;
+  return kbtuh / 12;
+}
+
+const RULES: Record<BrandFamily, ModelRule[]> = {
+  trane: [
+    {
+      // S9V2B080U4PSA: S8 = 80%, S9 = 90%+; V/X = blower; 2/1 = stages
+      id: "trane_s_series_furnace",
+      pattern: /^S([89])([VX])([12])([A-D])(\d{3})/,
+      decode: (m) => {
+        const inputBTUH = furnaceInput(m[5]);
+        if (!inputBTUH) return null;
+        return {
+          equipmentKind: "furnace",
+          inputBTUH,
+          afue: m[1] === "8" ? 80 : undefined,
+          efficiencyTier: m[1] === "8" ? "80% non-condensing" : "90%+ condensing",
+          stages: m[3] === "2" ? "two-stage" : "single",
+          cabinetWidthIn: CABINET_WIDTH_IN[m[4]],
+        };
+      },
+    },
+    {
+      // AUD2B080A9V3VBA / TUH1B060A9H31: UD = 80%, UH/UX = 90%+
+      id: "trane_legacy_furnace",
+      pattern: /^[AT]U([DHXY])(\d)([A-D])(\d{3})/,
+      decode: (m) => {
+        const inputBTUH = furnaceInput(m[4]);
+        if (!inputBTUH) return null;
+        const condensing = m[1] !== "D";
+        return {
+          equipmentKind: "furnace",
+          inputBTUH,
+          afue: condensing ? undefined : 80,
+          efficiencyTier: condensing ? "90%+ condensing" : "80% non-condensing",
+          cabinetWidthIn: CABINET_WIDTH_IN[m[3]],
+        };
+      },
+    },
+    {
+      // 4TTR6030J1000A: 4 = R-410A, TT = AC / TW = heat pump, 030 = 30k
+      id: "trane_outdoor",
+      pattern: /^([245])T([TW])[A-Z](\d)(\d{3})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[4]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[2] === "W" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          efficiencyTier: `series ${m[3]}`,
+          refrigerant:
+            m[1] === "2" ? "R-22" : m[1] === "4" ? "R-410A" : "R-454B",
+        };
+      },
+    },
+  ],
+  carrier: [
+    {
+      // 58STA090 = 80%; 59SC5A080 / 59TP6 / 59MN7 = 90%+
+      id: "carrier_furnace",
+      pattern: /^5([89])([A-Z]{2})[A-Z]?(\d)?[A-Z]?(\d{3})/,
+      decode: (m) => {
+        const inputBTUH = furnaceInput(m[4]);
+        if (!inputBTUH) return null;
+        const series = m[2];
+        const stages: ModelStages | undefined = series.startsWith("M")
+          ? "variable"
+          : series.startsWith("T")
+          ? "two-stage"
+          : series.startsWith("S")
+          ? "single"
+          : undefined;
+        return {
+          equipmentKind: "furnace",
+          inputBTUH,
+          afue: m[1] === "8" ? 80 : undefined,
+          efficiencyTier: m[1] === "8" ? "80% non-condensing" : "90%+ condensing",
+          stages,
+        };
+      },
+    },
+    {
+      // 24ACC636A003 = AC, 25HCE436A003 = heat pump; A in 3rd place = Puron
+      id: "carrier_outdoor",
+      pattern: /^2([45])([A-Z])[A-Z]{2}(\d)(\d{2})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[4]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[1] === "5" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          efficiencyTier: `series ${m[3]}`,
+          refrigerant: m[2] === "A" ? "R-410A" : undefined,
+        };
+      },
+    },
+  ],
+  goodman: [
+    {
+      // GMH950703BX / GR9S920603BN / GMVC960805CN: AFUE digits, input,
+      // blower tons, cabinet
+      id: "goodman_furnace",
+      pattern: /^G[A-Z0-9]*?([SEHVC])?([89]\d)(\d{3})(\d)([A-D])/,
+      decode: (m) => {
+        const inputBTUH = furnaceInput(m[3]);
+        if (!inputBTUH) return null;
+        const stageCode = m[1];
+        return {
+          equipmentKind: "furnace",
+          inputBTUH,
+          afue: Number(m[2]),
+          stages:
+            stageCode === "S" || stageCode === "E"
+              ? "single"
+              : stageCode === "H" || stageCode === "V" || stageCode === "C"
+              ? "two-stage"
+              : undefined,
+          cabinetWidthIn: CABINET_WIDTH_IN[m[5]],
+        };
+      },
+    },
+    {
+      // GSX140361 = 14 SEER AC, GSZ = heat pump; 036 = 3 ton
+      id: "goodman_outdoor_seer",
+      pattern: /^G[SL]?([XZ])[A-Z]?(1[3-9])(\d{3})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[3]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[1] === "Z" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          seer: Number(m[2]),
+          refrigerant: "R-410A",
+        };
+      },
+    },
+    {
+      // GLXS4BA3010 = SEER2 tier 4 AC, 30 = 30k; GLZS = heat pump
+      id: "goodman_outdoor_seer2",
+      pattern: /^GL([XZ])([ST])(\d)BA(\d{2})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[4]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[1] === "Z" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          efficiencyTier: `SEER2 tier ${m[3]}`,
+          refrigerant: m[2] === "T" ? "R-32" : "R-410A",
+        };
+      },
+    },
+  ],
+  rheem: [
+    {
+      // R96VA0602317MSA / R801PA075314ZSA: AFUE digits, input, blower
+      // tons (1–2 digits), cabinet width
+      id: "rheem_furnace",
+      pattern: /^[RU](8\d|9\d)\d?([A-Z]{1,3})(\d{3})(?:\d{1,2}(\d{2})(?!\d))?/,
+      decode: (m) => {
+        const inputBTUH = furnaceInput(m[3]);
+        if (!inputBTUH) return null;
+        return {
+          equipmentKind: "furnace",
+          inputBTUH,
+          afue: Number(m[1]),
+          stages: m[2].startsWith("V") ? "two-stage" : undefined,
+          cabinetWidthIn: m[4] ? RHEEM_CABINET_WIDTH_IN[m[4]] : undefined,
+        };
+      },
+    },
+    {
+      // RA1536AJ1NA = 15 SEER AC, RP = heat pump; 36 = 3 ton
+      id: "rheem_outdoor",
+      pattern: /^[RU]([AP])(1[3-9]|20)(\d{2})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[3]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[1] === "P" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          seer: Number(m[2]),
+          refrigerant: "R-410A",
+        };
+      },
+    },
+  ],
+  lennox: [
+    {
+      // EL296V070C036B / ML180UH070: AFUE digits after the stage digit
+      id: "lennox_furnace",
+      pattern: /^[A-Z]{2}([12])(8\d|9\d)([A-Z]{1,2})(\d{3})([A-D])?/,
+      decode: (m) => {
+        const inputBTUH = furnaceInput(m[4]);
+        if (!inputBTUH) return null;
+        return {
+          equipmentKind: "furnace",
+          inputBTUH,
+          afue: Number(m[2]),
+          stages: m[3].startsWith("V")
+            ? "variable"
+            : m[1] === "2"
+            ? "two-stage"
+            : "single",
+          cabinetWidthIn: m[5] ? CABINET_WIDTH_IN[m[5]] : undefined,
+        };
+      },
+    },
+    {
+      // EL17XC1-036 = 17 SEER AC, XP = heat pump
+      id: "lennox_outdoor",
+      pattern: /^[A-Z]{2}(1\d|2\d)X([CP])\d?-?(\d{3})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[3]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[2] === "P" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          seer: Number(m[1]),
+          refrigerant: "R-410A",
+        };
+      },
+    },
+    {
+      // XC21-036-230 / XP16-048: series letters first, SEER after
+      id: "lennox_outdoor_x_series",
+      pattern: /^X([CP])(1\d|2\d)-?(\d{3})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[3]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[1] === "P" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          seer: Number(m[2]),
+          refrigerant: "R-410A",
+        };
+      },
+    },
+  ],
+  york: [
+    {
+      // TM9V080C16MP11: TM8 = 80%, TM9 = 90%+; V = variable, E/X = single
+      id: "york_furnace",
+      pattern: /^[A-Z]{2}([89])([A-Z])(\d{3})([A-D])/,
+      decode: (m) => {
+        const inputBTUH = furnaceInput(m[3]);
+        if (!inputBTUH) return null;
+        return {
+          equipmentKind: "furnace",
+          inputBTUH,
+          afue: m[1] === "8" ? 80 : undefined,
+          efficiencyTier: m[1] === "8" ? "80% non-condensing" : "90%+ condensing",
+          stages: m[2] === "V" ? "variable" : m[2] === "T" ? "two-stage" : "single",
+          cabinetWidthIn: CABINET_WIDTH_IN[m[4]],
+        };
+      },
+    },
+    {
+      // YCJF36S41S1: YC = condensing unit, YH = heat pump; 36 = 3 ton
+      id: "york_outdoor",
+      pattern: /^Y([CH])[A-Z]{1,2}(\d{2})/,
+      decode: (m) => {
+        const nominalTonnage = tonsFromKbtuh(m[2]);
+        if (!nominalTonnage) return null;
+        return {
+          equipmentKind: m[1] === "H" ? "heat_pump" : "ac_condenser",
+          nominalTonnage,
+          refrigerant: "R-410A",
+        };
+      },
+    },
+  ],
+};
+
+function tryRules(
+  family: BrandFamily,
+  model: string
+): ModelDecodeResult | null {
+  for (const rule of RULES[family]) {
+    const match = model.match(rule.pattern);
+    if (!match) continue;
+    const decoded = rule.decode(match);
+    if (decoded) {
+      return { brandFamily: family, rule: rule.id, ...decoded };
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode capacity, efficiency and configuration from a model number.
+ * Uses the manufacturer's nomenclature when the brand is known, and
+ * otherwise tries every brand (model formats rarely collide).
+ */
+export function decodeModelNumber(
+  manufacturer: string,
+  modelNumber: string
+): ModelDecodeResult | null {
+  const model = modelNumber.replace(/\s/g, "").toUpperCase();
+  if (!model || model === "UNKNOWN") return null;
+
+  const family = brandFamilyFor(manufacturer);
+  if (family) {
+    return tryRules(family, model);
+  }
+
+  for (const candidate of BRAND_FAMILIES) {
+    const result = tryRules(candidate, model);
+    if (result) return result;
+  }
+  return null;
+}
@@ -1,10 +1,22 @@
 // src/lib/openai.ts
 import OpenAI from "openai";
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY is not set in .env.local");
+let client: OpenAI | null = null;
+
+export function hasOpenAIKey(): boolean {
+  return Boolean(process.env.OPENAI_API_KEY);
 }
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
\ No newline at end of file
+// Created on first use so the app can boot (and use the mock vision
+// provider) without a key.
+export function getOpenAIClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY is not set in .env.local");
+  }
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return client;
+}
@@ -0,0 +1,176 @@
+// src/lib/openaiVision.ts
+import { getOpenAIClient } from "@/lib/openai";
+import type {
+  EquipmentVisionInput,
+  ExteriorVisionInput,
+  VisionImage,
+  VisionProvider,
+} from "@/lib/visionProvider";
+
+interface OutputTextContent {
+  type: "output_text";
+  text: string;
+}
+
+interface OutputItem {
+  role?: string;
+  content?: OutputTextContent[];
+}
+
+const EXTERIOR_PROMPT = `
+You are helping an HVAC load calculation tool.
+
+This is ONE of several exterior photos of the same house. For this photo, estimate:
+
+- which side of the house it shows, as seen from the street: "front", "back", "left", "right", or "unknown".
+- the compass direction that side faces ("north", "east", "south", "west") ONLY if it is obvious (e.g. from a visible compass or caption); otherwise "unknown".
+- number of stories (1, 1.5, 2, 3). If unsure, use "unknown".
+- siding type (vinyl, wood, fiber cement, stucco, brick, mixed, unknown).
+- rough window amount on THIS side only (few, average, many, or "unknown").
+- presence of gutters (yes, no, unclear).
+- general exterior condition (good, average, poor).
+- a confidence score from 0 to 1.
+
+Return ONLY valid JSON and nothing else:
+
+{
+  "side": "front",
+  "facing": "unknown",
+  "stories": 2,
+  "siding": "vinyl",
+  "windows": "average",
+  "gutters": "yes",
+  "condition": "average",
+  "confidence": 0.8
+}
+`;
+
+const EQUIPMENT_PROMPT = `
+You are helping an HVAC load calculation and replacement sizing tool.
+
+You are given one or more images. At least one image is a CLOSE-UP of an HVAC furnace data label. Other images may show the whole furnace, flue, or surrounding equipment.
+
+Your job:
+- Find the clearest label image(s).
+- Read the text on the label carefully.
+- Use wide shots ONLY to understand vent type (metal B-vent vs PVC) and general furnace style.
+
+From these images, extract as much as you can of the following. If you cannot find a field, set it to null or "unknown" as appropriate.
+
+Return ONLY JSON like this:
+
+{
+  "equipmentType": "furnace",
+  "manufacturer": "Trane",
+  "modelNumber": "AUD2B080A9V3VBA",
+  "serialNumber": "123745N3G1G",
+  "nominalTonnage": null,
+  "inputBTUH": 80000,
+  "outputBTUH": null,
+  "seer": null,
+  "seer2": null,
+  "hspf": null,
+  "hspf2": null,
+  "afue": 80,
+  "refrigerant": null,
+  "heatStripKW": null,
+  "manufactureYear": 2012,
+  "stages": "two-stage",
+  "ventType": "metal_flue",
+  "afueSource": "label",
+  "fieldConfidence": { "modelNumber": 0.95, "serialNumber": 0.9, "inputBTUH": 0.9, "afue": 0.5 }
+}
+
+/* Field definitions:
+
+- equipmentType: one of "furnace", "air_handler", "heat_pump", "ac_condenser", "package_unit", "other"
+- manufacturer: brand name if visible (e.g. Trane, American Standard, Goodman, Carrier, Rheem, etc.)
+- modelNumber, serialNumber: exact strings from the label
+- nominalTonnage: cooling tonnage (e.g. 2.5, 3, 4) if can be inferred
+- inputBTUH, outputBTUH: furnace only, if visible
+- seer, seer2, hspf, hspf2, afue: efficiency ratings if visible (null if not seen clearly)
+- refrigerant: e.g. "R-410A", "R-32", "R-454B", etc. (often not applicable for straight gas furnace)
+- heatStripKW: for electric heat strips (air handler / package), if visible
+- manufactureYear: a 4-digit year, inferred from the label/serial pattern if possible
+- stages: "single", "two-stage", "variable", or "unknown"
+- fieldConfidence: for each field you filled in, how sure you are from 0 to 1 (e.g. a crisp label read is 0.9+, a partly obscured digit 0.5)
+
+- ventType:
+  - "metal_flue" if the furnace vents with metal/B-vent.
+  - "pvc" if the furnace vents with PVC pipes.
+  - "mixed" if both metal and PVC are part of the furnace venting.
+  - "unknown" if you cannot tell.
+
+- afueSource:
+  - "label" if AFUE was clearly read from a rating label.
+  - "inferred" if AFUE was inferred from model or other clues.
+  - "model_lookup" if AFUE came from a known model number → AFUE table.
+  - "unknown" if AFUE is unclear.
+
+Be conservative:
+- Prefer accurate "unknown" over a wrong number.
+- If venting looks like an 80% furnace (metal flue only) but the AFUE on the label is not readable, it's okay to leave "afue": null. A separate model lookup step may fill it in.
+*/
+`;
+
+function toDataUrl(image: VisionImage): string {
+  return `data:${image.mimeType};base64,${image.base64}`;
+}
+
+function outputText(output: unknown[]): string | null {
+  const item = output[0] as OutputItem | undefined;
+  if (item?.content && item.content[0]?.type === "output_text") {
+    return item.content[0].text;
+  }
+  return null;
+}
+
+export const openaiVisionProvider: VisionProvider = {
+  name: "openai",
+
+  async analyzeExterior({ image, repairPrompt }: ExteriorVisionInput) {
+    const response = await getOpenAIClient().responses.create({
+      model: "gpt-4.1-mini",
+      input: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "input_text",
+              text: EXTERIOR_PROMPT + (repairPrompt ?? ""),
+            },
+            {
+              type: "input_image",
+              image_url: toDataUrl(image),
+              detail: "high",
+            },
+          ],
+        },
+      ],
+    });
+    return outputText(response.output);
+  },
+
+  async analyzeEquipmentLabel({ images, repairPrompt }: EquipmentVisionInput) {
+    const response = await getOpenAIClient().responses.create({
+      model: "gpt-4.1",
+      input: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "input_text",
+              text: EQUIPMENT_PROMPT + (repairPrompt ?? ""),
+            },
+            ...images.map((image) => ({
+              type: "input_image" as const,
+              image_url: toDataUrl(image),
+              detail: "high" as const,
+            })),
+          ],
+        },
+      ],
+    });
+    return outputText(response.output);
+  },
+};
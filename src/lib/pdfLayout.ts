@@ -0,0 +1,464 @@
+// src/lib/pdfLayout.ts
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, rgb } from "pdf-lib";
+
+// US letter, in points.
+export const LETTER_SIZE: [number, number] = [612, 792];
+
+export interface LayoutFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+export interface LayoutOptions {
+  pageSize?: [number, number];
+  margin?: number;
+  accent?: RGB;
+  // Space kept free at the bottom of every page for the footer.
+  footerHeight?: number;
+}
+
+export interface TableColumn {
+  header: string;
+  // Share of the content width; shares should add up to 1.
+  width: number;
+  align?: "left" | "right";
+}
+
+export interface ImageItem {
+  image: PDFImage;
+  caption: string;
+}
+
+const TEXT = rgb(0.1, 0.1, 0.12);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.82, 0.84, 0.87);
+const ZEBRA = rgb(0.96, 0.97, 0.98);
+
+// Standard fonts only encode WinAnsi; swap the symbols our notes use.
+const PDF_TEXT_REPLACEMENTS: Record<string, string> = {
+  "Δ": "delta ",
+  "→": "->",
+  "−": "-",
+  "≈": "~",
+  "≥": ">=",
+  "≤": "<=",
+  "✓": "OK",
+};
+
+const WIN_ANSI_EXTRAS = new Set(
+  "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ".split("")
+);
+
+/**
+ * Text the standard Helvetica fonts can draw: known symbols are spelled
+ * out, anything else outside WinAnsi becomes "?".
+ */
+export function toPdfText(value: unknown): string {
+  const text = value === null || value === undefined ? "N/A" : String(value);
+  let out = "";
+  for (const ch of text.replace(/\s+/g, " ")) {
+    if (PDF_TEXT_REPLACEMENTS[ch] !== undefined) {
+      out += PDF_TEXT_REPLACEMENTS[ch];
+      continue;
+    }
+    const code = ch.codePointAt(0) ?? 0;
+    const isLatin1 = code >= 0x20 && code <= 0xff && (code < 0x7f || code > 0x9f);
+    out += isLatin1 || WIN_ANSI_EXTRAS.has(ch) ? ch : "?";
+  }
+  return out;
+}
+
+/**
+ * Greedy word wrap; words longer than the line are broken by character.
+ */
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  const fits = (candidate: string) =>
+    font.widthOfTextAtSize(candidate, size) <= maxWidth;
+
+  for (const word of toPdfText(text).split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (fits(candidate)) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    line = "";
+    for (const ch of word) {
+      if (line && !fits(line + ch)) {
+        lines.push(line);
+        line = "";
+      }
+      line += ch;
+    }
+  }
+  if (line || lines.length === 0) lines.push(line);
+  return lines;
+}
+
+/**
+ * A top-to-bottom writer over as many pages as the content needs: every
+ * block checks the space left and starts a new page when it runs out.
+ */
+export function createReportLayout(
+  pdf: PDFDocument,
+  fonts: LayoutFonts,
+  options: LayoutOptions = {}
+) {
+  const [pageWidth, pageHeight] = options.pageSize ?? LETTER_SIZE;
+  const margin = options.margin ?? 48;
+  const accent = options.accent ?? rgb(0.13, 0.77, 0.37);
+  const bottom = margin + (options.footerHeight ?? 24);
+  const contentWidth = pageWidth - margin * 2;
+
+  let page: PDFPage = pdf.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - margin;
+
+  function newPage() {
+    page = pdf.addPage([pageWidth, pageHeight]);
+    y = pageHeight - margin;
+  }
+
+  function ensureSpace(height: number) {
+    if (y - height < bottom) newPage();
+  }
+
+  function drawLines(
+    lines: string[],
+    x: number,
+    font: PDFFont,
+    size: number,
+    color: RGB
+  ) {
+    const lineHeight = size * 1.35;
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      page.drawText(line, { x, y: y - size, size, font, color });
+      y -= lineHeight;
+    }
+  }
+
+  function paragraph(
+    text: string,
+    opts: { size?: number; bold?: boolean; color?: RGB; indent?: number } = {}
+  ) {
+    const size = opts.size ?? 10;
+    const font = opts.bold ? fonts.bold : fonts.regular;
+    const indent = opts.indent ?? 0;
+    drawLines(
+      wrapText(text, font, size, contentWidth - indent),
+      margin + indent,
+      font,
+      size,
+      opts.color ?? TEXT
+    );
+  }
+
+  function spacer(height = 8) {
+    y -= height;
+  }
+
+  function title(text: string) {
+    paragraph(text, { size: 18, bold: true, color: accent });
+    spacer(4);
+  }
+
+  function section(text: string) {
+    // Keep the heading with at least a couple of lines under it.
+    ensureSpace(48);
+    spacer(6);
+    paragraph(text, { size: 13, bold: true });
+    page.drawLine({
+      start: { x: margin, y: y + 2 },
+      end: { x: margin + contentWidth, y: y + 2 },
+      thickness: 1,
+      color: accent,
+    });
+    spacer(6);
+  }
+
+  function subheading(text: string) {
+    ensureSpace(36);
+    spacer(2);
+    paragraph(text, { size: 10.5, bold: true });
+  }
+
+  /**
+   * "Label: value", with the value wrapping under itself.
+   */
+  function keyValue(label: string, value: unknown) {
+    const size = 10;
+    const labelText = `${toPdfText(label)}: `;
+    const labelWidth = Math.min(
+      fonts.bold.widthOfTextAtSize(labelText, size),
+      contentWidth * 0.45
+    );
+    const lines = wrapText(
+      toPdfText(value),
+      fonts.regular,
+      size,
+      contentWidth - labelWidth
+    );
+    const lineHeight = size * 1.35;
+
+    ensureSpace(lineHeight);
+    page.drawText(labelText, {
+      x: margin,
+      y: y - size,
+      size,
+      font: fonts.bold,
+      color: TEXT,
+    });
+    lines.forEach((line, i) => {
+      if (i > 0) ensureSpace(lineHeight);
+      page.drawText(line, {
+        x: margin + labelWidth,
+        y: y - size,
+        size,
+        font: fonts.regular,
+        color: TEXT,
+      });
+      y -= lineHeight;
+    });
+  }
+
+  function bullets(items: string[], opts: { color?: RGB } = {}) {
+    const size = 10;
+    const indent = 12;
+    for (const item of items) {
+      const lines = wrapText(item, fonts.regular, size, contentWidth - indent);
+      ensureSpace(size * 1.35);
+      page.drawText("•", {
+        x: margin + 2,
+        y: y - size,
+        size,
+        font: fonts.regular,
+        color: opts.color ?? TEXT,
+      });
+      drawLines(lines, margin + indent, fonts.regular, size, opts.color ?? TEXT);
+    }
+  }
+
+  function note(text: string) {
+    paragraph(text, { size: 9, color: MUTED });
+  }
+
+  /**
+   * Wrapped cells, zebra rows; the header row repeats on each new page.
+   */
+  function table(columns: TableColumn[], rows: string[][]) {
+    const size = 9;
+    const lineHeight = size * 1.35;
+    const padding = 4;
+    const widths = columns.map((c) => c.width * contentWidth);
+
+    const layoutRow = (cells: string[], font: PDFFont) => {
+      const cellLines = cells.map((cell, i) =>
+        wrapText(cell, font, size, widths[i] - padding * 2)
+      );
+      const height =
+        Math.max(...cellLines.map((lines) => lines.length)) * lineHeight +
+        padding * 2;
+      return { cellLines, height };
+    };
+
+    const drawRow = (
+      cells: string[],
+      font: PDFFont,
+      fill: RGB | null,
+      color: RGB
+    ) => {
+      const { cellLines, height } = layoutRow(cells, font);
+      if (fill) {
+        page.drawRectangle({
+          x: margin,
+          y: y - height,
+          width: contentWidth,
+          height,
+          color: fill,
+        });
+      }
+      let x = margin;
+      cellLines.forEach((lines, i) => {
+        lines.forEach((line, j) => {
+          const lineWidth = font.widthOfTextAtSize(line, size);
+          const textX =
+            columns[i].align === "right"
+              ? x + widths[i] - padding - lineWidth
+              : x + padding;
+          page.drawText(line, {
+            x: textX,
+            y: y - padding - size - j * lineHeight,
+            size,
+            font,
+            color,
+          });
+        });
+        x += widths[i];
+      });
+      y -= height;
+    };
+
+    const header = columns.map((c) => c.header);
+    const headerHeight = layoutRow(header, fonts.bold).height;
+    const drawHeader = () => {
+      drawRow(header, fonts.bold, null, MUTED);
+      page.drawLine({
+        start: { x: margin, y },
+        end: { x: margin + contentWidth, y },
+        thickness: 0.75,
+        color: RULE,
+      });
+    };
+
+    ensureSpace(headerHeight + (rows[0] ? layoutRow(rows[0], fonts.regular).height : 0));
+    drawHeader();
+    rows.forEach((row, i) => {
+      const { height } = layoutRow(row, fonts.regular);
+      if (y - height < bottom) {
+        newPage();
+        drawHeader();
+      }
+      drawRow(row, fonts.regular, i % 2 === 1 ? ZEBRA : null, TEXT);
+    });
+    spacer(6);
+  }
+
+  /**
+   * Photos in a grid, scaled to fit their cell, caption under each.
+   */
+  function imageGrid(items: ImageItem[], columnsPerRow = 2) {
+    const gap = 12;
+    const cellWidth = (contentWidth - gap * (columnsPerRow - 1)) / columnsPerRow;
+    const maxImageHeight = cellWidth * 0.75;
+    const captionSize = 8.5;
+
+    for (let start = 0; start < items.length; start += columnsPerRow) {
+      const row = items.slice(start, start + columnsPerRow);
+      const scaled = row.map(({ image }) => {
+        const scale = Math.min(
+          cellWidth / image.width,
+          maxImageHeight / image.height,
+          1
+        );
+        return { width: image.width * scale, height: image.height * scale };
+      });
+      const rowHeight =
+        Math.max(...scaled.map((s) => s.height)) + captionSize * 2.5 + gap;
+
+      ensureSpace(rowHeight);
+      row.forEach((item, i) => {
+        const x = margin + i * (cellWidth + gap);
+        const { width, height } = scaled[i];
+        page.drawImage(item.image, { x, y: y - height, width, height });
+        const caption = wrapText(
+          item.caption,
+          fonts.regular,
+          captionSize,
+          cellWidth
+        )[0];
+        page.drawText(caption, {
+          x,
+          y: y - height - captionSize * 1.5,
+          size: captionSize,
+          font: fonts.regular,
+          color: MUTED,
+        });
+      });
+      y -= rowHeight;
+    }
+  }
+
+  /**
+   * Blank lines to sign on, two per row, each labelled underneath
+   * (e.g. "Customer signature", "Date").
+   */
+  function signatureLines(labels: string[]) {
+    const gap = 24;
+    const lineWidth = (contentWidth - gap) / 2;
+    const rowHeight = 52;
+
+    for (let start = 0; start < labels.length; start += 2) {
+      ensureSpace(rowHeight);
+      labels.slice(start, start + 2).forEach((label, i) => {
+        const x = margin + i * (lineWidth + gap);
+        const lineY = y - 30;
+        page.drawLine({
+          start: { x, y: lineY },
+          end: { x: x + lineWidth, y: lineY },
+          thickness: 0.75,
+          color: TEXT,
+        });
+        page.drawText(toPdfText(label), {
+          x,
+          y: lineY - 12,
+          size: 8.5,
+          font: fonts.regular,
+          color: MUTED,
+        });
+      });
+      y -= rowHeight;
+    }
+  }
+
+  /**
+   * Draws at an absolute spot on the current page (e.g. a logo) and
+   * moves the cursor below it.
+   */
+  function block(height: number, draw: (page: PDFPage, top: number) => void) {
+    ensureSpace(height);
+    draw(page, y);
+    y -= height;
+  }
+
+  /**
+   * Footer text on every page, e.g. "Company · Page 2 of 4".
+   */
+  function finish(footer: (pageNumber: number, pageCount: number) => string) {
+    const pages = pdf.getPages();
+    pages.forEach((p, i) => {
+      p.drawLine({
+        start: { x: margin, y: margin + 12 },
+        end: { x: pageWidth - margin, y: margin + 12 },
+        thickness: 0.5,
+        color: RULE,
+      });
+      p.drawText(toPdfText(footer(i + 1, pages.length)), {
+        x: margin,
+        y: margin,
+        size: 8,
+        font: fonts.regular,
+        color: MUTED,
+      });
+    });
+  }
+
+  return {
+    contentWidth,
+    margin,
+    accent,
+    paragraph,
+    spacer,
+    title,
+    section,
+    subheading,
+    keyValue,
+    bullets,
+    note,
+    table,
+    imageGrid,
+    signatureLines,
+    block,
+    finish,
+  };
+}
+
+export type ReportLayout = ReturnType<typeof createReportLayout>;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { runLoadCalc } from "@/lib/loadCalc";
+import type { LoadCalcInput } from "@/lib/loadCalc";
+import { selectEquipment } from "@/lib/equipmentSelection";
+import { buildProposalOptions } from "@/lib/proposal";
+
+const HOUSE: LoadCalcInput = {
+  sqft: 1600,
+  stories: 1,
+  windows: "average",
+  orientation: "unknown",
+  insulation: "average",
+  siding: "vinyl",
+  designDeltaT: 20,
+  indoorRH: 50,
+  grainsDifference: 30,
+};
+
+function optionsFor(input: LoadCalcInput) {
+  const load = runLoadCalc(input);
+  const matches = selectEquipment(load, {
+    maxResults: Number.POSITIVE_INFINITY,
+  });
+  return { matches, options: buildProposalOptions(load, matches) };
+}
+
+describe("buildProposalOptions", () => {
+  it("offers only systems inside the Manual S limits", () => {
+    const { options } = optionsFor(HOUSE);
+    expect(options.length).toBeGreaterThan(0);
+    expect(options.every((o) => o.match.withinManualS)).toBe(true);
+  });
+
+  it("offers nothing when no catalog system fits the load", () => {
+    const { matches, options } = optionsFor({
+      ...HOUSE,
+      sqft: 9000,
+      insulation: "poor",
+      designDeltaT: 30,
+    });
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches.some((m) => m.withinManualS)).toBe(false);
+    expect(options).toEqual([]);
+  });
+});
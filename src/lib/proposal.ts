@@ -0,0 +1,266 @@
+// src/lib/proposal.ts
+import pricingData from "@/data/proposalPricing.json";
+import type { LoadCalcResult } from "@/lib/loadCalc";
+import type { CatalogSystem, EquipmentMatch } from "@/lib/equipmentSelection";
+import { brandWarrantyRule } from "@/lib/warranty";
+
+export type ProposalTier = "good" | "better" | "best";
+
+/**
+ * Price book and operating-cost assumptions from
+ * src/data/proposalPricing.json. Installed price is
+ * base + perTon × tons + perSeer2PointPerTon × (SEER2 − baseline) × tons
+ * (+ heatPumpAdder), unless the catalog id has a price override.
+ */
+export interface ProposalPricing {
+  proposalValidDays: number;
+  tiers: Record<ProposalTier, { label: string; laborWarrantyYears: number }>;
+  installedPrice: {
+    base: number;
+    perTon: number;
+    perSeer2PointPerTon: number;
+    baselineSeer2: number;
+    heatPumpAdder: number;
+    roundTo: number;
+  };
+  priceOverrides: Record<string, number>;
+  financing: {
+    aprPercent: number;
+    termMonths: number;
+  };
+  energy: {
+    electricRatePerKWh: number;
+    gasRatePerTherm: number;
+    // Equivalent full-load hours per season
+    coolingFullLoadHours: number;
+    heatingFullLoadHours: number;
+  };
+}
+
+export interface OperatingCost {
+  coolingKWh: number;
+  coolingUSD: number;
+  heatingFuel: "gas" | "electric" | null;
+  // kWh for a heat pump, therms for a furnace
+  heatingUnits: number | null;
+  heatingUSD: number | null;
+  totalUSD: number;
+}
+
+export interface ProposalWarranty {
+  // null = limited lifetime
+  partsYears: number | null;
+  compressorYears: number | null;
+  // Only for systems with a furnace
+  heatExchangerYears?: number | null;
+  laborYears: number;
+  registrationWindowDays: number;
+}
+
+export interface ProposalOption {
+  tier: ProposalTier;
+  label: string;
+  match: EquipmentMatch;
+  priceUSD: number;
+  operatingCost: OperatingCost;
+  financing: {
+    monthlyPaymentUSD: number;
+    aprPercent: number;
+    termMonths: number;
+  };
+  warranty: ProposalWarranty;
+}
+
+const PRICING = pricingData as ProposalPricing;
+
+const BTU_PER_THERM = 100000;
+
+function roundTo(value: number, step: number): number {
+  return step > 0 ? Math.round(value / step) * step : Math.round(value);
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function installedPrice(
+  system: CatalogSystem,
+  pricing: ProposalPricing = PRICING
+): number {
+  const override = pricing.priceOverrides[system.id];
+  if (override !== undefined) return override;
+
+  const p = pricing.installedPrice;
+  const efficiencyPremium =
+    Math.max(system.seer2 - p.baselineSeer2, 0) *
+    p.perSeer2PointPerTon *
+    system.nominalTons;
+  const price =
+    p.base +
+    p.perTon * system.nominalTons +
+    efficiencyPremium +
+    (system.systemType === "heat_pump" ? p.heatPumpAdder : 0);
+  return roundTo(price, p.roundTo);
+}
+
+/**
+ * Fixed-rate amortized payment; zero APR just splits the principal.
+ */
+export function monthlyPayment(
+  principal: number,
+  aprPercent: number,
+  termMonths: number
+): number {
+  if (termMonths <= 0) return principal;
+  const rate = aprPercent / 100 / 12;
+  if (rate === 0) return cents(principal / termMonths);
+  return cents((principal * rate) / (1 - Math.pow(1 + rate, -termMonths)));
+}
+
+/**
+ * Annual energy cost to carry the calculated loads for the season's
+ * full-load hours at the system's rated efficiency.
+ */
+export function annualOperatingCost(
+  system: CatalogSystem,
+  load: LoadCalcResult,
+  pricing: ProposalPricing = PRICING
+): OperatingCost {
+  const e = pricing.energy;
+
+  // 1) Cooling: BTU / (SEER2 × 1000) = kWh
+  const coolingKWh =
+    (load.totalBTUH * e.coolingFullLoadHours) / (system.seer2 * 1000);
+  const coolingUSD = coolingKWh * e.electricRatePerKWh;
+
+  // 2) Heating: furnace burns gas at AFUE, heat pump runs at HSPF2
+  const heatingBTU = load.heating
+    ? load.heating.requiredBTUH * e.heatingFullLoadHours
+    : null;
+  let heatingFuel: OperatingCost["heatingFuel"] = null;
+  let heatingUnits: number | null = null;
+  let heatingUSD: number | null = null;
+
+  if (heatingBTU !== null && system.afue) {
+    heatingFuel = "gas";
+    heatingUnits = heatingBTU / (system.afue / 100) / BTU_PER_THERM;
+    heatingUSD = heatingUnits * e.gasRatePerTherm;
+  } else if (heatingBTU !== null && system.hspf2) {
+    heatingFuel = "electric";
+    heatingUnits = heatingBTU / (system.hspf2 * 1000);
+    heatingUSD = heatingUnits * e.electricRatePerKWh;
+  }
+
+  return {
+    coolingKWh: Math.round(coolingKWh),
+    coolingUSD: Math.round(coolingUSD),
+    heatingFuel,
+    heatingUnits: heatingUnits === null ? null : Math.round(heatingUnits),
+    heatingUSD: heatingUSD === null ? null : Math.round(heatingUSD),
+    totalUSD: Math.round(coolingUSD + (heatingUSD ?? 0)),
+  };
+}
+
+export function proposalValidUntil(
+  now: Date,
+  pricing: ProposalPricing = PRICING
+): Date {
+  const validUntil = new Date(now);
+  validUntil.setDate(validUntil.getDate() + pricing.proposalValidDays);
+  return validUntil;
+}
+
+/**
+ * The rate and financing assumptions behind the numbers, for the fine
+ * print.
+ */
+export function proposalAssumptions(
+  pricing: ProposalPricing = PRICING
+): string[] {
+  const e = pricing.energy;
+  const f = pricing.financing;
+  return [
+    `Operating cost assumes $${e.electricRatePerKWh.toFixed(2)}/kWh electricity, $${e.gasRatePerTherm.toFixed(2)}/therm gas, ${e.coolingFullLoadHours.toLocaleString("en-US")} cooling and ${e.heatingFullLoadHours.toLocaleString("en-US")} heating full-load hours a year; actual bills depend on weather, thermostat settings and utility rates.`,
+    `Monthly payment assumes ${f.aprPercent}% APR over ${f.termMonths} months with no money down, subject to credit approval.`,
+    "Manufacturer parts and compressor terms require product registration within the stated window.",
+  ];
+}
+
+function proposalWarranty(
+  system: CatalogSystem,
+  laborYears: number
+): ProposalWarranty {
+  const rule = brandWarrantyRule(system.brand);
+  return {
+    partsYears: rule.components.parts.registeredYears,
+    compressorYears: rule.components.compressor.registeredYears,
+    ...(system.furnaceModel
+      ? { heatExchangerYears: rule.components.heat_exchanger.registeredYears }
+      : {}),
+    laborYears,
+    registrationWindowDays: rule.registrationWindowDays,
+  };
+}
+
+/**
+ * Picks good / better / best from ranked equipment matches: the lowest,
+ * middle and highest SEER2 among systems inside the Manual S limits.
+ * Returns two options when only two efficiency levels are available and
+ * none when no system fits, so undersized or oversized equipment is
+ * never quoted as sized to the load.
+ */
+export function buildProposalOptions(
+  load: LoadCalcResult,
+  matches: EquipmentMatch[],
+  pricing: ProposalPricing = PRICING
+): ProposalOption[] {
+  const within = matches.filter((m) => m.withinManualS);
+
+  // 1) Best-ranked system per efficiency level, lowest SEER2 first
+  const byLevel = new Map<number, EquipmentMatch>();
+  for (const match of within) {
+    if (!byLevel.has(match.system.seer2)) byLevel.set(match.system.seer2, match);
+  }
+  const levels = [...byLevel.values()].sort(
+    (a, b) => a.system.seer2 - b.system.seer2
+  );
+  if (levels.length === 0) return [];
+
+  // 2) Tier assignment
+  const picks: [ProposalTier, EquipmentMatch][] =
+    levels.length === 1
+      ? [["better", levels[0]]]
+      : levels.length === 2
+      ? [
+          ["good", levels[0]],
+          ["best", levels[1]],
+        ]
+      : [
+          ["good", levels[0]],
+          ["better", levels[Math.floor((levels.length - 1) / 2)]],
+          ["best", levels[levels.length - 1]],
+        ];
+
+  // 3) Price, running cost, financing and warranty per option
+  return picks.map(([tier, match]) => {
+    const tierConfig = pricing.tiers[tier];
+    const priceUSD = installedPrice(match.system, pricing);
+    return {
+      tier,
+      label: tierConfig.label,
+      match,
+      priceUSD,
+      operatingCost: annualOperatingCost(match.system, load, pricing),
+      financing: {
+        monthlyPaymentUSD: monthlyPayment(
+          priceUSD,
+          pricing.financing.aprPercent,
+          pricing.financing.termMonths
+        ),
+        aprPercent: pricing.financing.aprPercent,
+        termMonths: pricing.financing.termMonths,
+      },
+      warranty: proposalWarranty(match.system, tierConfig.laborWarrantyYears),
+    };
+  });
+}
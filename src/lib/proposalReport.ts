@@ -0,0 +1,223 @@
+// src/lib/proposalReport.ts
+import type { Branding, BrandLogo } from "@/lib/branding";
+import {
+  EquipmentSelectionOptions,
+  selectEquipment,
+} from "@/lib/equipmentSelection";
+import type { LoadCalcResult } from "@/lib/loadCalc";
+import type { ReportLayout } from "@/lib/pdfLayout";
+import {
+  JobReportData,
+  brandFooter,
+  btuh,
+  createBrandedDocument,
+  formatReportDate,
+} from "@/lib/jobReport";
+import {
+  ProposalOption,
+  ProposalWarranty,
+  buildProposalOptions,
+  proposalAssumptions,
+  proposalValidUntil,
+} from "@/lib/proposal";
+
+function usd(value: number, decimals = 0): string {
+  return `$${value.toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  })}`;
+}
+
+function years(value: number | null): string {
+  return value === null ? "lifetime" : `${value} yr`;
+}
+
+function systemName(option: ProposalOption): string {
+  const { system } = option.match;
+  const kind = system.systemType === "heat_pump" ? "heat pump" : "AC + furnace";
+  return `${system.brand} ${system.nominalTons} ton ${kind}`;
+}
+
+function heatingEfficiency(option: ProposalOption): string {
+  const { system } = option.match;
+  if (system.afue) return `${system.afue}% AFUE`;
+  if (system.hspf2) return `${system.hspf2} HSPF2`;
+  return "-";
+}
+
+function warrantyLines(w: ProposalWarranty): string[] {
+  return [
+    `Parts: ${years(w.partsYears)}`,
+    `Compressor: ${years(w.compressorYears)}`,
+    ...(w.heatExchangerYears !== undefined
+      ? [`Heat exchanger: ${years(w.heatExchangerYears)}`]
+      : []),
+    `Labor: ${years(w.laborYears)}`,
+  ];
+}
+
+// ---------- SECTIONS ----------
+
+function writeHomeLoad(layout: ReportLayout, loadCalc: LoadCalcResult) {
+  layout.section("Your Home");
+  const heating = loadCalc.heating
+    ? ` and ${btuh(loadCalc.heating.requiredBTUH)} of heating on the coldest design day`
+    : "";
+  layout.paragraph(
+    `A heat gain / heat loss calculation for your home shows it needs about ${loadCalc.recommendedTonnage.toFixed(
+      1
+    )} tons of cooling (${btuh(loadCalc.totalBTUH)})${heating}. Every option below is sized to that load, not to the size of the system you have today.`
+  );
+  layout.spacer(4);
+}
+
+function writeOptionTable(layout: ReportLayout, options: ProposalOption[]) {
+  const optionWidth = 0.74 / options.length;
+  const row = (label: string, cell: (o: ProposalOption) => string) => [
+    label,
+    ...options.map(cell),
+  ];
+
+  layout.section("Your Options");
+  layout.table(
+    [
+      { header: "", width: 0.26 },
+      ...options.map((o) => ({ header: o.label, width: optionWidth })),
+    ],
+    [
+      row("System", systemName),
+      row("Cooling efficiency", (o) => `${o.match.system.seer2} SEER2`),
+      row("Heating efficiency", heatingEfficiency),
+      row(
+        "Capacity",
+        (o) => `${btuh(o.match.totalCapacityBTUH)} (${o.match.totalPercent}% of load)`
+      ),
+      row("Est. annual operating cost", (o) => usd(o.operatingCost.totalUSD)),
+      row("Installed price", (o) => usd(o.priceUSD)),
+      row(
+        "Financing",
+        (o) => `${usd(o.financing.monthlyPaymentUSD, 2)}/mo for ${o.financing.termMonths} mo`
+      ),
+      row("Warranty", (o) => warrantyLines(o.warranty).join(", ")),
+    ]
+  );
+}
+
+function writeOptionDetails(layout: ReportLayout, option: ProposalOption) {
+  const { system } = option.match;
+  const cost = option.operatingCost;
+
+  layout.subheading(`${option.label}: ${systemName(option)}`);
+
+  const equipment = [
+    `Outdoor unit ${system.condenserModel}, coil ${system.coilModel}`,
+    system.furnaceModel ? `Furnace ${system.furnaceModel}` : null,
+    system.airHandlerModel ? `Air handler ${system.airHandlerModel}` : null,
+  ].filter((line): line is string => line !== null);
+
+  const heatingCost =
+    cost.heatingUSD !== null && cost.heatingUnits !== null
+      ? `, heating ${usd(cost.heatingUSD)} (${cost.heatingUnits.toLocaleString(
+          "en-US"
+        )} ${cost.heatingFuel === "gas" ? "therms" : "kWh"})`
+      : "";
+
+  layout.bullets([
+    ...equipment,
+    `Efficiency: ${system.seer2} SEER2 / ${system.eer2} EER2, ${heatingEfficiency(option)}`,
+    `Est. annual operating cost ${usd(cost.totalUSD)}: cooling ${usd(
+      cost.coolingUSD
+    )} (${cost.coolingKWh.toLocaleString("en-US")} kWh)${heatingCost}`,
+    `Installed price ${usd(option.priceUSD)}, or ${usd(
+      option.financing.monthlyPaymentUSD,
+      2
+    )}/month for ${option.financing.termMonths} months at ${option.financing.aprPercent}% APR`,
+    `Warranty: ${warrantyLines(option.warranty).join(", ")}; register within ${
+      option.warranty.registrationWindowDays
+    } days of install`,
+  ]);
+  layout.spacer(4);
+}
+
+function writeAcceptance(layout: ReportLayout, options: ProposalOption[]) {
+  layout.section("Acceptance");
+  layout.paragraph(
+    `Selected option: ${options.map((o) => `[ ] ${o.label}`).join(" ")}`
+  );
+  layout.spacer(4);
+  layout.paragraph(
+    "By signing below you authorize the work for the selected option at the price shown."
+  );
+  layout.signatureLines([
+    "Customer signature",
+    "Date",
+    "Company representative",
+    "Date",
+  ]);
+}
+
+// ---------- PROPOSAL ----------
+
+/**
+ * Customer-facing proposal: good / better / best options sized from the
+ * load calc, each with efficiency, running cost, price, financing and
+ * warranty, ending in a signature block. Options are picked here from
+ * the catalog and price book, never taken from the posted summary.
+ */
+export async function buildProposal(
+  data: JobReportData,
+  branding: Branding,
+  logo: BrandLogo | null,
+  selection: EquipmentSelectionOptions = {},
+  now: Date = new Date()
+): Promise<Uint8Array> {
+  // Only systems inside the Manual S limits are presented as sized.
+  const options = data.loadCalc
+    ? buildProposalOptions(
+        data.loadCalc,
+        selectEquipment(data.loadCalc, {
+          ...selection,
+          maxResults: Number.POSITIVE_INFINITY,
+        })
+      )
+    : [];
+
+  // 1) Branding + customer header
+  const { pdf, layout } = await createBrandedDocument(
+    `${branding.companyName} – Proposal – ${data.address}`,
+    branding,
+    logo
+  );
+  layout.title("Home Comfort Proposal");
+  layout.keyValue("Prepared for", data.address);
+  layout.keyValue("Prepared", formatReportDate(now));
+  layout.keyValue("Valid until", formatReportDate(proposalValidUntil(now)));
+  if (data.jobId) layout.keyValue("Proposal #", data.jobId.slice(0, 8).toUpperCase());
+
+  // 2) Load + options
+  if (!data.loadCalc) {
+    layout.spacer(8);
+    layout.note(
+      "No equipment options yet: run the load calc before preparing a proposal."
+    );
+  } else if (options.length === 0) {
+    layout.spacer(8);
+    layout.note(
+      "No catalog system fits this home's load within the Manual S sizing limits; your technician will follow up with options."
+    );
+  } else {
+    writeHomeLoad(layout, data.loadCalc);
+    writeOptionTable(layout, options);
+    layout.section("Option Details");
+    options.forEach((option) => writeOptionDetails(layout, option));
+
+    layout.spacer(4);
+    proposalAssumptions().forEach((line) => layout.note(line));
+
+    // 3) Signature block
+    writeAcceptance(layout, options);
+  }
+
+  layout.finish(brandFooter(branding));
+  return pdf.save();
+}
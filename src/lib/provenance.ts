@@ -0,0 +1,96 @@
+// src/lib/provenance.ts
+
+export type FieldSource =
+  | "ai"
+  | "model_lookup"
+  | "serial_decode"
+  | "user_confirmed"
+  | "default";
+
+/**
+ * Where one analyzed value came from and how much to trust it (0–1).
+ */
+export interface FieldProvenance {
+  value: unknown;
+  confidence: number;
+  source: FieldSource;
+}
+
+export type ProvenanceMap = Record<string, FieldProvenance>;
+
+// Fields below this confidence are flagged for the tech to confirm.
+export const WEAK_CONFIDENCE = 0.75;
+
+// Confidence assumed for each source when nothing more specific is known.
+export const SOURCE_CONFIDENCE: Record<FieldSource, number> = {
+  ai: 0.8,
+  model_lookup: 0.9,
+  serial_decode: 0.95,
+  user_confirmed: 1,
+  default: 0,
+};
+
+const SOURCE_LABELS: Record<FieldSource, string> = {
+  ai: "AI photo read",
+  model_lookup: "model number decode",
+  serial_decode: "serial number decode",
+  user_confirmed: "confirmed by tech",
+  default: "default / not read",
+};
+
+export function describeSource(source: FieldSource): string {
+  return SOURCE_LABELS[source];
+}
+
+export function isBlankValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    value === "unknown" ||
+    value === "unclear"
+  );
+}
+
+/**
+ * Provenance for a field: blank values are always "default" with zero
+ * confidence, whatever source was claimed.
+ */
+export function provenanceFor(
+  value: unknown,
+  source: FieldSource,
+  confidence: number = SOURCE_CONFIDENCE[source]
+): FieldProvenance {
+  if (isBlankValue(value)) {
+    return { value: value ?? null, confidence: 0, source: "default" };
+  }
+  return {
+    value,
+    confidence: Math.round(confidence * 100) / 100,
+    source,
+  };
+}
+
+export function isWeak(provenance: FieldProvenance | undefined): boolean {
+  return !provenance || provenance.confidence < WEAK_CONFIDENCE;
+}
+
+export function weakFields(map: ProvenanceMap | undefined): string[] {
+  if (!map) return [];
+  return Object.keys(map).filter((field) => isWeak(map[field]));
+}
+
+/**
+ * "2 (AI photo read, 85%)" – used in the PDF so every number states
+ * its origin.
+ */
+export function formatWithSource(
+  value: unknown,
+  provenance: FieldProvenance | undefined
+): string {
+  const text = value === null || value === undefined ? "N/A" : String(value);
+  if (!provenance) return text;
+  return `${text} (${describeSource(provenance.source)}, ${Math.round(
+    provenance.confidence * 100
+  )}%)`;
+}
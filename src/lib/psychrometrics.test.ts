@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  atmosphericPressureKPa,
+  computeLatentLoad,
+  humidityRatioFromRH,
+  humidityRatioFromWetBulb,
+  latentAirFactor,
+  toGrains,
+} from "@/lib/psychrometrics";
+
+// Within a grain or two of the chart.
+function expectGrainsNear(grains: number, chart: number) {
+  expect(Math.abs(grains - chart)).toBeLessThan(1.5);
+}
+
+describe("humidity ratio", () => {
+  // ASHRAE chart values at sea level.
+  it("matches the chart for 75°F / 50% RH (~65 grains)", () => {
+    expectGrainsNear(toGrains(humidityRatioFromRH(75, 50)), 65);
+  });
+
+  it("matches the chart for 95°F DB / 75°F WB (~99 grains)", () => {
+    expectGrainsNear(toGrains(humidityRatioFromWetBulb(95, 75)), 99);
+  });
+
+  it("treats a wet-bulb at the dry-bulb as saturated", () => {
+    expect(humidityRatioFromWetBulb(80, 85)).toBeCloseTo(
+      humidityRatioFromRH(80, 100),
+      6
+    );
+  });
+
+  it("holds more moisture per pound of air at altitude", () => {
+    expect(atmosphericPressureKPa(0)).toBeCloseTo(101.325, 3);
+    expect(atmosphericPressureKPa(5280)).toBeCloseTo(83.4, 1);
+    expect(humidityRatioFromRH(75, 50, 5280)).toBeGreaterThan(
+      humidityRatioFromRH(75, 50)
+    );
+  });
+});
+
+describe("computeLatentLoad", () => {
+  it("adds grains × 0.68 × CFM for outdoor air, plus people and moisture", () => {
+    const latent = computeLatentLoad({
+      grainsDifference: 30,
+      infiltrationCFM: 100,
+      ventilationCFM: 50,
+      occupants: 4,
+      internalLatentBTUH: 200,
+    });
+    expect(latent).toEqual({
+      infiltrationBTUH: 2040,
+      ventilationBTUH: 1020,
+      occupantBTUH: 920,
+      internalBTUH: 200,
+      totalBTUH: 4180,
+    });
+  });
+
+  it("takes nothing from outdoor air drier than indoors", () => {
+    const latent = computeLatentLoad({
+      grainsDifference: -15,
+      infiltrationCFM: 100,
+      ventilationCFM: 50,
+      occupants: 2,
+    });
+    expect(latent.infiltrationBTUH).toBe(0);
+    expect(latent.ventilationBTUH).toBe(0);
+    expect(latent.totalBTUH).toBe(460);
+  });
+
+  it("scales the air factor down with air density", () => {
+    expect(latentAirFactor()).toBe(0.68);
+    expect(latentAirFactor(5280)).toBeCloseTo(0.56, 2);
+    const latent = computeLatentLoad({
+      grainsDifference: 30,
+      infiltrationCFM: 100,
+      ventilationCFM: 0,
+      occupants: 0,
+      elevationFt: 5280,
+    });
+    expect(latent.infiltrationBTUH).toBe(Math.round(latentAirFactor(5280) * 3000));
+  });
+});
@@ -0,0 +1,120 @@
+// src/lib/psychrometrics.ts
+
+// Moist-air helpers in IP units (°F, grains of moisture per lb dry air).
+// Good to a grain or two over the range HVAC design conditions cover.
+
+export const GRAINS_PER_LB = 7000;
+
+function fToC(tempF: number): number {
+  return ((tempF - 32) * 5) / 9;
+}
+
+/**
+ * Standard atmospheric pressure (kPa) at a site elevation.
+ */
+export function atmosphericPressureKPa(elevationFt: number): number {
+  const elevationM = elevationFt * 0.3048;
+  return 101.325 * Math.pow(1 - 2.25577e-5 * elevationM, 5.2559);
+}
+
+// Saturation vapor pressure (kPa), Magnus form.
+function saturationPressureKPa(tempC: number): number {
+  return 0.61094 * Math.exp((17.625 * tempC) / (tempC + 243.04));
+}
+
+function humidityRatioFromVaporPressure(pw: number, pressure: number): number {
+  return (0.621945 * pw) / (pressure - pw);
+}
+
+/**
+ * Humidity ratio (lb/lb) from dry-bulb and relative humidity (0–100).
+ */
+export function humidityRatioFromRH(
+  dryBulbF: number,
+  rhPercent: number,
+  elevationFt = 0
+): number {
+  const pressure = atmosphericPressureKPa(elevationFt);
+  const pw = (rhPercent / 100) * saturationPressureKPa(fToC(dryBulbF));
+  return humidityRatioFromVaporPressure(pw, pressure);
+}
+
+/**
+ * Humidity ratio (lb/lb) from dry-bulb and coincident wet-bulb.
+ */
+export function humidityRatioFromWetBulb(
+  dryBulbF: number,
+  wetBulbF: number,
+  elevationFt = 0
+): number {
+  const pressure = atmosphericPressureKPa(elevationFt);
+  const tdb = fToC(dryBulbF);
+  const twb = fToC(Math.min(wetBulbF, dryBulbF));
+  const wsWetBulb = humidityRatioFromVaporPressure(
+    saturationPressureKPa(twb),
+    pressure
+  );
+  const w =
+    ((2501 - 2.326 * twb) * wsWetBulb - 1.006 * (tdb - twb)) /
+    (2501 + 1.86 * tdb - 4.186 * twb);
+  return Math.max(w, 0);
+}
+
+export function toGrains(humidityRatio: number): number {
+  return humidityRatio * GRAINS_PER_LB;
+}
+
+// Manual J occupant latent gain, BTU/h per person.
+export const LATENT_BTUH_PER_OCCUPANT = 230;
+
+export interface LatentLoadInput {
+  grainsDifference: number;
+  infiltrationCFM: number;
+  ventilationCFM: number;
+  occupants: number;
+  // Non-occupant moisture: cooking, aquariums, plants.
+  internalLatentBTUH?: number;
+  elevationFt?: number;
+}
+
+export interface LatentLoadBreakdown {
+  infiltrationBTUH: number;
+  ventilationBTUH: number;
+  occupantBTUH: number;
+  internalBTUH: number;
+  totalBTUH: number;
+}
+
+/**
+ * Latent air factor: 0.68 BTU/h per CFM per grain at sea level,
+ * scaled down with air density at altitude.
+ */
+export function latentAirFactor(elevationFt = 0): number {
+  return 0.68 * (atmosphericPressureKPa(elevationFt) / 101.325);
+}
+
+/**
+ * Latent cooling load: moisture carried in by outdoor air
+ * (CFM × grains difference) plus what the occupants and household
+ * moisture sources give off.
+ * A negative grains difference (dry climates) contributes nothing.
+ */
+export function computeLatentLoad(input: LatentLoadInput): LatentLoadBreakdown {
+  const factor = latentAirFactor(input.elevationFt);
+  const grains = Math.max(input.grainsDifference, 0);
+
+  const infiltrationBTUH = factor * input.infiltrationCFM * grains;
+  const ventilationBTUH = factor * input.ventilationCFM * grains;
+  const occupantBTUH = input.occupants * LATENT_BTUH_PER_OCCUPANT;
+  const internalBTUH = input.internalLatentBTUH ?? 0;
+
+  return {
+    infiltrationBTUH: Math.round(infiltrationBTUH),
+    ventilationBTUH: Math.round(ventilationBTUH),
+    occupantBTUH: Math.round(occupantBTUH),
+    internalBTUH: Math.round(internalBTUH),
+    totalBTUH: Math.round(
+      infiltrationBTUH + ventilationBTUH + occupantBTUH + internalBTUH
+    ),
+  };
+}
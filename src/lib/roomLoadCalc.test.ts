@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { runLoadCalc } from "@/lib/loadCalc";
+import type { LoadCalcInput } from "@/lib/loadCalc";
+import { runRoomLoadCalc } from "@/lib/roomLoadCalc";
+import type { RoomInput } from "@/lib/roomLoadCalc";
+
+const HOUSE: LoadCalcInput = {
+  sqft: 1200,
+  stories: 1,
+  windows: "average",
+  orientation: "unknown",
+  insulation: "average",
+  siding: "vinyl",
+  designDeltaT: 20,
+  indoorRH: 50,
+  grainsDifference: 30,
+  bedrooms: 2,
+  specialLoads: { home_office: 1 },
+  airLeakage: { tightness: "average" },
+  ventilation: { type: "balanced", cfm: 60 },
+};
+
+const ROOMS: RoomInput[] = [
+  {
+    name: "Living room",
+    floorAreaSqFt: 500,
+    exteriorWallLengthFt: 45,
+    ceilingExposure: "attic",
+    windows: { west: { areaSqFt: 60 }, south: { areaSqFt: 30 } },
+  },
+  {
+    name: "Bedroom 1",
+    floorAreaSqFt: 350,
+    exteriorWallLengthFt: 35,
+    ceilingExposure: "attic",
+    windows: { east: { areaSqFt: 24 } },
+  },
+  {
+    name: "Bedroom 2",
+    floorAreaSqFt: 350,
+    exteriorWallLengthFt: 35,
+    ceilingExposure: "attic",
+    windows: { north: { areaSqFt: 24 } },
+  },
+];
+
+describe("runRoomLoadCalc", () => {
+  const whole = runLoadCalc(HOUSE);
+  const result = runRoomLoadCalc({ ...HOUSE, rooms: ROOMS });
+
+  it("uses the whole-house internal gains, leakage and ventilation", () => {
+    expect(result.internalGains).toEqual(whole.internalGains);
+    expect(result.sensible?.internalBTUH).toBe(whole.sensible?.internalBTUH);
+    expect(result.sensible?.ventilationBTUH).toBe(
+      whole.sensible?.ventilationBTUH
+    );
+    expect(result.sensible?.infiltrationBTUH).toBe(
+      whole.sensible?.infiltrationBTUH
+    );
+    expect(result.latent).toEqual(whole.latent);
+  });
+
+  it("adds the rooms up to at least the house block load", () => {
+    const sum = (key: "sensibleBTUH" | "latentBTUH" | "supplyCFM") =>
+      result.rooms.reduce((total, room) => total + room[key], 0);
+    expect(sum("sensibleBTUH")).toBeGreaterThan(result.sensibleBTUH - 3);
+    expect(Math.abs(sum("latentBTUH") - result.latentBTUH)).toBeLessThan(3);
+    expect(Math.abs(sum("supplyCFM") - result.totalSupplyCFM)).toBeLessThan(3);
+    expect(result.totalSupplyCFM).toBe(result.recommendedTonnage * 400);
+  });
+
+  it("takes each room's glass at the room's own peak hour", () => {
+    // East glass dominates the house, so the block load peaks in the
+    // morning; the west room still gets its afternoon peak.
+    const eastHeavy = runRoomLoadCalc({
+      ...HOUSE,
+      rooms: [
+        { ...ROOMS[1], windows: { east: { areaSqFt: 150 } } },
+        { ...ROOMS[2], name: "West bedroom", windows: { west: { areaSqFt: 30 } } },
+      ],
+    });
+    const westAlone = runRoomLoadCalc({
+      ...HOUSE,
+      rooms: [
+        { ...ROOMS[2], name: "West bedroom", windows: { west: { areaSqFt: 30 } } },
+      ],
+    });
+
+    expect(eastHeavy.envelope?.solar?.peakHour).toBe(9);
+    expect(eastHeavy.rooms[1].solarPeakHour).toBe(17);
+    expect(eastHeavy.rooms[1].solarBTUH).toBe(westAlone.rooms[0].solarBTUH);
+    expect(eastHeavy.sensible?.solarBTUH).toBeLessThan(
+      eastHeavy.rooms.reduce((sum, room) => sum + room.solarBTUH, 0)
+    );
+    expect(eastHeavy.notes.join(" ")).toMatch(/West bedroom \(5 pm\)/);
+  });
+
+  it("takes solar per side with shading", () => {
+    expect(result.envelope?.solar?.peakHour).toBeDefined();
+    expect(result.rooms[0].sensibleBTUH).toBeGreaterThan(
+      result.rooms[1].sensibleBTUH
+    );
+
+    const shaded = runRoomLoadCalc({
+      ...HOUSE,
+      rooms: ROOMS.map((room, i) =>
+        i === 0
+          ? {
+              ...room,
+              windows: {
+                west: { areaSqFt: 60, exteriorShading: "heavy" },
+                south: { areaSqFt: 30, overhangDepthFt: 2, windowHeightFt: 5 },
+              },
+            }
+          : room
+      ),
+    });
+    expect(shaded.rooms[0].sensibleBTUH).toBeLessThan(
+      result.rooms[0].sensibleBTUH
+    );
+  });
+
+  it("rejects a room without floor area", () => {
+    expect(() =>
+      runRoomLoadCalc({
+        ...HOUSE,
+        rooms: [{ ...ROOMS[0], floorAreaSqFt: 0 }],
+      })
+    ).toThrow(/floor area/);
+  });
+});
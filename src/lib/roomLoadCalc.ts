@@ -0,0 +1,422 @@
+// src/lib/roomLoadCalc.ts
+import {
+  LoadCalcInput,
+  LoadCalcResult,
+  SensibleLoadBreakdown,
+  estimateCoolingInfiltration,
+  fallbackGrainsDifference,
+  toRecommendedTonnage,
+} from "@/lib/loadCalc";
+import { computeLatentLoad } from "@/lib/psychrometrics";
+import { INDOOR_COOLING_SETPOINT_F } from "@/lib/climate";
+import {
+  computeDuctLoad,
+  describeDuctSystem,
+  resolveDuctSystem,
+} from "@/lib/ductLoss";
+import {
+  EnvelopeComponent,
+  FACINGS,
+  Facing,
+  STORY_HEIGHT_FT,
+  WindowGroupInput,
+  computeCoolingEnvelope,
+  presetAssemblies,
+  presetWallR,
+} from "@/lib/envelope";
+import {
+  computeInternalGains,
+  describeInternalGains,
+} from "@/lib/internalGains";
+import {
+  describeVentilation,
+  resolveVentilation,
+  ventilationFlows,
+} from "@/lib/airLeakage";
+import {
+  DESIGN_HOURS,
+  componentSolarByHour,
+  describeSolarGain,
+  formatSolarHour,
+} from "@/lib/solarGain";
+import { airflowForTonnage } from "@/lib/ductDesign";
+import type { FieldError } from "@/lib/intakeSchemas";
+
+// What sits above the room's ceiling.
+export type CeilingExposure = "attic" | "roof" | "conditioned";
+
+export const CEILING_EXPOSURES: CeilingExposure[] = [
+  "attic",
+  "roof",
+  "conditioned",
+];
+
+export interface RoomInput {
+  name: string;
+  floorAreaSqFt: number;
+  exteriorWallLengthFt: number;
+  // Missing = one story height.
+  ceilingHeightFt?: number;
+  ceilingExposure: CeilingExposure;
+  // Glass per side, with its own SHGC / U-factor / shading when known;
+  // otherwise the insulation preset's window values.
+  windows?: Partial<Record<Facing, WindowGroupInput>>;
+}
+
+// House-wide answers come from the same input the whole-house calc runs
+// on; the rooms replace its floor area and window presets.
+export type RoomHouseInput = Omit<
+  LoadCalcInput,
+  | "sqft"
+  | "windows"
+  | "orientation"
+  | "windowsByFacing"
+  | "windowAreas"
+  | "envelope"
+  | "heating"
+>;
+
+export interface RoomLoadCalcInput extends RoomHouseInput {
+  rooms: RoomInput[];
+}
+
+export interface RoomLoad {
+  name: string;
+  // Glass gain at the room's own peak hour (null when it has no glass).
+  solarBTUH: number;
+  solarPeakHour: number | null;
+  sensibleBTUH: number;
+  latentBTUH: number;
+  totalBTUH: number;
+  supplyCFM: number;
+}
+
+export interface RoomLoadCalcResult extends LoadCalcResult {
+  rooms: RoomLoad[];
+  totalSupplyCFM: number;
+}
+
+function roomHeight(room: RoomInput): number {
+  return room.ceilingHeightFt ?? STORY_HEIGHT_FT;
+}
+
+function roomComponents(
+  room: RoomInput,
+  input: RoomHouseInput
+): EnvelopeComponent[] {
+  const assemblies = presetAssemblies(input.insulation);
+
+  const windowComponents = FACINGS.flatMap((facing): EnvelopeComponent[] => {
+    const group = room.windows?.[facing];
+    if (!group || group.areaSqFt <= 0) return [];
+    return [
+      {
+        kind: "window",
+        label: `${room.name} ${facing} windows`,
+        areaSqFt: group.areaSqFt,
+        uFactor: group.uFactor ?? assemblies.windowU,
+        shgc: group.shgc ?? assemblies.windowSHGC,
+        facing,
+        overhangDepthFt: group.overhangDepthFt,
+        windowHeightFt: group.windowHeightFt,
+        exteriorShading: group.exteriorShading,
+      },
+    ];
+  });
+  const windowArea = windowComponents.reduce((sum, c) => sum + c.areaSqFt, 0);
+
+  const components: EnvelopeComponent[] = [
+    {
+      kind: "wall",
+      label: `${room.name} walls`,
+      areaSqFt: Math.max(
+        room.exteriorWallLengthFt * roomHeight(room) - windowArea,
+        0
+      ),
+      rValue: presetWallR(input.insulation, input.siding),
+    },
+    ...windowComponents,
+  ];
+  if (room.ceilingExposure !== "conditioned") {
+    components.push({
+      kind: "ceiling",
+      label: `${room.name} ceiling`,
+      areaSqFt: room.floorAreaSqFt,
+      rValue: assemblies.ceilingR,
+      adjacency: room.ceilingExposure,
+    });
+  }
+  return components;
+}
+
+/**
+ * Room inputs `runRoomLoadCalc` refuses to size, with fields named as in
+ * `RoomLoadCalcInput`. Shared with the job PATCH check so a saved job
+ * always calculates.
+ */
+export function roomInputErrors(rooms: RoomInput[]): FieldError[] {
+  if (rooms.length === 0) {
+    return [{ field: "rooms", message: "at least one room is required" }];
+  }
+  const errors: FieldError[] = [];
+  rooms.forEach((room, i) => {
+    const field = `rooms[${i}]`;
+    if (!(room.floorAreaSqFt > 0)) {
+      errors.push({
+        field: `${field}.floorAreaSqFt`,
+        message: `${room.name}: floor area must be > 0`,
+      });
+    }
+    if (!(room.exteriorWallLengthFt >= 0)) {
+      errors.push({
+        field: `${field}.exteriorWallLengthFt`,
+        message: `${room.name}: exterior wall length must be >= 0`,
+      });
+    }
+    if (!(roomHeight(room) > 0)) {
+      errors.push({
+        field: `${field}.ceilingHeightFt`,
+        message: `${room.name}: ceiling height must be > 0`,
+      });
+    }
+  });
+  return errors;
+}
+
+/**
+ * Room-by-room version of the Manual-J-lite calc, on the same helpers
+ * as `runLoadCalc`. Walls, ceilings and glass are per room, each room's
+ * glass at its own peak hour; the house total keeps the block load at
+ * the whole-house peak, so the rooms can add up to more than the house.
+ * House-wide gains are spread: infiltration by exterior wall area,
+ * ventilation, internal gains and latent by floor area, duct gain by
+ * sensible load. Supply airflow is split by room sensible share so
+ * installers can lay out registers.
+ */
+export function runRoomLoadCalc(input: RoomLoadCalcInput): RoomLoadCalcResult {
+  const notes: string[] = [];
+
+  const {
+    rooms,
+    stories,
+    insulation,
+    designDeltaT,
+    indoorRH,
+    ducts,
+    ductsInAtticOrCrawl,
+    grainsDifference,
+    elevationFt = 0,
+    occupants,
+    bedrooms,
+    specialLoads,
+    airLeakage,
+    ventilation,
+    ventilationCFM = 0,
+  } = input;
+
+  const [inputError] = roomInputErrors(rooms);
+  if (inputError) {
+    throw new Error(inputError.message);
+  }
+
+  const totalFloorArea = rooms.reduce((sum, r) => sum + r.floorAreaSqFt, 0);
+  const floorShares = rooms.map((r) => r.floorAreaSqFt / totalFloorArea);
+
+  // 1) Envelope per room. Computed together for the house's block load;
+  //    each room's glass is then taken at the room's own peak hour
+  const perRoom = rooms.map((room) => roomComponents(room, input));
+  const envelopeLoads = computeCoolingEnvelope(perRoom.flat(), designDeltaT);
+  if (envelopeLoads.solar && envelopeLoads.solar.blockBTUH > 0) {
+    notes.push(describeSolarGain(envelopeLoads.solar));
+  }
+
+  let lineIndex = 0;
+  const roomEnvelope = perRoom.map((components) => {
+    const lines = envelopeLoads.lines.slice(
+      lineIndex,
+      lineIndex + components.length
+    );
+    lineIndex += components.length;
+
+    const byComponent = components.map(componentSolarByHour);
+    const solarByHour = DESIGN_HOURS.map((_, h) =>
+      byComponent.reduce((sum, gains) => sum + gains[h], 0)
+    );
+    const solarBTUH = Math.max(...solarByHour);
+    return {
+      conductionBTUH: lines.reduce((sum, l) => sum + l.conductionBTUH, 0),
+      solarBTUH,
+      solarPeakHour:
+        solarBTUH > 0 ? DESIGN_HOURS[solarByHour.indexOf(solarBTUH)] : null,
+    };
+  });
+
+  const housePeakHour = envelopeLoads.solar?.peakHour ?? null;
+  const offPeak = rooms.flatMap((room, i) => {
+    const hour = roomEnvelope[i].solarPeakHour;
+    return hour !== null && hour !== housePeakHour
+      ? [`${room.name} (${formatSolarHour(hour)})`]
+      : [];
+  });
+  if (offPeak.length > 0) {
+    notes.push(
+      `Rooms sized at their own solar peak, not the house's: ${offPeak.join(", ")}.`
+    );
+  }
+
+  rooms.forEach((room, i) => {
+    const glass = perRoom[i]
+      .filter((c) => c.kind === "window")
+      .reduce((sum, c) => sum + c.areaSqFt, 0);
+    if (glass > room.exteriorWallLengthFt * roomHeight(room)) {
+      notes.push(
+        `${room.name}: window area exceeds exterior wall area, check inputs.`
+      );
+    }
+  });
+
+  // 2) Infiltration, spread by exterior wall area (where the air gets in)
+  const volume = rooms.reduce(
+    (sum, r) => sum + r.floorAreaSqFt * roomHeight(r),
+    0
+  );
+  const infiltration = estimateCoolingInfiltration(
+    airLeakage,
+    volume,
+    stories,
+    insulation
+  );
+  if (infiltration.note) notes.push(infiltration.note);
+  const infiltrationBTUH = 1.08 * infiltration.cfm * designDeltaT;
+  const wallAreas = rooms.map((r) => r.exteriorWallLengthFt * roomHeight(r));
+  const totalWallArea = wallAreas.reduce((sum, a) => sum + a, 0);
+  const wallShares = wallAreas.map((a, i) =>
+    totalWallArea > 0 ? a / totalWallArea : floorShares[i]
+  );
+
+  // 3) Mechanical ventilation and internal gains, by floor area
+  const ventilationSystem = resolveVentilation(ventilation, ventilationCFM);
+  const ventilationAir = ventilationFlows(ventilationSystem, infiltration.cfm);
+  const ventilationBTUH = 1.08 * ventilationAir.sensibleCFM * designDeltaT;
+  if (ventilationSystem) {
+    notes.push(`Mechanical ventilation: ${describeVentilation(ventilationSystem)}.`);
+  }
+
+  const internalGains = computeInternalGains({
+    sqft: totalFloorArea,
+    occupants,
+    bedrooms,
+    specialLoads,
+  });
+  notes.push(describeInternalGains(internalGains));
+
+  const roomSensible = rooms.map(
+    (_, i) =>
+      roomEnvelope[i].conductionBTUH +
+      roomEnvelope[i].solarBTUH +
+      infiltrationBTUH * wallShares[i] +
+      (ventilationBTUH + internalGains.sensibleBTUH) * floorShares[i]
+  );
+
+  // 4) Duct gain is a whole-house load; each room carries its share by
+  //    sensible load (the air it needs runs through the same ducts).
+  //    The house sensible uses the block envelope load instead
+  const roomSensibleTotal = roomSensible.reduce((sum, s) => sum + s, 0);
+  const ductSystem = resolveDuctSystem(ducts, ductsInAtticOrCrawl);
+  const ductGain = computeDuctLoad(ductSystem, {
+    sqft: totalFloorArea,
+    stories,
+    season: "cooling",
+    outdoorF: INDOOR_COOLING_SETPOINT_F + designDeltaT,
+    indoorF: INDOOR_COOLING_SETPOINT_F,
+  });
+  if (ductGain.totalBTUH > 0) {
+    notes.push(
+      `Ducts (${describeDuctSystem(ductSystem)}): ${ductGain.totalBTUH} BTU/h gain spread across rooms by sensible load.`
+    );
+  }
+  const roomSensibleWithDucts = roomSensible.map((s) =>
+    roomSensibleTotal > 0 ? s + ductGain.totalBTUH * (s / roomSensibleTotal) : s
+  );
+  const roomSensibleWithDuctsTotal = roomSensibleWithDucts.reduce(
+    (sum, s) => sum + s,
+    0
+  );
+  const sensibleBTUH =
+    envelopeLoads.conductionBTUH +
+    envelopeLoads.solarBTUH +
+    infiltrationBTUH +
+    ventilationBTUH +
+    internalGains.sensibleBTUH +
+    ductGain.totalBTUH;
+
+  // 5) Latent (outdoor air, people, household moisture), by floor area
+  const latent = computeLatentLoad({
+    grainsDifference:
+      grainsDifference ?? fallbackGrainsDifference(indoorRH, elevationFt),
+    infiltrationCFM: infiltration.cfm,
+    ventilationCFM: ventilationAir.latentCFM,
+    occupants: internalGains.occupants,
+    internalLatentBTUH: internalGains.otherLatentBTUH,
+    elevationFt,
+  });
+  const latentBTUH = latent.totalBTUH;
+
+  // 6) Total and tonnage from the block load; airflow per room by its
+  //    share of the room sensible loads
+  const totalBTUH = sensibleBTUH + latentBTUH;
+  const sensibleHeatRatio =
+    totalBTUH > 0 ? Math.round((sensibleBTUH / totalBTUH) * 100) / 100 : 1;
+  const recommendedTonnage = toRecommendedTonnage(totalBTUH);
+  const totalSupplyCFM = airflowForTonnage(recommendedTonnage);
+
+  const roomLoads: RoomLoad[] = rooms.map((room, i) => {
+    const sensible = roomSensibleWithDucts[i];
+    const roomLatent = latentBTUH * floorShares[i];
+    const share =
+      roomSensibleWithDuctsTotal > 0 ? sensible / roomSensibleWithDuctsTotal : 0;
+    return {
+      name: room.name,
+      solarBTUH: Math.round(roomEnvelope[i].solarBTUH),
+      solarPeakHour: roomEnvelope[i].solarPeakHour,
+      sensibleBTUH: Math.round(sensible),
+      latentBTUH: Math.round(roomLatent),
+      totalBTUH: Math.round(sensible + roomLatent),
+      supplyCFM: Math.round(totalSupplyCFM * share),
+    };
+  });
+
+  notes.push(
+    `House block load is ~${Math.round(
+      totalBTUH
+    )} BTU/h across ${rooms.length} rooms, roughly ${recommendedTonnage.toFixed(
+      2
+    )} tons / ${totalSupplyCFM} CFM.`
+  );
+
+  const sensible: SensibleLoadBreakdown = {
+    conductionBTUH: Math.round(envelopeLoads.conductionBTUH),
+    solarBTUH: Math.round(envelopeLoads.solarBTUH),
+    infiltrationBTUH: Math.round(infiltrationBTUH),
+    ventilationBTUH: Math.round(ventilationBTUH),
+    internalBTUH: Math.round(internalGains.sensibleBTUH),
+    ductConductionBTUH: ductGain.conductionBTUH,
+    ductLeakageBTUH: ductGain.leakageBTUH,
+    ductBTUH: ductGain.totalBTUH,
+  };
+
+  return {
+    sensibleBTUH: Math.round(sensibleBTUH),
+    latentBTUH: Math.round(latentBTUH),
+    totalBTUH: Math.round(totalBTUH),
+    recommendedTonnage,
+    sensibleHeatRatio,
+    sensible,
+    latent,
+    notes,
+    envelope: envelopeLoads,
+    internalGains,
+    rooms: roomLoads,
+    totalSupplyCFM,
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { decodeSerialNumber } from "@/lib/serialDecoder";
+import { processEquipment } from "@/lib/equipmentPipeline";
+import type { EquipmentAnalysis } from "@/lib/intakeSchemas";
+
+describe("decodeSerialNumber", () => {
+  it.each([
+    // brand, serial, year, month, rule
+    ["Trane", "123745N3G1G", 2012, 9, "trane_yyww_2010"],
+    ["American Standard", "509KX1234F", 2005, 3, "trane_yww_2002"],
+    ["Carrier", "2409E12345", 2009, 6, "carrier_wwyy"],
+    ["Bryant", "1516A98765", 2016, 4, "carrier_wwyy"],
+    ["Goodman", "1304123456", 2013, 4, "goodman_yymm"],
+    ["Amana", "0911987654", 2009, 11, "goodman_yymm"],
+    ["Rheem", "W051208765", 2012, 5, "rheem_plant_mmyy"],
+    ["Ruud", "W401813155", 2018, 10, "rheem_plant_mmyy"],
+    ["Lennox", "5810K12345", 2010, 10, "lennox_plant_yy_month_letter"],
+    ["York", "W1J8145382", 2018, 9, "york_plant_y_month_letter_y"],
+    ["Coleman", "W0C5123456", 2005, 3, "york_plant_y_month_letter_y"],
+  ])("%s %s -> %i/%i", (brand, serial, year, month, rule) => {
+    const decoded = decodeSerialNumber(brand, serial);
+    expect(decoded).not.toBeNull();
+    expect(decoded?.year).toBe(year);
+    expect(decoded?.month).toBe(month);
+    expect(decoded?.rule).toBe(rule);
+  });
+
+  it("keeps the week for week-coded serials", () => {
+    expect(decodeSerialNumber("Carrier", "2409E12345")?.week).toBe(24);
+    expect(decodeSerialNumber("Goodman", "1304123456")?.week).toBeNull();
+  });
+
+  it("ignores spaces and dashes", () => {
+    expect(decodeSerialNumber("Goodman", "1304-123 456")?.year).toBe(2013);
+  });
+
+  it("returns null for an unknown brand", () => {
+    expect(decodeSerialNumber("Acme Heating", "1304123456")).toBeNull();
+  });
+
+  it("returns null when no rule matches", () => {
+    expect(decodeSerialNumber("Goodman", "1313123456")).toBeNull();
+    expect(decodeSerialNumber("Lennox", "ABCDEFG")).toBeNull();
+    expect(decodeSerialNumber("Trane", "unknown")).toBeNull();
+  });
+});
+
+describe("serial decode in the equipment pipeline", () => {
+  const labelRead: EquipmentAnalysis = {
+    equipmentType: "furnace",
+    manufacturer: "Goodman",
+    modelNumber: "unknown",
+    serialNumber: "1304123456",
+    manufactureYear: 2016,
+  };
+
+  it("overrides the AI manufacture year and keeps it for the flag", () => {
+    const { equipmentAnalysis, equipmentFlags } = processEquipment(labelRead);
+    expect(equipmentAnalysis?.manufactureYear).toBe(2013);
+    expect(equipmentAnalysis?.manufactureMonth).toBe(4);
+    expect(equipmentAnalysis?.manufactureYearSource).toBe("serial_decode");
+    expect(equipmentAnalysis?.serialDecodeRule).toBe("goodman_yymm");
+    expect(equipmentAnalysis?.aiManufactureYear).toBe(2016);
+    expect(equipmentFlags?.notes.some((n) => n.includes("2016"))).toBe(true);
+  });
+
+  it("keeps the AI year when the serial doesn't decode", () => {
+    const { equipmentAnalysis } = processEquipment({
+      ...labelRead,
+      serialNumber: "XYZ",
+    });
+    expect(equipmentAnalysis?.manufactureYear).toBe(2016);
+    expect(equipmentAnalysis?.manufactureYearSource).toBe("ai");
+    expect(equipmentAnalysis?.serialDecodeRule).toBeNull();
+  });
+
+  it("never overrides a year the tech confirmed", () => {
+    const { equipmentAnalysis } = processEquipment(
+      labelRead,
+      {},
+      { manufactureYear: 2014 }
+    );
+    expect(equipmentAnalysis?.manufactureYear).toBe(2014);
+    expect(equipmentAnalysis?.manufactureYearSource).toBe("user_confirmed");
+  });
+});
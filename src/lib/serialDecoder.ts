@@ -0,0 +1,190 @@
+// src/lib/serialDecoder.ts
+import { BrandFamily, brandFamilyFor } from "@/lib/brands";
+
+export interface SerialDecodeResult {
+  brandFamily: BrandFamily;
+  year: number;
+  month: number | null;
+  week: number | null;
+  rule: string;
+}
+
+interface SerialRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  decode: (m: RegExpMatchArray) => {
+    year: number;
+    month?: number | null;
+    week?: number | null;
+  } | null;
+}
+
+// Month letters used by Lennox and York: A–M, skipping I.
+const MONTH_LETTERS = "ABCDEFGHJKLM";
+
+function twoDigitYear(yy: number): number {
+  const currentYY = new Date().getFullYear() % 100;
+  return yy <= currentYY ? 2000 + yy : 1900 + yy;
+}
+
+function monthFromWeek(week: number): number {
+  return Math.min(12, Math.max(1, Math.ceil(week / 4.345)));
+}
+
+function validWeek(week: number): boolean {
+  return week >= 1 && week <= 53;
+}
+
+function validMonth(month: number): boolean {
+  return month >= 1 && month <= 12;
+}
+
+function monthFromLetter(letter: string): number | null {
+  const index = MONTH_LETTERS.indexOf(letter.toUpperCase());
+  return index === -1 ? null : index + 1;
+}
+
+const RULES: Record<BrandFamily, SerialRule[]> = {
+  trane: [
+    {
+      // e.g. 123745N3G1G -> 2012, week 37
+      id: "trane_yyww_2010",
+      description: "Trane/American Standard 2010+: YYWW…",
+      pattern: /^(\d{2})(\d{2})\d/,
+      decode: (m) => {
+        const yy = Number(m[1]);
+        const week = Number(m[2]);
+        if (yy < 10 || !validWeek(week)) return null;
+        return { year: twoDigitYear(yy), week, month: monthFromWeek(week) };
+      },
+    },
+    {
+      // e.g. 509KX1234F -> 2005, week 09
+      id: "trane_yww_2002",
+      description: "Trane/American Standard 2002–2009: Y WW + letters",
+      pattern: /^(\d)(\d{2})[A-Z]/,
+      decode: (m) => {
+        const y = Number(m[1]);
+        const week = Number(m[2]);
+        if (y < 2 || !validWeek(week)) return null;
+        return { year: 2000 + y, week, month: monthFromWeek(week) };
+      },
+    },
+  ],
+  carrier: [
+    {
+      // e.g. 2409E12345 -> week 24 of 2009
+      id: "carrier_wwyy",
+      description: "Carrier/Bryant/Payne: WWYY + plant letter",
+      pattern: /^(\d{2})(\d{2})[A-Z]\d{5}/,
+      decode: (m) => {
+        const week = Number(m[1]);
+        if (!validWeek(week)) return null;
+        return {
+          year: twoDigitYear(Number(m[2])),
+          week,
+          month: monthFromWeek(week),
+        };
+      },
+    },
+  ],
+  goodman: [
+    {
+      // e.g. 1304123456 -> April 2013
+      id: "goodman_yymm",
+      description: "Goodman/Amana: YYMM + 6 digits",
+      pattern: /^(\d{2})(\d{2})\d{6}/,
+      decode: (m) => {
+        const month = Number(m[2]);
+        if (!validMonth(month)) return null;
+        return { year: twoDigitYear(Number(m[1])), month };
+      },
+    },
+  ],
+  rheem: [
+    {
+      // e.g. W051208765 -> May 2012; W401813155 -> week 40 of 2018
+      id: "rheem_plant_mmyy",
+      description: "Rheem/Ruud: plant letter + MMYY (or WWYY)",
+      pattern: /^[A-Z](\d{2})(\d{2})\d/,
+      decode: (m) => {
+        const first = Number(m[1]);
+        const year = twoDigitYear(Number(m[2]));
+        if (validMonth(first)) return { year, month: first };
+        if (validWeek(first)) {
+          return { year, week: first, month: monthFromWeek(first) };
+        }
+        return null;
+      },
+    },
+  ],
+  lennox: [
+    {
+      // e.g. 5810K12345 -> October 2010 (plant 58)
+      id: "lennox_plant_yy_month_letter",
+      description: "Lennox: 2-digit plant + YY + month letter",
+      pattern: /^\d{2}(\d{2})([A-HJ-M])/,
+      decode: (m) => {
+        const month = monthFromLetter(m[2]);
+        if (!month) return null;
+        return { year: twoDigitYear(Number(m[1])), month };
+      },
+    },
+  ],
+  york: [
+    {
+      // e.g. W1J8145382 -> September 2018 (year digits at 2 and 4)
+      id: "york_plant_y_month_letter_y",
+      description: "York/Coleman/Luxaire 2004+: plant + Y + month letter + Y",
+      pattern: /^[A-Z](\d)([A-HJ-M])(\d)/,
+      decode: (m) => {
+        const month = monthFromLetter(m[2]);
+        if (!month) return null;
+        return { year: twoDigitYear(Number(`${m[1]}${m[3]}`)), month };
+      },
+    },
+  ],
+};
+
+/**
+ * Deterministic manufacture date from a serial number.
+ * Returns null when the brand is unknown or no rule matches; the
+ * result names the rule used so the decode can be audited.
+ */
+export function decodeSerialNumber(
+  manufacturer: string,
+  serialNumber: string
+): SerialDecodeResult | null {
+  const brandFamily = brandFamilyFor(manufacturer);
+  if (!brandFamily) return null;
+
+  const serial = serialNumber.replace(/[\s-]/g, "").toUpperCase();
+  if (!serial || serial === "UNKNOWN") return null;
+
+  const maxYear = new Date().getFullYear();
+
+  for (const rule of RULES[brandFamily]) {
+    const match = serial.match(rule.pattern);
+    if (!match) continue;
+    const decoded = rule.decode(match);
+    if (!decoded || decoded.year > maxYear) continue;
+    return {
+      brandFamily,
+      year: decoded.year,
+      month: decoded.month ?? null,
+      week: decoded.week ?? null,
+      rule: rule.id,
+    };
+  }
+
+  return null;
+}
+
+export function describeSerialRule(ruleId: string): string {
+  for (const rules of Object.values(RULES)) {
+    const rule = rules.find((r) => r.id === ruleId);
+    if (rule) return rule.description;
+  }
+  return ruleId;
+}
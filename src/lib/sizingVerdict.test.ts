@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { computeSizingVerdict } from "@/lib/sizingVerdict";
+import type { LoadCalcResult } from "@/lib/loadCalc";
+import { MAX_COOLING_RATIO, MIN_COOLING_RATIO } from "@/lib/manualS";
+
+// 2 tons of load.
+const LOAD: LoadCalcResult = {
+  sensibleBTUH: 18000,
+  latentBTUH: 6000,
+  totalBTUH: 24000,
+  recommendedTonnage: 2,
+  sensibleHeatRatio: 0.75,
+  latent: {
+    infiltrationBTUH: 6000,
+    ventilationBTUH: 0,
+    occupantBTUH: 0,
+    internalBTUH: 0,
+    totalBTUH: 6000,
+  },
+  notes: [],
+};
+
+function coolingAt(ratio: number) {
+  return computeSizingVerdict({ nominalTonnage: 2 * ratio }, LOAD).cooling;
+}
+
+describe("computeSizingVerdict cooling", () => {
+  it("is right-sized at both Manual S limits", () => {
+    expect(coolingAt(MIN_COOLING_RATIO)?.verdict).toBe("right_sized");
+    expect(coolingAt(MAX_COOLING_RATIO)?.verdict).toBe("right_sized");
+  });
+
+  it("flags capacity just outside the limits", () => {
+    expect(coolingAt(MIN_COOLING_RATIO - 0.01)?.verdict).toBe("undersized");
+    expect(coolingAt(MAX_COOLING_RATIO + 0.01)?.verdict).toBe("oversized");
+  });
+
+  it("describes the difference from the load", () => {
+    const cooling = coolingAt(MIN_COOLING_RATIO);
+    expect(cooling?.percentOfLoad).toBe(95);
+    expect(cooling?.note).toBe(
+      "Existing 1.9 ton system (22800 BTU/h) is 5% below the 24000 BTU/h cooling load: right-sized."
+    );
+    expect(coolingAt(1)?.note).toContain("matches the 24000 BTU/h");
+  });
+
+  it("leads with cooling and falls back to heating", () => {
+    const heated: LoadCalcResult = {
+      ...LOAD,
+      heating: {
+        designDeltaT: 60,
+        conductionBTUH: 30000,
+        infiltrationBTUH: 10000,
+        ventilationBTUH: 0,
+        ductConductionBTUH: 0,
+        ductLeakageBTUH: 0,
+        ductLossBTUH: 0,
+        requiredBTUH: 40000,
+        infiltrationLatentBTUH: 0,
+        ventilationLatentBTUH: 0,
+        notes: [],
+      },
+    };
+    expect(
+      computeSizingVerdict({ nominalTonnage: 3, outputBTUH: 48000 }, heated)
+        .overall
+    ).toBe("oversized");
+    expect(computeSizingVerdict({ outputBTUH: 36000 }, heated).overall).toBe(
+      "undersized"
+    );
+    expect(computeSizingVerdict({}, heated).overall).toBe("unknown");
+  });
+});
@@ -0,0 +1,115 @@
+// src/lib/sizingVerdict.ts
+import type { LoadCalcResult } from "@/lib/loadCalc";
+import {
+  ExistingHeatingEquipment,
+  HeatingEquipmentCheck,
+  checkHeatingEquipment,
+} from "@/lib/heatingLoad";
+import { MAX_COOLING_RATIO, MIN_COOLING_RATIO } from "@/lib/manualS";
+
+export type SizingVerdict = "oversized" | "right_sized" | "undersized";
+
+export interface ExistingSystem extends ExistingHeatingEquipment {
+  nominalTonnage?: number | null;
+}
+
+export interface CoolingSizingCheck {
+  existingTonnage: number;
+  existingBTUH: number;
+  requiredBTUH: number;
+  percentOfLoad: number;
+  verdict: SizingVerdict;
+  note: string;
+}
+
+export interface SystemSizingVerdict {
+  cooling: CoolingSizingCheck | null;
+  heating: HeatingEquipmentCheck[];
+  overall: SizingVerdict | "unknown";
+  summary: string;
+}
+
+function describe(verdict: SizingVerdict): string {
+  return verdict.replace("_", "-");
+}
+
+function checkCooling(
+  nominalTonnage: number,
+  requiredBTUH: number
+): CoolingSizingCheck {
+  const existingBTUH = nominalTonnage * 12000;
+  const ratio = existingBTUH / requiredBTUH;
+  const percentOfLoad = Math.round(ratio * 100);
+
+  let verdict: SizingVerdict = "right_sized";
+  if (ratio < MIN_COOLING_RATIO) verdict = "undersized";
+  else if (ratio > MAX_COOLING_RATIO) verdict = "oversized";
+
+  const diff = percentOfLoad - 100;
+  const diffText =
+    diff === 0 ? "matches" : `is ${Math.abs(diff)}% ${diff > 0 ? "above" : "below"}`;
+
+  return {
+    existingTonnage: nominalTonnage,
+    existingBTUH,
+    requiredBTUH,
+    percentOfLoad,
+    verdict,
+    note: `Existing ${nominalTonnage} ton system (${existingBTUH} BTU/h) ${diffText} the ${requiredBTUH} BTU/h cooling load: ${describe(
+      verdict
+    )}.`,
+  };
+}
+
+/**
+ * Compare the existing equipment against the calculated loads.
+ * Cooling uses nominal tonnage vs. total load (Manual S limits);
+ * heating reuses the furnace / heat strip checks from heatingLoad.ts.
+ */
+export function computeSizingVerdict(
+  equipment: ExistingSystem | null,
+  load: LoadCalcResult | null
+): SystemSizingVerdict {
+  if (!equipment || !load) {
+    return {
+      cooling: null,
+      heating: [],
+      overall: "unknown",
+      summary: "Not enough data to compare existing equipment to the load.",
+    };
+  }
+
+  const cooling =
+    equipment.nominalTonnage && load.totalBTUH > 0
+      ? checkCooling(equipment.nominalTonnage, load.totalBTUH)
+      : null;
+
+  const heating = load.heating
+    ? checkHeatingEquipment(load.heating.requiredBTUH, equipment)
+    : [];
+
+  // Cooling drives the headline when we have it; otherwise the primary
+  // heating source (furnace before strips).
+  const primary = cooling ?? heating[0] ?? null;
+
+  if (!primary) {
+    return {
+      cooling,
+      heating,
+      overall: "unknown",
+      summary:
+        "Existing capacity unknown (no tonnage or furnace output read from the label).",
+    };
+  }
+
+  const parts = [cooling?.note, ...heating.map((h) => h.note)].filter(
+    (p): p is string => Boolean(p)
+  );
+
+  return {
+    cooling,
+    heating,
+    overall: primary.verdict,
+    summary: parts.join(" "),
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { EnvelopeComponent } from "@/lib/envelope";
+import {
+  componentSolarByHour,
+  computeSolarGain,
+  describeSolarGain,
+  DESIGN_HOURS,
+  formatSolarHour,
+  shadingMultiplier,
+} from "@/lib/solarGain";
+
+// 40 sq ft at SHGC 0.5: peaks of 20 × 100 west and 20 × 80 east.
+const WEST: EnvelopeComponent = {
+  kind: "window",
+  areaSqFt: 40,
+  shgc: 0.5,
+  facing: "west",
+};
+const EAST: EnvelopeComponent = { ...WEST, facing: "east" };
+
+describe("computeSolarGain", () => {
+  it("peaks each exposure at its own hour", () => {
+    const solar = computeSolarGain([WEST, EAST]);
+    expect(solar.exposures).toEqual([
+      { exposure: "west", areaSqFt: 40, peakHour: 17, peakBTUH: 2000 },
+      { exposure: "east", areaSqFt: 40, peakHour: 9, peakBTUH: 1600 },
+    ]);
+  });
+
+  it("takes the block load at the whole-house peak hour", () => {
+    const solar = computeSolarGain([WEST, EAST]);
+    // 5 pm: all of the west peak + 27% of the east
+    expect(solar.peakHour).toBe(17);
+    expect(solar.blockBTUH).toBe(2000 + 432);
+    expect(solar.hours.find((h) => h.hour === 9)?.totalBTUH).toBe(1600 + 400);
+    // Less than the two peaks added up
+    expect(solar.blockBTUH).toBeLessThan(3600);
+  });
+
+  it("has no solar load without glass", () => {
+    const solar = computeSolarGain([
+      { kind: "wall", areaSqFt: 400, rValue: 13, facing: "west" },
+      { ...WEST, areaSqFt: 0 },
+    ]);
+    expect(solar.blockBTUH).toBe(0);
+    expect(solar.exposures).toEqual([]);
+    expect(solar.hours).toHaveLength(DESIGN_HOURS.length);
+    expect(solar.hours.every((h) => h.totalBTUH === 0)).toBe(true);
+  });
+});
+
+describe("shadingMultiplier", () => {
+  it("stacks exterior shading with the overhang", () => {
+    // 2 ft over a 5 ft window: 0.4 × 1.5 = 60% shaded, 80% of it direct
+    const south: EnvelopeComponent = {
+      ...WEST,
+      facing: "south",
+      overhangDepthFt: 2,
+      windowHeightFt: 5,
+    };
+    expect(shadingMultiplier(south)).toBeCloseTo(0.52, 6);
+    expect(
+      shadingMultiplier({ ...south, exteriorShading: "partial" })
+    ).toBeCloseTo(0.364, 6);
+    expect(shadingMultiplier({ ...south, facing: "north" })).toBe(1);
+  });
+});
+
+describe("componentSolarByHour", () => {
+  it("gives skylights the highest midday gain", () => {
+    const gains = componentSolarByHour({
+      kind: "skylight",
+      areaSqFt: 10,
+      shgc: 0.5,
+    });
+    expect(Math.max(...gains)).toBe(800);
+    expect(DESIGN_HOURS[gains.indexOf(800)]).toBe(13);
+  });
+});
+
+describe("describeSolarGain", () => {
+  it("names the peak hour and the hottest wall", () => {
+    expect(formatSolarHour(12)).toBe("12 pm");
+    expect(formatSolarHour(9)).toBe("9 am");
+    expect(describeSolarGain(computeSolarGain([WEST, EAST]))).toBe(
+      "Solar: whole-house peak at 5 pm, 2432 BTU/h block load; west glass peaks at 5 pm (2000 BTU/h)."
+    );
+  });
+});
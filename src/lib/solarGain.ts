@@ -0,0 +1,245 @@
+// src/lib/solarGain.ts
+import type { EnvelopeComponent, Facing } from "@/lib/envelope";
+
+// Trees, neighboring buildings, exterior screens.
+export type ExteriorShading = "none" | "partial" | "heavy";
+
+export const EXTERIOR_SHADING_LEVELS: ExteriorShading[] = [
+  "none",
+  "partial",
+  "heavy",
+];
+
+// Where the glass looks: a wall facing, the sky (skylights), or not
+// recorded.
+export type SolarExposure = Facing | "skylight" | "unspecified";
+
+export interface SolarHourGain {
+  // Solar time, 24-hour clock.
+  hour: number;
+  byExposure: Partial<Record<SolarExposure, number>>;
+  totalBTUH: number;
+}
+
+export interface SolarExposurePeak {
+  exposure: SolarExposure;
+  areaSqFt: number;
+  peakHour: number;
+  peakBTUH: number;
+}
+
+export interface SolarGainResult {
+  hours: SolarHourGain[];
+  // Hour the whole house peaks, and its coincident (block) solar load.
+  peakHour: number;
+  blockBTUH: number;
+  // Each exposure's own peak: what a room on that side sees.
+  exposures: SolarExposurePeak[];
+}
+
+// Design-day hours (solar time) the calc walks through.
+export const DESIGN_HOURS = [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20];
+
+// Peak solar cooling load (BTU/h·ft²) through glass with SHGC = 1.
+export const PEAK_SOLAR_BTUH_PER_SQFT: Record<Facing, number> = {
+  north: 30,
+  east: 80,
+  south: 60,
+  west: 100,
+};
+
+const SKYLIGHT_SOLAR_BTUH_PER_SQFT = 160;
+
+// Average when the facing isn't known.
+const UNKNOWN_FACING_SOLAR_BTUH_PER_SQFT = 70;
+
+// Share of each exposure's peak per DESIGN_HOURS entry: a clear July
+// day around 40°N, lagged for the heat the house stores and releases.
+const HOURLY_PROFILE: Record<Exclude<SolarExposure, "unspecified">, number[]> = {
+  north: [0.45, 0.55, 0.65, 0.75, 0.85, 0.9, 0.95, 1, 1, 0.95, 0.9, 0.85, 0.6, 0.3],
+  east: [0.75, 0.95, 1, 0.9, 0.7, 0.5, 0.4, 0.35, 0.32, 0.3, 0.27, 0.22, 0.15, 0.1],
+  south: [0.15, 0.25, 0.4, 0.6, 0.8, 0.95, 1, 0.95, 0.8, 0.6, 0.4, 0.25, 0.15, 0.1],
+  west: [0.1, 0.15, 0.2, 0.25, 0.3, 0.35, 0.45, 0.6, 0.8, 0.95, 1, 0.9, 0.6, 0.3],
+  skylight: [0.3, 0.45, 0.6, 0.75, 0.9, 0.97, 1, 0.97, 0.9, 0.75, 0.6, 0.45, 0.3, 0.15],
+};
+
+const EXTERIOR_SHADING_MULTIPLIER: Record<ExteriorShading, number> = {
+  none: 1,
+  partial: 0.7,
+  heavy: 0.4,
+};
+
+// Share of a window an overhang shades per unit projection factor
+// (depth ÷ window height): the high summer sun makes south overhangs
+// far more effective than east/west ones.
+const OVERHANG_SHADE_PER_PROJECTION: Record<Facing, number> = {
+  north: 0,
+  east: 0.5,
+  south: 1.5,
+  west: 0.5,
+};
+
+// Diffuse sky light still gets under an overhang.
+const OVERHANG_DIRECT_SHARE = 0.8;
+
+const DEFAULT_WINDOW_HEIGHT_FT = 5;
+
+function exposureOf(component: EnvelopeComponent): SolarExposure {
+  if (component.kind === "skylight") return "skylight";
+  return component.facing ?? "unspecified";
+}
+
+function peakPerSqFt(exposure: SolarExposure): number {
+  if (exposure === "skylight") return SKYLIGHT_SOLAR_BTUH_PER_SQFT;
+  if (exposure === "unspecified") return UNKNOWN_FACING_SOLAR_BTUH_PER_SQFT;
+  return PEAK_SOLAR_BTUH_PER_SQFT[exposure];
+}
+
+// Unknown facing: the four walls averaged hour by hour, rescaled to
+// peak at UNKNOWN_FACING_SOLAR_BTUH_PER_SQFT.
+const UNSPECIFIED_PROFILE: number[] = (() => {
+  const averaged = DESIGN_HOURS.map(
+    (_, i) =>
+      (["north", "east", "south", "west"] as const).reduce(
+        (sum, f) => sum + HOURLY_PROFILE[f][i] * PEAK_SOLAR_BTUH_PER_SQFT[f],
+        0
+      ) / 4
+  );
+  const max = Math.max(...averaged);
+  return averaged.map((v) => v / max);
+})();
+
+function profileOf(exposure: SolarExposure): number[] {
+  return exposure === "unspecified"
+    ? UNSPECIFIED_PROFILE
+    : HOURLY_PROFILE[exposure];
+}
+
+/**
+ * What's left of the sun after overhangs and exterior shading
+ * (0–1). Low-e glass is handled by the component's SHGC.
+ */
+export function shadingMultiplier(component: EnvelopeComponent): number {
+  let multiplier = EXTERIOR_SHADING_MULTIPLIER[component.exteriorShading ?? "none"];
+
+  if (component.overhangDepthFt && component.overhangDepthFt > 0 && component.facing) {
+    const height = component.windowHeightFt ?? DEFAULT_WINDOW_HEIGHT_FT;
+    const projection = component.overhangDepthFt / Math.max(height, 1);
+    const shaded = Math.min(
+      projection * OVERHANG_SHADE_PER_PROJECTION[component.facing],
+      1
+    );
+    multiplier *= 1 - shaded * OVERHANG_DIRECT_SHARE;
+  }
+
+  return multiplier;
+}
+
+/**
+ * Solar gain of one piece of glass for every design hour:
+ * area × SHGC × shading × peak × hourly share. Opaque components get
+ * zeros.
+ */
+export function componentSolarByHour(component: EnvelopeComponent): number[] {
+  if (component.kind !== "window" && component.kind !== "skylight") {
+    return DESIGN_HOURS.map(() => 0);
+  }
+  const exposure = exposureOf(component);
+  const peak =
+    component.areaSqFt *
+    (component.shgc ?? 0.5) *
+    shadingMultiplier(component) *
+    peakPerSqFt(exposure);
+  return profileOf(exposure).map((share) => peak * share);
+}
+
+/**
+ * Walks the design day hour by hour: per-exposure gains, the hour the
+ * whole house peaks (block load), and each exposure's own peak hour.
+ */
+export function computeSolarGain(components: EnvelopeComponent[]): SolarGainResult {
+  const byHour = components.map(componentSolarByHour);
+
+  // 1) Sum per exposure for every hour
+  const hours: SolarHourGain[] = DESIGN_HOURS.map((hour, i) => {
+    const byExposure: Partial<Record<SolarExposure, number>> = {};
+    let total = 0;
+    components.forEach((component, c) => {
+      const gain = byHour[c][i];
+      if (gain <= 0) return;
+      const exposure = exposureOf(component);
+      byExposure[exposure] = (byExposure[exposure] ?? 0) + gain;
+      total += gain;
+    });
+    for (const key of Object.keys(byExposure) as SolarExposure[]) {
+      byExposure[key] = Math.round(byExposure[key] ?? 0);
+    }
+    return { hour, byExposure, totalBTUH: Math.round(total) };
+  });
+
+  // 2) Whole-house peak hour = block load
+  const peak = hours.reduce(
+    (best, h) => (h.totalBTUH > best.totalBTUH ? h : best),
+    hours[0]
+  );
+
+  // 3) Each exposure's own peak
+  const areas = new Map<SolarExposure, number>();
+  components.forEach((component, c) => {
+    if (byHour[c].every((g) => g === 0)) return;
+    const exposure = exposureOf(component);
+    areas.set(exposure, (areas.get(exposure) ?? 0) + component.areaSqFt);
+  });
+  const exposures: SolarExposurePeak[] = [...areas.entries()].map(
+    ([exposure, areaSqFt]) => {
+      const best = hours.reduce(
+        (top, h) =>
+          (h.byExposure[exposure] ?? 0) > (top.byExposure[exposure] ?? 0) ? h : top,
+        hours[0]
+      );
+      return {
+        exposure,
+        areaSqFt: Math.round(areaSqFt),
+        peakHour: best.hour,
+        peakBTUH: best.byExposure[exposure] ?? 0,
+      };
+    }
+  );
+
+  return {
+    hours,
+    peakHour: peak.hour,
+    blockBTUH: peak.totalBTUH,
+    exposures,
+  };
+}
+
+/**
+ * "4 pm" style label for a solar-time hour.
+ */
+export function formatSolarHour(hour: number): string {
+  const suffix = hour >= 12 ? "pm" : "am";
+  const h = hour % 12 === 0 ? 12 : hour % 12;
+  return `${h} ${suffix}`;
+}
+
+/**
+ * Calc note: whole-house peak hour and block load, plus the hottest
+ * wall's own peak.
+ */
+export function describeSolarGain(solar: SolarGainResult): string {
+  const hottest = solar.exposures
+    .filter((e) => e.exposure !== "skylight" && e.exposure !== "unspecified")
+    .reduce<SolarExposurePeak | null>(
+      (top, e) => (top === null || e.peakBTUH > top.peakBTUH ? e : top),
+      null
+    );
+  const side = hottest
+    ? `; ${hottest.exposure} glass peaks at ${formatSolarHour(
+        hottest.peakHour
+      )} (${hottest.peakBTUH} BTU/h)`
+    : "";
+  return `Solar: whole-house peak at ${formatSolarHour(solar.peakHour)}, ${
+    solar.blockBTUH
+  } BTU/h block load${side}.`;
+}
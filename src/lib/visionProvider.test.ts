@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getVisionProvider, VisionConfigError } from "@/lib/visionProvider";
+
+describe("getVisionProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the mock only when asked for or under tests", () => {
+    vi.stubEnv("OPENAI_API_KEY", "");
+    expect(getVisionProvider("mock").name).toBe("mock");
+    vi.stubEnv("NODE_ENV", "test");
+    expect(getVisionProvider(undefined).name).toBe("mock");
+  });
+
+  it("uses OpenAI when a key is configured", () => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    expect(getVisionProvider(undefined).name).toBe("openai");
+    expect(getVisionProvider("openai").name).toBe("openai");
+  });
+
+  it("fails without a key instead of falling back to the mock", () => {
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("NODE_ENV", "production");
+    expect(() => getVisionProvider(undefined)).toThrow(VisionConfigError);
+    expect(() => getVisionProvider(undefined)).toThrow(
+      "No vision provider configured"
+    );
+    expect(() => getVisionProvider("openai")).toThrow(VisionConfigError);
+  });
+
+  it("rejects an unknown provider name", () => {
+    expect(() => getVisionProvider("gemini")).toThrow(
+      'Unknown VISION_PROVIDER "gemini"; use openai or mock.'
+    );
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    expect(() => getVisionProvider("constructor")).toThrow(
+      'Unknown VISION_PROVIDER "constructor"'
+    );
+  });
+});
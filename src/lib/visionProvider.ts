@@ -0,0 +1,73 @@
+// src/lib/visionProvider.ts
+import { hasOpenAIKey } from "@/lib/openai";
+import { openaiVisionProvider } from "@/lib/openaiVision";
+import { mockVisionProvider } from "@/lib/mockVision";
+
+export interface VisionImage {
+  fileName: string;
+  mimeType: string;
+  base64: string;
+}
+
+// One exterior photo per call; the route merges the per-side answers.
+export interface ExteriorVisionInput {
+  address: string;
+  image: VisionImage;
+  // Set on the retry after an answer failed schema validation.
+  repairPrompt?: string;
+}
+
+export interface EquipmentVisionInput {
+  images: VisionImage[];
+  repairPrompt?: string;
+}
+
+/**
+ * A backend that reads photos for the intake route.
+ * Both calls return the model's raw text (expected to be JSON); parsing
+ * and validation stay in the route so every backend is held to the
+ * same rules.
+ */
+export interface VisionProvider {
+  name: string;
+  analyzeExterior(input: ExteriorVisionInput): Promise<string | null>;
+  analyzeEquipmentLabel(input: EquipmentVisionInput): Promise<string | null>;
+}
+
+export type VisionProviderName = "openai" | "mock";
+
+const PROVIDERS: Record<VisionProviderName, VisionProvider> = {
+  openai: openaiVisionProvider,
+  mock: mockVisionProvider,
+};
+
+export class VisionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VisionConfigError";
+  }
+}
+
+/**
+ * VISION_PROVIDER picks the backend explicitly; otherwise OpenAI is used
+ * when a key is configured. The offline mock only answers when asked
+ * for (or under tests): a missing key is a configuration error, not a
+ * quiet switch to fixture answers.
+ */
+export function getVisionProvider(
+  name: string | undefined = process.env.VISION_PROVIDER
+): VisionProvider {
+  if (name && !Object.hasOwn(PROVIDERS, name)) {
+    throw new VisionConfigError(
+      `Unknown VISION_PROVIDER "${name}"; use ${Object.keys(PROVIDERS).join(
+        " or "
+      )}.`
+    );
+  }
+  if (name === "mock") return PROVIDERS.mock;
+  if (hasOpenAIKey()) return PROVIDERS.openai;
+  if (!name && process.env.NODE_ENV === "test") return PROVIDERS.mock;
+  throw new VisionConfigError(
+    "No vision provider configured: set OPENAI_API_KEY in .env.local, or VISION_PROVIDER=mock for the offline fixtures."
+  );
+}
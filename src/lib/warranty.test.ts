@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeWarrantyInfo,
+  describeComponentWarranty,
+  WarrantyEquipment,
+} from "@/lib/warranty";
+
+// Trane: 10 yr parts / compressor registered, 5 yr unregistered.
+const CONDENSER: WarrantyEquipment = {
+  equipmentType: "ac_condenser",
+  manufacturer: "Trane",
+  manufactureYear: 2017,
+  manufactureMonth: 11,
+};
+const INSTALLED = { installYear: 2018, installMonth: 6 };
+const NOW = new Date(2026, 0, 15);
+
+describe("computeWarrantyInfo", () => {
+  it("uses the registered terms for a registered system", () => {
+    const status = computeWarrantyInfo(
+      CONDENSER,
+      { ...INSTALLED, registered: true },
+      NOW
+    ).likelyWarrantyStatus;
+    expect(status.overall).toBe("likely_in_parts_warranty");
+    expect(status.startBasis).toBe("install");
+    expect(status.components).toEqual([
+      { component: "parts", termYears: 10, status: "in_warranty", expires: "2028-06" },
+      {
+        component: "compressor",
+        termYears: 10,
+        status: "in_warranty",
+        expires: "2028-06",
+      },
+    ]);
+  });
+
+  it("uses the base terms for an unregistered system", () => {
+    const status = computeWarrantyInfo(
+      CONDENSER,
+      { ...INSTALLED, registered: false },
+      NOW
+    ).likelyWarrantyStatus;
+    expect(status.overall).toBe("likely_out_of_warranty");
+    expect(status.components[0]).toMatchObject({
+      termYears: 5,
+      status: "expired",
+      expires: "2023-06",
+    });
+    expect(status.notes).toContain(
+      "Not registered; base (unregistered) terms apply."
+    );
+  });
+
+  it("leaves the headline open when registration is unknown", () => {
+    const status = computeWarrantyInfo(CONDENSER, INSTALLED, NOW)
+      .likelyWarrantyStatus;
+    expect(status.overall).toBe("unknown");
+    expect(status.components[0]).toMatchObject({
+      status: "expired",
+      expires: "2023-06",
+      expiresIfRegistered: "2028-06",
+    });
+    expect(status.notes).toContain(
+      "Parts coverage depends on registration: runs to 2028-06 if registered within 60 days of install."
+    );
+    expect(describeComponentWarranty(status.components[0])).toBe(
+      "Parts: expired 2023-06 (5 yr; 2028-06 if registered)"
+    );
+  });
+
+  it("dates coverage from manufacture without an install date", () => {
+    const info = computeWarrantyInfo(CONDENSER, { registered: true }, NOW);
+    expect(info.approxAgeYears).toBe(9);
+    expect(info.likelyWarrantyStatus.startBasis).toBe("manufacture");
+    expect(info.likelyWarrantyStatus.startDate).toBe("2017-11");
+    expect(info.likelyWarrantyStatus.components[0].expires).toBe("2027-11");
+  });
+
+  it("can't estimate without a date", () => {
+    const status = computeWarrantyInfo(
+      { ...CONDENSER, manufactureYear: null },
+      { registered: true },
+      NOW
+    ).likelyWarrantyStatus;
+    expect(status.overall).toBe("unknown");
+    expect(status.components).toEqual([]);
+  });
+});
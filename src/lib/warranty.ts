@@ -0,0 +1,263 @@
+// src/lib/warranty.ts
+import warrantyRules from "@/data/warrantyRules.json";
+import { BrandFamily, brandFamilyFor } from "@/lib/brands";
+
+export type WarrantyComponent = "parts" | "compressor" | "heat_exchanger";
+
+export type ComponentWarrantyStatus = "in_warranty" | "expired" | "unknown";
+
+export type OverallWarrantyStatus =
+  | "likely_in_parts_warranty"
+  | "likely_out_of_warranty"
+  | "unknown";
+
+/**
+ * One brand's base limited-warranty terms from src/data/warrantyRules.json.
+ * A null term means a limited lifetime warranty (original owner).
+ */
+export interface WarrantyTerm {
+  registeredYears: number | null;
+  unregisteredYears: number | null;
+}
+
+export interface BrandWarrantyRule {
+  registrationWindowDays: number;
+  components: Record<WarrantyComponent, WarrantyTerm>;
+}
+
+export interface ComponentWarranty {
+  component: WarrantyComponent;
+  termYears: number | null; // null = limited lifetime
+  status: ComponentWarrantyStatus;
+  expires: string | null; // "YYYY-MM"
+  expiresIfRegistered?: string | null; // only when registration is unknown
+}
+
+export interface WarrantyStatus {
+  overall: OverallWarrantyStatus;
+  brandFamily: BrandFamily | null;
+  registered: boolean | null;
+  startBasis: "install" | "manufacture" | "unknown";
+  startDate: string | null; // "YYYY-MM"
+  components: ComponentWarranty[];
+  notes: string[];
+}
+
+export interface WarrantyInfo {
+  manufactureYear: number | null;
+  approxAgeYears: number | null;
+  likelyWarrantyStatus: WarrantyStatus;
+}
+
+export interface WarrantyEquipment {
+  equipmentType: string;
+  manufacturer: string;
+  manufactureYear?: number | null;
+  manufactureMonth?: number | null;
+}
+
+export interface WarrantyContext {
+  // Registered with the manufacturer inside the registration window?
+  registered?: boolean | null;
+  installYear?: number | null;
+  installMonth?: number | null;
+}
+
+const RULES = warrantyRules as Record<
+  BrandFamily | "default",
+  BrandWarrantyRule
+>;
+
+// Which warranties apply to each equipment type.
+const COMPONENTS_BY_TYPE: Record<string, WarrantyComponent[]> = {
+  furnace: ["parts", "heat_exchanger"],
+  ac_condenser: ["parts", "compressor"],
+  heat_pump: ["parts", "compressor"],
+  package_unit: ["parts", "compressor", "heat_exchanger"],
+  air_handler: ["parts"],
+};
+
+// Used when only the year is known.
+const ASSUMED_MONTH = 6;
+
+const COMPONENT_LABELS: Record<WarrantyComponent, string> = {
+  parts: "Parts",
+  compressor: "Compressor",
+  heat_exchanger: "Heat exchanger",
+};
+
+function toMonthIndex(year: number, month: number): number {
+  return year * 12 + (month - 1);
+}
+
+function formatMonthIndex(index: number): string {
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+function expiryIndex(start: number, years: number | null): number | null {
+  return years === null ? null : start + years * 12;
+}
+
+export function componentLabel(component: WarrantyComponent): string {
+  return COMPONENT_LABELS[component];
+}
+
+/**
+ * Base terms for a brand, falling back to the default rule.
+ */
+export function brandWarrantyRule(manufacturer: string): BrandWarrantyRule {
+  return RULES[brandFamilyFor(manufacturer) ?? "default"];
+}
+
+/**
+ * Per-component warranty status from the brand's base terms.
+ * Coverage runs from the install date when known, otherwise from the
+ * manufacture date (what manufacturers use without proof of install).
+ * With registration unknown, status uses the unregistered terms and
+ * also reports the registered expiry.
+ */
+export function computeWarrantyInfo(
+  equipment: WarrantyEquipment | null,
+  context: WarrantyContext = {},
+  now: Date = new Date()
+): WarrantyInfo {
+  const registered = context.registered ?? null;
+  const brandFamily = equipment ? brandFamilyFor(equipment.manufacturer) : null;
+  const notes: string[] = [];
+
+  const manufactureYear = equipment?.manufactureYear ?? null;
+  const approxAgeYears =
+    manufactureYear !== null ? now.getFullYear() - manufactureYear : null;
+
+  // 1) Coverage start date
+  let startBasis: WarrantyStatus["startBasis"] = "unknown";
+  let start: number | null = null;
+
+  if (context.installYear) {
+    startBasis = "install";
+    start = toMonthIndex(
+      context.installYear,
+      context.installMonth ?? ASSUMED_MONTH
+    );
+  } else if (manufactureYear) {
+    startBasis = "manufacture";
+    start = toMonthIndex(
+      manufactureYear,
+      equipment?.manufactureMonth ?? ASSUMED_MONTH
+    );
+    notes.push(
+      "Install date not provided; coverage dated from manufacture, so actual expiry may be later."
+    );
+  }
+
+  if (!equipment || start === null) {
+    return {
+      manufactureYear,
+      approxAgeYears,
+      likelyWarrantyStatus: {
+        overall: "unknown",
+        brandFamily,
+        registered,
+        startBasis,
+        startDate: null,
+        components: [],
+        notes: ["No manufacture or install date, so warranty can't be estimated."],
+      },
+    };
+  }
+
+  // 2) Brand terms
+  const rule = RULES[brandFamily ?? "default"];
+  if (!brandFamily) {
+    notes.push("Brand not recognized; using typical base warranty terms.");
+  }
+
+  const componentList =
+    COMPONENTS_BY_TYPE[equipment.equipmentType] ?? (["parts"] as WarrantyComponent[]);
+  const nowIndex = toMonthIndex(now.getFullYear(), now.getMonth() + 1);
+
+  // 3) Per-component status
+  const components = componentList.map((component): ComponentWarranty => {
+    const term = rule.components[component];
+    const termYears =
+      registered === true ? term.registeredYears : term.unregisteredYears;
+    const expires = expiryIndex(start, termYears);
+
+    const result: ComponentWarranty = {
+      component,
+      termYears,
+      status: expires === null || expires > nowIndex ? "in_warranty" : "expired",
+      expires: expires === null ? null : formatMonthIndex(expires),
+    };
+
+    if (registered === null && term.registeredYears !== term.unregisteredYears) {
+      const registeredExpiry = expiryIndex(start, term.registeredYears);
+      result.expiresIfRegistered =
+        registeredExpiry === null ? null : formatMonthIndex(registeredExpiry);
+    }
+
+    return result;
+  });
+
+  // 4) Headline follows parts coverage
+  const parts = components.find((c) => c.component === "parts") ?? null;
+  let overall: OverallWarrantyStatus = "unknown";
+
+  if (parts) {
+    if (parts.status === "in_warranty") {
+      overall = "likely_in_parts_warranty";
+    } else if (registered === null && parts.expiresIfRegistered !== undefined) {
+      const registeredExpiry = parts.expiresIfRegistered;
+      if (registeredExpiry === null || registeredExpiry > formatMonthIndex(nowIndex)) {
+        notes.push(
+          `Parts coverage depends on registration: runs to ${
+            registeredExpiry ?? "lifetime"
+          } if registered within ${rule.registrationWindowDays} days of install.`
+        );
+      } else {
+        overall = "likely_out_of_warranty";
+      }
+    } else {
+      overall = "likely_out_of_warranty";
+    }
+  }
+
+  if (registered === false) {
+    notes.push("Not registered; base (unregistered) terms apply.");
+  }
+
+  return {
+    manufactureYear,
+    approxAgeYears,
+    likelyWarrantyStatus: {
+      overall,
+      brandFamily,
+      registered,
+      startBasis,
+      startDate: formatMonthIndex(start),
+      components,
+      notes,
+    },
+  };
+}
+
+/**
+ * One-line summary per component, e.g.
+ * "Compressor: in warranty until 2031-06 (10 yr)".
+ */
+export function describeComponentWarranty(c: ComponentWarranty): string {
+  const term = c.termYears === null ? "lifetime" : `${c.termYears} yr`;
+  const status =
+    c.status === "in_warranty"
+      ? `in warranty${c.expires ? ` until ${c.expires}` : ""}`
+      : c.status === "expired"
+      ? `expired ${c.expires}`
+      : "unknown";
+  const registeredText =
+    c.expiresIfRegistered !== undefined
+      ? `; ${c.expiresIfRegistered ?? "lifetime"} if registered`
+      : "";
+  return `${componentLabel(c.component)}: ${status} (${term}${registeredText})`;
+}